@@ -11,7 +11,10 @@ import Home from "@/pages/home";
 import Dogs from "@/pages/dogs";
 import Health from "@/pages/health";
 import Appointments from "@/pages/appointments";
+import ClinicPage from "@/pages/clinic";
+import Chat from "@/pages/chat";
 import Subscribe from "@/pages/subscribe";
+import SharedHealth from "@/pages/shared-health";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -27,6 +30,8 @@ function Router() {
 
   return (
     <Switch>
+      {/* Share links work whether or not the viewer is signed in */}
+      <Route path="/share/:token" component={SharedHealth} />
       {!isAuthenticated ? (
         <Route path="/" component={Landing} />
       ) : (
@@ -35,6 +40,8 @@ function Router() {
           <Route path="/dogs" component={Dogs} />
           <Route path="/health" component={Health} />
           <Route path="/appointments" component={Appointments} />
+          <Route path="/chat" component={Chat} />
+          <Route path="/clinics/:id" component={ClinicPage} />
           <Route path="/subscribe" component={Subscribe} />
         </>
       )}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Brain, Camera, Lightbulb } from "lucide-react";
+import type { AiAnalysis, AiAnalysisKind, HealthRecord } from "@shared/schema";
+import type { PhotoAnalysis, PhotoAnalysisInput, SymptomAnalysis } from "@shared/aiTypes";
+
+interface AiAnalysisHistoryProps {
+  record: HealthRecord;
+}
+
+const urgencyVariant = (level: string) =>
+  level === "emergency" || level === "high" || level === "severe"
+    ? "destructive"
+    : level === "same-day" || level === "medium" || level === "moderate"
+      ? "default"
+      : "secondary";
+
+function BulletList({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground">{label}:</p>
+      <ul className="text-sm space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-start gap-2">
+            <span className="text-primary">•</span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SymptomResult({ result }: { result: SymptomAnalysis }) {
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Badge variant={urgencyVariant(result.severity)}>{result.severity.toUpperCase()}</Badge>
+        <Badge variant={urgencyVariant(result.urgency)}>{result.urgency.replace("-", " ").toUpperCase()}</Badge>
+        {result.vetRequired && <Badge variant="outline">VET REQUIRED</Badge>}
+      </div>
+      {result.emergencyWarning && (
+        <p className="text-sm text-red-700 dark:text-red-300">{result.emergencyWarning}</p>
+      )}
+      <p className="text-sm text-muted-foreground">{result.insights}</p>
+      <BulletList label="Recommendations" items={result.recommendations} />
+    </>
+  );
+}
+
+function PhotoResult({ result, request }: { result: PhotoAnalysis; request: PhotoAnalysisInput }) {
+  return (
+    <>
+      <div className="flex items-start gap-3">
+        {request.photoUrl && (
+          <img src={request.photoUrl} alt="Analyzed photo" className="w-16 h-16 object-cover rounded border" />
+        )}
+        <div className="space-y-2">
+          <Badge variant={urgencyVariant(result.urgencyLevel)}>{result.urgencyLevel.toUpperCase()} URGENCY</Badge>
+          <p className="text-sm">{result.findings}</p>
+        </div>
+      </div>
+      <BulletList label="Concerns" items={result.concerns} />
+      <BulletList label="Suggested Actions" items={result.suggestedActions} />
+    </>
+  );
+}
+
+// Every AI analysis saved for a health entry, with buttons to analyze it again
+export default function AiAnalysisHistory({ record }: AiAnalysisHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const photoUrls = record.photoUrls ?? [];
+  const [chosenPhotoUrl, setChosenPhotoUrl] = useState<string>();
+  // Falls back to the first photo if the chosen one has since been removed
+  const photoUrl = chosenPhotoUrl && photoUrls.includes(chosenPhotoUrl) ? chosenPhotoUrl : photoUrls[0];
+  const { toast } = useToast();
+  const queryKey = ["/api/health-records", record.id, "ai-analyses"];
+
+  const { data: analyses = [], isLoading } = useQuery<AiAnalysis[]>({
+    queryKey,
+    enabled: isOpen,
+  });
+
+  const rerunMutation = useMutation({
+    mutationFn: async (kind: AiAnalysisKind) => {
+      await apiRequest("POST", `/api/health-records/${record.id}/ai-analyses`, {
+        kind,
+        photoUrl: kind === "photo" ? photoUrl : undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "AI Analysis Complete",
+        description: "The new result has been added to this entry's history.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Analysis Failed",
+        description: "Unable to analyze this entry. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runningKind = rerunMutation.isPending ? rerunMutation.variables : undefined;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="AI analyses" data-testid={`button-ai-history-${record.id}`}>
+          <Brain className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>AI Analyses: {record.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rerunMutation.mutate("symptom")}
+            disabled={rerunMutation.isPending}
+            data-testid="button-rerun-symptom-analysis"
+          >
+            <Lightbulb className="h-4 w-4 mr-1" />
+            {runningKind === "symptom" ? "Analyzing..." : "Analyze Symptoms Again"}
+          </Button>
+          {photoUrls.length > 0 && (
+            <>
+              {photoUrls.length > 1 && (
+                <Select value={photoUrl} onValueChange={setChosenPhotoUrl}>
+                  <SelectTrigger className="w-[130px] h-9" data-testid="select-rerun-photo">
+                    <SelectValue placeholder="Photo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {photoUrls.map((url, index) => (
+                      <SelectItem key={url} value={url}>
+                        Photo {index + 1}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rerunMutation.mutate("photo")}
+                disabled={rerunMutation.isPending || !photoUrl}
+                data-testid="button-rerun-photo-analysis"
+              >
+                <Camera className="h-4 w-4 mr-1" />
+                {runningKind === "photo" ? "Analyzing..." : "Analyze Photo Again"}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading analyses...</p>
+        ) : analyses.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-ai-analyses">
+            No AI analyses have been saved for this entry yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {analyses.map((analysis) => (
+              <div
+                key={analysis.id}
+                className="border rounded-md p-3 space-y-2"
+                data-testid={`ai-analysis-${analysis.id}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {analysis.kind === "photo" ? "Photo Analysis" : "Symptom Analysis"}
+                  </span>
+                  <span className="text-xs text-muted-foreground text-right">
+                    {new Date(analysis.createdAt!).toLocaleString()}
+                    <br />
+                    {analysis.provider} • {analysis.model} • prompt v{analysis.promptVersion}
+                  </span>
+                </div>
+                {analysis.kind === "photo" ? (
+                  <PhotoResult
+                    result={analysis.result as PhotoAnalysis}
+                    request={analysis.request as PhotoAnalysisInput}
+                  />
+                ) : (
+                  <SymptomResult result={analysis.result as SymptomAnalysis} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
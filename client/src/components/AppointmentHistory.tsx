@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Appointment, Dog } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+interface AppointmentHistoryPage {
+  appointments: Appointment[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+interface AppointmentHistoryProps {
+  dogs: Dog[];
+  onEditOutcome: (appointment: Appointment & { dogName: string }) => void;
+  onFollowUp: (appointment: Appointment & { dogName: string }) => void;
+}
+
+// A dog's past visits, newest first, with outcome details
+export default function AppointmentHistory({ dogs, onEditOutcome, onFollowUp }: AppointmentHistoryProps) {
+  const [dogId, setDogId] = useState<string>(dogs[0]?.id ?? "");
+  const [status, setStatus] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  // Fixed at mount so the query key doesn't change on every render
+  const [now] = useState(() => new Date().toISOString());
+
+  useEffect(() => {
+    if (!dogId && dogs.length > 0) setDogId(dogs[0].id);
+  }, [dogs, dogId]);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== "all") params.set("status", status);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  params.set("to", to ? new Date(`${to}T23:59:59`).toISOString() : now);
+
+  const { data, isLoading } = useQuery<AppointmentHistoryPage>({
+    queryKey: ["/api/dogs", dogId, `appointments?${params}`],
+    enabled: !!dogId,
+    throwOnError: false,
+  });
+
+  const dogName = dogs.find((dog) => dog.id === dogId)?.name ?? "";
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label>Dog</Label>
+          <Select value={dogId} onValueChange={(value) => updateFilter(() => setDogId(value))}>
+            <SelectTrigger data-testid="select-history-dog">
+              <SelectValue placeholder="Select a dog" />
+            </SelectTrigger>
+            <SelectContent>
+              {dogs.map((dog) => (
+                <SelectItem key={dog.id} value={dog.id}>
+                  {dog.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={(value) => updateFilter(() => setStatus(value))}>
+            <SelectTrigger data-testid="select-history-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="scheduled">Awaiting outcome</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-from">From</Label>
+          <Input
+            id="history-from"
+            type="date"
+            value={from}
+            onChange={(event) => updateFilter(() => setFrom(event.target.value))}
+            data-testid="input-history-from"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-to">To</Label>
+          <Input
+            id="history-to"
+            type="date"
+            value={to}
+            onChange={(event) => updateFilter(() => setTo(event.target.value))}
+            data-testid="input-history-to"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="animate-pulse h-16 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      ) : !data || data.appointments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <i className="fas fa-history text-4xl mb-4 opacity-50"></i>
+          <p>No past visits match these filters</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {data.appointments.map((appointment) => (
+            <div key={appointment.id} className="p-4 border border-border rounded-lg" data-testid={`row-history-${appointment.id}`}>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h4 className="font-semibold text-foreground capitalize">{appointment.appointmentType}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(appointment.scheduledAt).toLocaleDateString()} • {appointment.vetName} • {appointment.clinicName}
+                  </p>
+                </div>
+                <Badge
+                  variant={appointment.status === "cancelled" ? "destructive" : appointment.status === "completed" ? "default" : "outline"}
+                  className="capitalize"
+                >
+                  {appointment.status === "scheduled" ? "Awaiting outcome" : appointment.status}
+                </Badge>
+              </div>
+              {(appointment.diagnosis || appointment.outcomeNotes || appointment.cost || appointment.documentUrls?.length) && (
+                <div className="mt-3 space-y-1 text-sm">
+                  {appointment.diagnosis && (
+                    <p><span className="font-medium text-foreground">Diagnosis:</span> {appointment.diagnosis}</p>
+                  )}
+                  {appointment.outcomeNotes && <p className="text-muted-foreground whitespace-pre-line">{appointment.outcomeNotes}</p>}
+                  <div className="flex items-center space-x-4 text-muted-foreground">
+                    {appointment.cost && <span><i className="fas fa-receipt mr-1"></i>{Number(appointment.cost).toFixed(2)}</span>}
+                    {appointment.documentUrls?.map((url, index) => (
+                      <a key={url} href={url} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                        <i className="fas fa-file-alt mr-1"></i>
+                        Document {index + 1}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end space-x-2 mt-3">
+                {appointment.status !== "cancelled" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEditOutcome({ ...appointment, dogName })}
+                    data-testid={`button-history-outcome-${appointment.id}`}
+                  >
+                    {appointment.status === "completed" ? "Edit outcome" : "Add outcome"}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onFollowUp({ ...appointment, dogName })}
+                  data-testid={`button-history-follow-up-${appointment.id}`}
+                >
+                  <i className="fas fa-redo mr-2"></i>
+                  Follow-up
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && data.total > data.pageSize && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            Page {page} of {totalPages} • {data.total} visits
+          </span>
+          <div className="space-x-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)} data-testid="button-history-prev">
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)} data-testid="button-history-next">
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
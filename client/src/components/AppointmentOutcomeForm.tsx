@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import type { Appointment } from "@shared/schema";
+
+const outcomeFormSchema = z.object({
+  diagnosis: z.string().optional(),
+  outcomeNotes: z.string().optional(),
+  cost: z.string().optional().refine((value) => !value || Number(value) >= 0, "Cost can't be negative"),
+  followUpAt: z.string().optional(),
+});
+
+type OutcomeFormValues = z.infer<typeof outcomeFormSchema>;
+
+interface AppointmentOutcomeFormProps {
+  appointment: (Appointment & { dogName: string }) | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Records how a visit went; opening it for a completed appointment edits the outcome
+export default function AppointmentOutcomeForm({ appointment, onOpenChange }: AppointmentOutcomeFormProps) {
+  const { toast } = useToast();
+  const [documentUrls, setDocumentUrls] = useState<string[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+
+  const form = useForm<OutcomeFormValues>({
+    resolver: zodResolver(outcomeFormSchema),
+    defaultValues: { diagnosis: "", outcomeNotes: "", cost: "", followUpAt: "" },
+  });
+
+  useEffect(() => {
+    if (!appointment) return;
+    form.reset({
+      diagnosis: appointment.diagnosis ?? "",
+      outcomeNotes: appointment.outcomeNotes ?? "",
+      cost: appointment.cost ?? "",
+      followUpAt: "",
+    });
+    setDocumentUrls(appointment.documentUrls ?? []);
+    setSelectedFiles([]);
+  }, [appointment, form]);
+
+  const uploadDocuments = async (appointmentId: string, files: File[]): Promise<string[]> => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("documents", file));
+    const response = await fetch(`/api/appointments/${appointmentId}/documents`, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error("Failed to upload documents");
+    }
+    const data = await response.json();
+    return data.documentUrls;
+  };
+
+  const completeMutation = useMutation({
+    mutationFn: async (data: OutcomeFormValues) => {
+      if (!appointment) return;
+      const uploaded = selectedFiles.length > 0 ? await uploadDocuments(appointment.id, selectedFiles) : [];
+      await apiRequest("POST", `/api/appointments/${appointment.id}/complete`, {
+        diagnosis: data.diagnosis || null,
+        outcomeNotes: data.outcomeNotes || null,
+        cost: data.cost ? Number(data.cost) : null,
+        documentUrls: [...documentUrls, ...uploaded],
+      });
+      if (data.followUpAt) {
+        await apiRequest("POST", `/api/appointments/${appointment.id}/follow-up`, {
+          scheduledAt: new Date(data.followUpAt).toISOString(),
+        });
+      }
+    },
+    onSuccess: (_result, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", appointment?.dogId] });
+      onOpenChange(false);
+      toast({
+        title: "Visit Recorded",
+        description: data.followUpAt
+          ? "The outcome was saved and a follow-up has been scheduled."
+          : "The outcome was saved to the dog's health records.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save the visit outcome. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            {appointment?.status === "completed" ? "Edit Visit Outcome" : "Complete Appointment"}
+          </DialogTitle>
+        </DialogHeader>
+        {appointment && (
+          <p className="text-sm text-muted-foreground">
+            {appointment.dogName} • {appointment.appointmentType} at {appointment.clinicName} on{" "}
+            {new Date(appointment.scheduledAt).toLocaleDateString()}
+          </p>
+        )}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => completeMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="diagnosis"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Diagnosis</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What did the vet find?" {...field} data-testid="input-outcome-diagnosis" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="outcomeNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vet Notes</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Treatment, advice, next steps..." {...field} data-testid="input-outcome-notes" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cost</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} data-testid="input-outcome-cost" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Documents</label>
+              {documentUrls.length > 0 && (
+                <ul className="space-y-1">
+                  {documentUrls.map((url, index) => (
+                    <li key={url} className="flex items-center justify-between text-sm">
+                      <a href={url} target="_blank" rel="noreferrer" className="text-primary hover:underline truncate">
+                        <i className="fas fa-file-alt mr-2"></i>
+                        Document {index + 1}
+                      </a>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDocumentUrls(documentUrls.filter((existing) => existing !== url))}
+                        data-testid={`button-remove-document-${index}`}
+                      >
+                        <i className="fas fa-times"></i>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Input
+                type="file"
+                multiple
+                accept="application/pdf,image/*"
+                onChange={(event) => setSelectedFiles(Array.from(event.target.files ?? []).slice(0, 5))}
+                data-testid="input-outcome-documents"
+              />
+              <p className="text-xs text-muted-foreground">Invoices, lab results or discharge notes (PDF or photo, up to 5).</p>
+            </div>
+            <FormField
+              control={form.control}
+              name="followUpAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule Follow-up</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} data-testid="input-outcome-follow-up" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={completeMutation.isPending} data-testid="button-save-outcome">
+                {completeMutation.isPending ? "Saving..." : "Save Outcome"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
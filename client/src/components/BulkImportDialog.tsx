@@ -0,0 +1,287 @@
+import { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import type { BulkImportPreview, BulkImportType, Dog } from "@shared/schema";
+
+interface BulkImportDialogProps {
+  dog: Dog;
+}
+
+const importTypes: { type: BulkImportType; label: string; exportFile: string }[] = [
+  { type: "weight", label: "Weight log", exportFile: "weight-records" },
+  { type: "vaccination", label: "Vaccination history", exportFile: "vaccinations" },
+  { type: "health_record", label: "Health records", exportFile: "health-records" },
+];
+
+// Queries showing each record type, refreshed after an import
+const affectedQueries: Record<BulkImportType, string[]> = {
+  weight: ["weight-records", "timeline"],
+  vaccination: ["vaccinations", "vaccination-status", "timeline"],
+  health_record: ["health-records", "timeline"],
+};
+
+// Select items can't have an empty value
+const UNMAPPED = "__none__";
+// Large files still import in full; the preview table just stops here
+const MAX_PREVIEW_ROWS = 500;
+
+// Upload a CSV or export JSON, map columns, review a dry run, then import it all at once
+export default function BulkImportDialog({ dog }: BulkImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [type, setType] = useState<BulkImportType>("weight");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BulkImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const submit = async (
+    source: File,
+    mapping: Record<string, string | null> | undefined,
+    dryRun: boolean,
+  ): Promise<(BulkImportPreview & { imported?: number }) | null> => {
+    const formData = new FormData();
+    formData.append("file", source);
+    formData.append("type", type);
+    formData.append("timezone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+    formData.append("dryRun", String(dryRun));
+    if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+    setIsWorking(true);
+    try {
+      const response = await fetch(`/api/dogs/${dog.id}/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const body = await response.json().catch(() => null);
+      if (body?.preview) setPreview(body.preview);
+      if (!response.ok) {
+        throw new Error(body?.message || "Unable to read that file.");
+      }
+      return body;
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unable to read that file.",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (selected: File) => {
+    setFile(selected);
+    const result = await submit(selected, undefined, true);
+    setPreview(result);
+  };
+
+  const changeMapping = async (field: string, column: string) => {
+    if (!file || !preview) return;
+    const mapping = { ...preview.mapping, [field]: column === UNMAPPED ? null : column };
+    const result = await submit(file, mapping, true);
+    if (result) setPreview(result);
+  };
+
+  const runImport = async () => {
+    if (!file || !preview) return;
+    const result = await submit(file, preview.mapping, false);
+    if (!result) return;
+    for (const key of affectedQueries[type]) {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dog.id, key] });
+    }
+    toast({
+      title: "Import Complete",
+      description: `Imported ${result.imported ?? 0} record${result.imported === 1 ? "" : "s"}${
+        result.duplicateCount ? `, skipped ${result.duplicateCount} already recorded` : ""
+      }.`,
+    });
+    reset();
+    setIsOpen(false);
+  };
+
+  const exportFile = importTypes.find((option) => option.type === type)!.exportFile;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" data-testid={`button-bulk-import-${dog.name}`}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import Records
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {dog.name}'s Records</DialogTitle>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload a spreadsheet saved as CSV, or json/{exportFile}.json from a Pawsitive data export. Nothing is saved
+              until you've reviewed every row.
+            </p>
+            <div className="space-y-1">
+              <Label>What are you importing?</Label>
+              <Select value={type} onValueChange={(value) => setType(value as BulkImportType)}>
+                <SelectTrigger data-testid="select-import-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {importTypes.map((option) => (
+                    <SelectItem key={option.type} value={option.type}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const selected = event.target.files?.[0];
+                if (selected) handleFile(selected);
+              }}
+              data-testid="input-import-file"
+            />
+            <Button
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+              data-testid="button-choose-import-file"
+            >
+              {isWorking ? "Reading..." : "Choose File"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {file?.name} • {preview.validCount} ready
+              {preview.duplicateCount > 0 && ` • ${preview.duplicateCount} already recorded (skipped)`}
+              {preview.invalidCount > 0 && (
+                <span className="text-destructive"> • {preview.invalidCount} with errors</span>
+              )}
+            </p>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {preview.fields.map((field) => (
+                <div key={field.field} className="space-y-1">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={preview.mapping[field.field] ?? UNMAPPED}
+                    onValueChange={(column) => changeMapping(field.field, column)}
+                    disabled={isWorking}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field.field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                      {preview.columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="max-h-[40vh] overflow-y-auto border border-border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    {preview.fields.map((field) => (
+                      <TableHead key={field.field}>{field.label}</TableHead>
+                    ))}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+                    <TableRow key={row.row} data-testid={`import-row-${row.row}`}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      {preview.fields.map((field) => (
+                        <TableCell key={field.field} className="max-w-[160px] truncate">
+                          {row.values[field.field] ?? ""}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        {row.status === "invalid" ? (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <Badge variant={row.status === "valid" ? "default" : "secondary"}>
+                            {row.status === "valid" ? "Ready" : "Already recorded"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.rows.length > MAX_PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_PREVIEW_ROWS} of {preview.rows.length} rows.
+              </p>
+            )}
+            {preview.invalidCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Fix the {preview.invalidCount} row{preview.invalidCount === 1 ? "" : "s"} with errors in your file, or
+                change the columns above, then try again. Nothing is imported until every row is valid.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={reset} disabled={isWorking} data-testid="button-import-start-over">
+                Choose Another File
+              </Button>
+              <Button
+                onClick={runImport}
+                disabled={isWorking || preview.invalidCount > 0 || preview.validCount === 0}
+                data-testid="button-confirm-import"
+              >
+                {isWorking
+                  ? "Importing..."
+                  : `Import ${preview.validCount} Record${preview.validCount === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
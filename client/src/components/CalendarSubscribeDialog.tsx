@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalendarFeed {
+  token: string;
+}
+
+export default function CalendarSubscribeDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: feed } = useQuery<CalendarFeed>({
+    queryKey: ["/api/calendar/feed"],
+    enabled: isOpen,
+  });
+
+  const feedUrl = feed ? `${window.location.origin}/api/calendar/${feed.token}.ics` : "";
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed/rotate");
+      return (await response.json()) as CalendarFeed;
+    },
+    onSuccess: (rotated) => {
+      queryClient.setQueryData(["/api/calendar/feed"], rotated);
+      toast({
+        title: "Link Reset",
+        description: "The old calendar link no longer works. Subscribe again with the new one.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset the calendar link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Copied", description: "Paste the link into your calendar app." });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-subscribe-calendar">
+          <i className="fas fa-calendar-alt mr-2"></i>
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe to Calendar</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Add this link to Google Calendar ("From URL") or Apple Calendar ("New Calendar Subscription") to see
+            appointments, vaccination due dates and medication courses for all your dogs.
+          </p>
+          <div className="flex space-x-2">
+            <Input readOnly value={feedUrl} placeholder="Loading..." data-testid="input-calendar-feed-url" />
+            <Button onClick={copyFeedUrl} disabled={!feed} data-testid="button-copy-calendar-feed">
+              <i className="fas fa-copy"></i>
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Anyone with this link can see your dogs' schedule. Reset it if it's been shared by mistake.
+          </p>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              data-testid="button-rotate-calendar-feed"
+            >
+              {rotateMutation.isPending ? "Resetting..." : "Reset Link"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
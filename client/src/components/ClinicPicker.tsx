@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { Clinic, Veterinarian } from "@shared/schema";
+
+export type ClinicWithVeterinarians = Clinic & { veterinarians: Veterinarian[] };
+
+interface ClinicPickerProps {
+  clinics: ClinicWithVeterinarians[];
+  selectedClinicId?: string;
+  onSelect: (clinic: ClinicWithVeterinarians) => void;
+}
+
+// Searchable list of the user's clinic directory for filling in appointment details
+export default function ClinicPicker({ clinics, selectedClinicId, onSelect }: ClinicPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={clinics.length === 0}
+          data-testid="button-pick-clinic"
+        >
+          <i className="fas fa-hospital mr-2"></i>
+          Saved clinics
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search clinics..." data-testid="input-search-clinics" />
+          <CommandList>
+            <CommandEmpty>No matching clinics.</CommandEmpty>
+            <CommandGroup>
+              {clinics.map((clinic) => (
+                <CommandItem
+                  key={clinic.id}
+                  value={`${clinic.name} ${clinic.address ?? ""} ${clinic.id}`}
+                  onSelect={() => {
+                    onSelect(clinic);
+                    setIsOpen(false);
+                  }}
+                  data-testid={`option-clinic-${clinic.id}`}
+                >
+                  <i className={`fas fa-check mr-2 ${clinic.id === selectedClinicId ? "opacity-100" : "opacity-0"}`}></i>
+                  <div className="min-w-0">
+                    <p className="truncate">{clinic.name}</p>
+                    {clinic.address && <p className="text-xs text-muted-foreground truncate">{clinic.address}</p>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
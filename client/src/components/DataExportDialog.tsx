@@ -0,0 +1,122 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DataExportStatus } from "@shared/schema";
+
+interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null;
+}
+
+interface DataExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Checked this often while the export is being built
+const POLL_INTERVAL_MS = 3000;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Opening the dialog starts an export if there isn't one to show
+export default function DataExportDialog({ open, onOpenChange }: DataExportDialogProps) {
+  const { toast } = useToast();
+
+  const { data: dataExport, isLoading } = useQuery<DataExportSummary>({
+    queryKey: ["/api/export"],
+    enabled: open,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return open && (status === "pending" || status === "running") ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const restartMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/export");
+      return (await response.json()) as DataExportSummary;
+    },
+    onSuccess: (started) => {
+      queryClient.setQueryData(["/api/export"], started);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start a new export. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inProgress = dataExport?.status === "pending" || dataExport?.status === "running";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Export Your Data</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          A ZIP file with all your dogs, health records, medications and dose logs, appointments, weights and
+          vaccinations as JSON and CSV, plus every photo and document you've uploaded.
+        </p>
+
+        <div className="rounded-lg border border-border p-4 text-sm" data-testid="status-data-export">
+          {isLoading || !dataExport ? (
+            <p className="text-muted-foreground">Checking for an export...</p>
+          ) : inProgress ? (
+            <p className="text-muted-foreground">
+              <i className="fas fa-spinner fa-spin mr-2"></i>
+              Preparing your export. This can take a few minutes if you have lots of photos; you can close this
+              window and come back.
+            </p>
+          ) : dataExport.status === "ready" ? (
+            <div className="space-y-1">
+              <p className="text-foreground">
+                <i className="fas fa-check-circle text-chart-3 mr-2"></i>
+                Ready{dataExport.sizeBytes ? ` • ${formatSize(dataExport.sizeBytes)}` : ""}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Created {new Date(dataExport.completedAt ?? dataExport.createdAt).toLocaleString()}
+                {dataExport.expiresAt && ` • available until ${new Date(dataExport.expiresAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-destructive">
+              <i className="fas fa-exclamation-circle mr-2"></i>
+              The export failed. Please start a new one.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => restartMutation.mutate()}
+            disabled={!dataExport || inProgress || restartMutation.isPending}
+            data-testid="button-restart-export"
+          >
+            Start New Export
+          </Button>
+          {dataExport?.downloadUrl && (
+            <Button asChild data-testid="button-download-export">
+              <a href={dataExport.downloadUrl} download>
+                <i className="fas fa-download mr-2"></i>
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
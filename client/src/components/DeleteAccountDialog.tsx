@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExportData: () => void;
+}
+
+const CONFIRMATION = "DELETE";
+
+// Permanent account erasure, confirmed by typing DELETE
+export default function DeleteAccountDialog({ open, onOpenChange, onExportData }: DeleteAccountDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const { toast } = useToast();
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/account", { confirmation });
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      window.location.href = "/";
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete your account. Nothing was removed; please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) setConfirmation("");
+      }}
+    >
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Delete Your Account</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 text-sm text-muted-foreground">
+          <p>
+            This permanently deletes your account, your dogs and all of their health records, medications,
+            appointments, photos and documents. People you've shared a dog with lose access to it, and your Premium
+            subscription is cancelled.
+          </p>
+          <p>
+            This can't be undone.{" "}
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={onExportData}
+              data-testid="button-export-before-delete"
+            >
+              Export your data
+            </button>{" "}
+            first if you want a copy.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="delete-account-confirmation">Type {CONFIRMATION} to confirm</Label>
+          <Input
+            id="delete-account-confirmation"
+            value={confirmation}
+            autoComplete="off"
+            onChange={(event) => setConfirmation(event.target.value)}
+            data-testid="input-delete-account-confirmation"
+          />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-delete-account">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => deleteAccountMutation.mutate()}
+            disabled={confirmation !== CONFIRMATION || deleteAccountMutation.isPending}
+            data-testid="button-confirm-delete-account"
+          >
+            {deleteAccountMutation.isPending ? "Deleting..." : "Delete Account"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
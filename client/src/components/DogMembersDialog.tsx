@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Users } from "lucide-react";
+import type { Dog, DogInvite, DogRole } from "@shared/schema";
+
+interface HouseholdPerson {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: DogRole;
+}
+
+interface DogMembersResponse {
+  owner: HouseholdPerson | null;
+  members: HouseholdPerson[];
+  invites: DogInvite[];
+}
+
+interface DogMembersDialogProps {
+  dog: Dog & { role?: DogRole };
+}
+
+const roleLabels: Record<DogRole, string> = {
+  owner: "Owner",
+  caregiver: "Caregiver",
+  viewer: "Viewer",
+};
+
+const displayName = (person: HouseholdPerson) =>
+  [person.firstName, person.lastName].filter(Boolean).join(" ") || person.email || "Unknown user";
+
+export default function DogMembersDialog({ dog }: DogMembersDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<DogRole>("caregiver");
+  const isOwner = (dog.role ?? "owner") === "owner";
+  const membersKey = ["/api/dogs", dog.id, "members"];
+
+  const { data } = useQuery<DogMembersResponse>({
+    queryKey: membersKey,
+    enabled: isOpen,
+    throwOnError: false,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/dogs/${dog.id}/invites`, {
+        email: inviteEmail || undefined,
+        role: inviteRole,
+      });
+      return (await response.json()) as DogInvite;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setInviteEmail("");
+      toast({
+        title: "Invite Created",
+        description: `Share code ${invite.code} to give access to ${dog.name}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create invite. Please check the email and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      await apiRequest("DELETE", `/api/dogs/${dog.id}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: DogRole }) => {
+      await apiRequest("PUT", `/api/dogs/${dog.id}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/dogs/${dog.id}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      if (userId === user?.id) {
+        // Leaving the household removes the dog from our list
+        setIsOpen(false);
+        queryClient.invalidateQueries({ queryKey: ["/api/dogs"] });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove member. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" data-testid={`button-share-${dog.name}`}>
+          <Users className="h-4 w-4 mr-1" />
+          Household
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{dog.name}'s Household</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {data?.owner && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-foreground">{displayName(data.owner)}</span>
+              <Badge>{roleLabels.owner}</Badge>
+            </div>
+          )}
+          {data?.members.map((member) => (
+            <div
+              key={member.userId}
+              className="flex items-center justify-between text-sm"
+              data-testid={`member-${member.userId}`}
+            >
+              <span className="text-foreground">{displayName(member)}</span>
+              <div className="flex items-center space-x-2">
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as DogRole })}
+                  >
+                    <SelectTrigger className="h-8 w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">Owner</SelectItem>
+                      <SelectItem value="caregiver">Caregiver</SelectItem>
+                      <SelectItem value="viewer">Viewer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+                )}
+                {(isOwner || member.userId === user?.id) && (
+                  <DeleteConfirmButton
+                    title={member.userId === user?.id ? "Leave household?" : "Remove member?"}
+                    description={
+                      member.userId === user?.id
+                        ? `You will lose access to ${dog.name}'s records.`
+                        : `${displayName(member)} will lose access to ${dog.name}'s records.`
+                    }
+                    onConfirm={() => removeMemberMutation.mutate(member.userId)}
+                    isPending={removeMemberMutation.isPending}
+                    testId={`button-remove-member-${member.userId}`}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-foreground">Invite someone</h4>
+              <div className="flex space-x-2">
+                <Input
+                  type="email"
+                  placeholder="Email (optional)"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  data-testid="input-invite-email"
+                />
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as DogRole)}>
+                  <SelectTrigger className="w-[140px]" data-testid="select-invite-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="owner">Owner</SelectItem>
+                    <SelectItem value="caregiver">Caregiver</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave the email blank to create a code anyone can redeem. Caregivers can log doses and records; viewers can only look.
+              </p>
+              <Button
+                onClick={() => createInviteMutation.mutate()}
+                disabled={createInviteMutation.isPending}
+                className="w-full"
+                data-testid="button-create-invite"
+              >
+                {createInviteMutation.isPending ? "Creating..." : "Create Invite"}
+              </Button>
+
+              {data && data.invites.length > 0 && (
+                <div className="space-y-2">
+                  <h5 className="text-xs font-medium text-muted-foreground">Pending invites</h5>
+                  {data.invites.map((invite) => (
+                    <div key={invite.id} className="flex items-center justify-between text-sm">
+                      <div>
+                        <span className="font-mono font-semibold text-foreground">{invite.code}</span>
+                        <span className="text-muted-foreground ml-2">
+                          {invite.email || "Anyone with the code"} • {roleLabels[invite.role as DogRole]}
+                        </span>
+                      </div>
+                      <DeleteConfirmButton
+                        title="Revoke invite?"
+                        description={`Code ${invite.code} will stop working.`}
+                        onConfirm={() => revokeInviteMutation.mutate(invite.id)}
+                        isPending={revokeInviteMutation.isPending}
+                        testId={`button-revoke-invite-${invite.id}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,10 +2,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { Heart, Calendar, Stethoscope } from "lucide-react";
-import type { Dog } from "@shared/schema";
+import DogMembersDialog from "@/components/DogMembersDialog";
+import HealthReportDialog from "@/components/HealthReportDialog";
+import ShareLinksDialog from "@/components/ShareLinksDialog";
+import BulkImportDialog from "@/components/BulkImportDialog";
+import type { Dog, DogRole } from "@shared/schema";
 
 interface DogProfileCardProps {
-  dog: Dog;
+  dog: Dog & { role?: DogRole };
 }
 
 export default function DogProfileCard({ dog }: DogProfileCardProps) {
@@ -61,6 +65,14 @@ export default function DogProfileCard({ dog }: DogProfileCardProps) {
             </h3>
             <p className="text-gray-600 dark:text-gray-300">{dog.breed}</p>
           </div>
+          {dog.role && dog.role !== "owner" && (
+            <span
+              className="ml-auto text-xs font-medium px-2 py-1 rounded-full bg-primary/10 text-primary capitalize"
+              data-testid={`text-shared-role-${dog.name}`}
+            >
+              Shared • {dog.role}
+            </span>
+          )}
         </div>
         
         <div className="space-y-2 text-sm">
@@ -98,6 +110,26 @@ export default function DogProfileCard({ dog }: DogProfileCardProps) {
             </Button>
           </Link>
         </div>
+        <div className="mt-2 flex space-x-2">
+          <div className="flex-1">
+            <DogMembersDialog dog={dog} />
+          </div>
+          <div className="flex-1">
+            <HealthReportDialog dog={dog} />
+          </div>
+        </div>
+        {dog.role !== "viewer" && (
+          <div className="mt-2 flex space-x-2">
+            <div className="flex-1">
+              <BulkImportDialog dog={dog} />
+            </div>
+            {(!dog.role || dog.role === "owner") && (
+              <div className="flex-1">
+                <ShareLinksDialog dog={dog} />
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,58 +1,83 @@
 import { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Separator } from "@/components/ui/separator";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { AlertTriangle, Brain, Clock, Heart, Zap } from "lucide-react";
-import type { EmergencyAssessment } from "@shared/aiTypes";
-
-const emergencySymptoms = [
-  "Difficulty breathing or gasping",
-  "Seizures or convulsions",
-  "Loss of consciousness or collapse",
-  "Severe bleeding",
-  "Suspected poisoning",
-  "Severe vomiting or diarrhea",
-  "Unable to urinate or defecate",
-  "Signs of severe pain",
-  "Pale or blue gums",
-  "Severe lethargy or unresponsiveness"
-];
+import { Brain } from "lucide-react";
+import type { Dog } from "@shared/schema";
+import { triageSymptoms, type TriageAssessment, type TriageSymptomGroup } from "@shared/triage";
+import { toxinCatalog } from "@shared/toxins";
+import ToxinCalculator from "@/components/ToxinCalculator";
 
-const urgentSymptoms = [
-  "Persistent vomiting",
-  "Loss of appetite for 24+ hours",
-  "Unusual lethargy",
-  "Limping or difficulty moving",
-  "Excessive thirst or urination",
-  "Coughing or breathing changes",
-  "Skin irritation or rash",
-  "Behavioral changes",
-  "Eye discharge or redness",
-  "Minor wounds or cuts"
+const symptomGroups: {
+  group: TriageSymptomGroup;
+  title: string;
+  icon: string;
+  color: string;
+  button: string;
+  selected: string;
+}[] = [
+  {
+    group: "emergency",
+    title: "Emergency Symptoms",
+    icon: "fa-exclamation-triangle",
+    color: "text-destructive",
+    button: "border-destructive/20 hover:bg-destructive/10",
+    selected: "border-destructive bg-destructive/10",
+  },
+  {
+    group: "urgent",
+    title: "Urgent Symptoms",
+    icon: "fa-clock",
+    color: "text-chart-4",
+    button: "border-chart-4/20 hover:bg-chart-4/10",
+    selected: "border-chart-4 bg-chart-4/10",
+  },
+  {
+    group: "routine",
+    title: "Routine Concerns",
+    icon: "fa-calendar-alt",
+    color: "text-accent",
+    button: "border-accent/20 hover:bg-accent/10",
+    selected: "border-accent bg-accent/10",
+  },
 ];
 
-const routineSymptoms = [
-  "Minor scratching",
-  "Slight change in appetite",
-  "Mild lethargy after exercise",
-  "Minor behavioral quirks",
-  "Regular grooming needs",
-  "Routine check-up items",
-  "Preventive care questions",
-  "Diet or exercise concerns",
-  "Training or behavior tips",
-  "General wellness questions"
-];
+const recommendations = {
+  emergency: {
+    title: "🚨 Emergency Care Needed",
+    description: "Contact your emergency vet or animal hospital immediately. These symptoms require immediate professional attention.",
+    action: null,
+    color: "text-destructive",
+    bgColor: "bg-destructive/10",
+  },
+  urgent: {
+    title: "⚠️ Urgent Veterinary Care",
+    description: "Get your dog seen by a vet soon. Monitor symptoms closely and go to an emergency vet if they get worse.",
+    action: "Schedule Vet Visit",
+    color: "text-chart-4",
+    bgColor: "bg-chart-4/10",
+  },
+  "non-urgent": {
+    title: "📅 Routine Care",
+    description: "These concerns can typically wait for your next routine appointment. Continue monitoring and note any changes.",
+    action: "Schedule Routine Visit",
+    color: "text-accent",
+    bgColor: "bg-accent/10",
+  },
+} as const;
 
-// Using shared type from aiTypes.ts
+const emptyVitalSigns = { breathing: "", heartRate: "", temperature: "", gumColor: "" };
 
+// Red-flag rules on the server give an answer straight away; the AI can then
+// be asked for a second opinion, which may only ever raise the urgency
 export default function EmergencyAssessment() {
   const [isOpen, setIsOpen] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
@@ -61,113 +86,90 @@ export default function EmergencyAssessment() {
   const [duration, setDuration] = useState<string>("");
   const [severity, setSeverity] = useState<string>("");
   const [currentBehavior, setCurrentBehavior] = useState<string>("");
-  const [vitalSigns, setVitalSigns] = useState({
-    breathing: "",
-    heartRate: "",
-    temperature: "",
-    gumColor: "",
-  });
-  const [aiAssessment, setAiAssessment] = useState<EmergencyAssessment | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [vitalSigns, setVitalSigns] = useState(emptyVitalSigns);
+  const [result, setResult] = useState<TriageAssessment | null>(null);
+  // The step the toxin calculator goes back to
+  const [toxinReturnStep, setToxinReturnStep] = useState(0);
   const { toast } = useToast();
 
-  // Get user's dogs
-  const { data: dogs = [] } = useQuery({
+  const { data: dogs = [] } = useQuery<Dog[]>({
     queryKey: ["/api/dogs"],
     enabled: isOpen,
   });
 
-  const [assessment, setAssessment] = useState<{
-    symptoms: string[];
-    urgency: "emergency" | "urgent" | "routine" | null;
-  }>({
-    symptoms: [],
-    urgency: null
-  });
-
-  const startAssessment = () => {
-    setIsOpen(true);
-    setCurrentStep(0);
-    setAssessment({ symptoms: [], urgency: null });
-  };
-
-  const handleSymptomCheck = (symptom: string, category: "emergency" | "urgent" | "routine") => {
-    const newSymptoms = [...assessment.symptoms, symptom];
-    let urgency = assessment.urgency;
-    
-    if (category === "emergency" || urgency === null) {
-      urgency = category;
-    } else if (category === "urgent" && urgency === "routine") {
-      urgency = "urgent";
-    }
+  // Set first dog as selected by default
+  if (!selectedDogId && dogs.length > 0) {
+    setSelectedDogId(dogs[0].id);
+  }
 
-    setAssessment({
-      symptoms: newSymptoms,
-      urgency
-    });
-    
-    // Also add to selected symptoms for AI analysis
-    setSelectedSymptoms(prev => [...prev, symptom]);
-    
-    setCurrentStep(2); // Go to results
-  };
+  const assessmentRequest = () => ({
+    dogId: selectedDogId,
+    assessmentData: {
+      symptoms: selectedSymptoms,
+      duration,
+      severity,
+      currentBehavior,
+      vitalSigns: Object.fromEntries(Object.entries(vitalSigns).filter(([_, value]) => value.trim())),
+    },
+  });
 
-  const performAIAssessment = async () => {
-    if (!selectedDogId || selectedSymptoms.length === 0) {
+  const triageMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/emergency/triage", assessmentRequest());
+      return (await response.json()) as TriageAssessment;
+    },
+    onSuccess: (assessment) => {
+      setResult(assessment);
+      setCurrentStep(2);
+    },
+    onError: () => {
       toast({
-        title: "Missing Information",
-        description: "Please select a dog and symptoms before getting AI analysis.",
+        title: "Assessment Failed",
+        description: "Unable to check these symptoms. If you are worried, call your vet now.",
         variant: "destructive",
       });
-      return;
-    }
-
-    setIsAnalyzing(true);
-    try {
-      const assessmentData = {
-        symptoms: selectedSymptoms,
-        duration: duration || "Unknown",
-        severity: severity || "Not specified",
-        currentBehavior: currentBehavior || "Not specified",
-        vitalSigns: Object.entries(vitalSigns)
-          .filter(([_, value]) => value)
-          .reduce((acc, [key, value]) => ({ ...acc, [key]: value }), {}),
-      };
-
-      const response = await apiRequest("POST", "/api/ai/emergency-assessment", {
-        dogId: selectedDogId,
-        assessmentData,
-      });
+    },
+  });
 
-      const result = await response.json();
-      setAiAssessment(result.assessment);
-      setCurrentStep(3); // Go to AI results
-      toast({
-        title: "AI Assessment Complete",
-        description: "Emergency assessment has been analyzed by AI.",
-      });
-    } catch (error) {
-      console.error("AI assessment failed:", error);
+  const aiMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai/emergency-assessment", assessmentRequest());
+      return (await response.json()) as TriageAssessment;
+    },
+    onSuccess: (assessment) => {
+      setResult(assessment);
+      toast(
+        assessment.aiUrgencyLevel === null
+          ? {
+              title: "AI Unavailable",
+              description: "The AI couldn't be reached, so this assessment is based on warning-sign rules only.",
+              variant: "destructive",
+            }
+          : { title: "AI Assessment Complete", description: "The AI's opinion has been added to this assessment." },
+      );
+    },
+    onError: () => {
       toast({
         title: "Assessment Failed",
         description: "Unable to perform AI assessment. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
-    }
+    },
+  });
+
+  const startAssessment = () => {
+    setIsOpen(true);
+    setCurrentStep(0);
   };
 
   const resetAssessment = () => {
     setCurrentStep(0);
-    setAssessment({ symptoms: [], urgency: null });
     setSelectedSymptoms([]);
-    setSelectedDogId("");
     setDuration("");
     setSeverity("");
     setCurrentBehavior("");
-    setVitalSigns({ breathing: "", heartRate: "", temperature: "", gumColor: "" });
-    setAiAssessment(null);
+    setVitalSigns(emptyVitalSigns);
+    setResult(null);
   };
 
   const toggleSymptom = (symptom: string) => {
@@ -178,38 +180,30 @@ export default function EmergencyAssessment() {
     );
   };
 
-  const getRecommendation = () => {
-    switch (assessment.urgency) {
-      case "emergency":
-        return {
-          title: "🚨 Emergency Care Needed",
-          description: "Contact your emergency vet or animal hospital immediately. These symptoms require immediate professional attention.",
-          action: "Call Emergency Vet Now",
-          color: "text-destructive",
-          bgColor: "bg-destructive/10"
-        };
-      case "urgent":
-        return {
-          title: "⚠️ Urgent Veterinary Care",
-          description: "Schedule an appointment with your vet within the next 24-48 hours. Monitor symptoms closely.",
-          action: "Schedule Vet Visit",
-          color: "text-chart-4",
-          bgColor: "bg-chart-4/10"
-        };
-      case "routine":
-        return {
-          title: "📅 Routine Care",
-          description: "These concerns can typically wait for your next routine appointment. Continue monitoring and note any changes.",
-          action: "Schedule Routine Visit",
-          color: "text-accent",
-          bgColor: "bg-accent/10"
-        };
-      default:
-        return null;
+  const checkUrgency = () => {
+    if (selectedSymptoms.length === 0 && !currentBehavior.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Select at least one symptom or describe what you've noticed.",
+        variant: "destructive",
+      });
+      return;
     }
+    triageMutation.mutate();
   };
 
-  const recommendation = getRecommendation();
+  const openToxinCalculator = () => {
+    setToxinReturnStep(currentStep);
+    setCurrentStep(3);
+  };
+
+  // Preselects a substance the owner named, preferring the most specific match
+  const behaviorText = currentBehavior.toLowerCase();
+  const mentionedToxin = toxinCatalog
+    .flatMap((toxin) => toxin.aliases.filter((alias) => behaviorText.includes(alias)).map((alias) => ({ toxin, alias })))
+    .sort((a, b) => b.alias.length - a.alias.length)[0]?.toxin;
+
+  const recommendation = result ? recommendations[result.urgencyLevel] : null;
 
   return (
     <>
@@ -259,7 +253,7 @@ export default function EmergencyAssessment() {
       </div>
 
       <Dialog open={isOpen} onOpenChange={setIsOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Emergency Health Assessment</DialogTitle>
           </DialogHeader>
@@ -277,13 +271,46 @@ export default function EmergencyAssessment() {
                   Select any symptoms or concerns you've noticed. This will help determine the urgency of care needed.
                 </p>
               </div>
+              {dogs.length > 1 && (
+                <div className="space-y-2">
+                  <Label>Which dog?</Label>
+                  <Select value={selectedDogId} onValueChange={setSelectedDogId}>
+                    <SelectTrigger data-testid="select-assessment-dog">
+                      <SelectValue placeholder="Select a dog" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dogs.map((dog) => (
+                        <SelectItem key={dog.id} value={dog.id}>
+                          {dog.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {dogs.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center">
+                  Add your dog first so the assessment can take their breed and history into account.
+                </p>
+              )}
               <Button 
                 onClick={() => setCurrentStep(1)} 
                 className="w-full"
+                disabled={!selectedDogId}
                 data-testid="button-continue-assessment"
               >
                 Continue
               </Button>
+              <Button
+                variant="outline"
+                onClick={openToxinCalculator}
+                className="w-full"
+                disabled={!selectedDogId}
+                data-testid="button-open-toxin-calculator"
+              >
+                <i className="fas fa-skull-crossbones mr-2"></i>
+                My dog ate something it shouldn't have
+              </Button>
             </div>
           )}
 
@@ -294,68 +321,119 @@ export default function EmergencyAssessment() {
                   What symptoms have you noticed?
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Click on any symptoms that apply to your dog
+                  Select every symptom that applies to your dog
                 </p>
               </div>
 
               <div className="space-y-6">
-                <div>
-                  <h4 className="font-semibold text-destructive mb-3 flex items-center">
-                    <i className="fas fa-exclamation-triangle mr-2"></i>
-                    Emergency Symptoms
-                  </h4>
-                  <div className="grid grid-cols-1 gap-2">
-                    {emergencySymptoms.map((symptom) => (
-                      <Button
-                        key={symptom}
-                        variant="outline"
-                        className="text-left justify-start h-auto p-3 border-destructive/20 hover:bg-destructive/10"
-                        onClick={() => handleSymptomCheck(symptom, "emergency")}
-                        data-testid={`symptom-emergency-${symptom.replace(/\s+/g, '-').toLowerCase()}`}
-                      >
-                        {symptom}
-                      </Button>
-                    ))}
+                {symptomGroups.map(({ group, title, icon, color, button, selected }) => (
+                  <div key={group}>
+                    <h4 className={`font-semibold ${color} mb-3 flex items-center`}>
+                      <i className={`fas ${icon} mr-2`}></i>
+                      {title}
+                    </h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {triageSymptoms
+                        .filter((symptom) => symptom.group === group)
+                        .map((symptom) => {
+                          const isSelected = selectedSymptoms.includes(symptom.label);
+                          return (
+                            <Button
+                              key={symptom.id}
+                              variant="outline"
+                              className={`text-left justify-start h-auto p-3 whitespace-normal ${isSelected ? selected : button}`}
+                              onClick={() => toggleSymptom(symptom.label)}
+                              aria-pressed={isSelected}
+                              data-testid={`symptom-${group}-${symptom.label.replace(/\s+/g, '-').toLowerCase()}`}
+                            >
+                              {isSelected && <i className="fas fa-check mr-2"></i>}
+                              {symptom.label}
+                            </Button>
+                          );
+                        })}
+                    </div>
                   </div>
-                </div>
+                ))}
+              </div>
 
-                <div>
-                  <h4 className="font-semibold text-chart-4 mb-3 flex items-center">
-                    <i className="fas fa-clock mr-2"></i>
-                    Urgent Symptoms
-                  </h4>
-                  <div className="grid grid-cols-1 gap-2">
-                    {urgentSymptoms.map((symptom) => (
-                      <Button
-                        key={symptom}
-                        variant="outline"
-                        className="text-left justify-start h-auto p-3 border-chart-4/20 hover:bg-chart-4/10"
-                        onClick={() => handleSymptomCheck(symptom, "urgent")}
-                        data-testid={`symptom-urgent-${symptom.replace(/\s+/g, '-').toLowerCase()}`}
-                      >
-                        {symptom}
-                      </Button>
-                    ))}
+              <div className="space-y-4">
+                <h4 className="font-semibold text-foreground">More details (optional)</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="assessment-duration">How long has this been going on?</Label>
+                    <Input
+                      id="assessment-duration"
+                      value={duration}
+                      onChange={(e) => setDuration(e.target.value)}
+                      placeholder="e.g. 2 hours"
+                      data-testid="input-assessment-duration"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>How bad does it seem?</Label>
+                    <Select value={severity} onValueChange={setSeverity}>
+                      <SelectTrigger data-testid="select-assessment-severity">
+                        <SelectValue placeholder="Select severity" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mild">Mild</SelectItem>
+                        <SelectItem value="moderate">Moderate</SelectItem>
+                        <SelectItem value="severe">Severe</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
-
-                <div>
-                  <h4 className="font-semibold text-accent mb-3 flex items-center">
-                    <i className="fas fa-calendar-alt mr-2"></i>
-                    Routine Concerns
-                  </h4>
-                  <div className="grid grid-cols-1 gap-2">
-                    {routineSymptoms.map((symptom) => (
-                      <Button
-                        key={symptom}
-                        variant="outline"
-                        className="text-left justify-start h-auto p-3 border-accent/20 hover:bg-accent/10"
-                        onClick={() => handleSymptomCheck(symptom, "routine")}
-                        data-testid={`symptom-routine-${symptom.replace(/\s+/g, '-').toLowerCase()}`}
-                      >
-                        {symptom}
-                      </Button>
-                    ))}
+                <div className="space-y-2">
+                  <Label htmlFor="assessment-behavior">What is your dog doing right now?</Label>
+                  <Textarea
+                    id="assessment-behavior"
+                    value={currentBehavior}
+                    onChange={(e) => setCurrentBehavior(e.target.value)}
+                    placeholder="Anything else you've noticed, including anything your dog may have eaten"
+                    rows={2}
+                    data-testid="textarea-assessment-behavior"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="assessment-temperature">Temperature</Label>
+                    <Input
+                      id="assessment-temperature"
+                      value={vitalSigns.temperature}
+                      onChange={(e) => setVitalSigns({ ...vitalSigns, temperature: e.target.value })}
+                      placeholder="e.g. 101.5°F"
+                      data-testid="input-vital-temperature"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assessment-heart-rate">Heart rate (bpm)</Label>
+                    <Input
+                      id="assessment-heart-rate"
+                      value={vitalSigns.heartRate}
+                      onChange={(e) => setVitalSigns({ ...vitalSigns, heartRate: e.target.value })}
+                      placeholder="e.g. 100"
+                      data-testid="input-vital-heart-rate"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assessment-breathing">Breathing</Label>
+                    <Input
+                      id="assessment-breathing"
+                      value={vitalSigns.breathing}
+                      onChange={(e) => setVitalSigns({ ...vitalSigns, breathing: e.target.value })}
+                      placeholder="e.g. fast, labored"
+                      data-testid="input-vital-breathing"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="assessment-gum-color">Gum color</Label>
+                    <Input
+                      id="assessment-gum-color"
+                      value={vitalSigns.gumColor}
+                      onChange={(e) => setVitalSigns({ ...vitalSigns, gumColor: e.target.value })}
+                      placeholder="e.g. pink, pale"
+                      data-testid="input-vital-gum-color"
+                    />
                   </div>
                 </div>
               </div>
@@ -364,45 +442,118 @@ export default function EmergencyAssessment() {
                 <Button variant="outline" onClick={() => setCurrentStep(0)}>
                   Back
                 </Button>
-                <Button variant="outline" onClick={() => setIsOpen(false)}>
-                  Cancel Assessment
+                <Button
+                  onClick={checkUrgency}
+                  disabled={triageMutation.isPending}
+                  data-testid="button-check-urgency"
+                >
+                  {triageMutation.isPending ? "Checking..." : "Check Urgency"}
                 </Button>
               </div>
             </div>
           )}
 
-          {currentStep === 2 && recommendation && (
+          {currentStep === 2 && result && recommendation && (
             <div className="space-y-6">
               <div className={`${recommendation.bgColor} rounded-lg p-6 text-center`}>
                 <div className={`text-4xl mb-4 ${recommendation.color}`}>
                   {recommendation.title}
                 </div>
+                <p className="text-foreground mb-2 font-medium" data-testid="text-assessment-timeframe">
+                  {result.timeFrame}
+                </p>
                 <p className="text-foreground mb-6">
                   {recommendation.description}
                 </p>
-                <Button 
-                  className={`${recommendation.color === 'text-destructive' ? 'bg-destructive hover:bg-destructive/90' : 
-                              recommendation.color === 'text-chart-4' ? 'bg-chart-4 hover:bg-chart-4/90' : 
-                              'bg-accent hover:bg-accent/90'} text-white`}
-                  data-testid="button-take-action"
-                >
-                  {recommendation.action}
-                </Button>
+                {recommendation.action && (
+                  <Button 
+                    asChild
+                    className={`${recommendation.color === 'text-chart-4' ? 'bg-chart-4 hover:bg-chart-4/90' : 'bg-accent hover:bg-accent/90'} text-white`}
+                    data-testid="button-take-action"
+                  >
+                    <Link href="/appointments">{recommendation.action}</Link>
+                  </Button>
+                )}
               </div>
 
-              <div className="bg-muted rounded-lg p-4">
-                <h4 className="font-semibold text-foreground mb-2">Selected Symptoms:</h4>
-                <ul className="text-sm text-muted-foreground space-y-1">
-                  {assessment.symptoms.map((symptom, index) => (
-                    <li key={index} className="flex items-center">
-                      <i className="fas fa-circle text-xs mr-2"></i>
-                      {symptom}
-                    </li>
-                  ))}
-                </ul>
+              <div className="flex flex-wrap gap-2" data-testid="assessment-source">
+                {result.aiUrgencyLevel === undefined ? (
+                  <Badge variant="outline">Based on warning-sign rules</Badge>
+                ) : result.aiUrgencyLevel === null ? (
+                  <Badge variant="destructive">AI unavailable - warning-sign rules only</Badge>
+                ) : (
+                  <Badge variant="secondary">
+                    <Brain className="h-3 w-3 mr-1" />
+                    Reviewed by AI
+                  </Badge>
+                )}
+                {result.escalatedByRules && (
+                  <Badge variant="destructive">
+                    Raised from {result.aiUrgencyLevel} by warning signs
+                  </Badge>
+                )}
               </div>
 
-              <div className="flex justify-between pt-4">
+              <p className="text-sm text-muted-foreground" data-testid="text-assessment-reasoning">
+                {result.reasoning}
+              </p>
+
+              {result.matchedRules.some((rule) => rule.id === "toxin_ingestion") && (
+                <div className="border border-destructive/20 rounded-lg p-4 flex items-center justify-between gap-4">
+                  <p className="text-sm text-foreground">
+                    Know what and how much was eaten? Check whether it's a dangerous amount for your dog's weight.
+                  </p>
+                  <Button variant="outline" onClick={openToxinCalculator} data-testid="button-toxin-dose">
+                    Check Dose
+                  </Button>
+                </div>
+              )}
+
+              {result.immediateActions.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-foreground mb-2">What to do now:</h4>
+                  <ul className="text-sm space-y-1">
+                    {result.immediateActions.map((action, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <span className="text-primary">•</span>
+                        <span>{action}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {result.redFlags.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-destructive mb-2">
+                    {result.urgencyLevel === "non-urgent" ? "Go to a vet straight away if you see:" : "Warning signs:"}
+                  </h4>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {result.redFlags.map((flag, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <i className="fas fa-exclamation-circle text-destructive text-xs mt-1"></i>
+                        <span>{flag}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {selectedSymptoms.length > 0 && (
+                <div className="bg-muted rounded-lg p-4">
+                  <h4 className="font-semibold text-foreground mb-2">Selected Symptoms:</h4>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {selectedSymptoms.map((symptom, index) => (
+                      <li key={index} className="flex items-center">
+                        <i className="fas fa-circle text-xs mr-2"></i>
+                        {symptom}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-wrap justify-between gap-2 pt-4">
                 <Button 
                   variant="outline" 
                   onClick={resetAssessment}
@@ -410,6 +561,21 @@ export default function EmergencyAssessment() {
                 >
                   Start Over
                 </Button>
+                {!result.aiUrgencyLevel && (
+                  <Button
+                    variant="outline"
+                    onClick={() => aiMutation.mutate()}
+                    disabled={aiMutation.isPending}
+                    data-testid="button-ai-assessment"
+                  >
+                    <Brain className="h-4 w-4 mr-1" />
+                    {aiMutation.isPending
+                      ? "Asking AI..."
+                      : result.aiUrgencyLevel === null
+                        ? "Try AI Again"
+                        : "Get AI Second Opinion"}
+                  </Button>
+                )}
                 <Button 
                   variant="outline" 
                   onClick={() => setIsOpen(false)}
@@ -420,6 +586,14 @@ export default function EmergencyAssessment() {
               </div>
             </div>
           )}
+
+          {currentStep === 3 && (
+            <ToxinCalculator
+              dogId={selectedDogId}
+              initialToxinId={mentionedToxin?.id}
+              onBack={() => setCurrentStep(toxinReturnStep)}
+            />
+          )}
         </DialogContent>
       </Dialog>
     </>
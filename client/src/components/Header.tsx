@@ -1,12 +1,18 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Link, useLocation } from "wouter";
+import NotificationBell from "@/components/NotificationBell";
+import DataExportDialog from "@/components/DataExportDialog";
+import DeleteAccountDialog from "@/components/DeleteAccountDialog";
 
 export default function Header() {
   const { user } = useAuth();
   const [location] = useLocation();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
 
   const handleLogout = () => {
     window.location.href = "/api/logout";
@@ -17,6 +23,7 @@ export default function Header() {
     { path: "/dogs", label: "My Dogs" },
     { path: "/health", label: "Health" },
     { path: "/appointments", label: "Appointments" },
+    { path: "/chat", label: "Vet Chat" },
   ];
 
   return (
@@ -48,12 +55,7 @@ export default function Header() {
             </nav>
           </div>
           <div className="flex items-center space-x-4">
-            <Button variant="ghost" size="sm" className="relative" data-testid="button-notifications">
-              <i className="fas fa-bell text-lg"></i>
-              <span className="absolute -top-1 -right-1 w-4 h-4 bg-destructive rounded-full text-xs text-destructive-foreground flex items-center justify-center">
-                3
-              </span>
-            </Button>
+            <NotificationBell />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" className="flex items-center space-x-3" data-testid="button-profile-menu">
@@ -76,12 +78,33 @@ export default function Header() {
                     Upgrade to Premium
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsExportOpen(true)} data-testid="button-export-data">
+                  <i className="fas fa-file-archive mr-2"></i>
+                  Export My Data
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleLogout} data-testid="button-logout">
                   <i className="fas fa-sign-out-alt mr-2"></i>
                   Log Out
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setIsDeleteOpen(true)}
+                  className="text-destructive focus:text-destructive"
+                  data-testid="button-delete-account"
+                >
+                  <i className="fas fa-user-times mr-2"></i>
+                  Delete Account
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <DataExportDialog open={isExportOpen} onOpenChange={setIsExportOpen} />
+            <DeleteAccountDialog
+              open={isDeleteOpen}
+              onOpenChange={setIsDeleteOpen}
+              onExportData={() => {
+                setIsDeleteOpen(false);
+                setIsExportOpen(true);
+              }}
+            />
           </div>
         </div>
       </div>
@@ -10,13 +10,13 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertHealthRecordSchema } from "@shared/schema";
+import { insertHealthRecordSchema, type HealthRecord } from "@shared/schema";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { AlertTriangle, Brain, Camera, Heart, Lightbulb } from "lucide-react";
-import type { SymptomAnalysis, PhotoAnalysis } from "@shared/aiTypes";
+import type { SavedPhotoAnalysis, SavedSymptomAnalysis } from "@shared/aiTypes";
 
 // Use the shared schema instead of local one
 const healthEntryFormSchema = insertHealthRecordSchema.omit({
@@ -29,16 +29,24 @@ const healthEntryFormSchema = insertHealthRecordSchema.omit({
 
 type HealthEntryFormValues = z.infer<typeof healthEntryFormSchema>;
 
+// A photo analysis remembers its file so it can be linked to the uploaded copy
+interface AnalyzedPhoto {
+  file: File;
+  analysis: SavedPhotoAnalysis;
+}
+
 interface HealthEntryFormProps {
   dogId: string;
+  // When provided, the form edits this record instead of creating a new one.
+  record?: HealthRecord;
 }
 
-export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
+export default function HealthEntryForm({ dogId, record }: HealthEntryFormProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isUploadingPhotos, setIsUploadingPhotos] = useState(false);
-  const [aiAnalysis, setAiAnalysis] = useState<SymptomAnalysis | null>(null);
-  const [photoAnalyses, setPhotoAnalyses] = useState<PhotoAnalysis[]>([]);
+  const [aiAnalysis, setAiAnalysis] = useState<SavedSymptomAnalysis | null>(null);
+  const [photoAnalyses, setPhotoAnalyses] = useState<AnalyzedPhoto[]>([]);
   const [isAnalyzingSymptoms, setIsAnalyzingSymptoms] = useState(false);
   const [isAnalyzingPhotos, setIsAnalyzingPhotos] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -47,10 +55,10 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
   const form = useForm<HealthEntryFormValues>({
     resolver: zodResolver(healthEntryFormSchema),
     defaultValues: {
-      type: "",
-      title: "",
-      description: "",
-      severity: "",
+      type: record?.type ?? "",
+      title: record?.title ?? "",
+      description: record?.description ?? "",
+      severity: record?.severity ?? "",
     },
   });
 
@@ -59,6 +67,7 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
     if (files.length === 0) return [];
 
     const formData = new FormData();
+    formData.append('dogId', dogId);
     files.forEach((file) => {
       formData.append('photos', file);
     });
@@ -94,23 +103,53 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
         }
       }
 
+      // Save the analyses shown in the form with the entry; uploads come back in selection order
+      const aiAnalyses = [
+        ...(aiAnalysis ? [{ id: aiAnalysis.analysisId }] : []),
+        ...photoAnalyses.map(({ file, analysis }) => ({
+          id: analysis.analysisId,
+          photoUrl: photoUrls[selectedFiles.indexOf(file)],
+        })),
+      ];
+
+      if (record) {
+        // Keep previously uploaded photos when editing
+        const allPhotoUrls = [...(record.photoUrls ?? []), ...photoUrls];
+        await apiRequest("PUT", `/api/health-records/${record.id}`, {
+          ...data,
+          photoUrls: allPhotoUrls.length > 0 ? allPhotoUrls : undefined,
+          aiAnalyses,
+        });
+        return;
+      }
+
       // Create health record with photo URLs
       const payload = {
         ...data,
         dogId,
         photoUrls: photoUrls.length > 0 ? photoUrls : undefined,
+        aiAnalyses,
       };
       
       await apiRequest("POST", `/api/dogs/${dogId}/health-records`, payload);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "health-records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "timeline"] });
+      if (record) {
+        queryClient.invalidateQueries({ queryKey: ["/api/health-records", record.id, "ai-analyses"] });
+      }
       setIsOpen(false);
-      form.reset();
+      if (!record) {
+        form.reset();
+      }
       setSelectedFiles([]);
+      resetAnalyses();
       toast({
-        title: "Health Entry Added",
-        description: "Health record has been logged successfully.",
+        title: record ? "Health Entry Updated" : "Health Entry Added",
+        description: record
+          ? "Health record has been updated successfully."
+          : "Health record has been logged successfully.",
       });
     },
     onError: (error: any) => {
@@ -223,11 +262,12 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
     }
 
     setIsAnalyzingPhotos(true);
-    const analyses: PhotoAnalysis[] = [];
+    const analyses: AnalyzedPhoto[] = [];
     
     try {
       for (const file of selectedFiles) {
         const formData = new FormData();
+        formData.append('dogId', dogId);
         formData.append('photo', file);
         formData.append('context', form.getValues().description || '');
         
@@ -238,8 +278,8 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
         });
         
         if (response.ok) {
-          const analysis = await response.json();
-          analyses.push(analysis);
+          const analysis: SavedPhotoAnalysis = await response.json();
+          analyses.push({ file, analysis });
         }
       }
       
@@ -272,14 +312,20 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
-        <Button variant="outline" size="sm" data-testid="button-add-health-entry">
-          <i className="fas fa-plus mr-1"></i>
-          Log Entry
-        </Button>
+        {record ? (
+          <Button variant="ghost" size="sm" data-testid={`button-edit-health-entry-${record.id}`}>
+            <i className="fas fa-edit"></i>
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" data-testid="button-add-health-entry">
+            <i className="fas fa-plus mr-1"></i>
+            Log Entry
+          </Button>
+        )}
       </DialogTrigger>
       <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add Health Entry</DialogTitle>
+          <DialogTitle>{record ? "Edit Health Entry" : "Add Health Entry"}</DialogTitle>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -543,7 +589,7 @@ export default function HealthEntryForm({ dogId }: HealthEntryFormProps) {
                               Photo Analysis
                             </h4>
                             
-                            {photoAnalyses.map((analysis, index) => (
+                            {photoAnalyses.map(({ analysis }, index) => (
                               <div key={index} className="border rounded-md p-3 space-y-2">
                                 <div className="flex justify-between items-start">
                                   <span className="text-sm font-medium">Photo {index + 1}</span>
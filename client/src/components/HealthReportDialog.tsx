@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { format, subYears } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { FileText } from "lucide-react";
+import type { Dog } from "@shared/schema";
+
+interface HealthReportDialogProps {
+  dog: Dog;
+}
+
+// Downloads the server-generated PDF summary for a chosen date range
+export default function HealthReportDialog({ dog }: HealthReportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState(() => format(subYears(new Date(), 1), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const downloadReport = async () => {
+    const params = new URLSearchParams({
+      from: new Date(`${from}T00:00:00`).toISOString(),
+      to: new Date(`${to}T23:59:59`).toISOString(),
+    });
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/dogs/${dog.id}/report.pdf?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message ?? "Failed to generate report");
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${dog.name}-health-report-${to}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate report. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" data-testid={`button-vet-report-${dog.name}`}>
+          <FileText className="h-4 w-4 mr-1" />
+          Vet Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Vet Report for {dog.name}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          A PDF with {dog.name}'s profile, current medications and vaccinations, plus the weights, symptoms and vet
+          visits recorded in this period.
+        </p>
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            downloadReport();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`report-from-${dog.id}`}>From</Label>
+              <Input
+                id={`report-from-${dog.id}`}
+                type="date"
+                value={from}
+                max={to}
+                onChange={(event) => setFrom(event.target.value)}
+                data-testid="input-report-from"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`report-to-${dog.id}`}>To</Label>
+              <Input
+                id={`report-to-${dog.id}`}
+                type="date"
+                value={to}
+                min={from}
+                onChange={(event) => setTo(event.target.value)}
+                data-testid="input-report-to"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!from || !to || from > to || isDownloading} data-testid="button-download-report">
+              {isDownloading ? "Generating..." : "Download PDF"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
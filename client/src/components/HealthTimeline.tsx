@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import HealthEntryForm from "@/components/HealthEntryForm";
+import AiAnalysisHistory from "@/components/AiAnalysisHistory";
+import VaccinationForm from "@/components/VaccinationForm";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TimelineEvent, TimelineEventType } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+interface TimelinePage {
+  events: TimelineEvent[];
+  nextCursor: string | null;
+}
+
+const eventTypeFilters: { type: TimelineEventType; label: string; icon: string }[] = [
+  { type: "health_record", label: "Health", icon: "fa-clipboard-list" },
+  { type: "appointment", label: "Visits", icon: "fa-stethoscope" },
+  { type: "vaccination", label: "Vaccinations", icon: "fa-syringe" },
+  { type: "medication", label: "Medications", icon: "fa-pills" },
+  { type: "medication_log", label: "Doses", icon: "fa-check-circle" },
+  { type: "weight", label: "Weight", icon: "fa-weight" },
+];
+
+const iconFor = (type: TimelineEventType) => eventTypeFilters.find((filter) => filter.type === type)!.icon;
+
+interface HealthTimelineProps {
+  dogId: string;
+}
+
+export default function HealthTimeline({ dogId }: HealthTimelineProps) {
+  const { toast } = useToast();
+  const [selectedTypes, setSelectedTypes] = useState<TimelineEventType[]>([]);
+  const typesParam = selectedTypes.length > 0 ? `&types=${selectedTypes.join(",")}` : "";
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<TimelinePage>({
+    queryKey: ["/api/dogs", dogId, "timeline", selectedTypes.join(",")],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${pageParam}` : "";
+      const response = await apiRequest("GET", `/api/dogs/${dogId}/timeline?limit=${PAGE_SIZE}${typesParam}${cursor}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!dogId,
+    throwOnError: false,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  const invalidateTimeline = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId] });
+  };
+
+  const deleteHealthRecordMutation = useMutation({
+    mutationFn: async (recordId: string) => {
+      await apiRequest("DELETE", `/api/health-records/${recordId}`);
+    },
+    onSuccess: () => {
+      invalidateTimeline();
+      toast({
+        title: "Health Entry Deleted",
+        description: "The health record has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete health record. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteVaccinationMutation = useMutation({
+    mutationFn: async (vaccinationId: string) => {
+      await apiRequest("DELETE", `/api/vaccinations/${vaccinationId}`);
+    },
+    onSuccess: () => {
+      invalidateTimeline();
+      toast({
+        title: "Vaccination Deleted",
+        description: "The vaccination record has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete vaccination. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleType = (type: TimelineEventType) => {
+    setSelectedTypes((current) =>
+      current.includes(type) ? current.filter((selected) => selected !== type) : [...current, type]
+    );
+  };
+
+  const renderEvent = (event: TimelineEvent) => {
+    switch (event.type) {
+      case "health_record": {
+        const record = event.data;
+        return (
+          <>
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-semibold text-foreground">{record.title}</h4>
+                <div className="flex items-center space-x-2 mt-1">
+                  <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
+                    record.type === 'symptom' ? 'bg-destructive/20 text-destructive' :
+                    record.type === 'checkup' ? 'bg-chart-3/20 text-chart-3' :
+                    'bg-primary/20 text-primary'
+                  }`}>
+                    {record.type}
+                  </span>
+                  {record.severity && (
+                    <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
+                      record.severity === 'severe' ? 'bg-destructive/20 text-destructive' :
+                      record.severity === 'moderate' ? 'bg-chart-4/20 text-chart-4' :
+                      'bg-chart-3/20 text-chart-3'
+                    }`}>
+                      {record.severity}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <AiAnalysisHistory record={record} />
+                <HealthEntryForm dogId={dogId} record={record} />
+                <DeleteConfirmButton
+                  title="Delete health record?"
+                  description={`"${record.title}" will be permanently removed.`}
+                  onConfirm={() => deleteHealthRecordMutation.mutate(record.id)}
+                  isPending={deleteHealthRecordMutation.isPending}
+                  testId={`button-delete-health-record-${record.id}`}
+                />
+              </div>
+            </div>
+            {record.description && <p className="text-sm text-muted-foreground mt-2">{record.description}</p>}
+            {record.vetNotes && <p className="text-sm text-muted-foreground mt-1 whitespace-pre-line">{record.vetNotes}</p>}
+            {record.photoUrls && record.photoUrls.length > 0 && (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-3">
+                {record.photoUrls.map((photoUrl, photoIndex) => (
+                  <img
+                    key={photoIndex}
+                    src={photoUrl}
+                    alt={`Health record photo ${photoIndex + 1}`}
+                    className="w-full h-20 object-cover rounded border cursor-pointer hover:opacity-80 transition-opacity"
+                    onClick={() => window.open(photoUrl, '_blank')}
+                    data-testid={`health-photo-${record.id}-${photoIndex}`}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        );
+      }
+      case "vaccination": {
+        const vaccination = event.data;
+        return (
+          <div className="flex items-start justify-between">
+            <div>
+              <h4 className="font-semibold text-foreground">{vaccination.vaccineName}</h4>
+              <p className="text-sm text-muted-foreground">
+                {vaccination.vetName ? `Given by ${vaccination.vetName}` : "Vaccination given"}
+                {vaccination.nextDueDate && ` • next due ${new Date(vaccination.nextDueDate).toLocaleDateString()}`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1">
+              <VaccinationForm dogId={dogId} vaccination={vaccination} />
+              <DeleteConfirmButton
+                title="Delete vaccination?"
+                description={`The ${vaccination.vaccineName} record will be permanently removed.`}
+                onConfirm={() => deleteVaccinationMutation.mutate(vaccination.id)}
+                isPending={deleteVaccinationMutation.isPending}
+                testId={`button-delete-vaccination-${vaccination.id}`}
+              />
+            </div>
+          </div>
+        );
+      }
+      case "appointment": {
+        const appointment = event.data;
+        return (
+          <>
+            <h4 className="font-semibold text-foreground capitalize">
+              {appointment.appointmentType} at {appointment.clinicName}
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              {appointment.vetName} • <span className="capitalize">{appointment.status}</span>
+            </p>
+            {appointment.diagnosis && <p className="text-sm text-muted-foreground mt-1">Diagnosis: {appointment.diagnosis}</p>}
+          </>
+        );
+      }
+      case "medication": {
+        const medication = event.data;
+        return (
+          <>
+            <h4 className="font-semibold text-foreground">Started {medication.name}</h4>
+            <p className="text-sm text-muted-foreground">
+              {medication.dosage}, {medication.frequency}
+              {medication.endDate && ` until ${new Date(medication.endDate).toLocaleDateString()}`}
+            </p>
+          </>
+        );
+      }
+      case "medication_log": {
+        const log = event.data;
+        return (
+          <>
+            <h4 className="font-semibold text-foreground">
+              {log.medicationName} {log.status === "skipped" ? "skipped" : "given"}
+            </h4>
+            {log.notes && <p className="text-sm text-muted-foreground">{log.notes}</p>}
+          </>
+        );
+      }
+      case "weight": {
+        const record = event.data;
+        return (
+          <>
+            <h4 className="font-semibold text-foreground">Weighed {Number(record.weight).toFixed(1)} lbs</h4>
+            {record.notes && <p className="text-sm text-muted-foreground">{record.notes}</p>}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {eventTypeFilters.map((filter) => (
+          <Button
+            key={filter.type}
+            variant={selectedTypes.includes(filter.type) ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggleType(filter.type)}
+            data-testid={`button-timeline-filter-${filter.type}`}
+          >
+            <i className={`fas ${filter.icon} mr-2`}></i>
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <div key={i} className="animate-pulse h-16 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <i className="fas fa-stream text-4xl mb-4 opacity-50"></i>
+          <p>Nothing recorded yet. Start by logging symptoms or observations.</p>
+        </div>
+      ) : (
+        <ol className="relative border-l border-border ml-3 space-y-6">
+          {events.map((event) => (
+            <li key={`${event.type}-${event.id}`} className="ml-6" data-testid={`timeline-${event.type}-${event.id}`}>
+              <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs">
+                <i className={`fas ${iconFor(event.type)}`}></i>
+              </span>
+              <time className="block text-xs text-muted-foreground mb-1">
+                {new Date(event.occurredAt).toLocaleString()}
+              </time>
+              <div className="p-4 border border-border rounded-lg">{renderEvent(event)}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-timeline-load-more"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
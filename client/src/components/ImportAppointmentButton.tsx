@@ -0,0 +1,118 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+// Appointment fields parsed from an invite, before a dog is picked
+export interface AppointmentDraft {
+  vetName: string;
+  clinicId: string | null;
+  clinicName: string;
+  clinicAddress: string | null;
+  clinicPhone: string | null;
+  appointmentType: string;
+  scheduledAt: string;
+  status: string | null;
+  notes: string | null;
+  matchedClinic: string | null;
+  sourceUid: string | null;
+}
+
+interface ImportAppointmentButtonProps {
+  onImport: (draft: AppointmentDraft) => void;
+}
+
+export default function ImportAppointmentButton({ onImport }: ImportAppointmentButtonProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [drafts, setDrafts] = useState<AppointmentDraft[]>([]);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("timezone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+      const response = await fetch("/api/appointments/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: undefined }));
+        throw new Error(message || "Unable to read that invite.");
+      }
+
+      const parsed: AppointmentDraft[] = await response.json();
+      if (parsed.length === 1) {
+        onImport(parsed[0]);
+      } else {
+        setDrafts(parsed);
+      }
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unable to read that invite.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ics,.eml,text/calendar,message/rfc822"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+        data-testid="input-import-appointment"
+      />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading}
+        data-testid="button-import-appointment"
+      >
+        <i className="fas fa-file-import mr-2"></i>
+        {isUploading ? "Reading..." : "Import"}
+      </Button>
+
+      {/* Invites with several events (e.g. a series) let the user pick one */}
+      <Dialog open={drafts.length > 0} onOpenChange={(open) => !open && setDrafts([])}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Choose an Appointment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {drafts.map((draft, index) => (
+              <button
+                key={draft.sourceUid ?? index}
+                type="button"
+                className="w-full text-left p-3 rounded-lg border border-border hover:bg-muted"
+                onClick={() => {
+                  setDrafts([]);
+                  onImport(draft);
+                }}
+                data-testid={`button-import-draft-${index}`}
+              >
+                <p className="font-medium text-foreground">{draft.appointmentType}</p>
+                <p className="text-sm text-muted-foreground">
+                  {new Date(draft.scheduledAt).toLocaleString()} • {draft.clinicName || "Unknown clinic"}
+                </p>
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Progress } from "@/components/ui/progress";
+import type { AdherenceReport, DoseOutcome, DoseStatus } from "@shared/adherence";
+
+interface MedicationAdherenceProps {
+  dogId: string;
+}
+
+const statusLabels: Record<DoseStatus, string> = {
+  on_time: "On time",
+  late: "Late",
+  missed: "Missed",
+  skipped: "Skipped",
+  double: "Double dose",
+  upcoming: "Upcoming",
+};
+
+const statusVariants: Record<DoseStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  on_time: "default",
+  late: "secondary",
+  missed: "destructive",
+  skipped: "outline",
+  double: "destructive",
+  upcoming: "outline",
+};
+
+const dayKey = (date: Date) => date.toDateString();
+
+export default function MedicationAdherence({ dogId }: MedicationAdherenceProps) {
+  const [month, setMonth] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined);
+
+  const from = new Date(month.getFullYear(), month.getMonth(), 1);
+  const to = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  const range = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+
+  const { data: report } = useQuery<AdherenceReport>({
+    queryKey: ["/api/dogs", dogId, `adherence?${range}`],
+    enabled: !!dogId,
+    throwOnError: false,
+  });
+
+  const names = new Map(report?.medications.map((medication) => [medication.medicationId, medication.name]));
+  const dosesByDay = new Map<string, DoseOutcome[]>();
+  report?.medications.forEach((medication) => {
+    medication.doses.forEach((dose) => {
+      const key = dayKey(new Date(dose.scheduledFor));
+      dosesByDay.set(key, [...(dosesByDay.get(key) ?? []), dose]);
+    });
+  });
+
+  // Days where something went wrong outrank partially-kept days, which outrank clean days
+  const daysWith = (predicate: (doses: DoseOutcome[]) => boolean) =>
+    Array.from(dosesByDay.entries())
+      .filter(([, doses]) => predicate(doses))
+      .map(([key]) => new Date(key));
+  const missedDays = daysWith((doses) => doses.some((dose) => dose.status === "missed" || dose.status === "double"));
+  const partialDays = daysWith(
+    (doses) =>
+      !doses.some((dose) => dose.status === "missed" || dose.status === "double") &&
+      doses.some((dose) => dose.status === "late" || dose.status === "skipped"),
+  );
+  const completeDays = daysWith((doses) => doses.every((dose) => dose.status === "on_time"));
+
+  const selectedDoses = selectedDay ? dosesByDay.get(dayKey(selectedDay)) ?? [] : [];
+
+  return (
+    <Card data-testid="card-medication-adherence">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Adherence</span>
+          <span className="text-2xl font-bold text-foreground" data-testid="text-adherence-overall">
+            {report?.adherence != null ? `${report.adherence}%` : "—"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <Calendar
+              mode="single"
+              month={month}
+              onMonthChange={setMonth}
+              selected={selectedDay}
+              onSelect={setSelectedDay}
+              modifiers={{ missed: missedDays, partial: partialDays, complete: completeDays }}
+              modifiersClassNames={{
+                missed: "bg-destructive/20 text-destructive",
+                partial: "bg-secondary/20",
+                complete: "bg-accent/20",
+              }}
+            />
+            {selectedDay && (
+              <div className="space-y-2 mt-2" data-testid="list-adherence-day">
+                <h4 className="text-sm font-medium text-foreground">{selectedDay.toLocaleDateString()}</h4>
+                {selectedDoses.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No doses scheduled.</p>
+                ) : (
+                  selectedDoses.map((dose) => (
+                    <div key={`${dose.medicationId}-${dose.scheduledFor}`} className="flex items-center justify-between text-sm">
+                      <span className="text-foreground">
+                        {names.get(dose.medicationId)} •{" "}
+                        {new Date(dose.scheduledFor).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                      </span>
+                      <Badge variant={statusVariants[dose.status]}>{statusLabels[dose.status]}</Badge>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            {report?.medications.length === 0 && (
+              <p className="text-sm text-muted-foreground">No medications to report on.</p>
+            )}
+            {report?.medications.map((medication) => (
+              <div key={medication.medicationId} className="space-y-2" data-testid={`adherence-${medication.name}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-foreground">{medication.name}</span>
+                  <span className="text-muted-foreground">
+                    {medication.adherence != null ? `${medication.adherence}%` : "No doses due"}
+                  </span>
+                </div>
+                <Progress value={medication.adherence ?? 0} />
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  <span>{medication.onTime} on time</span>
+                  {medication.late > 0 && <span>• {medication.late} late</span>}
+                  {medication.missed > 0 && <span className="text-destructive">• {medication.missed} missed</span>}
+                  {medication.skipped > 0 && <span>• {medication.skipped} skipped</span>}
+                  {medication.doubles > 0 && <span className="text-destructive">• {medication.doubles} double</span>}
+                  {medication.unscheduled > 0 && <span>• {medication.unscheduled} extra</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
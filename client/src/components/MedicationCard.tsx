@@ -1,18 +1,61 @@
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import MedicationForm from "@/components/MedicationForm";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Medication } from "@shared/schema";
+import type { MedicationSupply } from "@shared/medicationSupply";
 
 interface MedicationCardProps {
-  medication: Medication;
+  // currentDosage and supply are added by the medications endpoints
+  medication: Medication & { currentDosage?: string; supply?: MedicationSupply };
   dogName?: string;
 }
 
 export default function MedicationCard({ medication, dogName }: MedicationCardProps) {
   const { toast } = useToast();
+  const medicationsKey = ["/api/dogs", medication.dogId, "medications"];
+  const isAsNeeded = medication.schedule?.type === "as_needed";
+  const supply = medication.supply;
+  const [isRefillOpen, setIsRefillOpen] = useState(false);
+  const [refillQuantity, setRefillQuantity] = useState("");
+
+  const invalidateSupply = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/medications/refill-needed"] });
+  };
+
+  const deleteMedicationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/medications/${medication.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: medicationsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", medication.dogId, "timeline"] });
+      toast({
+        title: "Medication Removed",
+        description: `${medication.name} has been removed.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove medication. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
   const logMedicationMutation = useMutation({
     mutationFn: async () => {
@@ -21,7 +64,9 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/dogs", medication.dogId, "medications"] });
+      // Also refreshes the adherence report
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", medication.dogId] });
+      invalidateSupply();
       toast({
         title: "Medication Logged",
         description: `${medication.name} has been marked as given.`,
@@ -36,8 +81,81 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
     },
   });
 
+  const skipDoseMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/medications/${medication.id}/skip`, {});
+    },
+    onSuccess: () => {
+      // Also refreshes the adherence report
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", medication.dogId] });
+      invalidateSupply();
+      toast({
+        title: "Dose Skipped",
+        description: `This dose of ${medication.name} was skipped.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to skip dose. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const snoozeDoseMutation = useMutation({
+    mutationFn: async (minutes: number) => {
+      await apiRequest("POST", `/api/medications/${medication.id}/snooze`, { minutes });
+    },
+    onSuccess: (_, minutes) => {
+      queryClient.invalidateQueries({ queryKey: medicationsKey });
+      toast({
+        title: "Dose Snoozed",
+        description: `${medication.name} will be due again in ${minutes} minutes.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to snooze dose. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refillMutation = useMutation({
+    mutationFn: async (quantity: number) => {
+      await apiRequest("POST", `/api/medications/${medication.id}/refill`, { quantity });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: medicationsKey });
+      invalidateSupply();
+      setIsRefillOpen(false);
+      setRefillQuantity("");
+      toast({
+        title: "Refill Recorded",
+        description: `${medication.name} stock has been updated.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to record refill. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getSupplyDisplay = () => {
+    if (!supply?.tracked) return `${medication.refillCount || 0} refills left`;
+    const runOut = supply.runOutDate
+      ? ` • runs out ${new Date(supply.runOutDate).toLocaleDateString()}`
+      : "";
+    return `${supply.dosesRemaining} doses${runOut}`;
+  };
+
   const getNextDueDisplay = () => {
-    if (!medication.nextDueDate) return "Not scheduled";
+    if (!medication.nextDueDate) return isAsNeeded ? "As needed" : "Not scheduled";
     
     const nextDue = new Date(medication.nextDueDate);
     const now = new Date();
@@ -45,16 +163,16 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
     const dueDate = new Date(nextDue.getFullYear(), nextDue.getMonth(), nextDue.getDate());
     
     if (dueDate.getTime() === today.getTime()) {
-      return "Today";
+      return `Today ${nextDue.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`;
     } else if (dueDate < today) {
       return "Overdue";
     } else {
-      return nextDue.toLocaleDateString();
+      return nextDue.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
     }
   };
 
   const getDueStatus = () => {
-    if (!medication.nextDueDate) return "inactive";
+    if (!medication.nextDueDate) return isAsNeeded ? "as-needed" : "inactive";
     
     const nextDue = new Date(medication.nextDueDate);
     const now = new Date();
@@ -117,7 +235,7 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Dose:</span>
             <span className="text-foreground" data-testid={`text-dosage-${medication.name}`}>
-              {medication.dosage}
+              {medication.currentDosage ?? medication.dosage}
             </span>
           </div>
           <div className="flex justify-between text-sm">
@@ -131,11 +249,24 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
             </span>
           </div>
           <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Refill:</span>
-            <span className="text-foreground">
-              {medication.refillCount || 0} left
+            <span className="text-muted-foreground">Supply:</span>
+            <span
+              className={supply?.refillNeeded ? "text-destructive font-medium" : "text-foreground"}
+              data-testid={`text-supply-${medication.name}`}
+            >
+              {getSupplyDisplay()}
             </span>
           </div>
+          {supply?.refillNeeded && (
+            <div className="flex items-center justify-between text-sm">
+              <Badge variant="destructive" data-testid={`badge-refill-needed-${medication.name}`}>
+                Refill needed
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {medication.refillCount || 0} refills left on prescription
+              </span>
+            </div>
+          )}
         </div>
         
         <div className="flex space-x-2">
@@ -146,6 +277,7 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
               status === "due" ? "text-white hover:bg-secondary/90" :
               status === "overdue" ? "text-white hover:bg-destructive/90" :
               status === "upcoming" ? "text-white hover:bg-accent/90" :
+              status === "as-needed" ? "text-foreground hover:bg-muted/80" :
               "text-muted-foreground cursor-not-allowed"
             }`}
             data-testid={`button-mark-given-${medication.name}`}
@@ -153,15 +285,81 @@ export default function MedicationCard({ medication, dogName }: MedicationCardPr
             {logMedicationMutation.isPending ? "Marking..." : 
              status === "inactive" ? "Not Scheduled" : "Mark Given"}
           </Button>
-          <Button 
-            variant="outline" 
-            size="icon"
-            data-testid={`button-edit-medication-${medication.name}`}
-          >
-            <i className="fas fa-edit"></i>
-          </Button>
+          {medication.nextDueDate && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={skipDoseMutation.isPending || snoozeDoseMutation.isPending}
+                  data-testid={`button-dose-options-${medication.name}`}
+                >
+                  <i className="fas fa-clock"></i>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => snoozeDoseMutation.mutate(30)}>Snooze 30 minutes</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => snoozeDoseMutation.mutate(60)}>Snooze 1 hour</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => snoozeDoseMutation.mutate(180)}>Snooze 3 hours</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => skipDoseMutation.mutate()}>Skip this dose</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {supply?.tracked && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setIsRefillOpen(true)}
+              data-testid={`button-refill-${medication.name}`}
+            >
+              <i className="fas fa-prescription-bottle"></i>
+            </Button>
+          )}
+          <MedicationForm dogId={medication.dogId} medication={medication} />
+          <DeleteConfirmButton
+            title="Remove medication?"
+            description={`${medication.name} will no longer appear in the schedule.`}
+            onConfirm={() => deleteMedicationMutation.mutate()}
+            isPending={deleteMedicationMutation.isPending}
+            testId={`button-delete-medication-${medication.name}`}
+          />
         </div>
       </CardContent>
+
+      <Dialog open={isRefillOpen} onOpenChange={setIsRefillOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Record Refill</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              How many units of {medication.name} did you pick up? This uses one of the prescription's remaining refills.
+            </p>
+            <Input
+              type="number"
+              min={0}
+              step="0.5"
+              placeholder="e.g., 30"
+              value={refillQuantity}
+              onChange={(e) => setRefillQuantity(e.target.value)}
+              data-testid="input-refill-quantity"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsRefillOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => refillMutation.mutate(Number(refillQuantity))}
+                disabled={!(Number(refillQuantity) > 0) || refillMutation.isPending}
+                data-testid="button-save-refill"
+              >
+                {refillMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
     </Card>
   );
 }
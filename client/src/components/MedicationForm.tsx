@@ -0,0 +1,522 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { X } from "lucide-react";
+import type { Medication } from "@shared/schema";
+import {
+  describeMedicationSchedule,
+  maxScheduleEvery,
+  scheduleEveryUnit,
+  scheduleTypes,
+  type MedicationSchedule,
+} from "@shared/medicationSchedule";
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const medicationFormSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    dosage: z.string().min(1, "Dosage is required"),
+    scheduleType: z.enum(scheduleTypes),
+    every: z.coerce.number().int().min(1, "Must be at least 1"),
+    unit: z.enum(["days", "weeks"]),
+    daysOfWeek: z.array(z.number()),
+    times: z.array(z.string().min(1, "Pick a time")),
+    taper: z.array(
+      z.object({
+        days: z.coerce.number().int().min(1, "At least 1 day"),
+        dosage: z.string().min(1, "Dosage is required"),
+      }),
+    ),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    quantityOnHand: z.string().optional(),
+    unitsPerDose: z.string().optional(),
+    refillCount: z.coerce.number().int().min(0),
+    refillThresholdDays: z.coerce.number().int().min(0),
+    instructions: z.string().optional(),
+  })
+  .refine((data) => data.scheduleType !== "weekly" || data.daysOfWeek.length > 0, {
+    message: "Pick at least one day",
+    path: ["daysOfWeek"],
+  })
+  .refine(
+    (data) =>
+      data.scheduleType === "as_needed" ||
+      data.every <= maxScheduleEvery[scheduleEveryUnit({ type: data.scheduleType, unit: data.unit })],
+    { message: "Can't be more than a year apart", path: ["every"] },
+  )
+  .refine((data) => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: "End date must be after the start date",
+    path: ["endDate"],
+  });
+
+type MedicationFormValues = z.infer<typeof medicationFormSchema>;
+
+interface MedicationFormProps {
+  dogId: string;
+  // When provided, the form edits this medication instead of creating a new one.
+  medication?: Medication;
+}
+
+const defaultValuesFor = (medication?: Medication): MedicationFormValues => {
+  const schedule = medication?.schedule;
+  return {
+    name: medication?.name ?? "",
+    dosage: medication?.dosage ?? "",
+    scheduleType: schedule?.type ?? "interval",
+    every: schedule?.every ?? 1,
+    unit: schedule?.unit ?? "days",
+    daysOfWeek: schedule?.daysOfWeek ?? [],
+    times: schedule?.times ?? ["09:00"],
+    taper: schedule?.taper ?? [],
+    startDate: medication?.startDate ?? "",
+    endDate: medication?.endDate ?? "",
+    quantityOnHand: medication?.quantityOnHand ?? "",
+    unitsPerDose: medication?.unitsPerDose ?? "1",
+    refillCount: medication?.refillCount ?? 0,
+    refillThresholdDays: medication?.refillThresholdDays ?? 7,
+    instructions: medication?.instructions ?? "",
+  };
+};
+
+export default function MedicationForm({ dogId, medication }: MedicationFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<MedicationFormValues>({
+    resolver: zodResolver(medicationFormSchema),
+    defaultValues: defaultValuesFor(medication),
+  });
+  const taperSteps = useFieldArray({ control: form.control, name: "taper" });
+
+  const scheduleType = form.watch("scheduleType");
+  const times = form.watch("times");
+  const daysOfWeek = form.watch("daysOfWeek");
+
+  const saveMedicationMutation = useMutation({
+    mutationFn: async (data: MedicationFormValues) => {
+      const schedule: MedicationSchedule = {
+        type: data.scheduleType,
+        times: data.scheduleType === "as_needed" ? [] : data.times,
+        every: data.every,
+        unit: data.unit,
+        daysOfWeek: data.scheduleType === "weekly" ? data.daysOfWeek : [],
+        taper: data.taper,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+      // The server works out nextDueDate from the schedule
+      const payload = {
+        name: data.name,
+        dosage: data.dosage,
+        frequency: describeMedicationSchedule(schedule),
+        schedule,
+        startDate: data.startDate || null,
+        endDate: data.endDate || null,
+        // Blank quantity means stock isn't tracked for this medication
+        quantityOnHand: data.quantityOnHand || null,
+        unitsPerDose: data.unitsPerDose || "1",
+        refillCount: data.refillCount,
+        refillThresholdDays: data.refillThresholdDays,
+        instructions: data.instructions || null,
+      };
+
+      if (medication) {
+        await apiRequest("PUT", `/api/medications/${medication.id}`, payload);
+      } else {
+        await apiRequest("POST", `/api/dogs/${dogId}/medications`, payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "medications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/medications/refill-needed"] });
+      setIsOpen(false);
+      if (!medication) {
+        form.reset(defaultValuesFor());
+      }
+      toast({
+        title: medication ? "Medication Updated" : "Medication Added",
+        description: medication
+          ? "Medication details have been saved."
+          : "The medication schedule has been created.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save medication. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWeekday = (day: number) => {
+    const next = daysOfWeek.includes(day)
+      ? daysOfWeek.filter((d) => d !== day)
+      : [...daysOfWeek, day].sort();
+    form.setValue("daysOfWeek", next, { shouldValidate: true });
+  };
+
+  const setTime = (index: number, value: string) => {
+    form.setValue("times", times.map((time, i) => (i === index ? value : time)));
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) form.reset(defaultValuesFor(medication));
+      }}
+    >
+      <DialogTrigger asChild>
+        {medication ? (
+          <Button variant="outline" size="icon" data-testid={`button-edit-medication-${medication.name}`}>
+            <i className="fas fa-edit"></i>
+          </Button>
+        ) : (
+          <Button data-testid="button-add-medication">
+            <i className="fas fa-plus mr-2"></i>
+            Add Medication
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{medication ? "Edit Medication" : "Add Medication"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveMedicationMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Carprofen" {...field} data-testid="input-medication-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dosage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dosage *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., 75mg tablet" {...field} data-testid="input-medication-dosage" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+
+            <FormField
+              control={form.control}
+              name="scheduleType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-medication-schedule">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="interval">Every N days / weeks</SelectItem>
+                      <SelectItem value="weekly">Specific weekdays</SelectItem>
+                      <SelectItem value="as_needed">As needed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {scheduleType !== "as_needed" && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="every"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{scheduleType === "weekly" ? "Every N weeks" : "Every"}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} data-testid="input-medication-every" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {scheduleType === "interval" && (
+                    <FormField
+                      control={form.control}
+                      name="unit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-medication-unit">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="days">Days</SelectItem>
+                              <SelectItem value="weeks">Weeks</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+
+                {scheduleType === "weekly" && (
+                  <FormField
+                    control={form.control}
+                    name="daysOfWeek"
+                    render={() => (
+                      <FormItem>
+                        <FormLabel>Days</FormLabel>
+                        <div className="flex flex-wrap gap-1">
+                          {weekdays.map((label, day) => (
+                            <Button
+                              key={label}
+                              type="button"
+                              size="sm"
+                              variant={daysOfWeek.includes(day) ? "default" : "outline"}
+                              onClick={() => toggleWeekday(day)}
+                              data-testid={`button-weekday-${label}`}
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormItem>
+                  <FormLabel>Times of day</FormLabel>
+                  <div className="space-y-2">
+                    {times.map((time, index) => (
+                      <div key={index} className="flex items-center space-x-2">
+                        <Input
+                          type="time"
+                          value={time}
+                          onChange={(e) => setTime(index, e.target.value)}
+                          data-testid={`input-medication-time-${index}`}
+                        />
+                        {times.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => form.setValue("times", times.filter((_, i) => i !== index))}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => form.setValue("times", [...times, "21:00"])}
+                      data-testid="button-add-medication-time"
+                    >
+                      <i className="fas fa-plus mr-1"></i>
+                      Add Time
+                    </Button>
+                  </div>
+                </FormItem>
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-medication-start-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-medication-end-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {scheduleType !== "as_needed" && (
+              <FormItem>
+                <FormLabel>Tapering Course</FormLabel>
+                <p className="text-xs text-muted-foreground">
+                  Steps run back to back from the start date. Leave empty for a constant dose.
+                </p>
+                <div className="space-y-2">
+                  {taperSteps.fields.map((step, index) => (
+                    <div key={step.id} className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        {...form.register(`taper.${index}.days` as const)}
+                        data-testid={`input-taper-days-${index}`}
+                      />
+                      <span className="text-sm text-muted-foreground">days of</span>
+                      <Input
+                        placeholder="e.g., 10mg"
+                        {...form.register(`taper.${index}.dosage` as const)}
+                        data-testid={`input-taper-dosage-${index}`}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => taperSteps.remove(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => taperSteps.append({ days: 7, dosage: "" })}
+                    data-testid="button-add-taper-step"
+                  >
+                    <i className="fas fa-plus mr-1"></i>
+                    Add Step
+                  </Button>
+                </div>
+              </FormItem>
+            )}
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quantityOnHand"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity on Hand</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.5" min={0} placeholder="e.g., 30" {...field} data-testid="input-medication-quantity" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="unitsPerDose"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Units per Dose</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.25" min={0} {...field} data-testid="input-medication-units-per-dose" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="refillCount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Refills Remaining</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid="input-medication-refills" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="refillThresholdDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Warn Days Ahead</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid="input-medication-refill-threshold" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="instructions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Instructions</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g., Give with food" {...field} data-testid="input-medication-instructions" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMedicationMutation.isPending}
+                data-testid="button-save-medication"
+              >
+                {saveMedicationMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ export default function MobileNavigation() {
     { path: "/dogs", icon: "fas fa-paw", label: "Dogs" },
     { path: "/health", icon: "fas fa-heart", label: "Health" },
     { path: "/appointments", icon: "fas fa-calendar", label: "Schedule" },
+    { path: "/chat", icon: "fas fa-comments", label: "Chat" },
   ];
 
   return (
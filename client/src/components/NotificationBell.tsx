@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import NotificationPreferencesForm from "@/components/NotificationPreferencesForm";
+import type { Notification, NotificationType } from "@shared/schema";
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+const typeIcons: Record<NotificationType, string> = {
+  medication_due: "fa-pills",
+  vaccination_due: "fa-syringe",
+  appointment_upcoming: "fa-calendar-check",
+};
+
+export default function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
+
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60 * 1000,
+    throwOnError: false,
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: invalidate,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/dismiss`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="relative" data-testid="button-notifications">
+            <i className="fas fa-bell text-lg"></i>
+            {unreadCount > 0 && (
+              <span
+                className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-destructive rounded-full text-xs text-destructive-foreground flex items-center justify-center"
+                data-testid="text-unread-count"
+              >
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h3 className="font-semibold text-foreground">Notifications</h3>
+            <div className="flex items-center space-x-1">
+              {unreadCount > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => markAllReadMutation.mutate()}
+                  disabled={markAllReadMutation.isPending}
+                  data-testid="button-mark-all-read"
+                >
+                  Mark all read
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setIsOpen(false);
+                  setIsPreferencesOpen(true);
+                }}
+                data-testid="button-notification-preferences"
+              >
+                <i className="fas fa-cog text-muted-foreground"></i>
+              </Button>
+            </div>
+          </div>
+          <ScrollArea className="max-h-96">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start space-x-3 px-4 py-3 border-b border-border last:border-0 ${
+                    notification.readAt ? "" : "bg-primary/5"
+                  }`}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <i className={`fas ${typeIcons[notification.type as NotificationType] ?? "fa-bell"} text-primary mt-1`}></i>
+                  <Link
+                    href={notification.link ?? "/"}
+                    className="flex-1 min-w-0"
+                    onClick={() => {
+                      if (!notification.readAt) markReadMutation.mutate(notification.id);
+                      setIsOpen(false);
+                    }}
+                  >
+                    <p className={`text-sm text-foreground ${notification.readAt ? "" : "font-medium"}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    {notification.createdAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    )}
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => dismissMutation.mutate(notification.id)}
+                    data-testid={`button-dismiss-notification-${notification.id}`}
+                  >
+                    <i className="fas fa-times text-muted-foreground"></i>
+                  </Button>
+                </div>
+              ))
+            )}
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+      <NotificationPreferencesForm open={isPreferencesOpen} onOpenChange={setIsPreferencesOpen} />
+    </>
+  );
+}
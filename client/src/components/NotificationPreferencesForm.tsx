@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+import { z } from "zod";
+import type { NotificationPreferences } from "@shared/schema";
+
+const preferencesFormSchema = z.object({
+  medicationLeadMinutes: z.coerce.number().int().min(0).max(1440),
+  vaccinationLeadDays: z.coerce.number().int().min(0).max(90),
+  appointmentLeadHours: z.coerce.number().int().min(0).max(168),
+  quietHoursStart: z.string().optional(),
+  quietHoursEnd: z.string().optional(),
+  inAppEnabled: z.boolean(),
+  emailEnabled: z.boolean(),
+});
+
+type PreferencesFormValues = z.infer<typeof preferencesFormSchema>;
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const defaultValuesFor = (preferences?: NotificationPreferences): PreferencesFormValues => ({
+  medicationLeadMinutes: preferences?.medicationLeadMinutes ?? 15,
+  vaccinationLeadDays: preferences?.vaccinationLeadDays ?? 14,
+  appointmentLeadHours: preferences?.appointmentLeadHours ?? 24,
+  quietHoursStart: preferences?.quietHoursStart ?? "",
+  quietHoursEnd: preferences?.quietHoursEnd ?? "",
+  inAppEnabled: preferences?.inAppEnabled ?? true,
+  emailEnabled: preferences?.emailEnabled ?? false,
+});
+
+interface NotificationPreferencesFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function NotificationPreferencesForm({ open, onOpenChange }: NotificationPreferencesFormProps) {
+  const { toast } = useToast();
+  const [isPushSubscribed, setIsPushSubscribed] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getPushSubscription().then((subscription) => setIsPushSubscribed(!!subscription));
+  }, [open]);
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+    enabled: open,
+  });
+
+  const form = useForm<PreferencesFormValues>({
+    resolver: zodResolver(preferencesFormSchema),
+    values: defaultValuesFor(preferences),
+  });
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (data: PreferencesFormValues) => {
+      // Quiet hours only apply when both ends are set
+      const hasQuietHours = !!data.quietHoursStart && !!data.quietHoursEnd;
+      await apiRequest("PUT", "/api/notification-preferences", {
+        ...data,
+        quietHoursStart: hasQuietHours ? data.quietHoursStart : null,
+        quietHoursEnd: hasQuietHours ? data.quietHoursEnd : null,
+        timezone: browserTimeZone(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-preferences"] });
+      onOpenChange(false);
+      toast({
+        title: "Preferences Saved",
+        description: "Your reminder settings have been updated.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save preferences. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Push is per device, so it's switched on or off right away rather than on save
+  const togglePushMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (enabled) {
+        await subscribeToPush();
+      } else {
+        await unsubscribeFromPush();
+      }
+    },
+    onSuccess: (_data, enabled) => {
+      setIsPushSubscribed(enabled);
+    },
+    onError: (error) => {
+      toast({
+        title: "Push Notifications",
+        description: error instanceof Error ? error.message : "Failed to update push notifications.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Reminder Settings</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => savePreferencesMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <h4 className="text-sm font-medium text-foreground">Remind me before</h4>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="medicationLeadMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Doses (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid="input-medication-lead" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="vaccinationLeadDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vaccines (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid="input-vaccination-lead" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="appointmentLeadHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Visits (hours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} data-testid="input-appointment-lead" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Separator />
+
+            <h4 className="text-sm font-medium text-foreground">Quiet hours</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quietHoursStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} data-testid="input-quiet-hours-start" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quietHoursEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Until</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} data-testid="input-quiet-hours-end" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Emails are held until quiet hours end. Times use your current time zone ({browserTimeZone()}).
+            </p>
+
+            <Separator />
+
+            <FormField
+              control={form.control}
+              name="inAppEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>In-app notifications</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-in-app" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="emailEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Email reminders</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-email" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {isPushSupported() && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-foreground">Push on this device</p>
+                  <p className="text-xs text-muted-foreground">Dose and appointment reminders, even when the app is closed.</p>
+                </div>
+                <Switch
+                  checked={isPushSubscribed}
+                  disabled={togglePushMutation.isPending}
+                  onCheckedChange={(checked) => togglePushMutation.mutate(checked)}
+                  data-testid="switch-push"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={savePreferencesMutation.isPending}
+                data-testid="button-save-notification-preferences"
+              >
+                {savePreferencesMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { toDateTimeLocal } from "@/lib/utils";
+import type { Appointment } from "@shared/schema";
+
+interface RescheduleAppointmentDialogProps {
+  appointment: (Appointment & { dogName: string }) | null;
+  // "follow-up" books a copy of the appointment instead of moving it
+  mode: "reschedule" | "follow-up";
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RescheduleAppointmentDialog({ appointment, mode, onOpenChange }: RescheduleAppointmentDialogProps) {
+  const { toast } = useToast();
+  const [scheduledAt, setScheduledAt] = useState("");
+
+  useEffect(() => {
+    if (!appointment) return;
+    setScheduledAt(mode === "reschedule" ? toDateTimeLocal(appointment.scheduledAt) : "");
+  }, [appointment, mode]);
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      if (!appointment) return;
+      await apiRequest("POST", `/api/appointments/${appointment.id}/${mode}`, {
+        scheduledAt: new Date(scheduledAt).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", appointment?.dogId] });
+      onOpenChange(false);
+      toast({
+        title: mode === "reschedule" ? "Appointment Rescheduled" : "Follow-up Scheduled",
+        description: `${appointment?.dogName}'s appointment is now on ${new Date(scheduledAt).toLocaleString()}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the appointment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{mode === "reschedule" ? "Reschedule Appointment" : "Schedule Follow-up"}</DialogTitle>
+        </DialogHeader>
+        {appointment && (
+          <p className="text-sm text-muted-foreground">
+            {appointment.dogName} • {appointment.appointmentType} with {appointment.vetName} at {appointment.clinicName}
+          </p>
+        )}
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (scheduledAt) scheduleMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-scheduled-at">New Date & Time</Label>
+            <Input
+              id="reschedule-scheduled-at"
+              type="datetime-local"
+              value={scheduledAt}
+              onChange={(event) => setScheduledAt(event.target.value)}
+              data-testid="input-reschedule-date"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!scheduledAt || scheduleMutation.isPending} data-testid="button-confirm-reschedule">
+              {scheduleMutation.isPending ? "Saving..." : mode === "reschedule" ? "Reschedule" : "Schedule"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link2 } from "lucide-react";
+import type { Dog, ShareLink, ShareLinkView } from "@shared/schema";
+
+type ShareLinkSummary = ShareLink & { viewCount: number; lastViewedAt: string | null };
+
+interface ShareLinksDialogProps {
+  dog: Dog;
+}
+
+const expiryOptions = [
+  { days: "1", label: "1 day" },
+  { days: "7", label: "1 week" },
+  { days: "30", label: "30 days" },
+  { days: "90", label: "90 days" },
+];
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+const linkState = (link: ShareLink): "active" | "expired" | "revoked" => {
+  if (link.revokedAt) return "revoked";
+  return new Date(link.expiresAt) <= new Date() ? "expired" : "active";
+};
+
+function ShareLinkViews({ dogId, linkId }: { dogId: string; linkId: string }) {
+  const { data: views, isLoading } = useQuery<(ShareLinkView & { viewerEmail: string | null })[]>({
+    queryKey: ["/api/dogs", dogId, "share-links", linkId, "views"],
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading...</p>;
+  if (!views || views.length === 0) return <p className="text-xs text-muted-foreground">Not viewed yet</p>;
+  return (
+    <ul className="space-y-1 text-xs text-muted-foreground" data-testid={`list-share-views-${linkId}`}>
+      {views.map((view) => (
+        <li key={view.id}>
+          {new Date(view.viewedAt!).toLocaleString()} • {view.viewerEmail ?? view.ipAddress ?? "Unknown"}
+          {view.userAgent && <span className="block truncate opacity-75">{view.userAgent}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Owner-only: creates expiring read-only links to a dog's health records
+export default function ShareLinksDialog({ dog }: ShareLinksDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: links = [] } = useQuery<ShareLinkSummary[]>({
+    queryKey: ["/api/dogs", dog.id, "share-links"],
+    enabled: isOpen,
+  });
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(shareUrl(link));
+    toast({ title: "Copied", description: "Send the link to your vet or sitter." });
+  };
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/dogs/${dog.id}/share-links`, {
+        label: label || undefined,
+        expiresInDays: Number(expiresInDays),
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59`).toISOString() : undefined,
+      });
+      return (await response.json()) as ShareLink;
+    },
+    onSuccess: async (link) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dog.id, "share-links"] });
+      setLabel("");
+      setFrom("");
+      setTo("");
+      await copyLink(link);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create share link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest("POST", `/api/dogs/${dog.id}/share-links/${linkId}/revoke`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dog.id, "share-links"] });
+      toast({ title: "Link Revoked", description: "The link no longer works." });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke share link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" data-testid={`button-share-links-${dog.name}`}>
+          <Link2 className="h-4 w-4 mr-1" />
+          Share Link
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share {dog.name}'s Records</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Anyone with the link can view {dog.name}'s health records and photos, read-only, until it expires or you
+          revoke it. No account needed.
+        </p>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="share-label">For</Label>
+              <Input
+                id="share-label"
+                placeholder="e.g. Dr. Patel"
+                value={label}
+                maxLength={100}
+                onChange={(event) => setLabel(event.target.value)}
+                data-testid="input-share-label"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger data-testid="select-share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.days} value={option.days}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-from">Records from (optional)</Label>
+              <Input
+                id="share-from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(event) => setFrom(event.target.value)}
+                data-testid="input-share-from"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="share-to">Records to (optional)</Label>
+              <Input
+                id="share-to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(event) => setTo(event.target.value)}
+                data-testid="input-share-to"
+              />
+            </div>
+          </div>
+          <Button
+            onClick={() => createLinkMutation.mutate()}
+            disabled={createLinkMutation.isPending || (!!from && !!to && from > to)}
+            className="w-full"
+            data-testid="button-create-share-link"
+          >
+            {createLinkMutation.isPending ? "Creating..." : "Create & Copy Link"}
+          </Button>
+        </div>
+
+        {links.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              {links.map((link) => {
+                const state = linkState(link);
+                return (
+                  <div key={link.id} className="space-y-1 text-sm" data-testid={`share-link-${link.id}`}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-foreground">{link.label || "Untitled link"}</span>
+                        <Badge
+                          variant={state === "active" ? "default" : "secondary"}
+                          className="ml-2 capitalize"
+                        >
+                          {state}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        {state === "active" && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => copyLink(link)} data-testid={`button-copy-share-${link.id}`}>
+                              <i className="fas fa-copy"></i>
+                            </Button>
+                            <DeleteConfirmButton
+                              title="Revoke link?"
+                              description={`${link.label || "This link"} will immediately stop working.`}
+                              onConfirm={() => revokeLinkMutation.mutate(link.id)}
+                              isPending={revokeLinkMutation.isPending}
+                              testId={`button-revoke-share-${link.id}`}
+                            />
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {state === "revoked"
+                        ? `Revoked ${new Date(link.revokedAt!).toLocaleDateString()}`
+                        : `${state === "expired" ? "Expired" : "Expires"} ${new Date(link.expiresAt).toLocaleDateString()}`}
+                      {(link.rangeFrom || link.rangeTo) &&
+                        ` • records ${link.rangeFrom ? new Date(link.rangeFrom).toLocaleDateString() : "…"} – ${
+                          link.rangeTo ? new Date(link.rangeTo).toLocaleDateString() : "…"
+                        }`}
+                    </p>
+                    <button
+                      type="button"
+                      className="text-xs text-primary hover:underline"
+                      onClick={() => setOpenLogId(openLogId === link.id ? null : link.id)}
+                      data-testid={`button-share-views-${link.id}`}
+                    >
+                      {link.viewCount} view{link.viewCount !== 1 ? "s" : ""}
+                      {link.lastViewedAt && `, last ${new Date(link.lastViewedAt).toLocaleString()}`}
+                    </button>
+                    {openLogId === link.id && <ShareLinkViews dogId={dog.id} linkId={link.id} />}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
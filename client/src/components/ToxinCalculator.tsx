@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { toxinCatalog, type ToxinCategory, type ToxinExposureAssessment } from "@shared/toxins";
+
+interface ToxinCalculatorProps {
+  dogId: string;
+  initialToxinId?: string;
+  onBack: () => void;
+}
+
+const categories: ToxinCategory[] = ["Chocolate", "Foods", "Medicines", "Rodenticides"];
+
+const severityStyles = {
+  none: { label: "Low Risk", className: "bg-accent/10 text-accent" },
+  mild: { label: "Mild Risk", className: "bg-chart-4/10 text-chart-4" },
+  moderate: { label: "Serious Risk", className: "bg-destructive/10 text-destructive" },
+  severe: { label: "Life-Threatening", className: "bg-destructive/10 text-destructive" },
+} as const;
+
+function formatDose(value: number) {
+  return value >= 100 ? Math.round(value).toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+// Works out whether what the dog ate is a dangerous amount for its weight
+export default function ToxinCalculator({ dogId, initialToxinId, onBack }: ToxinCalculatorProps) {
+  const [toxinId, setToxinId] = useState(initialToxinId ?? "");
+  const [unitId, setUnitId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [result, setResult] = useState<ToxinExposureAssessment | null>(null);
+  const { toast } = useToast();
+
+  const toxin = toxinCatalog.find((candidate) => candidate.id === toxinId);
+  // Keeps the unit valid when the substance changes
+  const unit = toxin?.units.find((candidate) => candidate.id === unitId) ?? toxin?.units[0];
+
+  const calculateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/emergency/toxin-exposure", {
+        dogId,
+        toxinId,
+        unitId: unit?.id,
+        amount,
+      });
+      return (await response.json()) as ToxinExposureAssessment;
+    },
+    onSuccess: setResult,
+    onError: (error: Error) => {
+      toast({
+        title: "Calculation Failed",
+        description: error.message.includes("weight")
+          ? "Log your dog's weight first so the dose can be worked out."
+          : "Unable to calculate the dose. If you are worried, call your vet now.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canCalculate = !!toxin && !!unit && parseFloat(amount) > 0;
+  const style = result ? severityStyles[result.severity] : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-foreground mb-2">What did your dog eat?</h3>
+        <p className="text-sm text-muted-foreground">
+          We'll compare the amount with your dog's latest weight to see how dangerous it is
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Substance</Label>
+          <Select
+            value={toxinId}
+            onValueChange={(value) => {
+              setToxinId(value);
+              setResult(null);
+            }}
+          >
+            <SelectTrigger data-testid="select-toxin">
+              <SelectValue placeholder="Select what was eaten" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectGroup key={category}>
+                  <SelectLabel>{category}</SelectLabel>
+                  {toxinCatalog
+                    .filter((candidate) => candidate.category === category)
+                    .map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </SelectItem>
+                    ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="toxin-amount">Amount</Label>
+            <Input
+              id="toxin-amount"
+              type="number"
+              min="0"
+              step="any"
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setResult(null);
+              }}
+              placeholder="e.g. 2"
+              data-testid="input-toxin-amount"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Unit</Label>
+            <Select
+              value={unit?.id ?? ""}
+              onValueChange={(value) => {
+                setUnitId(value);
+                setResult(null);
+              }}
+              disabled={!toxin}
+            >
+              <SelectTrigger data-testid="select-toxin-unit">
+                <SelectValue placeholder="Unit" />
+              </SelectTrigger>
+              <SelectContent>
+                {toxin?.units.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">If you're not sure how much, enter the most it could have been.</p>
+      </div>
+
+      {result && style && (
+        <div className="space-y-4" data-testid="toxin-result">
+          <div className={`${style.className} rounded-lg p-4 text-center space-y-2`}>
+            <div className="text-2xl font-bold">{style.label}</div>
+            <p className="text-sm text-foreground">{result.expectedEffect}</p>
+            <p className="text-foreground font-medium">{result.recommendedAction}</p>
+          </div>
+
+          <div className="bg-muted rounded-lg p-4 text-sm space-y-1">
+            <p>
+              <span className="font-medium">Dose:</span> about {formatDose(result.exposureMgPerKg)} mg of {result.compound}{" "}
+              per kg ({formatDose(result.doseMg)} mg in total)
+            </p>
+            <p className="text-muted-foreground">
+              Based on a weight of {result.weightLbs} lbs
+              {result.weightRecordedAt
+                ? `, logged ${new Date(result.weightRecordedAt).toLocaleDateString()}`
+                : " from your dog's profile"}
+            </p>
+            {result.thresholds.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-2">
+                {result.thresholds.map((threshold, index) => (
+                  <Badge
+                    key={index}
+                    variant={result.exposureMgPerKg >= threshold.mgPerKg ? "destructive" : "outline"}
+                    title={threshold.effect}
+                  >
+                    {formatDose(threshold.mgPerKg)} mg/kg: {threshold.severity}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {result.immediateActions.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-foreground mb-2">What to do now:</h4>
+              <ul className="text-sm space-y-1">
+                {result.immediateActions.map((action, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <span className="text-primary">•</span>
+                    <span>{action}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-semibold text-destructive mb-2">Signs to watch for:</h4>
+            <ul className="text-sm text-muted-foreground space-y-1">
+              {result.signs.map((sign, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <i className="fas fa-exclamation-circle text-destructive text-xs mt-1"></i>
+                  <span>{sign}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between pt-4">
+        <Button variant="outline" onClick={onBack} data-testid="button-toxin-back">
+          Back
+        </Button>
+        <Button
+          onClick={() => calculateMutation.mutate()}
+          disabled={!canCalculate || calculateMutation.isPending}
+          data-testid="button-calculate-toxin"
+        >
+          {calculateMutation.isPending ? "Calculating..." : "Calculate Risk"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { VaccinationStatus, VaccineComplianceStatus } from "@shared/vaccineCatalog";
+
+interface VaccinationComplianceProps {
+  dogId: string;
+}
+
+const statusLabels: Record<VaccineComplianceStatus, string> = {
+  up_to_date: "Up to date",
+  due_soon: "Due soon",
+  overdue: "Overdue",
+};
+
+const statusClasses: Record<VaccineComplianceStatus, string> = {
+  up_to_date: "bg-chart-3/20 text-chart-3",
+  due_soon: "bg-secondary/20 text-secondary",
+  overdue: "bg-destructive/20 text-destructive",
+};
+
+export default function VaccinationCompliance({ dogId }: VaccinationComplianceProps) {
+  const { data: compliance } = useQuery<VaccinationStatus>({
+    queryKey: ["/api/dogs", dogId, "vaccination-status"],
+    enabled: !!dogId,
+    throwOnError: false,
+  });
+
+  if (!compliance) return null;
+
+  return (
+    <Card data-testid="card-vaccination-compliance">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Vaccination Status</span>
+          <span
+            className={`inline-block px-2 py-1 rounded text-xs font-medium ${statusClasses[compliance.status]}`}
+            data-testid="text-vaccination-status"
+          >
+            {statusLabels[compliance.status]}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {compliance.vaccines.map((vaccine) => (
+            <div key={vaccine.code} className="flex items-center justify-between text-sm" data-testid={`vaccine-status-${vaccine.code}`}>
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-foreground">{vaccine.name}</span>
+                  {vaccine.core && <Badge variant="outline">Core</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {vaccine.dosesGiven === 0
+                    ? "No doses recorded"
+                    : `${vaccine.dosesGiven} dose${vaccine.dosesGiven === 1 ? "" : "s"} recorded`}
+                  {vaccine.nextDueDate &&
+                    ` • next due ${new Date(`${vaccine.nextDueDate}T00:00:00`).toLocaleDateString()}`}
+                </p>
+              </div>
+              <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${statusClasses[vaccine.status]}`}>
+                {statusLabels[vaccine.status]}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
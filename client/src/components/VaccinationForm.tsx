@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import type { Vaccination } from "@shared/schema";
+import { getVaccineDefinition, vaccineCatalog } from "@shared/vaccineCatalog";
+
+const OTHER_VACCINE = "other";
+
+const vaccinationFormSchema = z
+  .object({
+    vaccineCode: z.string().min(1, "Pick a vaccine"),
+    vaccineName: z.string().optional(),
+    administeredAt: z.string().min(1, "Date is required"),
+    vetName: z.string().optional(),
+    batchNumber: z.string().optional(),
+    nextDueDate: z.string().optional(),
+  })
+  .refine((data) => data.vaccineCode !== OTHER_VACCINE || !!data.vaccineName, {
+    message: "Vaccine name is required",
+    path: ["vaccineName"],
+  });
+
+type VaccinationFormValues = z.infer<typeof vaccinationFormSchema>;
+
+interface VaccinationFormProps {
+  dogId: string;
+  // When provided, the form edits this record instead of creating a new one.
+  vaccination?: Vaccination;
+}
+
+const defaultValuesFor = (vaccination?: Vaccination): VaccinationFormValues => ({
+  vaccineCode: vaccination ? vaccination.vaccineCode ?? OTHER_VACCINE : "",
+  vaccineName: vaccination?.vaccineName ?? "",
+  administeredAt: vaccination
+    ? new Date(vaccination.administeredAt).toISOString().slice(0, 10)
+    : new Date().toISOString().slice(0, 10),
+  vetName: vaccination?.vetName ?? "",
+  batchNumber: vaccination?.batchNumber ?? "",
+  nextDueDate: vaccination?.nextDueDate ?? "",
+});
+
+export default function VaccinationForm({ dogId, vaccination }: VaccinationFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<VaccinationFormValues>({
+    resolver: zodResolver(vaccinationFormSchema),
+    defaultValues: defaultValuesFor(vaccination),
+  });
+
+  const vaccineCode = form.watch("vaccineCode");
+  const selectedVaccine = getVaccineDefinition(vaccineCode);
+
+  const saveVaccinationMutation = useMutation({
+    mutationFn: async (data: VaccinationFormValues) => {
+      // Leaving the due date blank lets the server calculate it from the catalog
+      const payload = {
+        vaccineCode: selectedVaccine ? selectedVaccine.code : null,
+        vaccineName: selectedVaccine ? selectedVaccine.name : data.vaccineName,
+        administeredAt: new Date(`${data.administeredAt}T12:00:00`).toISOString(),
+        vetName: data.vetName || null,
+        batchNumber: data.batchNumber || null,
+        ...(data.nextDueDate ? { nextDueDate: data.nextDueDate } : {}),
+      };
+
+      if (vaccination) {
+        await apiRequest("PUT", `/api/vaccinations/${vaccination.id}`, payload);
+      } else {
+        await apiRequest("POST", `/api/dogs/${dogId}/vaccinations`, payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "vaccinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "vaccination-status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "timeline"] });
+      setIsOpen(false);
+      toast({
+        title: vaccination ? "Vaccination Updated" : "Vaccination Added",
+        description: "The vaccination record has been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save vaccination. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) form.reset(defaultValuesFor(vaccination));
+      }}
+    >
+      <DialogTrigger asChild>
+        {vaccination ? (
+          <Button variant="ghost" size="sm" data-testid={`button-edit-vaccination-${vaccination.id}`}>
+            <i className="fas fa-edit"></i>
+          </Button>
+        ) : (
+          <Button data-testid="button-add-vaccination">
+            <i className="fas fa-plus mr-2"></i>
+            Add Vaccination
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{vaccination ? "Edit Vaccination" : "Add Vaccination"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveVaccinationMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="vaccineCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vaccine *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-vaccine">
+                        <SelectValue placeholder="Select vaccine" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {vaccineCatalog.map((vaccine) => (
+                        <SelectItem key={vaccine.code} value={vaccine.code}>
+                          {vaccine.name}{vaccine.core ? " • Core" : ""}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={OTHER_VACCINE}>Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {selectedVaccine && (
+                    <p className="text-xs text-muted-foreground">{selectedVaccine.description}</p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {vaccineCode === OTHER_VACCINE && (
+              <FormField
+                control={form.control}
+                name="vaccineName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vaccine Name *</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-vaccine-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="administeredAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date Given *</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} data-testid="input-vaccination-date" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vetName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Veterinarian</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-vaccination-vet" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="batchNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Batch Number</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-vaccination-batch" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="nextDueDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Next Due</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} data-testid="input-vaccination-next-due" />
+                  </FormControl>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedVaccine
+                      ? "Leave blank to calculate from the vaccine schedule and your dog's age."
+                      : "Optional."}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveVaccinationMutation.isPending}
+                data-testid="button-save-vaccination"
+              >
+                {saveVaccinationMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,8 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 
@@ -18,6 +20,27 @@ export default function WeightChart({ dogId, dogName }: WeightChartProps) {
     throwOnError: false,
   });
 
+  const deleteWeightMutation = useMutation({
+    mutationFn: async (recordId: string) => {
+      await apiRequest("DELETE", `/api/weight-records/${recordId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "weight-records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", dogId, "timeline"] });
+      toast({
+        title: "Weight Entry Deleted",
+        description: "The weight entry has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete weight entry. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getChartData = () => {
     if (weightRecords.length === 0) return [];
     
@@ -27,6 +50,7 @@ export default function WeightChart({ dogId, dogName }: WeightChartProps) {
       .slice(-6);
     
     return sorted.map(record => ({
+      id: record.id,
       date: new Date(record.recordedAt).toLocaleDateString('en-US', { month: 'short' }),
       weight: parseFloat(record.weight),
       recordedAt: record.recordedAt
@@ -131,6 +155,33 @@ export default function WeightChart({ dogId, dogName }: WeightChartProps) {
                 <p className="text-xs text-muted-foreground">Status</p>
               </div>
             </div>
+
+            <div className="mt-6 border-t border-border pt-4">
+              <h4 className="text-sm font-medium text-foreground mb-2">Recent Entries</h4>
+              <div className="space-y-1">
+                {[...chartData].reverse().map((dataPoint) => (
+                  <div
+                    key={dataPoint.id}
+                    className="flex items-center justify-between text-sm"
+                    data-testid={`weight-entry-${dataPoint.id}`}
+                  >
+                    <span className="text-muted-foreground">
+                      {new Date(dataPoint.recordedAt).toLocaleDateString()}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-foreground font-medium">{dataPoint.weight.toFixed(1)} lbs</span>
+                      <DeleteConfirmButton
+                        title="Delete weight entry?"
+                        description="This weight entry will be permanently removed."
+                        onConfirm={() => deleteWeightMutation.mutate(dataPoint.id)}
+                        isPending={deleteWeightMutation.isPending}
+                        testId={`button-delete-weight-${dataPoint.id}`}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
           </>
         )}
       </CardContent>
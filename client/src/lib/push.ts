@@ -0,0 +1,58 @@
+import { apiRequest } from "./queryClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+    console.error("Service worker registration failed:", error);
+  });
+}
+
+// PushManager.subscribe wants the VAPID key as raw bytes rather than base64url
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Asks for permission, subscribes this device and registers it with the server
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications aren't supported in this browser");
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const response = await apiRequest("GET", "/api/push/public-key");
+  const { publicKey } = (await response.json()) as { publicKey: string };
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    }));
+
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await apiRequest("DELETE", "/api/push/subscriptions", { endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+}
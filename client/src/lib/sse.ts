@@ -0,0 +1,31 @@
+// Reads a Server-Sent Events response body. EventSource only makes GET
+// requests, so streams answering a POST are read with fetch instead.
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: string, data: string) => void,
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) event = line.slice("event:".length).trim();
+      else if (line.startsWith("data:")) data.push(line.slice("data:".length).replace(/^ /, ""));
+    }
+    if (data.length > 0) onEvent(event, data.join("\n"));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const blocks = buffered.split(/\r?\n\r?\n/);
+    buffered = blocks.pop() ?? "";
+    blocks.forEach(dispatch);
+  }
+  if (buffered.trim()) dispatch(buffered);
+}
@@ -1,13 +1,15 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,10 +17,21 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/Header";
 import MobileNavigation from "@/components/MobileNavigation";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import CalendarSubscribeDialog from "@/components/CalendarSubscribeDialog";
+import ImportAppointmentButton, { type AppointmentDraft } from "@/components/ImportAppointmentButton";
+import ClinicPicker, { type ClinicWithVeterinarians } from "@/components/ClinicPicker";
+import AppointmentOutcomeForm from "@/components/AppointmentOutcomeForm";
+import RescheduleAppointmentDialog from "@/components/RescheduleAppointmentDialog";
+import AppointmentHistory from "@/components/AppointmentHistory";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { toDateTimeLocal } from "@/lib/utils";
 
 const appointmentFormSchema = z.object({
   dogId: z.string().min(1, "Please select a dog"),
+  // Directory links; cleared when the matching text is edited by hand
+  clinicId: z.string().optional(),
+  veterinarianId: z.string().optional(),
   vetName: z.string().min(1, "Vet name is required"),
   clinicName: z.string().min(1, "Clinic name is required"),
   clinicAddress: z.string().optional(),
@@ -34,6 +47,11 @@ export default function Appointments() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAppointmentId, setEditingAppointmentId] = useState<string | null>(null);
+  // Set while the form is prefilled from an imported invite
+  const [importedDraft, setImportedDraft] = useState<AppointmentDraft | null>(null);
+  const [outcomeAppointment, setOutcomeAppointment] = useState<any | null>(null);
+  const [rescheduleTarget, setRescheduleTarget] = useState<{ appointment: any; mode: "reschedule" | "follow-up" } | null>(null);
 
   const { data: dogs = [] } = useQuery<any[]>({
     queryKey: ["/api/dogs"],
@@ -47,10 +65,24 @@ export default function Appointments() {
     throwOnError: false,
   });
 
+  const { data: awaitingOutcome = [] } = useQuery<any[]>({
+    queryKey: ["/api/appointments/awaiting-outcome"],
+    enabled: isAuthenticated,
+    throwOnError: false,
+  });
+
+  const { data: clinics = [] } = useQuery<ClinicWithVeterinarians[]>({
+    queryKey: ["/api/clinics"],
+    enabled: isAuthenticated && isDialogOpen,
+    throwOnError: false,
+  });
+
   const form = useForm<AppointmentFormValues>({
     resolver: zodResolver(appointmentFormSchema),
     defaultValues: {
       dogId: "",
+      clinicId: "",
+      veterinarianId: "",
       vetName: "",
       clinicName: "",
       clinicAddress: "",
@@ -63,20 +95,31 @@ export default function Appointments() {
 
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: AppointmentFormValues) => {
-      const { dogId, scheduledAt, ...rest } = data;
+      const { dogId, scheduledAt, clinicId, veterinarianId, ...rest } = data;
       const payload = {
         ...rest,
+        clinicId: clinicId || null,
+        veterinarianId: veterinarianId || null,
         scheduledAt: new Date(scheduledAt).toISOString(),
       };
+      if (editingAppointmentId) {
+        await apiRequest("PUT", `/api/appointments/${editingAppointmentId}`, payload);
+        return;
+      }
       await apiRequest("POST", `/api/dogs/${dogId}/appointments`, payload);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments/upcoming"] });
+    onSuccess: (_result, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", data.dogId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clinics"] });
       setIsDialogOpen(false);
+      setEditingAppointmentId(null);
       form.reset();
       toast({
         title: "Success",
-        description: "Appointment scheduled successfully!",
+        description: editingAppointmentId
+          ? "Appointment updated successfully!"
+          : "Appointment scheduled successfully!",
       });
     },
     onError: (error: Error) => {
@@ -99,10 +142,121 @@ export default function Appointments() {
     },
   });
 
+  const deleteAppointmentMutation = useMutation({
+    mutationFn: async (appointmentId: string) => {
+      await apiRequest("DELETE", `/api/appointments/${appointmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Appointment Deleted",
+        description: "The appointment has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete appointment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelAppointmentMutation = useMutation({
+    mutationFn: async (appointment: any) => {
+      await apiRequest("POST", `/api/appointments/${appointment.id}/cancel`);
+    },
+    onSuccess: (_result, appointment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", appointment.dogId] });
+      toast({
+        title: "Appointment Cancelled",
+        description: "You can reschedule it later to reinstate it.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel appointment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: AppointmentFormValues) => {
     createAppointmentMutation.mutate(data);
   };
 
+  const openNewAppointment = () => {
+    setEditingAppointmentId(null);
+    setImportedDraft(null);
+    form.reset({
+      dogId: "",
+      clinicId: "",
+      veterinarianId: "",
+      vetName: "",
+      clinicName: "",
+      clinicAddress: "",
+      clinicPhone: "",
+      appointmentType: "",
+      scheduledAt: "",
+      notes: "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openImportedAppointment = (draft: AppointmentDraft) => {
+    setEditingAppointmentId(null);
+    setImportedDraft(draft);
+    form.reset({
+      // Preselect the dog when there's only one to choose from
+      dogId: dogs.length === 1 ? dogs[0].id : "",
+      clinicId: draft.clinicId ?? "",
+      veterinarianId: "",
+      vetName: draft.vetName,
+      clinicName: draft.clinicName,
+      clinicAddress: draft.clinicAddress ?? "",
+      clinicPhone: draft.clinicPhone ?? "",
+      appointmentType: draft.appointmentType,
+      scheduledAt: toDateTimeLocal(draft.scheduledAt),
+      notes: draft.notes ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openEditAppointment = (appointment: any) => {
+    setEditingAppointmentId(appointment.id);
+    setImportedDraft(null);
+    form.reset({
+      dogId: appointment.dogId,
+      clinicId: appointment.clinicId ?? "",
+      veterinarianId: appointment.veterinarianId ?? "",
+      vetName: appointment.vetName,
+      clinicName: appointment.clinicName,
+      clinicAddress: appointment.clinicAddress ?? "",
+      clinicPhone: appointment.clinicPhone ?? "",
+      appointmentType: appointment.appointmentType,
+      scheduledAt: toDateTimeLocal(appointment.scheduledAt),
+      notes: appointment.notes ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const selectedClinicId = form.watch("clinicId");
+  const selectedClinic = clinics.find((clinic) => clinic.id === selectedClinicId);
+
+  const pickClinic = (clinic: ClinicWithVeterinarians) => {
+    form.setValue("clinicId", clinic.id);
+    form.setValue("clinicName", clinic.name, { shouldValidate: true });
+    form.setValue("clinicAddress", clinic.address ?? "");
+    form.setValue("clinicPhone", clinic.phone ?? "");
+    // Keep the vet if they work at the picked clinic, otherwise suggest its only vet
+    const currentVet = clinic.veterinarians.find((vet) => vet.name === form.getValues("vetName"));
+    const vet = currentVet ?? (clinic.veterinarians.length === 1 ? clinic.veterinarians[0] : undefined);
+    form.setValue("veterinarianId", vet?.id ?? "");
+    if (vet) form.setValue("vetName", vet.name, { shouldValidate: true });
+  };
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -123,17 +277,26 @@ export default function Appointments() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-20 md:pb-8">
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-3xl font-bold text-foreground" data-testid="text-page-title">Appointments</h1>
+          <div className="flex items-center space-x-2">
+            <CalendarSubscribeDialog />
+            <ImportAppointmentButton onImport={openImportedAppointment} />
+            <Button onClick={openNewAppointment} data-testid="button-schedule-appointment">
+              <i className="fas fa-calendar-plus mr-2"></i>
+              Schedule Appointment
+            </Button>
+          </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-schedule-appointment">
-                <i className="fas fa-calendar-plus mr-2"></i>
-                Schedule Appointment
-              </Button>
-            </DialogTrigger>
             <DialogContent className="sm:max-w-[425px]">
               <DialogHeader>
-                <DialogTitle>Schedule New Appointment</DialogTitle>
+                <DialogTitle>{editingAppointmentId ? "Edit Appointment" : "Schedule New Appointment"}</DialogTitle>
               </DialogHeader>
+              {importedDraft && (
+                <p className="text-sm text-muted-foreground" data-testid="text-imported-clinic">
+                  {importedDraft.matchedClinic
+                    ? `Imported from invite • matched to ${importedDraft.matchedClinic}`
+                    : "Imported from invite • check the clinic details below"}
+                </p>
+              )}
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   <FormField
@@ -142,7 +305,7 @@ export default function Appointments() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Dog *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={!!editingAppointmentId}>
                           <FormControl>
                             <SelectTrigger data-testid="select-dog">
                               <SelectValue placeholder="Select a dog" />
@@ -167,7 +330,7 @@ export default function Appointments() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Appointment Type *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-appointment-type">
                               <SelectValue placeholder="Select type" />
@@ -209,8 +372,23 @@ export default function Appointments() {
                       <FormItem>
                         <FormLabel>Veterinarian Name *</FormLabel>
                         <FormControl>
-                          <Input placeholder="Dr. Smith" {...field} data-testid="input-vet-name" />
+                          <Input
+                            placeholder="Dr. Smith"
+                            list="clinic-veterinarians"
+                            {...field}
+                            onChange={(event) => {
+                              field.onChange(event);
+                              const vet = selectedClinic?.veterinarians.find((v) => v.name === event.target.value);
+                              form.setValue("veterinarianId", vet?.id ?? "");
+                            }}
+                            data-testid="input-vet-name"
+                          />
                         </FormControl>
+                        <datalist id="clinic-veterinarians">
+                          {selectedClinic?.veterinarians.map((vet) => (
+                            <option key={vet.id} value={vet.name} />
+                          ))}
+                        </datalist>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -221,9 +399,21 @@ export default function Appointments() {
                     name="clinicName"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Clinic Name *</FormLabel>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Clinic Name *</FormLabel>
+                          <ClinicPicker clinics={clinics} selectedClinicId={selectedClinicId} onSelect={pickClinic} />
+                        </div>
                         <FormControl>
-                          <Input placeholder="Happy Tails Veterinary Clinic" {...field} data-testid="input-clinic-name" />
+                          <Input
+                            placeholder="Happy Tails Veterinary Clinic"
+                            {...field}
+                            onChange={(event) => {
+                              field.onChange(event);
+                              form.setValue("clinicId", "");
+                              form.setValue("veterinarianId", "");
+                            }}
+                            data-testid="input-clinic-name"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -286,7 +476,9 @@ export default function Appointments() {
                       disabled={createAppointmentMutation.isPending}
                       data-testid="button-save-appointment"
                     >
-                      {createAppointmentMutation.isPending ? "Scheduling..." : "Schedule"}
+                      {createAppointmentMutation.isPending
+                        ? "Saving..."
+                        : editingAppointmentId ? "Save Changes" : "Schedule"}
                     </Button>
                   </div>
                 </form>
@@ -311,74 +503,199 @@ export default function Appointments() {
           </div>
         ) : (
           <div className="space-y-8">
-            {/* Upcoming Appointments */}
-            <Card>
-              <CardHeader>
-                <CardTitle data-testid="text-upcoming-appointments">Upcoming Appointments</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {isLoadingAppointments ? (
-                  <div className="space-y-4">
-                    {Array.from({ length: 2 }).map((_, i) => (
-                      <div key={i} className="animate-pulse p-4 border border-border rounded-lg">
-                        <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-muted rounded-lg"></div>
-                          <div className="flex-1 space-y-2">
-                            <div className="h-4 bg-muted rounded w-3/4"></div>
-                            <div className="h-3 bg-muted rounded w-1/2"></div>
+            <Tabs defaultValue="upcoming" className="space-y-6">
+              <TabsList>
+                <TabsTrigger value="upcoming" data-testid="tab-upcoming">Upcoming</TabsTrigger>
+                <TabsTrigger value="past" data-testid="tab-past-visits">Past Visits</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="upcoming" className="space-y-8">
+                {/* Past appointments that still need an outcome */}
+                {awaitingOutcome.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle data-testid="text-awaiting-outcome">How did these visits go?</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        {awaitingOutcome.map((appointment) => (
+                          <div key={appointment.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                            <div>
+                              <h4 className="font-semibold text-foreground">
+                                {appointment.dogName} - {appointment.appointmentType}
+                              </h4>
+                              <p className="text-sm text-muted-foreground">
+                                {new Date(appointment.scheduledAt).toLocaleDateString()} • {appointment.vetName} • {appointment.clinicName}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                size="sm"
+                                onClick={() => setOutcomeAppointment(appointment)}
+                                data-testid={`button-complete-${appointment.id}`}
+                              >
+                                <i className="fas fa-check mr-2"></i>
+                                Complete
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setRescheduleTarget({ appointment, mode: "reschedule" })}
+                                data-testid={`button-reschedule-${appointment.id}`}
+                              >
+                                Reschedule
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => cancelAppointmentMutation.mutate(appointment)}
+                                disabled={cancelAppointmentMutation.isPending}
+                                data-testid={`button-cancel-${appointment.id}`}
+                              >
+                                Didn't happen
+                              </Button>
+                            </div>
                           </div>
-                        </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                ) : upcomingAppointments.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <i className="fas fa-calendar text-4xl mb-4 opacity-50"></i>
-                    <p>No upcoming appointments scheduled</p>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    {upcomingAppointments.map((appointment) => (
-                      <div key={appointment.id} className="flex items-center space-x-4 p-4 bg-gradient-to-r from-primary/5 to-secondary/5 rounded-lg border border-primary/20">
-                        <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center text-primary-foreground font-bold">
-                          <div className="text-center">
-                            <div className="text-sm">{new Date(appointment.scheduledAt).getDate()}</div>
-                            <div className="text-xs">{new Date(appointment.scheduledAt).toLocaleDateString('en-US', { weekday: 'short' }).toUpperCase()}</div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Upcoming Appointments */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-upcoming-appointments">Upcoming Appointments</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {isLoadingAppointments ? (
+                      <div className="space-y-4">
+                        {Array.from({ length: 2 }).map((_, i) => (
+                          <div key={i} className="animate-pulse p-4 border border-border rounded-lg">
+                            <div className="flex items-center space-x-4">
+                              <div className="w-12 h-12 bg-muted rounded-lg"></div>
+                              <div className="flex-1 space-y-2">
+                                <div className="h-4 bg-muted rounded w-3/4"></div>
+                                <div className="h-3 bg-muted rounded w-1/2"></div>
+                              </div>
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex-1">
-                          <h4 className="font-semibold text-foreground" data-testid={`text-appointment-${appointment.dogName}`}>
-                            {appointment.dogName} - {appointment.appointmentType}
-                          </h4>
-                          <p className="text-sm text-muted-foreground">{appointment.vetName} • {appointment.clinicName}</p>
-                          <p className="text-xs text-primary font-medium">
-                            {new Date(appointment.scheduledAt).toLocaleTimeString('en-US', { 
-                              hour: 'numeric', 
-                              minute: '2-digit' 
-                            })} • {appointment.clinicAddress}
-                          </p>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          {appointment.clinicPhone && (
-                            <Button variant="ghost" size="sm" data-testid={`button-call-${appointment.id}`}>
-                              <i className="fas fa-phone"></i>
-                            </Button>
-                          )}
-                          {appointment.clinicAddress && (
-                            <Button variant="ghost" size="sm" data-testid={`button-directions-${appointment.id}`}>
-                              <i className="fas fa-map-marker-alt"></i>
-                            </Button>
-                          )}
-                          <Button variant="ghost" size="sm" data-testid={`button-view-${appointment.id}`}>
-                            <i className="fas fa-chevron-right"></i>
-                          </Button>
-                        </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                    ) : upcomingAppointments.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        <i className="fas fa-calendar text-4xl mb-4 opacity-50"></i>
+                        <p>No upcoming appointments scheduled</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        {upcomingAppointments.map((appointment) => (
+                          <div key={appointment.id} className="flex items-center space-x-4 p-4 bg-gradient-to-r from-primary/5 to-secondary/5 rounded-lg border border-primary/20">
+                            <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center text-primary-foreground font-bold">
+                              <div className="text-center">
+                                <div className="text-sm">{new Date(appointment.scheduledAt).getDate()}</div>
+                                <div className="text-xs">{new Date(appointment.scheduledAt).toLocaleDateString('en-US', { weekday: 'short' }).toUpperCase()}</div>
+                              </div>
+                            </div>
+                            <div className="flex-1">
+                              <h4 className="font-semibold text-foreground" data-testid={`text-appointment-${appointment.dogName}`}>
+                                {appointment.dogName} - {appointment.appointmentType}
+                              </h4>
+                              <p className="text-sm text-muted-foreground">
+                                {appointment.vetName} •{" "}
+                                {appointment.clinicId ? (
+                                  <Link
+                                    href={`/clinics/${appointment.clinicId}`}
+                                    className="hover:text-primary hover:underline"
+                                    data-testid={`link-clinic-${appointment.id}`}
+                                  >
+                                    {appointment.clinicName}
+                                  </Link>
+                                ) : (
+                                  appointment.clinicName
+                                )}
+                              </p>
+                              <p className="text-xs text-primary font-medium">
+                                {new Date(appointment.scheduledAt).toLocaleTimeString('en-US', { 
+                                  hour: 'numeric', 
+                                  minute: '2-digit' 
+                                })} • {appointment.clinicAddress}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {appointment.clinicPhone && (
+                                <Button variant="ghost" size="sm" data-testid={`button-call-${appointment.id}`}>
+                                  <i className="fas fa-phone"></i>
+                                </Button>
+                              )}
+                              {appointment.clinicAddress && (
+                                <Button variant="ghost" size="sm" data-testid={`button-directions-${appointment.id}`}>
+                                  <i className="fas fa-map-marker-alt"></i>
+                                </Button>
+                              )}
+                              <Button variant="ghost" size="sm" asChild data-testid={`button-add-to-calendar-${appointment.id}`}>
+                                <a href={`/api/appointments/${appointment.id}/calendar.ics`} download title="Add to calendar">
+                                  <i className="fas fa-calendar-plus"></i>
+                                </a>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRescheduleTarget({ appointment, mode: "reschedule" })}
+                                title="Reschedule"
+                                data-testid={`button-reschedule-${appointment.id}`}
+                              >
+                                <i className="fas fa-clock"></i>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => cancelAppointmentMutation.mutate(appointment)}
+                                disabled={cancelAppointmentMutation.isPending}
+                                title="Cancel appointment"
+                                data-testid={`button-cancel-${appointment.id}`}
+                              >
+                                <i className="fas fa-ban"></i>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openEditAppointment(appointment)}
+                                data-testid={`button-edit-${appointment.id}`}
+                              >
+                                <i className="fas fa-edit"></i>
+                              </Button>
+                              <DeleteConfirmButton
+                                title="Delete appointment?"
+                                description={`${appointment.dogName}'s ${appointment.appointmentType} appointment will be permanently removed.`}
+                                onConfirm={() => deleteAppointmentMutation.mutate(appointment.id)}
+                                isPending={deleteAppointmentMutation.isPending}
+                                testId={`button-delete-${appointment.id}`}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="past">
+                <Card>
+                  <CardHeader>
+                    <CardTitle data-testid="text-past-visits">Visit History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <AppointmentHistory
+                      dogs={dogs}
+                      onEditOutcome={setOutcomeAppointment}
+                      onFollowUp={(appointment) => setRescheduleTarget({ appointment, mode: "follow-up" })}
+                    />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
 
             {/* Quick Actions */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -416,6 +733,16 @@ export default function Appointments() {
         )}
       </main>
 
+      <AppointmentOutcomeForm
+        appointment={outcomeAppointment}
+        onOpenChange={(open) => !open && setOutcomeAppointment(null)}
+      />
+      <RescheduleAppointmentDialog
+        appointment={rescheduleTarget?.appointment ?? null}
+        mode={rescheduleTarget?.mode ?? "reschedule"}
+        onOpenChange={(open) => !open && setRescheduleTarget(null)}
+      />
+
       <MobileNavigation />
     </div>
   );
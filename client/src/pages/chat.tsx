@@ -0,0 +1,429 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import Header from "@/components/Header";
+import MobileNavigation from "@/components/MobileNavigation";
+import DeleteConfirmButton from "@/components/DeleteConfirmButton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { readServerSentEvents } from "@/lib/sse";
+import type { ChatConversation, ChatMessage, Dog } from "@shared/schema";
+
+type ConversationWithMessages = ChatConversation & { messages: ChatMessage[] };
+
+// Matches the server's limits for one message
+const MAX_PHOTOS = 4;
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+// The question and reply of the exchange in progress, shown until the saved
+// conversation is refetched
+interface PendingExchange {
+  question: string;
+  photoPreviews: string[];
+  reply: string;
+}
+
+function MessageBubble({
+  role,
+  content,
+  photoUrls,
+  testId,
+}: {
+  role: string;
+  content: string;
+  photoUrls?: string[] | null;
+  testId?: string;
+}) {
+  const isUser = role === "user";
+  return (
+    <div className={`flex ${isUser ? "justify-end" : "justify-start"}`} data-testid={testId}>
+      <div
+        className={`max-w-[85%] rounded-lg px-4 py-2 space-y-2 ${
+          isUser ? "bg-primary text-primary-foreground" : "bg-muted text-foreground"
+        }`}
+      >
+        {photoUrls && photoUrls.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photoUrls.map((url, index) => (
+              <img key={index} src={url} alt={`Attached photo ${index + 1}`} className="w-24 h-24 object-cover rounded" />
+            ))}
+          </div>
+        )}
+        <p className="text-sm whitespace-pre-wrap">{content}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function Chat() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [selectedDogId, setSelectedDogId] = useState<string>("");
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [pending, setPending] = useState<PendingExchange | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: dogs = [] } = useQuery<Dog[]>({
+    queryKey: ["/api/dogs"],
+    enabled: isAuthenticated,
+    throwOnError: false,
+  });
+
+  const { data: conversations = [] } = useQuery<ChatConversation[]>({
+    queryKey: ["/api/dogs", selectedDogId, "chat-conversations"],
+    enabled: isAuthenticated && !!selectedDogId,
+  });
+
+  const { data: conversation } = useQuery<ConversationWithMessages>({
+    queryKey: ["/api/chat-conversations", conversationId],
+    enabled: isAuthenticated && !!conversationId,
+  });
+
+  // Set first dog as selected by default
+  if (!selectedDogId && dogs.length > 0) {
+    setSelectedDogId(dogs[0].id);
+  }
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [conversation?.messages.length, pending?.reply]);
+
+  const deleteConversationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/chat-conversations/${id}`);
+    },
+    onSuccess: (_, id) => {
+      if (id === conversationId) setConversationId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs", selectedDogId, "chat-conversations"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    const accepted = files.filter((file) => file.type.startsWith("image/") && file.size <= MAX_PHOTO_BYTES);
+    if (accepted.length < files.length) {
+      toast({
+        title: "Some photos were skipped",
+        description: "Only images up to 5MB can be attached.",
+        variant: "destructive",
+      });
+    }
+    setPhotos((current) => [...current, ...accepted].slice(0, MAX_PHOTOS));
+  };
+
+  const sendMessage = async () => {
+    const content = draft.trim();
+    if (!content || pending || !selectedDogId) return;
+
+    const attached = photos;
+    setPending({ question: content, photoPreviews: attached.map((file) => URL.createObjectURL(file)), reply: "" });
+    setDraft("");
+    setPhotos([]);
+
+    let targetId = conversationId;
+    let questionSaved = false;
+    let failed = false;
+    try {
+      if (!targetId) {
+        const response = await apiRequest("POST", `/api/dogs/${selectedDogId}/chat-conversations`, {});
+        const created: ChatConversation = await response.json();
+        targetId = created.id;
+        setConversationId(created.id);
+      }
+
+      const formData = new FormData();
+      formData.append("content", content);
+      attached.forEach((file) => formData.append("photos", file));
+      const response = await fetch(`/api/ai/chat/${targetId}`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to send message");
+      }
+
+      await readServerSentEvents(response, (event, data) => {
+        if (event === "message") {
+          questionSaved = true;
+        } else if (event === "token") {
+          const { text } = JSON.parse(data) as { text: string };
+          setPending((current) => current && { ...current, reply: current.reply + text });
+        } else if (event === "error") {
+          failed = true;
+        }
+      });
+    } catch (error) {
+      console.error("Chat message failed:", error);
+      failed = true;
+      // Nothing was saved, so give the user their message back
+      if (!questionSaved) {
+        setDraft(content);
+        setPhotos(attached);
+      }
+    }
+
+    if (failed) {
+      toast({
+        title: "No Reply",
+        description: "The assistant couldn't answer just now. Please try again.",
+        variant: "destructive",
+      });
+    }
+    if (targetId) {
+      await queryClient.invalidateQueries({ queryKey: ["/api/chat-conversations", targetId] });
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/dogs", selectedDogId, "chat-conversations"] });
+    setPending((current) => {
+      current?.photoPreviews.forEach((url) => URL.revokeObjectURL(url));
+      return null;
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      sendMessage();
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    window.location.href = "/api/login";
+    return null;
+  }
+
+  const selectedDog = dogs.find((dog) => dog.id === selectedDogId);
+  const messages = conversationId ? conversation?.messages ?? [] : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-20 md:pb-8">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-page-title">Vet Chat</h1>
+        </div>
+
+        {dogs.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="w-24 h-24 bg-accent/10 rounded-full flex items-center justify-center mx-auto mb-6">
+              <i className="fas fa-comments text-accent text-3xl"></i>
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-4">No dogs to chat about</h2>
+            <p className="text-muted-foreground max-w-md mx-auto">
+              Add a dog profile first so the assistant knows who you're asking about.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Dog Selector */}
+            {dogs.length > 1 && (
+              <div className="mb-8">
+                <div className="flex space-x-2 overflow-x-auto pb-2">
+                  {dogs.map((dog) => (
+                    <Button
+                      key={dog.id}
+                      variant={selectedDogId === dog.id ? "default" : "outline"}
+                      onClick={() => {
+                        setSelectedDogId(dog.id);
+                        setConversationId(null);
+                      }}
+                      disabled={!!pending}
+                      className="whitespace-nowrap"
+                      data-testid={`button-select-dog-${dog.name}`}
+                    >
+                      {dog.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              {/* Conversation list */}
+              <Card className="lg:col-span-1">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-base">
+                    Conversations
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setConversationId(null)}
+                      disabled={!!pending}
+                      data-testid="button-new-conversation"
+                    >
+                      <i className="fas fa-plus mr-1"></i>
+                      New
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {conversations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No conversations yet.</p>
+                  ) : (
+                    conversations.map((item) => (
+                      <div
+                        key={item.id}
+                        className={`flex items-center justify-between rounded-md px-2 py-1 ${
+                          item.id === conversationId ? "bg-muted" : ""
+                        }`}
+                      >
+                        <button
+                          type="button"
+                          className="flex-1 text-left text-sm truncate py-1"
+                          onClick={() => setConversationId(item.id)}
+                          disabled={!!pending}
+                          data-testid={`button-conversation-${item.id}`}
+                        >
+                          {item.title || "New conversation"}
+                        </button>
+                        <DeleteConfirmButton
+                          title="Delete conversation?"
+                          description="This conversation and its photos will be removed from your chat history."
+                          onConfirm={() => deleteConversationMutation.mutate(item.id)}
+                          isPending={deleteConversationMutation.isPending}
+                          testId={`button-delete-conversation-${item.id}`}
+                        />
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Messages */}
+              <Card className="lg:col-span-3 flex flex-col">
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    {conversationId
+                      ? conversation?.title || "New conversation"
+                      : `Ask about ${selectedDog?.name ?? "your dog"}`}
+                  </CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    The assistant knows {selectedDog?.name ?? "your dog"}'s profile, medications, vaccinations, recent
+                    health records and weights. It isn't a vet: in an emergency, call your vet or an emergency clinic
+                    right away.
+                  </p>
+                </CardHeader>
+                <CardContent className="flex-1 flex flex-col gap-4">
+                  <div className="space-y-3 min-h-[300px] max-h-[55vh] overflow-y-auto" data-testid="chat-messages">
+                    {messages.length === 0 && !pending && (
+                      <p className="text-sm text-muted-foreground text-center py-12">
+                        Ask a question about {selectedDog?.name ?? "your dog"}'s health to get started.
+                      </p>
+                    )}
+                    {messages.map((message) => (
+                      <MessageBubble
+                        key={message.id}
+                        role={message.role}
+                        content={message.content}
+                        photoUrls={message.photoUrls}
+                        testId={`chat-message-${message.id}`}
+                      />
+                    ))}
+                    {pending && (
+                      <>
+                        <MessageBubble role="user" content={pending.question} photoUrls={pending.photoPreviews} />
+                        <MessageBubble role="assistant" content={pending.reply || "Thinking..."} />
+                      </>
+                    )}
+                    <div ref={bottomRef} />
+                  </div>
+
+                  {photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {photos.map((file, index) => (
+                        <div key={index} className="relative group">
+                          <img
+                            src={URL.createObjectURL(file)}
+                            alt={`Attachment ${index + 1}`}
+                            className="w-16 h-16 object-cover rounded border"
+                          />
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="sm"
+                            className="absolute top-0 right-0 h-5 w-5 p-0"
+                            onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                            data-testid={`button-remove-attachment-${index}`}
+                          >
+                            <i className="fas fa-times text-xs"></i>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-end gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={!!pending || photos.length >= MAX_PHOTOS}
+                      title="Attach photos"
+                      data-testid="button-attach-photo"
+                    >
+                      <i className="fas fa-camera"></i>
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={handlePhotoSelect}
+                      className="hidden"
+                      data-testid="input-chat-photo"
+                    />
+                    <Textarea
+                      value={draft}
+                      onChange={(event) => setDraft(event.target.value)}
+                      onKeyDown={handleKeyDown}
+                      placeholder={`Ask about ${selectedDog?.name ?? "your dog"}...`}
+                      className="min-h-[44px] max-h-40"
+                      maxLength={4000}
+                      disabled={!!pending}
+                      data-testid="input-chat-message"
+                    />
+                    <Button
+                      type="button"
+                      onClick={sendMessage}
+                      disabled={!!pending || !draft.trim()}
+                      data-testid="button-send-message"
+                    >
+                      <i className="fas fa-paper-plane"></i>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
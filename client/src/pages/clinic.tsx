@@ -0,0 +1,398 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/Header";
+import MobileNavigation from "@/components/MobileNavigation";
+import type { Appointment, Clinic, Veterinarian } from "@shared/schema";
+
+type ClinicDetail = Clinic & {
+  veterinarians: Veterinarian[];
+  visits: (Appointment & { dogName: string })[];
+  isOwner: boolean;
+};
+
+const clinicFormSchema = z.object({
+  name: z.string().trim().min(1, "Clinic name is required"),
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.union([z.literal(""), z.string().email("Enter a valid email")]).optional(),
+  website: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type ClinicFormValues = z.infer<typeof clinicFormSchema>;
+
+export default function ClinicPage() {
+  const { id } = useParams<{ id: string }>();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [newVetName, setNewVetName] = useState("");
+
+  const { data: clinic, isLoading } = useQuery<ClinicDetail>({
+    queryKey: ["/api/clinics", id],
+    enabled: isAuthenticated,
+    throwOnError: false,
+  });
+
+  const form = useForm<ClinicFormValues>({
+    resolver: zodResolver(clinicFormSchema),
+  });
+
+  const invalidateClinic = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/clinics"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments/upcoming"] });
+  };
+
+  const updateClinicMutation = useMutation({
+    mutationFn: async (data: ClinicFormValues) => {
+      await apiRequest("PUT", `/api/clinics/${id}`, {
+        name: data.name,
+        address: data.address || null,
+        phone: data.phone || null,
+        email: data.email || null,
+        website: data.website || null,
+        notes: data.notes || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateClinic();
+      setIsEditOpen(false);
+      toast({ title: "Clinic Updated", description: "Appointments at this clinic now show the new details." });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update clinic. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addVeterinarianMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", `/api/clinics/${id}/veterinarians`, { name });
+    },
+    onSuccess: () => {
+      invalidateClinic();
+      setNewVetName("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add veterinarian. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEdit = () => {
+    if (!clinic) return;
+    form.reset({
+      name: clinic.name,
+      address: clinic.address ?? "",
+      phone: clinic.phone ?? "",
+      email: clinic.email ?? "",
+      website: clinic.website ?? "",
+      notes: clinic.notes ?? "",
+    });
+    setIsEditOpen(true);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    window.location.href = "/api/login";
+    return null;
+  }
+
+  // Visits grouped per dog, most recent first within each dog
+  const visitsByDog = new Map<string, ClinicDetail["visits"]>();
+  for (const visit of clinic?.visits ?? []) {
+    visitsByDog.set(visit.dogId, [...(visitsByDog.get(visit.dogId) ?? []), visit]);
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-20 md:pb-8">
+        <Link href="/appointments" className="text-sm text-muted-foreground hover:text-primary" data-testid="link-back-appointments">
+          <i className="fas fa-arrow-left mr-2"></i>
+          Appointments
+        </Link>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-4 mt-6">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-32 bg-muted rounded"></div>
+          </div>
+        ) : !clinic ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <i className="fas fa-hospital text-4xl mb-4 opacity-50"></i>
+            <p>This clinic could not be found.</p>
+          </div>
+        ) : (
+          <div className="space-y-8 mt-4">
+            <div className="flex items-center justify-between">
+              <h1 className="text-3xl font-bold text-foreground" data-testid="text-clinic-name">{clinic.name}</h1>
+              {clinic.isOwner && (
+                <Button variant="outline" onClick={openEdit} data-testid="button-edit-clinic">
+                  <i className="fas fa-edit mr-2"></i>
+                  Edit
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Details</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {clinic.address && (
+                    <p className="flex items-start">
+                      <i className="fas fa-map-marker-alt w-5 mt-0.5 text-muted-foreground"></i>
+                      <span data-testid="text-clinic-address">{clinic.address}</span>
+                    </p>
+                  )}
+                  {clinic.phone && (
+                    <p className="flex items-center">
+                      <i className="fas fa-phone w-5 text-muted-foreground"></i>
+                      <a href={`tel:${clinic.phone}`} className="hover:text-primary" data-testid="link-clinic-phone">{clinic.phone}</a>
+                    </p>
+                  )}
+                  {clinic.email && (
+                    <p className="flex items-center">
+                      <i className="fas fa-envelope w-5 text-muted-foreground"></i>
+                      <a href={`mailto:${clinic.email}`} className="hover:text-primary">{clinic.email}</a>
+                    </p>
+                  )}
+                  {clinic.website && (
+                    <p className="flex items-center">
+                      <i className="fas fa-globe w-5 text-muted-foreground"></i>
+                      <a href={clinic.website} target="_blank" rel="noreferrer" className="hover:text-primary truncate">{clinic.website}</a>
+                    </p>
+                  )}
+                  {clinic.notes && <p className="text-muted-foreground whitespace-pre-line">{clinic.notes}</p>}
+                  {!clinic.address && !clinic.phone && !clinic.email && !clinic.website && !clinic.notes && (
+                    <p className="text-muted-foreground">No contact details yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Veterinarians</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {clinic.veterinarians.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No veterinarians recorded.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {clinic.veterinarians.map((vet) => (
+                        <li key={vet.id} className="flex items-center justify-between text-sm" data-testid={`text-veterinarian-${vet.id}`}>
+                          <span className="font-medium text-foreground">{vet.name}</span>
+                          {vet.specialty && <Badge variant="secondary">{vet.specialty}</Badge>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {clinic.isOwner && (
+                    <form
+                      className="flex space-x-2 pt-2"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        if (newVetName.trim()) addVeterinarianMutation.mutate(newVetName.trim());
+                      }}
+                    >
+                      <Input
+                        placeholder="Add veterinarian"
+                        value={newVetName}
+                        onChange={(event) => setNewVetName(event.target.value)}
+                        data-testid="input-new-veterinarian"
+                      />
+                      <Button type="submit" disabled={!newVetName.trim() || addVeterinarianMutation.isPending} data-testid="button-add-veterinarian">
+                        <i className="fas fa-plus"></i>
+                      </Button>
+                    </form>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Summary</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p><span className="font-semibold text-foreground">{clinic.visits.length}</span> visits</p>
+                  <p><span className="font-semibold text-foreground">{visitsByDog.size}</span> dogs seen</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle data-testid="text-clinic-visits">Visits</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {visitsByDog.size === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <i className="fas fa-calendar text-4xl mb-4 opacity-50"></i>
+                    <p>No visits to this clinic yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    {Array.from(visitsByDog.entries()).map(([dogId, visits]) => (
+                      <div key={dogId}>
+                        <h3 className="font-semibold text-foreground mb-2" data-testid={`text-visits-dog-${dogId}`}>
+                          <i className="fas fa-dog mr-2 text-primary"></i>
+                          {visits[0].dogName}
+                        </h3>
+                        <div className="space-y-2">
+                          {visits.map((visit) => (
+                            <div key={visit.id} className="flex items-center justify-between p-3 border border-border rounded-lg text-sm">
+                              <div>
+                                <p className="font-medium text-foreground capitalize">{visit.appointmentType}</p>
+                                <p className="text-muted-foreground">{visit.vetName}</p>
+                              </div>
+                              <div className="text-right">
+                                <p className="text-foreground">{new Date(visit.scheduledAt).toLocaleDateString()}</p>
+                                <Badge variant={visit.status === "cancelled" ? "destructive" : "outline"} className="capitalize">
+                                  {visit.status}
+                                </Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Edit Clinic</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => updateClinicMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Clinic Name *</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-clinic-edit-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-clinic-edit-address" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-clinic-edit-phone" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} data-testid="input-clinic-edit-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="website"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Website</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-clinic-edit-website" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} data-testid="input-clinic-edit-notes" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end space-x-2 pt-4">
+                  <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={updateClinicMutation.isPending} data-testid="button-save-clinic">
+                    {updateClinicMutation.isPending ? "Saving..." : "Save Changes"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </main>
+
+      <MobileNavigation />
+    </div>
+  );
+}
@@ -33,6 +33,8 @@ export default function Dogs() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isJoinDialogOpen, setIsJoinDialogOpen] = useState(false);
+  const [inviteCode, setInviteCode] = useState("");
 
   const { data: dogs = [], isLoading: isLoadingDogs, error: dogsError } = useQuery<any[]>({
     queryKey: ["/api/dogs"],
@@ -52,6 +54,35 @@ export default function Dogs() {
     }, 500);
   }
 
+  const { data: pendingInvites = [] } = useQuery<any[]>({
+    queryKey: ["/api/invites"],
+    enabled: isAuthenticated,
+    throwOnError: false,
+  });
+
+  const acceptInviteMutation = useMutation({
+    mutationFn: async (code: string) => {
+      await apiRequest("POST", "/api/invites/accept", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dogs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+      setIsJoinDialogOpen(false);
+      setInviteCode("");
+      toast({
+        title: "Invite Accepted",
+        description: "You now have access to this dog's records.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "That invite code is invalid or has expired.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const form = useForm<DogFormValues>({
     resolver: zodResolver(dogFormSchema),
     defaultValues: {
@@ -126,6 +157,44 @@ export default function Dogs() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pb-20 md:pb-8">
         <div className="flex items-center justify-between mb-8">
           <h1 className="text-3xl font-bold text-foreground" data-testid="text-page-title">Your Dogs</h1>
+          <div className="flex items-center space-x-2">
+          <Dialog open={isJoinDialogOpen} onOpenChange={setIsJoinDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" data-testid="button-join-household">
+                <i className="fas fa-key mr-2"></i>
+                Join with Code
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>Join a Household</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Enter the invite code you received to get access to a shared dog.
+                </p>
+                <Input
+                  placeholder="e.g., K7QM2XPA"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                  className="font-mono"
+                  data-testid="input-invite-code"
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setIsJoinDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => acceptInviteMutation.mutate(inviteCode)}
+                    disabled={!inviteCode || acceptInviteMutation.isPending}
+                    data-testid="button-accept-invite-code"
+                  >
+                    {acceptInviteMutation.isPending ? "Joining..." : "Join"}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button data-testid="button-add-dog">
@@ -252,8 +321,31 @@ export default function Dogs() {
               </Form>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
 
+        {pendingInvites.length > 0 && (
+          <div className="space-y-3 mb-8">
+            {pendingInvites.map((invite) => (
+              <Card key={invite.id} className="border-primary/30 bg-primary/5" data-testid={`card-invite-${invite.id}`}>
+                <CardContent className="p-4 flex items-center justify-between">
+                  <p className="text-sm text-foreground">
+                    You've been invited to help care for <span className="font-semibold">{invite.dogName}</span> as a {invite.role}.
+                  </p>
+                  <Button
+                    size="sm"
+                    onClick={() => acceptInviteMutation.mutate(invite.code)}
+                    disabled={acceptInviteMutation.isPending}
+                    data-testid={`button-accept-invite-${invite.id}`}
+                  >
+                    Accept
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
         {isLoadingDogs ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {Array.from({ length: 3 }).map((_, i) => (
@@ -9,12 +9,15 @@ import MobileNavigation from "@/components/MobileNavigation";
 import HealthEntryForm from "@/components/HealthEntryForm";
 import EmergencyAssessment from "@/components/EmergencyAssessment";
 import WeightChart from "@/components/WeightChart";
-import { useToast } from "@/hooks/use-toast";
-import { isUnauthorizedError } from "@/lib/authUtils";
+import MedicationCard from "@/components/MedicationCard";
+import MedicationForm from "@/components/MedicationForm";
+import MedicationAdherence from "@/components/MedicationAdherence";
+import VaccinationForm from "@/components/VaccinationForm";
+import VaccinationCompliance from "@/components/VaccinationCompliance";
+import HealthTimeline from "@/components/HealthTimeline";
 
 export default function Health() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
-  const { toast } = useToast();
   const [selectedDogId, setSelectedDogId] = useState<string>("");
 
   const { data: dogs = [], isLoading: isLoadingDogs } = useQuery<any[]>({
@@ -23,24 +26,12 @@ export default function Health() {
     throwOnError: false,
   });
 
-  const { data: healthRecords = [] } = useQuery<any[]>({
-    queryKey: ["/api/dogs", selectedDogId, "health-records"],
-    enabled: isAuthenticated && !!selectedDogId,
-    throwOnError: false,
-  });
-
   const { data: medications = [] } = useQuery<any[]>({
     queryKey: ["/api/dogs", selectedDogId, "medications"],
     enabled: isAuthenticated && !!selectedDogId,
     throwOnError: false,
   });
 
-  const { data: vaccinations = [] } = useQuery<any[]>({
-    queryKey: ["/api/dogs", selectedDogId, "vaccinations"],
-    enabled: isAuthenticated && !!selectedDogId,
-    throwOnError: false,
-  });
-
   // Set first dog as selected by default
   if (!selectedDogId && dogs.length > 0) {
     setSelectedDogId(dogs[0].id);
@@ -115,7 +106,7 @@ export default function Health() {
                 {/* Health Tabs */}
                 <Tabs defaultValue="records" className="space-y-6">
                   <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="records" data-testid="tab-records">Health Records</TabsTrigger>
+                    <TabsTrigger value="records" data-testid="tab-records">Timeline</TabsTrigger>
                     <TabsTrigger value="medications" data-testid="tab-medications">Medications</TabsTrigger>
                     <TabsTrigger value="weight" data-testid="tab-weight">Weight Tracking</TabsTrigger>
                     <TabsTrigger value="vaccinations" data-testid="tab-vaccinations">Vaccinations</TabsTrigger>
@@ -128,73 +119,13 @@ export default function Health() {
                           <CardHeader>
                             <CardTitle className="flex items-center justify-between">
                               <span data-testid={`text-health-records-${selectedDog.name}`}>
-                                {selectedDog.name}'s Health Records
+                                {selectedDog.name}'s Health Timeline
                               </span>
                               <HealthEntryForm dogId={selectedDogId} />
                             </CardTitle>
                           </CardHeader>
                           <CardContent>
-                            {healthRecords.length === 0 ? (
-                              <div className="text-center py-8 text-muted-foreground">
-                                <i className="fas fa-clipboard-list text-4xl mb-4 opacity-50"></i>
-                                <p>No health records yet. Start by logging symptoms or observations.</p>
-                              </div>
-                            ) : (
-                              <div className="space-y-4">
-                                {healthRecords.map((record) => (
-                                  <div key={record.id} className="p-4 border border-border rounded-lg">
-                                    <div className="flex items-start justify-between mb-2">
-                                      <h4 className="font-semibold text-foreground">{record.title}</h4>
-                                      <span className="text-sm text-muted-foreground">
-                                        {new Date(record.recordedAt).toLocaleDateString()}
-                                      </span>
-                                    </div>
-                                    <div className="flex items-start justify-between mb-2">
-                                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                                        record.type === 'symptom' ? 'bg-destructive/20 text-destructive' :
-                                        record.type === 'checkup' ? 'bg-chart-3/20 text-chart-3' :
-                                        'bg-primary/20 text-primary'
-                                      }`}>
-                                        {record.type}
-                                      </span>
-                                      {record.severity && (
-                                        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                                          record.severity === 'severe' ? 'bg-destructive/20 text-destructive' :
-                                          record.severity === 'moderate' ? 'bg-chart-4/20 text-chart-4' :
-                                          'bg-chart-3/20 text-chart-3'
-                                        }`}>
-                                          {record.severity}
-                                        </span>
-                                      )}
-                                    </div>
-                                    {record.description && (
-                                      <p className="text-sm text-muted-foreground mb-3">{record.description}</p>
-                                    )}
-                                    {record.photoUrls && record.photoUrls.length > 0 && (
-                                      <div className="mb-3">
-                                        <h5 className="text-sm font-medium text-foreground mb-2">Photos:</h5>
-                                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                                          {record.photoUrls.map((photoUrl, photoIndex) => (
-                                            <div key={photoIndex} className="relative group">
-                                              <img
-                                                src={photoUrl}
-                                                alt={`Health record photo ${photoIndex + 1}`}
-                                                className="w-full h-20 object-cover rounded border cursor-pointer hover:opacity-80 transition-opacity"
-                                                onClick={() => {
-                                                  // Open image in new tab for full view
-                                                  window.open(photoUrl, '_blank');
-                                                }}
-                                                data-testid={`health-photo-${record.id}-${photoIndex}`}
-                                              />
-                                            </div>
-                                          ))}
-                                        </div>
-                                      </div>
-                                    )}
-                                  </div>
-                                ))}
-                              </div>
-                            )}
+                            <HealthTimeline dogId={selectedDogId} />
                           </CardContent>
                         </Card>
                       </div>
@@ -224,56 +155,34 @@ export default function Health() {
                   </TabsContent>
 
                   <TabsContent value="medications">
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center justify-between">
-                          <span data-testid={`text-medications-${selectedDog.name}`}>
-                            {selectedDog.name}'s Medications
-                          </span>
-                          <Button>
-                            <i className="fas fa-plus mr-2"></i>
-                            Add Medication
-                          </Button>
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        {medications.length === 0 ? (
-                          <div className="text-center py-8 text-muted-foreground">
-                            <i className="fas fa-pills text-4xl mb-4 opacity-50"></i>
-                            <p>No medications recorded. Add medications to track doses and schedules.</p>
-                          </div>
-                        ) : (
-                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                            {medications.map((medication) => (
-                              <div key={medication.id} className="border border-border rounded-lg p-4">
-                                <h4 className="font-semibold text-foreground mb-2">{medication.name}</h4>
-                                <div className="space-y-1 text-sm">
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Dose:</span>
-                                    <span className="text-foreground">{medication.dosage}</span>
-                                  </div>
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Frequency:</span>
-                                    <span className="text-foreground">{medication.frequency}</span>
-                                  </div>
-                                  {medication.nextDueDate && (
-                                    <div className="flex justify-between">
-                                      <span className="text-muted-foreground">Next due:</span>
-                                      <span className="text-foreground">
-                                        {new Date(medication.nextDueDate).toLocaleDateString()}
-                                      </span>
-                                    </div>
-                                  )}
-                                </div>
-                                <Button size="sm" className="w-full mt-3">
-                                  Mark Given
-                                </Button>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
+                    <div className="space-y-6">
+                      <Card>
+                        <CardHeader>
+                          <CardTitle className="flex items-center justify-between">
+                            <span data-testid={`text-medications-${selectedDog.name}`}>
+                              {selectedDog.name}'s Medications
+                            </span>
+                            <MedicationForm dogId={selectedDogId} />
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          {medications.length === 0 ? (
+                            <div className="text-center py-8 text-muted-foreground">
+                              <i className="fas fa-pills text-4xl mb-4 opacity-50"></i>
+                              <p>No medications recorded. Add medications to track doses and schedules.</p>
+                            </div>
+                          ) : (
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                              {medications.map((medication) => (
+                                <MedicationCard key={medication.id} medication={medication} />
+                              ))}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+
+                      <MedicationAdherence dogId={selectedDogId} />
+                    </div>
                   </TabsContent>
 
                   <TabsContent value="weight">
@@ -281,53 +190,25 @@ export default function Health() {
                   </TabsContent>
 
                   <TabsContent value="vaccinations">
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center justify-between">
-                          <span data-testid={`text-vaccinations-${selectedDog.name}`}>
-                            {selectedDog.name}'s Vaccinations
-                          </span>
-                          <Button>
-                            <i className="fas fa-plus mr-2"></i>
-                            Add Vaccination
-                          </Button>
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        {vaccinations.length === 0 ? (
-                          <div className="text-center py-8 text-muted-foreground">
-                            <i className="fas fa-shield-alt text-4xl mb-4 opacity-50"></i>
-                            <p>No vaccination records. Add vaccinations to track your dog's immunization status.</p>
-                          </div>
-                        ) : (
-                          <div className="space-y-4">
-                            {vaccinations.map((vaccination) => (
-                              <div key={vaccination.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
-                                <div>
-                                  <h4 className="font-semibold text-foreground">{vaccination.vaccineName}</h4>
-                                  <p className="text-sm text-muted-foreground">
-                                    Administered: {new Date(vaccination.administeredAt).toLocaleDateString()}
-                                  </p>
-                                  {vaccination.nextDueDate && (
-                                    <p className="text-sm text-muted-foreground">
-                                      Next due: {new Date(vaccination.nextDueDate).toLocaleDateString()}
-                                    </p>
-                                  )}
-                                </div>
-                                <div className="text-right">
-                                  {vaccination.vetName && (
-                                    <p className="text-sm text-muted-foreground">By: {vaccination.vetName}</p>
-                                  )}
-                                  <span className="inline-block px-2 py-1 bg-chart-3/20 text-chart-3 rounded text-xs font-medium">
-                                    Complete
-                                  </span>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
+                    <div className="space-y-6">
+                      <VaccinationCompliance dogId={selectedDogId} />
+
+                      <Card>
+                        <CardHeader>
+                          <CardTitle className="flex items-center justify-between">
+                            <span data-testid={`text-vaccinations-${selectedDog.name}`}>
+                              {selectedDog.name}'s Vaccinations
+                            </span>
+                            <VaccinationForm dogId={selectedDogId} />
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          <p className="text-sm text-muted-foreground">
+                            Past doses appear in the Timeline tab alongside the rest of {selectedDog.name}'s history.
+                          </p>
+                        </CardContent>
+                      </Card>
+                    </div>
                   </TabsContent>
                 </Tabs>
               </>
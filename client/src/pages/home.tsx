@@ -67,6 +67,12 @@ export default function Home() {
     }, 500);
   }
 
+  const { data: medicationsNeedingRefill = [] } = useQuery<any[]>({
+    queryKey: ["/api/medications/refill-needed"],
+    enabled: isAuthenticated,
+    throwOnError: false,
+  });
+
   if (isLoading || !isAuthenticated) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -275,6 +281,20 @@ export default function Home() {
           </div>
         )}
 
+        {/* Refills Needed */}
+        {medicationsNeedingRefill.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-foreground" data-testid="text-refills-needed">Refills Needed</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {medicationsNeedingRefill.map((medication) => (
+                <MedicationCard key={medication.id} medication={medication} dogName={medication.dogName} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Health Tracking Dashboard */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* Recent Health Entries */}
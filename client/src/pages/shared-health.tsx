@@ -0,0 +1,217 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import type { SharedDogHealth } from "@shared/schema";
+
+const formatDate = (value: Date | string | null | undefined) => (value ? new Date(value).toLocaleDateString() : "—");
+
+// Public, read-only view of a dog's records opened from a share link
+export default function SharedHealth() {
+  const { token } = useParams<{ token: string }>();
+  const { data, isLoading, isError } = useQuery<SharedDogHealth>({
+    queryKey: ["/api/share", token],
+    throwOnError: false,
+  });
+
+  const header = (
+    <header className="border-b bg-background/80 backdrop-blur-sm">
+      <div className="container mx-auto px-4 py-4 flex items-center space-x-2">
+        <div className="w-10 h-10 bg-primary rounded-xl flex items-center justify-center">
+          <i className="fas fa-paw text-primary-foreground text-lg"></i>
+        </div>
+        <span className="text-2xl font-bold text-foreground">Pawsitive</span>
+        <Badge variant="secondary" className="ml-2">Read-only</Badge>
+      </div>
+    </header>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <div className="flex justify-center py-24">
+          <LoadingSpinner size="lg" text="Loading shared records..." />
+        </div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <div className="container mx-auto px-4 py-24 text-center text-muted-foreground">
+          <i className="fas fa-unlink text-4xl mb-4 opacity-50"></i>
+          <p className="text-lg">This link has expired or been revoked.</p>
+          <p className="text-sm mt-2">Ask the dog's owner for a new one.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { dog } = data;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {header}
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="text-shared-dog-name">{dog.name}</h1>
+          <p className="text-muted-foreground">
+            {[dog.breed, dog.gender, dog.weight && `${parseFloat(dog.weight)} lbs`].filter(Boolean).join(" • ")}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Born {formatDate(dog.birthDate)} • Microchip {dog.microchipId || "not recorded"}
+          </p>
+          <p className="text-xs text-muted-foreground mt-2">
+            {data.label && `Shared with ${data.label} • `}
+            {data.rangeFrom || data.rangeTo
+              ? `Records from ${formatDate(data.rangeFrom)} to ${formatDate(data.rangeTo)} • `
+              : ""}
+            Link expires {formatDate(data.expiresAt)}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Health Records</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.healthRecords.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No health records in this period.</p>
+            ) : (
+              data.healthRecords.map((record) => (
+                <div key={record.id} className="p-4 border border-border rounded-lg" data-testid={`shared-record-${record.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h4 className="font-semibold text-foreground">{record.title}</h4>
+                      <p className="text-xs text-muted-foreground">{formatDate(record.recordedAt)}</p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Badge variant="outline" className="capitalize">{record.type}</Badge>
+                      {record.severity && (
+                        <Badge variant={record.severity === "severe" ? "destructive" : "secondary"} className="capitalize">
+                          {record.severity}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  {record.description && <p className="text-sm text-muted-foreground mt-2">{record.description}</p>}
+                  {record.vetNotes && <p className="text-sm text-muted-foreground mt-1 whitespace-pre-line">{record.vetNotes}</p>}
+                  {record.photoUrls && record.photoUrls.length > 0 && (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-3">
+                      {record.photoUrls.map((photoUrl, photoIndex) => (
+                        <a key={photoUrl} href={photoUrl} target="_blank" rel="noreferrer">
+                          <img
+                            src={photoUrl}
+                            alt={`${record.title} photo ${photoIndex + 1}`}
+                            className="w-full h-24 object-cover rounded border"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Medications</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.medications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No medications in this period.</p>
+              ) : (
+                data.medications.map((medication) => (
+                  <div key={medication.id} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-foreground">{medication.name}</span>
+                      {medication.isActive && <Badge>Active</Badge>}
+                    </div>
+                    <p className="text-muted-foreground">
+                      {medication.dosage}, {medication.frequency}
+                      {medication.startDate && ` • from ${formatDate(medication.startDate)}`}
+                      {medication.endDate && ` to ${formatDate(medication.endDate)}`}
+                    </p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Vaccinations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.vaccinations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No vaccinations in this period.</p>
+              ) : (
+                data.vaccinations.map((vaccination) => (
+                  <div key={vaccination.id} className="text-sm">
+                    <span className="font-medium text-foreground">{vaccination.vaccineName}</span>
+                    <p className="text-muted-foreground">
+                      Given {formatDate(vaccination.administeredAt)}
+                      {vaccination.nextDueDate && ` • next due ${formatDate(vaccination.nextDueDate)}`}
+                    </p>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Weight</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.weightRecords.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No weigh-ins in this period.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {data.weightRecords.map((record) => (
+                    <li key={record.id} className="flex justify-between">
+                      <span className="text-muted-foreground">{formatDate(record.recordedAt)}</span>
+                      <span className="font-medium text-foreground">{Number(record.weight).toFixed(1)} lbs</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Vet Visits</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.appointments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No vet visits in this period.</p>
+              ) : (
+                data.appointments.map((appointment) => (
+                  <div key={appointment.id} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-foreground capitalize">{appointment.appointmentType}</span>
+                      <Badge variant="outline" className="capitalize">{appointment.status}</Badge>
+                    </div>
+                    <p className="text-muted-foreground">
+                      {formatDate(appointment.scheduledAt)} • {appointment.clinicName}
+                      {appointment.vetName && ` • ${appointment.vetName}`}
+                    </p>
+                    {appointment.diagnosis && <p className="text-muted-foreground">Diagnosis: {appointment.diagnosis}</p>}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
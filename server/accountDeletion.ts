@@ -0,0 +1,59 @@
+import { storage } from "./storage";
+import { ObjectNotFoundError, ObjectStorageService } from "./objectStorage";
+import { ObjectAccessGroupType, getObjectAclPolicy } from "./objectAcl";
+
+// Erases an account for good: the user row and everything cascading from it,
+// their sessions, and their uploads in object storage. Billing is the caller's
+// job and has to be stopped first, since nothing here can be undone.
+
+export interface AccountErasure {
+  deletedObjects: number;
+  failedObjects: string[];
+}
+
+export async function eraseAccount(userId: string): Promise<AccountErasure> {
+  const data = await storage.getUserExportData(userId);
+  if (!data) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  // Paths attached to the user's own dogs. A record can hold any object path,
+  // so these are only deleted when the object's ACL shows it was uploaded by
+  // the user or for one of their dogs.
+  const dogIds = new Set(data.dogs.map((dog) => dog.id));
+  const attached = new Set([
+    ...data.healthRecords.flatMap((record) => record.photoUrls ?? []),
+    ...data.appointments.flatMap((appointment) => appointment.documentUrls ?? []),
+    ...data.dogs.flatMap((dog) => (dog.profileImageUrl?.startsWith("/objects/") ? [dog.profileImageUrl] : [])),
+  ]);
+  // Listed before any rows go so a storage misconfiguration aborts the whole erasure
+  const objectStorageService = new ObjectStorageService();
+  const owned = await objectStorageService.findObjectEntitiesOwnedBy(userId);
+
+  await storage.deleteUser(userId);
+
+  let deletedObjects = 0;
+  const failedObjects: string[] = [];
+  for (const objectPath of Array.from(new Set([...Array.from(attached), ...owned]))) {
+    try {
+      // Objects still referenced after the user's rows are gone belong to
+      // another household's records now
+      if (await storage.isObjectPathReferenced(objectPath)) continue;
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      const aclPolicy = await getObjectAclPolicy(objectFile);
+      const uploadedForUser =
+        aclPolicy?.owner === userId ||
+        !!aclPolicy?.aclRules?.some(
+          (rule) => rule.group.type === ObjectAccessGroupType.DOG_HOUSEHOLD && dogIds.has(rule.group.id),
+        );
+      if (!uploadedForUser) continue;
+      await objectFile.delete({ ignoreNotFound: true });
+      deletedObjects++;
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) continue;
+      console.error(`Error deleting object ${objectPath} for erased user ${userId}:`, error);
+      failedObjects.push(objectPath);
+    }
+  }
+  return { deletedObjects, failedObjects };
+}
@@ -0,0 +1,153 @@
+import type { AiAnalysis, AiAnalysisKind, Dog, HealthRecord } from "@shared/schema";
+import type { PhotoAnalysisInput, SymptomAnalysisInput } from "@shared/aiTypes";
+import { storage, type AiAnalysisLink } from "./storage";
+import { ObjectNotFoundError, ObjectStorageService } from "./objectStorage";
+import { aiTaskSource, analyzeHealthPhoto, analyzeSymptoms } from "./aiService";
+
+// Every symptom and photo analysis is saved with the provider, model and prompt
+// version that produced it, so a health entry keeps a history of its AI results
+// and can be analyzed again later.
+
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+
+export type SymptomDetails = Pick<SymptomAnalysisInput, "type" | "title" | "description" | "severity">;
+
+export interface AnalysisPhoto {
+  buffer: Buffer;
+  mimeType: string;
+  fileName?: string;
+  photoUrl?: string;
+}
+
+// The analysis request can't be answered from this health entry
+export class AiAnalysisRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiAnalysisRequestError";
+    Object.setPrototypeOf(this, AiAnalysisRequestError.prototype);
+  }
+}
+
+function symptomInput(dog: Dog, symptoms: SymptomDetails): SymptomAnalysisInput {
+  return {
+    type: symptoms.type,
+    title: symptoms.title,
+    description: symptoms.description || undefined,
+    severity: symptoms.severity || undefined,
+    breed: dog.breed,
+    age: dog.birthDate ? Math.floor((Date.now() - new Date(dog.birthDate).getTime()) / YEAR_MS) : undefined,
+    weight: dog.weight ? parseFloat(dog.weight) : undefined,
+  };
+}
+
+export async function runSymptomAnalysis(
+  dog: Dog,
+  symptoms: SymptomDetails,
+  requestedBy: string,
+  healthRecordId: string | null = null,
+): Promise<AiAnalysis> {
+  const request = symptomInput(dog, symptoms);
+  const result = await analyzeSymptoms(request);
+  return await storage.createAiAnalysis({
+    dogId: dog.id,
+    healthRecordId,
+    requestedBy,
+    kind: "symptom",
+    request,
+    result,
+    ...aiTaskSource("symptom_analysis"),
+  });
+}
+
+export async function runPhotoAnalysis(
+  dog: Dog,
+  photo: AnalysisPhoto,
+  context: string | undefined,
+  requestedBy: string,
+  healthRecordId: string | null = null,
+): Promise<AiAnalysis> {
+  const request: PhotoAnalysisInput = {
+    photoUrl: photo.photoUrl,
+    fileName: photo.fileName,
+    mimeType: photo.mimeType,
+    context: context || undefined,
+  };
+  const result = await analyzeHealthPhoto(photo.buffer, photo.mimeType, request.context);
+  return await storage.createAiAnalysis({
+    dogId: dog.id,
+    healthRecordId,
+    requestedBy,
+    kind: "photo",
+    request,
+    result,
+    ...aiTaskSource("photo_analysis"),
+  });
+}
+
+// Links the analyses run while the entry was being written. A photo link only
+// counts if the photo was actually saved with the entry.
+export async function linkFormAnalyses(
+  record: HealthRecord,
+  requestedBy: string,
+  links: AiAnalysisLink[],
+): Promise<number> {
+  const photoUrls = record.photoUrls ?? [];
+  return await storage.linkAiAnalyses(
+    record,
+    requestedBy,
+    links.map((link) => ({
+      id: link.id,
+      photoUrl: link.photoUrl && photoUrls.includes(link.photoUrl) ? link.photoUrl : undefined,
+    })),
+  );
+}
+
+// Analyzes the entry as it reads now; photo analyses default to its first photo
+export async function rerunAiAnalysis(
+  record: HealthRecord,
+  dog: Dog,
+  kind: AiAnalysisKind,
+  requestedBy: string,
+  photoUrl?: string,
+): Promise<AiAnalysis> {
+  if (kind === "symptom") {
+    return await runSymptomAnalysis(
+      dog,
+      {
+        type: record.type,
+        title: record.title,
+        description: record.description ?? undefined,
+        severity: record.severity ?? undefined,
+      },
+      requestedBy,
+      record.id,
+    );
+  }
+
+  const photoUrls = record.photoUrls ?? [];
+  const url = photoUrl ?? photoUrls[0];
+  if (!url) {
+    throw new AiAnalysisRequestError("This health entry has no photos to analyze");
+  }
+  if (!photoUrls.includes(url)) {
+    throw new AiAnalysisRequestError("That photo isn't part of this health entry");
+  }
+
+  // A photo the requester can't read is reported as missing
+  const file = await new ObjectStorageService().getReadableObjectFile(url, requestedBy);
+  if (!file) {
+    throw new ObjectNotFoundError();
+  }
+  const [[contents], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+  return await runPhotoAnalysis(
+    dog,
+    {
+      buffer: contents,
+      mimeType: metadata.contentType || "image/jpeg",
+      photoUrl: url,
+    },
+    record.description ?? undefined,
+    requestedBy,
+    record.id,
+  );
+}
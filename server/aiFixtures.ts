@@ -0,0 +1,162 @@
+import type { EmergencyAssessment, PhotoAnalysis, SymptomAnalysis } from "@shared/aiTypes";
+
+// Canned answers for the fixture AI provider. Each list is checked in order and
+// the first case with a keyword found in the request wins; the last case has
+// no keywords and answers everything else. A JSON file with the same shape
+// (AI_FIXTURES_PATH) replaces any of the lists, e.g. to pin answers in tests.
+
+export interface AiFixtureCase<T> {
+  // Lowercase phrases matched against the request text; empty matches anything
+  match: string[];
+  response: T;
+}
+
+export interface AiFixtures {
+  symptomAnalysis: AiFixtureCase<SymptomAnalysis>[];
+  photoAnalysis: AiFixtureCase<PhotoAnalysis>[];
+  emergencyAssessment: AiFixtureCase<EmergencyAssessment>[];
+  // Vet chat replies; "{dog}" is replaced with the dog's name
+  vetChat: AiFixtureCase<string>[];
+}
+
+const NOTE = "(Offline fixture response: no AI model was consulted.)";
+
+const emergencySigns = [
+  "seizure",
+  "collapse",
+  "unconscious",
+  "not breathing",
+  "difficulty breathing",
+  "bloat",
+  "swollen belly",
+  "poison",
+  "toxic",
+  "chocolate",
+  "xylitol",
+  "antifreeze",
+  "heavy bleeding",
+  "pale",
+  "blue",
+];
+
+const urgentSigns = ["vomit", "diarrhea", "limp", "letharg", "not eating", "cough", "blood", "fever", "swelling"];
+
+export const defaultAiFixtures: AiFixtures = {
+  symptomAnalysis: [
+    {
+      match: emergencySigns,
+      response: {
+        severity: "severe",
+        urgency: "emergency",
+        insights: `These symptoms can signal a life-threatening problem. ${NOTE}`,
+        recommendations: ["Contact an emergency vet now", "Keep your dog calm and still during transport"],
+        vetRequired: true,
+        emergencyWarning: "Seek emergency veterinary care immediately.",
+      },
+    },
+    {
+      match: urgentSigns,
+      response: {
+        severity: "moderate",
+        urgency: "same-day",
+        insights: `These symptoms are common but should be checked if they persist or worsen. ${NOTE}`,
+        recommendations: [
+          "Call your vet today to describe the symptoms",
+          "Offer small amounts of water and note any changes",
+        ],
+        vetRequired: true,
+      },
+    },
+    {
+      match: [],
+      response: {
+        severity: "mild",
+        urgency: "non-urgent",
+        insights: `Nothing described suggests an urgent problem. ${NOTE}`,
+        recommendations: ["Monitor for changes over the next few days", "Mention it at your next routine visit"],
+        vetRequired: false,
+      },
+    },
+  ],
+  photoAnalysis: [
+    {
+      match: ["bleeding", "wound", "bite", "burn", "cut"],
+      response: {
+        findings: `The area described looks like an open injury. ${NOTE}`,
+        concerns: ["Possible infection", "Ongoing bleeding"],
+        recommendations: ["Have a vet examine the wound today"],
+        urgencyLevel: "high",
+        suggestedActions: ["Apply gentle pressure with a clean cloth", "Stop your dog licking the area"],
+      },
+    },
+    {
+      match: ["rash", "swelling", "lump", "red", "hot spot", "discharge", "itch"],
+      response: {
+        findings: `The area described looks irritated. ${NOTE}`,
+        concerns: ["Skin irritation or allergy"],
+        recommendations: ["Book a vet visit if it hasn't improved in a few days"],
+        urgencyLevel: "medium",
+        suggestedActions: ["Keep the area clean and dry", "Take another photo tomorrow to compare"],
+      },
+    },
+    {
+      match: [],
+      response: {
+        findings: `No obvious problems in the photo. ${NOTE}`,
+        concerns: [],
+        recommendations: ["Keep an eye on the area"],
+        urgencyLevel: "low",
+        suggestedActions: [],
+      },
+    },
+  ],
+  emergencyAssessment: [
+    {
+      match: emergencySigns,
+      response: {
+        urgencyLevel: "emergency",
+        timeFrame: "Immediately",
+        reasoning: `One or more of the signs reported can be life-threatening. ${NOTE}`,
+        immediateActions: ["Call the nearest emergency vet and head there now", "Keep your dog warm and still"],
+        redFlags: ["Breathing difficulty", "Collapse or seizures", "Pale or blue gums"],
+        vetRequired: true,
+      },
+    },
+    {
+      match: urgentSigns,
+      response: {
+        urgencyLevel: "urgent",
+        timeFrame: "Within 24 hours",
+        reasoning: `The signs reported need a vet's attention soon but aren't immediately life-threatening. ${NOTE}`,
+        immediateActions: ["Call your vet for a same-day appointment", "Withhold food for a few hours but offer water"],
+        redFlags: ["Repeated vomiting", "Blood in vomit or stool", "Refusing water"],
+        vetRequired: true,
+      },
+    },
+    {
+      match: [],
+      response: {
+        urgencyLevel: "non-urgent",
+        timeFrame: "At your next routine visit",
+        reasoning: `Nothing reported points to an emergency. ${NOTE}`,
+        immediateActions: ["Monitor your dog and note any changes"],
+        redFlags: ["Breathing difficulty", "Collapse", "Pale gums"],
+        vetRequired: false,
+      },
+    },
+  ],
+  vetChat: [
+    {
+      match: emergencySigns,
+      response: `That could be an emergency. Please call the nearest emergency vet and take {dog} in now; don't wait to see if it passes. ${NOTE}`,
+    },
+    {
+      match: urgentSigns,
+      response: `That's worth a call to your vet today. Keep an eye on {dog}, make sure water is available, and note when it started and any changes. ${NOTE}`,
+    },
+    {
+      match: [],
+      response: `Thanks for the details about {dog}. Nothing you've described sounds urgent; keep monitoring and mention it at your next routine visit. ${NOTE}`,
+    },
+  ],
+};
@@ -0,0 +1,280 @@
+import type {
+  EmergencyAssessmentInput,
+  HealthSummaryDog,
+  HealthSummaryRecord,
+  SymptomInput,
+  VetChatContext,
+  VetChatTurn,
+} from "./aiProvider";
+
+// Prompts shared by every model-backed AI provider. Response schemas use the
+// JSON Schema subset that both Gemini and OpenAI-style structured output accept.
+
+export type AiModelTier = "reasoning" | "fast";
+
+// Bump a task's version whenever its prompt or schema changes meaningfully, so
+// stored results can be told apart. Triage and analysis use the provider's
+// stronger model, summaries its faster one.
+export const aiTasks = {
+  symptom_analysis: { version: 1, tier: "reasoning" },
+  photo_analysis: { version: 1, tier: "reasoning" },
+  emergency_assessment: { version: 1, tier: "reasoning" },
+  health_summary: { version: 1, tier: "fast" },
+  vet_chat: { version: 1, tier: "reasoning" },
+} as const satisfies Record<string, { version: number; tier: AiModelTier }>;
+
+export type AiTask = keyof typeof aiTasks;
+
+export interface AiPrompt {
+  // Identifies the prompt in logs and structured output requests
+  task: AiTask;
+  tier: AiModelTier;
+  system?: string;
+  prompt: string;
+  image?: { data: Buffer; mimeType: string };
+  responseSchema?: Record<string, unknown>;
+}
+
+// A multi-turn conversation; the last turn is the one to answer
+export interface AiChatPrompt {
+  task: AiTask;
+  tier: AiModelTier;
+  system: string;
+  turns: VetChatTurn[];
+}
+
+export function symptomAnalysisPrompt(symptomData: SymptomInput): AiPrompt {
+  const systemPrompt = `You are a veterinary AI assistant specializing in dog health analysis.
+Analyze the symptoms provided and give professional insights while emphasizing that this is not a replacement for veterinary care.
+Always err on the side of caution and recommend professional veterinary consultation when in doubt.
+Provide practical, actionable advice for dog owners.
+
+Respond with JSON in this exact format:
+{
+  "severity": "mild" | "moderate" | "severe",
+  "urgency": "non-urgent" | "same-day" | "emergency",
+  "insights": "detailed analysis of the symptoms",
+  "recommendations": ["specific actionable recommendations"],
+  "vetRequired": true/false,
+  "emergencyWarning": "urgent warning if applicable"
+}`;
+
+  const prompt = `Analyze these dog symptoms:
+
+Dog Information:
+- Breed: ${symptomData.breed}
+- Age: ${symptomData.age ? symptomData.age + " years" : "unknown"}
+- Weight: ${symptomData.weight ? symptomData.weight + " lbs" : "unknown"}
+
+Symptom Details:
+- Type: ${symptomData.type}
+- Title: ${symptomData.title}
+- Description: ${symptomData.description || "No additional description"}
+- Owner-reported severity: ${symptomData.severity || "Not specified"}
+
+Please provide a thorough analysis focusing on:
+1. Severity assessment based on the symptoms
+2. Urgency level for veterinary care
+3. Detailed insights about potential causes
+4. Specific recommendations for the owner
+5. Whether immediate veterinary attention is required
+6. Any emergency warnings if the symptoms suggest serious conditions`;
+
+  return {
+    task: "symptom_analysis",
+    tier: aiTasks.symptom_analysis.tier,
+    system: systemPrompt,
+    prompt,
+    responseSchema: {
+      type: "object",
+      properties: {
+        severity: { type: "string", enum: ["mild", "moderate", "severe"] },
+        urgency: { type: "string", enum: ["non-urgent", "same-day", "emergency"] },
+        insights: { type: "string" },
+        recommendations: { type: "array", items: { type: "string" } },
+        vetRequired: { type: "boolean" },
+        emergencyWarning: { type: "string" },
+      },
+      required: ["severity", "urgency", "insights", "recommendations", "vetRequired"],
+    },
+  };
+}
+
+export function healthPhotoPrompt(photoBuffer: Buffer, mimeType: string, context?: string): AiPrompt {
+  const systemPrompt = `You are a veterinary AI assistant specializing in visual analysis of dog health images.
+Analyze the photo carefully and provide insights about any visible health concerns.
+Be thorough but cautious - recommend professional veterinary consultation for any concerning findings.
+Focus on observable conditions like skin issues, wounds, swelling, discharge, posture, or other visible abnormalities.
+
+Respond with JSON in this exact format:
+{
+  "findings": "detailed description of what you observe",
+  "concerns": ["specific health concerns identified"],
+  "recommendations": ["actionable recommendations"],
+  "urgencyLevel": "low" | "medium" | "high",
+  "suggestedActions": ["immediate actions owner should take"]
+}`;
+
+  const prompt = `Analyze this dog health photo and provide detailed insights:
+
+${context ? `Context provided by owner: ${context}` : "No additional context provided"}
+
+Please examine the image for:
+1. Visible skin conditions, lesions, or abnormalities
+2. Signs of injury, swelling, or inflammation
+3. Discharge from eyes, nose, or ears
+4. Posture or mobility indicators
+5. Overall physical condition
+6. Any concerning visual symptoms
+
+Provide a comprehensive analysis with specific observations and recommendations.`;
+
+  return {
+    task: "photo_analysis",
+    tier: aiTasks.photo_analysis.tier,
+    system: systemPrompt,
+    prompt,
+    image: { data: photoBuffer, mimeType },
+    responseSchema: {
+      type: "object",
+      properties: {
+        findings: { type: "string" },
+        concerns: { type: "array", items: { type: "string" } },
+        recommendations: { type: "array", items: { type: "string" } },
+        urgencyLevel: { type: "string", enum: ["low", "medium", "high"] },
+        suggestedActions: { type: "array", items: { type: "string" } },
+      },
+      required: ["findings", "concerns", "recommendations", "urgencyLevel", "suggestedActions"],
+    },
+  };
+}
+
+export function emergencyAssessmentPrompt(assessmentData: EmergencyAssessmentInput): AiPrompt {
+  const systemPrompt = `You are a veterinary emergency triage AI assistant.
+Assess the urgency of the dog's condition and provide immediate guidance.
+This is critical - lives may depend on accurate triage. Err on the side of caution.
+Provide clear guidance on timeframe for veterinary care and immediate actions.
+
+Respond with JSON in this exact format:
+{
+  "urgencyLevel": "non-urgent" | "urgent" | "emergency",
+  "timeFrame": "specific timeframe for veterinary care",
+  "reasoning": "detailed explanation of the assessment",
+  "immediateActions": ["immediate steps owner should take"],
+  "redFlags": ["warning signs that indicate emergency"],
+  "vetRequired": true/false
+}`;
+
+  const prompt = `EMERGENCY ASSESSMENT REQUEST:
+
+Dog Information:
+- Breed: ${assessmentData.dogInfo.breed}
+- Age: ${assessmentData.dogInfo.age ? assessmentData.dogInfo.age + " years" : "unknown"}
+- Weight: ${assessmentData.dogInfo.weight ? assessmentData.dogInfo.weight + " lbs" : "unknown"}
+- Medical History: ${assessmentData.dogInfo.medicalHistory?.join(", ") || "None provided"}
+
+Current Symptoms:
+${assessmentData.symptoms.map(symptom => `- ${symptom}`).join("\n")}
+
+Symptom Duration: ${assessmentData.duration}
+Owner-assessed Severity: ${assessmentData.severity}
+Current Behavior: ${assessmentData.currentBehavior}
+
+Vital Signs (if available):
+${assessmentData.vitalSigns ? Object.entries(assessmentData.vitalSigns)
+  .filter(([_, value]) => value)
+  .map(([key, value]) => `- ${key}: ${value}`)
+  .join("\n") : "No vital signs provided"}
+
+Please perform emergency triage assessment:
+1. Determine urgency level (non-urgent, urgent, emergency)
+2. Specify timeframe for veterinary care needed
+3. Provide reasoning for the assessment
+4. List immediate actions the owner should take
+5. Identify any red flag symptoms
+6. Determine if veterinary care is required
+
+CRITICAL: For any life-threatening symptoms (difficulty breathing, seizures, unconsciousness, severe bleeding, bloat symptoms, etc.), classify as EMERGENCY.`;
+
+  return {
+    task: "emergency_assessment",
+    tier: aiTasks.emergency_assessment.tier,
+    system: systemPrompt,
+    prompt,
+    responseSchema: {
+      type: "object",
+      properties: {
+        urgencyLevel: { type: "string", enum: ["non-urgent", "urgent", "emergency"] },
+        timeFrame: { type: "string" },
+        reasoning: { type: "string" },
+        immediateActions: { type: "array", items: { type: "string" } },
+        redFlags: { type: "array", items: { type: "string" } },
+        vetRequired: { type: "boolean" },
+      },
+      required: ["urgencyLevel", "timeFrame", "reasoning", "immediateActions", "redFlags", "vetRequired"],
+    },
+  };
+}
+
+export function healthSummaryPrompt(dogData: HealthSummaryDog, recentHealthRecords: HealthSummaryRecord[]): AiPrompt {
+  const prompt = `Generate a comprehensive health summary for this dog:
+
+Dog Information:
+- Name: ${dogData.name}
+- Breed: ${dogData.breed}
+- Age: ${dogData.age ? dogData.age + " years" : "unknown"}
+- Weight: ${dogData.weight ? dogData.weight + " lbs" : "unknown"}
+
+Recent Health Records:
+${recentHealthRecords.map((record, index) => `
+${index + 1}. ${record.type.toUpperCase()} - ${record.title}
+   - Severity: ${record.severity || "Not specified"}
+   - Description: ${record.description || "No description"}
+   - Date: ${record.recordedAt.toLocaleDateString()}
+`).join("")}
+
+Please provide:
+1. Overall health trend analysis
+2. Patterns or recurring issues
+3. Breed-specific considerations
+4. Preventive care recommendations
+5. Areas that may need veterinary attention
+6. Positive health indicators
+
+Keep the summary informative but accessible to pet owners.`;
+
+  return { task: "health_summary", tier: aiTasks.health_summary.tier, prompt };
+}
+
+const listOrNone = (lines: string[]) => (lines.length > 0 ? lines.join("\n") : "- None recorded");
+
+export function vetChatPrompt(context: VetChatContext, turns: VetChatTurn[]): AiChatPrompt {
+  const { dog } = context;
+  const system = `You are a friendly veterinary AI assistant chatting with a dog owner about their dog, ${dog.name}.
+Answer their questions using what you know about ${dog.name} below. Be practical and concise, and ask a follow-up question when you need more information.
+You are not a replacement for veterinary care: recommend seeing a vet whenever there's doubt, and for any life-threatening sign (difficulty breathing, seizures, collapse, suspected poisoning, severe bleeding, bloat) tell the owner to go to an emergency vet immediately.
+If the owner attaches photos, describe what you can see before drawing any conclusions.
+
+About ${dog.name}:
+- Breed: ${dog.breed}
+- Age: ${dog.age !== undefined ? dog.age + " years" : "unknown"}
+- Weight: ${dog.weight ? dog.weight + " lbs" : "unknown"}
+- Sex: ${dog.gender || "unknown"}
+
+Active medications:
+${listOrNone(context.medications.map((medication) =>
+  `- ${medication.name}, ${medication.dosage}, ${medication.frequency}${medication.instructions ? ` (${medication.instructions})` : ""}`))}
+
+Vaccinations:
+${listOrNone(context.vaccinations.map((vaccination) =>
+  `- ${vaccination.vaccineName}: given ${vaccination.administeredAt.toLocaleDateString()}${vaccination.nextDueDate ? `, next due ${vaccination.nextDueDate}` : ""}`))}
+
+Recent health records:
+${listOrNone(context.healthRecords.map((record) =>
+  `- ${record.recordedAt.toLocaleDateString()} ${record.type}: ${record.title}${record.severity ? ` (${record.severity})` : ""}${record.description ? ` - ${record.description}` : ""}`))}
+
+Recent weights:
+${listOrNone(context.weights.map((entry) => `- ${entry.recordedAt.toLocaleDateString()}: ${entry.weight} lbs`))}`;
+
+  return { task: "vet_chat", tier: aiTasks.vet_chat.tier, system, turns };
+}
@@ -0,0 +1,186 @@
+import { z } from "zod";
+import type { EmergencyAssessment, PhotoAnalysis, SymptomAnalysis } from "@shared/aiTypes";
+import {
+  aiTasks,
+  emergencyAssessmentPrompt,
+  healthPhotoPrompt,
+  healthSummaryPrompt,
+  symptomAnalysisPrompt,
+  vetChatPrompt,
+  type AiChatPrompt,
+  type AiModelTier,
+  type AiPrompt,
+  type AiTask,
+} from "./aiPrompts";
+
+// The AI features talk to an AiProvider, chosen by the AI_PROVIDER setting
+// (see aiService.ts). Providers backed by a language model share the prompts in
+// aiPrompts.ts and only implement the completion calls.
+
+export interface SymptomInput {
+  type: string;
+  title: string;
+  description?: string;
+  severity?: string;
+  breed: string;
+  age?: number;
+  weight?: number;
+}
+
+export interface EmergencyAssessmentInput {
+  symptoms: string[];
+  duration: string;
+  severity: string;
+  dogInfo: {
+    breed: string;
+    age?: number;
+    weight?: number;
+    medicalHistory?: string[];
+  };
+  currentBehavior: string;
+  vitalSigns?: {
+    breathing?: string;
+    heartRate?: string;
+    temperature?: string;
+    gumColor?: string;
+  };
+}
+
+export interface HealthSummaryDog {
+  name: string;
+  breed: string;
+  age?: number;
+  weight?: number;
+}
+
+export interface HealthSummaryRecord {
+  type: string;
+  title: string;
+  description?: string;
+  severity?: string;
+  recordedAt: Date;
+}
+
+// What the vet assistant knows about the dog it's asked about
+export interface VetChatContext {
+  dog: HealthSummaryDog & { gender?: string };
+  medications: { name: string; dosage: string; frequency: string; instructions?: string }[];
+  vaccinations: { vaccineName: string; administeredAt: Date; nextDueDate?: string }[];
+  healthRecords: HealthSummaryRecord[];
+  weights: { weight: number; recordedAt: Date }[];
+}
+
+export interface VetChatTurn {
+  role: "user" | "assistant";
+  text: string;
+  images?: { data: Buffer; mimeType: string }[];
+}
+
+export interface AiProvider {
+  // Shown in logs and stored with results, e.g. "gemini"
+  readonly name: string;
+  // The model that answers a task, stored alongside saved results
+  modelName(task: AiTask): string;
+  analyzeSymptoms(input: SymptomInput): Promise<SymptomAnalysis>;
+  analyzeHealthPhoto(photo: Buffer, mimeType: string, context?: string): Promise<PhotoAnalysis>;
+  performEmergencyAssessment(input: EmergencyAssessmentInput): Promise<EmergencyAssessment>;
+  generateHealthSummary(dog: HealthSummaryDog, records: HealthSummaryRecord[]): Promise<string>;
+  // Yields the reply to the last turn piece by piece as the model writes it
+  streamVetChat(context: VetChatContext, turns: VetChatTurn[], signal?: AbortSignal): AsyncIterable<string>;
+}
+
+// The model answered, but not with something we can use
+export class AiResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiResponseError";
+    Object.setPrototypeOf(this, AiResponseError.prototype);
+  }
+}
+
+const symptomAnalysisSchema: z.ZodType<SymptomAnalysis> = z.object({
+  severity: z.enum(["mild", "moderate", "severe"]),
+  urgency: z.enum(["non-urgent", "same-day", "emergency"]),
+  insights: z.string(),
+  recommendations: z.array(z.string()),
+  vetRequired: z.boolean(),
+  emergencyWarning: z.string().optional(),
+});
+
+const photoAnalysisSchema: z.ZodType<PhotoAnalysis> = z.object({
+  findings: z.string(),
+  concerns: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  urgencyLevel: z.enum(["low", "medium", "high"]),
+  suggestedActions: z.array(z.string()),
+});
+
+const emergencyAssessmentSchema: z.ZodType<EmergencyAssessment> = z.object({
+  urgencyLevel: z.enum(["non-urgent", "urgent", "emergency"]),
+  timeFrame: z.string(),
+  reasoning: z.string(),
+  immediateActions: z.array(z.string()),
+  redFlags: z.array(z.string()),
+  vetRequired: z.boolean(),
+});
+
+// Models without a JSON mode tend to wrap their answer in a Markdown code fence
+function parseModelJson<T>(rawJson: string, schema: z.ZodType<T>, provider: string): T {
+  const text = rawJson.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+  if (!text) {
+    throw new AiResponseError(`Empty response from ${provider}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    console.error("Failed to parse JSON response:", rawJson);
+    throw new AiResponseError(`Invalid JSON response from ${provider}: ${parseError}`);
+  }
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    console.error("Unexpected JSON response:", rawJson);
+    throw new AiResponseError(`Unexpected response from ${provider}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export abstract class ModelAiProvider implements AiProvider {
+  abstract readonly name: string;
+  protected abstract readonly models: Record<AiModelTier, string>;
+
+  modelName(task: AiTask): string {
+    return this.models[aiTasks[task].tier];
+  }
+
+  // Returns the model's raw JSON text for a prompt with a response schema
+  protected abstract completeJson(prompt: AiPrompt): Promise<string>;
+  // Returns the model's free-text answer
+  protected abstract completeText(prompt: AiPrompt): Promise<string>;
+  // Yields a conversation's next reply as it is generated
+  protected abstract streamChat(prompt: AiChatPrompt, signal?: AbortSignal): AsyncIterable<string>;
+
+  async analyzeSymptoms(input: SymptomInput): Promise<SymptomAnalysis> {
+    const rawJson = await this.completeJson(symptomAnalysisPrompt(input));
+    return parseModelJson(rawJson, symptomAnalysisSchema, this.name);
+  }
+
+  async analyzeHealthPhoto(photo: Buffer, mimeType: string, context?: string): Promise<PhotoAnalysis> {
+    const rawJson = await this.completeJson(healthPhotoPrompt(photo, mimeType, context));
+    return parseModelJson(rawJson, photoAnalysisSchema, this.name);
+  }
+
+  async performEmergencyAssessment(input: EmergencyAssessmentInput): Promise<EmergencyAssessment> {
+    const rawJson = await this.completeJson(emergencyAssessmentPrompt(input));
+    return parseModelJson(rawJson, emergencyAssessmentSchema, this.name);
+  }
+
+  async generateHealthSummary(dog: HealthSummaryDog, records: HealthSummaryRecord[]): Promise<string> {
+    const summary = await this.completeText(healthSummaryPrompt(dog, records));
+    return summary || "Unable to generate health summary";
+  }
+
+  streamVetChat(context: VetChatContext, turns: VetChatTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    return this.streamChat(vetChatPrompt(context, turns), signal);
+  }
+}
@@ -0,0 +1,111 @@
+import type {
+  AiProvider,
+  EmergencyAssessmentInput,
+  HealthSummaryDog,
+  HealthSummaryRecord,
+  SymptomInput,
+  VetChatContext,
+  VetChatTurn,
+} from "./aiProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { FixtureAiProvider } from "./fixtureAiProvider";
+import { aiTasks, type AiTask } from "./aiPrompts";
+
+// Import shared types
+import type {
+  SymptomAnalysis,
+  PhotoAnalysis,
+  EmergencyAssessment
+} from "@shared/aiTypes";
+
+// Re-export for convenience
+export type {
+  SymptomAnalysis,
+  PhotoAnalysis,
+  EmergencyAssessment
+};
+
+// Values for AI_PROVIDER
+export const aiProviderNames = ["gemini", "openai", "fixture"] as const;
+export type AiProviderName = (typeof aiProviderNames)[number];
+
+const providerFactories: Record<AiProviderName, () => AiProvider> = {
+  gemini: () => new GeminiProvider(),
+  openai: () => new OpenAiCompatibleProvider(),
+  fixture: () => new FixtureAiProvider(),
+};
+
+let provider: AiProvider | undefined;
+
+// The configured provider, created on first use; Gemini unless AI_PROVIDER says otherwise
+export function getAiProvider(): AiProvider {
+  if (!provider) {
+    const name = process.env.AI_PROVIDER || "gemini";
+    if (!(aiProviderNames as readonly string[]).includes(name)) {
+      throw new Error(`Unknown AI_PROVIDER "${name}"; expected one of ${aiProviderNames.join(", ")}`);
+    }
+    provider = providerFactories[name as AiProviderName]();
+  }
+  return provider;
+}
+
+// Where an answer to a task comes from, saved alongside stored results
+export function aiTaskSource(task: AiTask): { provider: string; model: string; promptVersion: number } {
+  const aiProvider = getAiProvider();
+  return { provider: aiProvider.name, model: aiProvider.modelName(task), promptVersion: aiTasks[task].version };
+}
+
+export async function analyzeSymptoms(symptomData: SymptomInput): Promise<SymptomAnalysis> {
+  try {
+    return await getAiProvider().analyzeSymptoms(symptomData);
+  } catch (error) {
+    console.error("Error analyzing symptoms:", error);
+    throw new Error(`Failed to analyze symptoms: ${error}`);
+  }
+}
+
+export async function analyzeHealthPhoto(photoBuffer: Buffer, mimeType: string, context?: string): Promise<PhotoAnalysis> {
+  try {
+    return await getAiProvider().analyzeHealthPhoto(photoBuffer, mimeType, context);
+  } catch (error) {
+    console.error("Error analyzing photo:", error);
+    throw new Error(`Failed to analyze photo: ${error}`);
+  }
+}
+
+export async function performEmergencyAssessment(assessmentData: EmergencyAssessmentInput): Promise<EmergencyAssessment> {
+  try {
+    return await getAiProvider().performEmergencyAssessment(assessmentData);
+  } catch (error) {
+    console.error("Error performing emergency assessment:", error);
+    throw new Error(`Failed to perform emergency assessment: ${error}`);
+  }
+}
+
+export async function generateHealthSummary(
+  dogData: HealthSummaryDog,
+  recentHealthRecords: HealthSummaryRecord[],
+): Promise<string> {
+  try {
+    return await getAiProvider().generateHealthSummary(dogData, recentHealthRecords);
+  } catch (error) {
+    console.error("Error generating health summary:", error);
+    throw new Error(`Failed to generate health summary: ${error}`);
+  }
+}
+
+export async function* streamVetChat(
+  context: VetChatContext,
+  turns: VetChatTurn[],
+  signal?: AbortSignal,
+): AsyncIterable<string> {
+  try {
+    yield* getAiProvider().streamVetChat(context, turns, signal);
+  } catch (error) {
+    // A reader who hung up isn't an error worth logging
+    if (signal?.aborted) return;
+    console.error("Error streaming vet chat reply:", error);
+    throw new Error(`Failed to stream vet chat reply: ${error}`);
+  }
+}
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// bulkImport.ts loads storage for duplicate detection; the database pool is
+// never queried by these helpers, but the module needs a connection string to load
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { parseCsv, parseImportDate, resolveImportMapping } = await import("./bulkImport");
+
+test("parses quoted CSV fields with commas, quotes and line breaks", () => {
+  assert.deepEqual(parseCsv('Date,Notes\r\n2026-03-10,"Ate well, ""happy""\nafter walk"\n'), [
+    ["Date", "Notes"],
+    ["2026-03-10", 'Ate well, "happy"\nafter walk'],
+  ]);
+});
+
+test("maps columns by header name unless the user picked one", () => {
+  const columns = ["Weighed On", "Pounds", "Comments", "Other"];
+  assert.deepEqual(resolveImportMapping("weight", columns), {
+    recordedAt: "Weighed On",
+    weight: "Pounds",
+    notes: "Comments",
+  });
+  assert.deepEqual(resolveImportMapping("weight", columns, { notes: "Other", weight: null, recordedAt: "Missing" }), {
+    recordedAt: null,
+    weight: null,
+    notes: "Other",
+  });
+});
+
+test("date-only values land at noon on that day in the user's time zone", () => {
+  // New York is on daylight time (UTC-4) from 8 March 2026
+  const noon = "2026-03-10T16:00:00.000Z";
+  for (const value of ["2026-03-10", "3/10/2026", "3/10/26", "Mar 10, 2026", "March 10, 2026", "10 Mar 2026"]) {
+    assert.equal(parseImportDate(value, "America/New_York")?.toISOString(), noon, value);
+  }
+  assert.equal(parseImportDate("2026-01-05", "Asia/Tokyo")?.toISOString(), "2026-01-05T03:00:00.000Z");
+});
+
+test("full timestamps are kept as they are", () => {
+  assert.equal(parseImportDate("2026-03-10T08:15:00.000Z", "America/New_York")?.toISOString(), "2026-03-10T08:15:00.000Z");
+});
+
+test("values that aren't dates are rejected", () => {
+  for (const value of ["13/45/2026", "yesterday", "0010-01-01"]) {
+    assert.equal(parseImportDate(value, "UTC"), null, value);
+  }
+});
@@ -0,0 +1,419 @@
+import { format, isValid, parse } from "date-fns";
+import {
+  insertHealthRecordSchema,
+  insertVaccinationSchema,
+  insertWeightRecordSchema,
+  type BulkImportPreview,
+  type BulkImportRowStatus,
+  type BulkImportType,
+  type Dog,
+  type InsertHealthRecord,
+  type InsertVaccination,
+  type InsertWeightRecord,
+  type Vaccination,
+} from "@shared/schema";
+import { getVaccineDefinition, matchVaccineByName } from "@shared/vaccineCatalog";
+import { storage, type DogRecordImport } from "./storage";
+import { zonedTimeToDate } from "./medicationScheduler";
+import { nextDueForNewDose, resolveVaccineCode } from "./vaccinationSchedule";
+
+// Reads past records for one dog from a spreadsheet (CSV, with the user choosing
+// which column feeds which field) or from the JSON files of our own data export,
+// and checks every row against the same insert schemas the API uses.
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const HEALTH_RECORD_TYPES = ["symptom", "behavior", "appetite", "activity", "checkup", "other"];
+const SEVERITIES = ["mild", "moderate", "severe"];
+// Tried in order for date-only values; US order first since weights are in lbs
+const DAY_FORMATS = ["yyyy-MM-dd", "M/d/yyyy", "M/d/yy", "MMM d, yyyy", "MMMM d, yyyy", "d MMM yyyy"];
+
+type FieldKind = "text" | "timestamp" | "day" | "weight" | "choice";
+
+interface ImportField {
+  field: string;
+  label: string;
+  required: boolean;
+  kind: FieldKind;
+  // Column headers (normalized) that map to this field without the user choosing
+  aliases: string[];
+  options?: string[];
+}
+
+const importFields: Record<BulkImportType, ImportField[]> = {
+  weight: [
+    { field: "recordedAt", label: "Date", required: true, kind: "timestamp", aliases: ["date", "recorded", "weighed", "weighedon"] },
+    { field: "weight", label: "Weight (lbs)", required: true, kind: "weight", aliases: ["lbs", "pounds", "weightlbs"] },
+    { field: "notes", label: "Notes", required: false, kind: "text", aliases: ["note", "comment", "comments"] },
+  ],
+  vaccination: [
+    { field: "vaccineName", label: "Vaccine", required: true, kind: "text", aliases: ["vaccine", "name", "vaccination"] },
+    { field: "administeredAt", label: "Date given", required: true, kind: "timestamp", aliases: ["date", "given", "dategiven", "administered"] },
+    { field: "nextDueDate", label: "Next due", required: false, kind: "day", aliases: ["nextdue", "due", "duedate", "expires"] },
+    { field: "vetName", label: "Vet", required: false, kind: "text", aliases: ["vet", "veterinarian", "givenby"] },
+    { field: "batchNumber", label: "Batch / lot", required: false, kind: "text", aliases: ["batch", "lot", "lotnumber", "serial"] },
+  ],
+  health_record: [
+    { field: "recordedAt", label: "Date", required: true, kind: "timestamp", aliases: ["date", "recorded"] },
+    { field: "type", label: "Type", required: true, kind: "choice", aliases: ["category", "kind"], options: HEALTH_RECORD_TYPES },
+    { field: "title", label: "Title", required: true, kind: "text", aliases: ["summary", "name", "symptom"] },
+    { field: "description", label: "Description", required: false, kind: "text", aliases: ["details", "notes"] },
+    { field: "severity", label: "Severity", required: false, kind: "choice", aliases: [], options: SEVERITIES },
+    { field: "vetNotes", label: "Vet notes", required: false, kind: "text", aliases: ["vetcomments"] },
+  ],
+};
+
+// Keys an export file or a hand-written JSON document may nest the rows under
+const jsonKeys: Record<BulkImportType, string[]> = {
+  weight: ["weightRecords", "weight-records"],
+  vaccination: ["vaccinations"],
+  health_record: ["healthRecords", "health-records"],
+};
+
+const exportFileNames: Record<BulkImportType, string> = {
+  weight: "weight-records",
+  vaccination: "vaccinations",
+  health_record: "health-records",
+};
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+    Object.setPrototypeOf(this, ImportFileError.prototype);
+  }
+}
+
+export interface BulkImportOptions {
+  type: BulkImportType;
+  fileName: string;
+  contents: string;
+  // Field name to source column; fields left out are matched by header name
+  mapping?: Record<string, string | null>;
+  timeZone: string;
+}
+
+export interface PreparedBulkImport {
+  preview: BulkImportPreview;
+  records: DogRecordImport;
+}
+
+type SourceRow = Record<string, unknown>;
+type InsertRecord = InsertWeightRecord | InsertVaccination | InsertHealthRecord;
+
+// RFC 4180, the inverse of toCsv; bare LF line endings are accepted too
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportFileError("The CSV file has a quoted value that is never closed");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function readCsvRows(text: string): { columns: string[]; rows: SourceRow[] } {
+  const [header, ...records] = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ""));
+  if (!header) {
+    throw new ImportFileError("The CSV file is empty");
+  }
+  // Repeated headers get a suffix so every column can still be picked
+  const columns: string[] = [];
+  for (const name of header.map((cell) => cell.trim())) {
+    let column = name || `Column ${columns.length + 1}`;
+    for (let copy = 2; columns.includes(column); copy++) column = `${name} (${copy})`;
+    columns.push(column);
+  }
+  const rows = records.map((record) => Object.fromEntries(columns.map((column, index) => [column, record[index] ?? ""])));
+  return { columns, rows };
+}
+
+function readJsonRows(text: string, type: BulkImportType): { columns: string[]; rows: SourceRow[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ImportFileError("The file isn't valid JSON");
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object"
+      ? jsonKeys[type].map((key) => (parsed as SourceRow)[key]).find(Array.isArray)
+      : undefined;
+  if (!list || !list.every((item) => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new ImportFileError(
+      `Expected a list of records, like json/${exportFileNames[type]}.json from a Pawsitive export`,
+    );
+  }
+  const rows = list as SourceRow[];
+  return { columns: Array.from(new Set(rows.flatMap((row) => Object.keys(row)))), rows };
+}
+
+const normalizeHeader = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function guessColumn(field: ImportField, columns: string[]): string | null {
+  const names = [normalizeHeader(field.field), ...field.aliases];
+  for (const name of names) {
+    const column = columns.find((candidate) => normalizeHeader(candidate) === name);
+    if (column) return column;
+  }
+  return null;
+}
+
+// The column feeding each field. Fields the user didn't map are matched by
+// header name; a mapping to null, or to a column the file doesn't have, leaves the field empty.
+export function resolveImportMapping(
+  type: BulkImportType,
+  columns: string[],
+  requested: Record<string, string | null> = {},
+): Record<string, string | null> {
+  const mapping: Record<string, string | null> = {};
+  for (const field of importFields[type]) {
+    const column = requested[field.field];
+    mapping[field.field] =
+      column === undefined ? guessColumn(field, columns) : column && columns.includes(column) ? column : null;
+  }
+  return mapping;
+}
+
+function sourceValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.trim() === "" ? null : text.trim();
+}
+
+// Date-only values land at noon in the user's time zone so they stay on the same calendar day
+export function parseImportDate(value: string, timeZone: string): Date | null {
+  for (const pattern of DAY_FORMATS) {
+    const day = parse(value, pattern, new Date());
+    if (isValid(day) && day.getFullYear() >= 1900) {
+      return zonedTimeToDate(format(day, "yyyy-MM-dd"), "12:00", timeZone);
+    }
+  }
+  // Full timestamps, e.g. from a Pawsitive export
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value);
+    if (isValid(date)) return date;
+  }
+  return null;
+}
+
+function convertField(field: ImportField, value: string, timeZone: string, now: Date): { value?: unknown; error?: string } {
+  switch (field.kind) {
+    case "timestamp": {
+      const date = parseImportDate(value, timeZone);
+      if (!date) return { error: `${field.label}: "${value}" isn't a date` };
+      if (date > now) return { error: `${field.label} is in the future` };
+      return { value: date };
+    }
+    case "day": {
+      const date = parseImportDate(value, timeZone);
+      if (!date) return { error: `${field.label}: "${value}" isn't a date` };
+      return { value: date.toLocaleDateString("en-CA", { timeZone }) };
+    }
+    case "weight": {
+      const match = value.match(/^(\d+(?:\.\d+)?)\s*(lbs?|pounds)?$/i);
+      const pounds = match ? Number(match[1]) : NaN;
+      // weight_records.weight is numeric(5, 2)
+      if (!(pounds > 0 && pounds < 1000)) return { error: `${field.label}: "${value}" isn't a weight in lbs` };
+      return { value: pounds.toFixed(2) };
+    }
+    case "choice": {
+      const option = value.toLowerCase();
+      if (!field.options!.includes(option)) {
+        return { error: `${field.label}: "${value}" isn't one of ${field.options!.join(", ")}` };
+      }
+      return { value: option };
+    }
+    default:
+      return { value };
+  }
+}
+
+function validateRecord(type: BulkImportType, data: SourceRow): { record?: InsertRecord; errors: string[] } {
+  const schema =
+    type === "weight" ? insertWeightRecordSchema : type === "vaccination" ? insertVaccinationSchema : insertHealthRecordSchema;
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { record: result.data, errors: [] };
+  }
+  const labels = new Map(importFields[type].map((field) => [field.field, field.label]));
+  return {
+    errors: result.error.issues.map((issue) => {
+      const label = labels.get(String(issue.path[0])) ?? issue.path.join(".");
+      return label ? `${label}: ${issue.message}` : issue.message;
+    }),
+  };
+}
+
+// The fields duplicate detection compares, common to stored rows and validated inserts
+interface ComparableRecord {
+  recordedAt?: Date | null;
+  weight?: string;
+  administeredAt?: Date;
+  vaccineName?: string;
+  vaccineCode?: string | null;
+  type?: string;
+  title?: string;
+}
+
+// Identifies the same event recorded twice: same day plus what was measured or given
+function duplicateKey(type: BulkImportType, record: ComparableRecord, timeZone: string): string {
+  const day = (date: Date | null | undefined) => (date ? date.toLocaleDateString("en-CA", { timeZone }) : "");
+  if (type === "weight") {
+    return `${day(record.recordedAt)}|${Number(record.weight).toFixed(2)}`;
+  }
+  if (type === "vaccination") {
+    const vaccineName = record.vaccineName ?? "";
+    const vaccine = resolveVaccineCode({ vaccineCode: record.vaccineCode ?? null, vaccineName });
+    return `${day(record.administeredAt)}|${vaccine ?? vaccineName.toLowerCase()}`;
+  }
+  return `${day(record.recordedAt)}|${record.type}|${(record.title ?? "").toLowerCase()}`;
+}
+
+async function existingKeys(type: BulkImportType, dogId: string, timeZone: string): Promise<Set<string>> {
+  const existing: ComparableRecord[] =
+    type === "weight"
+      ? await storage.getDogWeightRecords(dogId)
+      : type === "vaccination"
+        ? await storage.getDogVaccinations(dogId)
+        : await storage.getDogHealthRecords(dogId);
+  return new Set(existing.map((record) => duplicateKey(type, record, timeZone)));
+}
+
+// Catalog vaccines without a due date get one from the dog's full history, imported doses included
+async function fillVaccinationDueDates(dog: Dog, imported: InsertVaccination[]): Promise<void> {
+  const history: Vaccination[] = [
+    ...(await storage.getDogVaccinations(dog.id)),
+    ...imported.map((vaccination) => ({
+      ...vaccination,
+      id: "",
+      vaccineCode: vaccination.vaccineCode ?? null,
+      nextDueDate: vaccination.nextDueDate ?? null,
+      vetName: vaccination.vetName ?? null,
+      batchNumber: vaccination.batchNumber ?? null,
+      createdAt: null,
+    })),
+  ];
+  for (const vaccination of imported) {
+    const vaccine = getVaccineDefinition(vaccination.vaccineCode) ?? matchVaccineByName(vaccination.vaccineName);
+    if (!vaccine) continue;
+    vaccination.vaccineCode = vaccine.code;
+    if (!vaccination.nextDueDate) {
+      vaccination.nextDueDate = nextDueForNewDose(vaccine, dog, history, vaccination.administeredAt);
+    }
+  }
+}
+
+// Maps and validates every row of an uploaded file without saving anything.
+// Rows matching a record the dog already has (or an earlier row of the same
+// file) are reported as duplicates and left out of `records`.
+export async function prepareBulkImport(dog: Dog, options: BulkImportOptions): Promise<PreparedBulkImport> {
+  const { type, timeZone } = options;
+  const contents = options.contents.replace(/^\uFEFF/, "");
+  const isJson = /\.json$/i.test(options.fileName) || /^\s*[[{]/.test(contents);
+  const { columns, rows } = isJson ? readJsonRows(contents, type) : readCsvRows(contents);
+  if (rows.length === 0) {
+    throw new ImportFileError("The file doesn't contain any records");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`Import at most ${MAX_IMPORT_ROWS} records at a time`);
+  }
+
+  const fields = importFields[type];
+  const mapping = resolveImportMapping(type, columns, options.mapping);
+
+  const now = new Date();
+  const seen = await existingKeys(type, dog.id, timeZone);
+  const records: DogRecordImport = { weightRecords: [], vaccinations: [], healthRecords: [] };
+  const previewRows: BulkImportPreview["rows"] = rows.map((source, index): BulkImportPreview["rows"][number] => {
+    const values: Record<string, string | null> = {};
+    const data: SourceRow = { dogId: dog.id };
+    const errors: string[] = [];
+    for (const field of fields) {
+      const column = mapping[field.field];
+      const value = column ? sourceValue(source[column]) : null;
+      values[field.field] = value;
+      if (value === null) {
+        if (field.required) errors.push(`${field.label} is required`);
+        continue;
+      }
+      const converted = convertField(field, value, timeZone, now);
+      if (converted.error) {
+        errors.push(converted.error);
+      } else {
+        data[field.field] = converted.value;
+      }
+    }
+
+    // CSV row numbers count the header line, as a spreadsheet shows them
+    const row = isJson ? index + 1 : index + 2;
+    if (errors.length > 0) {
+      return { row, status: "invalid", values, errors };
+    }
+    const validated = validateRecord(type, data);
+    if (!validated.record) {
+      return { row, status: "invalid", values, errors: validated.errors };
+    }
+    const key = duplicateKey(type, validated.record, timeZone);
+    if (seen.has(key)) {
+      return { row, status: "duplicate", values, errors: [] };
+    }
+    seen.add(key);
+    if (type === "weight") records.weightRecords.push(validated.record as InsertWeightRecord);
+    else if (type === "vaccination") records.vaccinations.push(validated.record as InsertVaccination);
+    else records.healthRecords.push(validated.record as InsertHealthRecord);
+    return { row, status: "valid", values, errors: [] };
+  });
+
+  if (records.vaccinations.length > 0) {
+    await fillVaccinationDueDates(dog, records.vaccinations);
+  }
+
+  const count = (status: BulkImportRowStatus) => previewRows.filter((row) => row.status === status).length;
+  return {
+    preview: {
+      type,
+      format: isJson ? "json" : "csv",
+      columns,
+      fields: fields.map(({ field, label, required }) => ({ field, label, required })),
+      mapping,
+      rows: previewRows,
+      validCount: count("valid"),
+      invalidCount: count("invalid"),
+      duplicateCount: count("duplicate"),
+    },
+    records,
+  };
+}
@@ -0,0 +1,132 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Appointment, Medication, Vaccination } from "@shared/schema";
+import { isSupersededVaccination } from "./vaccinationSchedule";
+
+// Minimal iCalendar (RFC 5545) writer for the calendar feed and appointment downloads
+
+const PRODUCT_ID = "-//Pawsitive//Dog Health//EN";
+const UID_DOMAIN = "pawsitive.app";
+// Appointments only store a start time, so calendars get a nominal length
+const APPOINTMENT_DURATION_MS = 60 * 60 * 1000;
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // All-day events use "YYYY-MM-DD" strings; the end date is exclusive
+  start: Date | string;
+  end: Date | string;
+  status?: "CONFIRMED" | "CANCELLED";
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(current + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDateProperty(name: string, value: Date | string): string {
+  return typeof value === "string"
+    ? `${name};VALUE=DATE:${value.replace(/-/g, "")}`
+    : `${name}:${formatDateTime(value)}`;
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    formatDateProperty("DTSTART", event.start),
+    formatDateProperty("DTEND", event.end),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => eventLines(event, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function appointmentEvent(appointment: Appointment & { dogName: string }): CalendarEvent {
+  const details = [
+    `Veterinarian: ${appointment.vetName}`,
+    appointment.clinicPhone ? `Phone: ${appointment.clinicPhone}` : null,
+    appointment.notes,
+  ].filter((line): line is string => !!line);
+
+  return {
+    uid: `appointment-${appointment.id}`,
+    summary: `${appointment.appointmentType} – ${appointment.dogName}`,
+    description: details.join("\n"),
+    location: [appointment.clinicName, appointment.clinicAddress].filter(Boolean).join(", "),
+    start: appointment.scheduledAt,
+    end: new Date(appointment.scheduledAt.getTime() + APPOINTMENT_DURATION_MS),
+    status: appointment.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+  };
+}
+
+function nextDay(day: string): string {
+  return format(addDays(parseISO(day), 1), "yyyy-MM-dd");
+}
+
+// One all-day event per vaccine that's coming due, ignoring doses already superseded
+export function vaccinationDueEvents(records: (Vaccination & { dogName: string })[]): CalendarEvent[] {
+  return records
+    .filter((record) => record.nextDueDate && !isSupersededVaccination(record, records))
+    .map((record) => ({
+      uid: `vaccination-due-${record.id}`,
+      summary: `${record.vaccineName} due – ${record.dogName}`,
+      description: `Last given ${format(record.administeredAt, "yyyy-MM-dd")}${record.vetName ? ` by ${record.vetName}` : ""}`,
+      start: record.nextDueDate!,
+      end: nextDay(record.nextDueDate!),
+    }));
+}
+
+// Medication courses with a start date, spanning through their end date when there is one
+export function medicationCourseEvents(medications: (Medication & { dogName: string })[]): CalendarEvent[] {
+  return medications
+    .filter((medication) => medication.startDate)
+    .map((medication) => ({
+      uid: `medication-${medication.id}`,
+      summary: `${medication.name} course – ${medication.dogName}`,
+      description: [
+        `${medication.dosage}, ${medication.frequency}`,
+        medication.endDate ? null : "Ongoing",
+        medication.instructions,
+      ].filter(Boolean).join("\n"),
+      start: medication.startDate!,
+      end: nextDay(medication.endDate ?? medication.startDate!),
+    }));
+}
@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import type { Appointment, Clinic, Veterinarian } from "@shared/schema";
+import type { KnownClinic } from "./icsImport";
+
+export class DirectoryEntryNotFoundError extends Error {
+  constructor(entity: "clinic" | "veterinarian") {
+    super(`Unknown ${entity}`);
+    this.name = "DirectoryEntryNotFoundError";
+    Object.setPrototypeOf(this, DirectoryEntryNotFoundError.prototype);
+  }
+}
+
+export type AppointmentDirectoryFields = Pick<
+  Appointment,
+  "clinicId" | "veterinarianId" | "clinicName" | "clinicAddress" | "clinicPhone" | "vetName"
+>;
+
+export interface AppointmentDirectoryInput {
+  clinicId?: string | null;
+  veterinarianId?: string | null;
+  clinicName: string;
+  clinicAddress?: string | null;
+  clinicPhone?: string | null;
+  vetName: string;
+}
+
+// Links an appointment to the clinic directory. A picked clinic/vet is used as
+// is; free text is matched against the dog owner's directory and added to it
+// when new. Returns the ids plus the text snapshot to store on the appointment.
+export async function resolveAppointmentDirectory(
+  ownerId: string,
+  userId: string,
+  input: AppointmentDirectoryInput,
+): Promise<AppointmentDirectoryFields> {
+  let clinic: Clinic | undefined;
+  if (input.clinicId) {
+    clinic = await storage.getAccessibleClinic(input.clinicId, userId);
+    if (!clinic) throw new DirectoryEntryNotFoundError("clinic");
+  } else {
+    clinic =
+      (await storage.findClinic(ownerId, input.clinicName, input.clinicAddress)) ??
+      (await storage.createClinic({
+        userId: ownerId,
+        name: input.clinicName.trim(),
+        address: input.clinicAddress?.trim() || null,
+        phone: input.clinicPhone?.trim() || null,
+      }));
+  }
+
+  let veterinarian: Veterinarian | undefined;
+  if (input.veterinarianId) {
+    veterinarian = await storage.getVeterinarian(input.veterinarianId);
+    if (!veterinarian || veterinarian.clinicId !== clinic.id) {
+      throw new DirectoryEntryNotFoundError("veterinarian");
+    }
+  } else if (input.vetName.trim()) {
+    veterinarian =
+      (await storage.findVeterinarian(clinic.userId, clinic.id, input.vetName)) ??
+      (await storage.createVeterinarian({ userId: clinic.userId, clinicId: clinic.id, name: input.vetName.trim() }));
+  }
+
+  return {
+    clinicId: clinic.id,
+    veterinarianId: veterinarian?.id ?? null,
+    clinicName: clinic.name,
+    clinicAddress: clinic.address,
+    clinicPhone: clinic.phone ?? input.clinicPhone ?? null,
+    vetName: veterinarian?.name ?? input.vetName,
+  };
+}
+
+// Directory entries in the shape the invite importer matches against
+export async function getKnownClinics(userId: string): Promise<KnownClinic[]> {
+  const clinics = await storage.getAccessibleClinics(userId);
+  const veterinarians = await storage.getClinicVeterinarians(clinics.map((clinic) => clinic.id));
+  return clinics.map((clinic) => ({
+    clinicId: clinic.id,
+    clinicName: clinic.name,
+    clinicAddress: clinic.address,
+    clinicPhone: clinic.phone,
+    vetNames: veterinarians.filter((vet) => vet.clinicId === clinic.id).map((vet) => vet.name),
+  }));
+}
+
+// One-off migration: moves the free-text clinic and vet details on existing
+// appointments into deduplicated directory entries owned by each dog's owner.
+// Safe to re-run; only appointments without a clinic link are touched.
+export async function backfillClinicDirectory(): Promise<{ linked: number; skipped: number }> {
+  const unlinked = await storage.getUnlinkedAppointments();
+  let linked = 0;
+  let skipped = 0;
+  for (const appointment of unlinked) {
+    if (!appointment.clinicName.trim()) {
+      skipped++;
+      continue;
+    }
+    const fields = await resolveAppointmentDirectory(appointment.ownerId, appointment.ownerId, appointment);
+    await storage.updateAppointment(appointment.id, {
+      clinicId: fields.clinicId,
+      veterinarianId: fields.veterinarianId,
+    });
+    linked++;
+  }
+  return { linked, skipped };
+}
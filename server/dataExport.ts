@@ -0,0 +1,179 @@
+import { format } from "date-fns";
+import type { DataExport } from "@shared/schema";
+import { storage } from "./storage";
+import { registerJob } from "./jobs";
+import { ObjectNotFoundError, ObjectStorageService } from "./objectStorage";
+import { ZipWriter } from "./zip";
+
+// Pending exports are picked up within this long
+const EXPORT_SCAN_INTERVAL_MS = 15 * 1000;
+// Finished archives can be downloaded for a week, then they're deleted
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A run still marked running after this long died with its process
+const STALE_EXPORT_MS = 60 * 60 * 1000;
+const EXPORT_DIR = "exports";
+
+const README = `Pawsitive data export
+
+json/   every record as JSON, one file per type
+csv/    the same records as CSV; array and object columns hold JSON
+files/  uploaded health photos and appointment documents. A photo stored as
+        /objects/health-photos/abc.jpg in the JSON is files/health-photos/abc.jpg here.
+
+Records are linked by id: dogs.id = healthRecords.dogId, medications.id =
+medicationLogs.medicationId, and so on.
+`;
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV; columns are the union of the rows' keys in first-seen order
+export function toCsv(rows: object[]): string {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const lines = [
+    columns.map(csvValue).join(","),
+    ...rows.map((row) => columns.map((column) => csvValue((row as Record<string, unknown>)[column])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+async function writeExportArchive(userId: string, zip: ZipWriter): Promise<void> {
+  const data = await storage.getUserExportData(userId);
+  if (!data) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  // The calendar token is a live credential for the user's feed, not data
+  const { calendarToken: _calendarToken, ...account } = data.user;
+  await zip.addFile("README.txt", README);
+  await zip.addFile("json/account.json", JSON.stringify(account, null, 2));
+
+  const entities: [string, object[]][] = [
+    ["dogs", data.dogs],
+    ["health-records", data.healthRecords],
+    ["medications", data.medications],
+    ["medication-logs", data.medicationLogs],
+    ["appointments", data.appointments],
+    ["weight-records", data.weightRecords],
+    ["vaccinations", data.vaccinations],
+    ["clinics", data.clinics],
+    ["veterinarians", data.veterinarians],
+  ];
+  for (const [name, rows] of entities) {
+    await zip.addFile(`json/${name}.json`, JSON.stringify(rows, null, 2));
+    await zip.addFile(`csv/${name}.csv`, toCsv(rows));
+  }
+
+  const objectPaths = new Set([
+    ...data.healthRecords.flatMap((record) => record.photoUrls ?? []),
+    ...data.appointments.flatMap((appointment) => appointment.documentUrls ?? []),
+  ]);
+  const objectStorageService = new ObjectStorageService();
+  const missing: string[] = [];
+  const skipped: string[] = [];
+  for (const objectPath of Array.from(objectPaths)) {
+    try {
+      const objectFile = await objectStorageService.getReadableObjectFile(objectPath, userId);
+      if (!objectFile) {
+        skipped.push(objectPath);
+        continue;
+      }
+      const [contents] = await objectFile.download();
+      await zip.addFile(`files/${objectPath.replace(/^\/objects\//, "")}`, contents);
+    } catch (error) {
+      if (!(error instanceof ObjectNotFoundError)) throw error;
+      missing.push(objectPath);
+    }
+  }
+  const notes: string[] = [];
+  if (missing.length > 0) {
+    notes.push(`These files were referenced but no longer exist:\n${missing.join("\n")}\n`);
+  }
+  if (skipped.length > 0) {
+    notes.push(`These files were referenced but you don't have access to them:\n${skipped.join("\n")}\n`);
+  }
+  if (notes.length > 0) {
+    await zip.addFile("files/MISSING.txt", notes.join("\n"));
+  }
+}
+
+async function runDataExport(dataExport: DataExport): Promise<void> {
+  const objectStorageService = new ObjectStorageService();
+  const fileName = `pawsitive-export-${format(new Date(), "yyyy-MM-dd")}.zip`;
+  const { objectPath, stream } = objectStorageService.createObjectEntityWriteStream(EXPORT_DIR, fileName, "application/zip");
+  try {
+    const zip = new ZipWriter(stream);
+    await writeExportArchive(dataExport.userId, zip);
+    const sizeBytes = await zip.finish();
+    await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+      owner: dataExport.userId,
+      visibility: "private",
+    });
+    const completedAt = new Date();
+    await storage.updateDataExport(dataExport.id, {
+      status: "ready",
+      objectPath,
+      sizeBytes,
+      completedAt,
+      expiresAt: new Date(completedAt.getTime() + EXPORT_TTL_MS),
+    });
+  } catch (error) {
+    console.error(`Error building data export ${dataExport.id}:`, error);
+    stream.destroy();
+    await objectStorageService.deleteObjectEntity(objectPath).catch(() => undefined);
+    await storage.updateDataExport(dataExport.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+  }
+}
+
+// Builds every pending export, then deletes archives past their expiry.
+// Resolves to the number of exports built or expired.
+export async function processDataExports(): Promise<number> {
+  await storage.failStaleDataExports(new Date(Date.now() - STALE_EXPORT_MS));
+
+  let handled = 0;
+  let pending = await storage.claimPendingDataExport();
+  while (pending) {
+    await runDataExport(pending);
+    handled++;
+    pending = await storage.claimPendingDataExport();
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  for (const expired of await storage.getExpiredDataExports(new Date())) {
+    if (expired.objectPath) {
+      await objectStorageService.deleteObjectEntity(expired.objectPath);
+    }
+    await storage.updateDataExport(expired.id, { status: "expired", objectPath: null });
+    handled++;
+  }
+  return handled;
+}
+
+// What the client sees; the object path stays server-side behind the download route
+export function serializeDataExport(dataExport: DataExport) {
+  return {
+    id: dataExport.id,
+    status: dataExport.status,
+    sizeBytes: dataExport.sizeBytes,
+    createdAt: dataExport.createdAt,
+    completedAt: dataExport.completedAt,
+    expiresAt: dataExport.expiresAt,
+    downloadUrl: dataExport.status === "ready" ? `/api/export/${dataExport.id}/download` : null,
+  };
+}
+
+export function registerDataExportJobs() {
+  registerJob({
+    name: "data-exports",
+    intervalMs: EXPORT_SCAN_INTERVAL_MS,
+    run: processDataExports,
+  });
+}
@@ -0,0 +1,164 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import type { Dog, DogRole } from "@shared/schema";
+
+// Resolves the id of the resource to check from the incoming request.
+type IdResolver = (req: Request) => string | undefined;
+
+// Loads a per-dog entity by id.
+type EntityLoader<T extends { dogId: string }> = (id: string) => Promise<T | undefined>;
+
+// Higher rank grants everything the lower ranks can do.
+const ROLE_RANK: Record<DogRole, number> = {
+  viewer: 0,
+  caregiver: 1,
+  owner: 2,
+};
+
+export function hasDogRole(role: DogRole, minRole: DogRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+function currentUserId(req: Request): string | undefined {
+  return (req.user as any)?.claims?.sub;
+}
+
+// Returns the dog and the user's role on it when the user is the primary
+// owner or a household member with at least `minRole`. Dogs the user cannot
+// access are reported as missing so their existence is not leaked.
+export async function getDogAccess(
+  userId: string | undefined,
+  dogId: string | undefined,
+  minRole: DogRole = "viewer",
+): Promise<{ dog: Dog; role: DogRole } | undefined> {
+  if (!userId || !dogId) {
+    return undefined;
+  }
+
+  const dog = await storage.getDog(dogId);
+  if (!dog || !dog.isActive) {
+    return undefined;
+  }
+
+  let role: DogRole;
+  if (dog.userId === userId) {
+    role = "owner";
+  } else {
+    const member = await storage.getDogMember(dogId, userId);
+    if (!member) {
+      return undefined;
+    }
+    role = member.role as DogRole;
+  }
+
+  return hasDogRole(role, minRole) ? { dog, role } : undefined;
+}
+
+export async function getAccessibleDog(
+  userId: string | undefined,
+  dogId: string | undefined,
+  minRole: DogRole = "viewer",
+): Promise<Dog | undefined> {
+  return (await getDogAccess(userId, dogId, minRole))?.dog;
+}
+
+// Returns a per-dog entity together with its dog when the user can access that dog.
+export async function getAccessibleEntity<T extends { dogId: string }>(
+  userId: string | undefined,
+  entityId: string | undefined,
+  load: EntityLoader<T>,
+  minRole: DogRole = "viewer",
+): Promise<{ entity: T; dog: Dog; role: DogRole } | undefined> {
+  if (!entityId) {
+    return undefined;
+  }
+
+  const entity = await load(entityId);
+  if (!entity) {
+    return undefined;
+  }
+
+  const access = await getDogAccess(userId, entity.dogId, minRole);
+  return access ? { entity, ...access } : undefined;
+}
+
+// Guards per-dog routes. The resolved dog is exposed as `res.locals.dog` and
+// the user's role as `res.locals.dogRole`. Must be mounted after `isAuthenticated`.
+export function requireDogAccess(
+  minRole: DogRole = "viewer",
+  resolveId: IdResolver = (req) => req.params.dogId,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const access = await getDogAccess(currentUserId(req), resolveId(req), minRole);
+      if (!access) {
+        return res.status(404).json({ message: "Dog not found" });
+      }
+      res.locals.dog = access.dog;
+      res.locals.dogRole = access.role;
+      next();
+    } catch (error) {
+      console.error("Error checking dog access:", error);
+      res.status(500).json({ message: "Failed to verify dog access" });
+    }
+  };
+}
+
+// Builds a guard for routes addressing a per-dog entity by id. The entity is
+// exposed as `res.locals[localKey]`, its dog as `res.locals.dog` and the
+// user's role as `res.locals.dogRole`.
+function requireEntityAccess<T extends { dogId: string }>(
+  label: string,
+  localKey: string,
+  load: EntityLoader<T>,
+) {
+  return (
+    minRole: DogRole = "viewer",
+    resolveId: IdResolver = (req) => req.params.id,
+  ): RequestHandler =>
+    async (req, res, next) => {
+      try {
+        const access = await getAccessibleEntity(currentUserId(req), resolveId(req), load, minRole);
+        if (!access) {
+          return res.status(404).json({ message: `${label} not found` });
+        }
+        res.locals[localKey] = access.entity;
+        res.locals.dog = access.dog;
+        res.locals.dogRole = access.role;
+        next();
+      } catch (error) {
+        console.error(`Error checking ${label.toLowerCase()} access:`, error);
+        res.status(500).json({ message: `Failed to verify ${label.toLowerCase()} access` });
+      }
+    };
+}
+
+export const requireHealthRecordAccess = requireEntityAccess(
+  "Health record",
+  "healthRecord",
+  (id) => storage.getHealthRecord(id),
+);
+
+export const requireMedicationAccess = requireEntityAccess(
+  "Medication",
+  "medication",
+  (id) => storage.getMedication(id),
+);
+
+export const requireAppointmentAccess = requireEntityAccess(
+  "Appointment",
+  "appointment",
+  (id) => storage.getAppointment(id),
+);
+
+export const requireWeightRecordAccess = requireEntityAccess(
+  "Weight record",
+  "weightRecord",
+  (id) => storage.getWeightRecord(id),
+);
+
+export const requireVaccinationAccess = requireEntityAccess(
+  "Vaccination",
+  "vaccination",
+  (id) => storage.getVaccination(id),
+);
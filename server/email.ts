@@ -0,0 +1,219 @@
+import net from "net";
+import tls from "tls";
+import { log } from "./vite";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Development transport: writes the message to the server log instead of sending it
+export class LogTransport implements EmailTransport {
+  name = "log";
+
+  async send(message: EmailMessage): Promise<void> {
+    log(`to=${message.to} subject="${message.subject}"\n${message.text}`, "email");
+  }
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// Minimal SMTP client covering what reminder emails need: implicit TLS or
+// STARTTLS, AUTH LOGIN and a single text/plain message per connection.
+// It stands in for a full mail library until one is added to the project.
+export class SmtpTransport implements EmailTransport {
+  name = "smtp";
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    let socket = await this.connect();
+    let session = new SmtpSession(socket);
+    const hostname = process.env.REPLIT_DOMAINS?.split(",")[0] || "localhost";
+    try {
+      await session.expect(220);
+      const capabilities = await session.command(`EHLO ${hostname}`, 250);
+      let encrypted = this.options.secure;
+      if (!encrypted && /STARTTLS/i.test(capabilities)) {
+        await session.command("STARTTLS", 220);
+        session.detach();
+        socket = await this.upgrade(socket);
+        session = new SmtpSession(socket);
+        encrypted = true;
+        await session.command(`EHLO ${hostname}`, 250);
+      }
+      if (this.options.user && this.options.pass) {
+        if (!encrypted) {
+          throw new Error("SMTP server offers no TLS; refusing to send credentials in plaintext");
+        }
+        await session.command("AUTH LOGIN", 334);
+        await session.command(Buffer.from(this.options.user).toString("base64"), 334);
+        await session.command(Buffer.from(this.options.pass).toString("base64"), 235);
+      }
+      await session.command(`MAIL FROM:<${envelopeAddress(this.options.from)}>`, 250);
+      await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250);
+      await session.command("DATA", 354);
+      await session.command(`${formatMessage(this.options.from, message)}\r\n.`, 250);
+      await session.command("QUIT", 221);
+    } finally {
+      socket.end();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const { host, port, secure } = this.options;
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(30000, () => socket.destroy(new Error("SMTP connection timed out")));
+      socket.once("error", reject);
+    });
+  }
+
+  private upgrade(plain: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername: this.options.host }, () => resolve(socket));
+      socket.once("error", reject);
+    });
+  }
+}
+
+// Reads multi-line SMTP replies ("250-..." continuation lines end with "250 ...")
+class SmtpSession {
+  private buffer = "";
+  private waiting?: { resolve: (reply: string) => void; reject: (error: Error) => void };
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    this.flush();
+  };
+  private onError = (error: Error) => this.waiting?.reject(error);
+  private onClose = () => this.waiting?.reject(new Error("SMTP connection closed"));
+
+  constructor(private socket: net.Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  // Stops reading so the socket can be handed over to TLS
+  detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  async command(line: string, expectedCode: number): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode);
+  }
+
+  async expect(expectedCode: number): Promise<string> {
+    const reply = await new Promise<string>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+    const code = parseInt(reply.slice(0, 3), 10);
+    if (code !== expectedCode) {
+      throw new Error(`SMTP error: expected ${expectedCode}, got "${reply.trim()}"`);
+    }
+    return reply;
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const lines = this.buffer.split("\r\n");
+    // The final element is an incomplete line still being received
+    const last = lines.slice(0, -1).findIndex((line) => /^\d{3}( |$)/.test(line));
+    if (last === -1) return;
+    const reply = lines.slice(0, last + 1).join("\n");
+    this.buffer = lines.slice(last + 1).join("\r\n");
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve(reply);
+  }
+}
+
+// Line breaks in a header value would start a new header (or SMTP command)
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+// The bare address for the SMTP envelope, so EMAIL_FROM can carry a display
+// name ("Pawsitive <no-reply@example.com>") for the From header
+function envelopeAddress(value: string): string {
+  const address = headerValue(value).match(/<([^<>]*)>\s*$/)?.[1] ?? headerValue(value);
+  return address.replace(/[<>\s]/g, "");
+}
+
+// RFC 2047 encoded-words for non-ASCII text, each kept within the 75-character
+// limit and split only between whole characters
+function encodeHeaderText(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words: string[] = [];
+  let chunk = "";
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += character;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join("\r\n ");
+}
+
+function formatMessage(from: string, message: EmailMessage): string {
+  // Dot-stuff lines that start with "." so they aren't read as the end of DATA
+  const body = message.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeaderText(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+function createTransport(): EmailTransport {
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "log");
+  if (transport === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT=smtp");
+    }
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.EMAIL_FROM || process.env.SMTP_USER || "no-reply@localhost",
+    });
+  }
+  return new LogTransport();
+}
+
+let transport: EmailTransport | undefined;
+
+export function getEmailTransport(): EmailTransport {
+  transport ??= createTransport();
+  return transport;
+}
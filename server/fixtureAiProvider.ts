@@ -0,0 +1,95 @@
+import { readFileSync } from "fs";
+import { basename } from "path";
+import type { EmergencyAssessment, PhotoAnalysis, SymptomAnalysis } from "@shared/aiTypes";
+import type {
+  AiProvider,
+  EmergencyAssessmentInput,
+  HealthSummaryDog,
+  HealthSummaryRecord,
+  SymptomInput,
+  VetChatContext,
+  VetChatTurn,
+} from "./aiProvider";
+import type { AiTask } from "./aiPrompts";
+import { defaultAiFixtures, type AiFixtureCase, type AiFixtures } from "./aiFixtures";
+
+// Answers from fixtures instead of a model: no network, no API key, and the same
+// input always gets the same answer. For development and automated tests.
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export class FixtureAiProvider implements AiProvider {
+  readonly name = "fixture";
+  private readonly fixtures: AiFixtures;
+  private readonly source: string;
+
+  constructor(fixturesPath: string | undefined = process.env.AI_FIXTURES_PATH) {
+    const overrides: Partial<AiFixtures> = fixturesPath ? JSON.parse(readFileSync(fixturesPath, "utf8")) : {};
+    this.fixtures = { ...defaultAiFixtures, ...overrides };
+    this.source = fixturesPath ? basename(fixturesPath) : "builtin";
+  }
+
+  modelName(_task: AiTask): string {
+    return this.source;
+  }
+
+  // Phrases match at the start of a word, so "vomit" also catches "vomiting"
+  private pick<T>(cases: AiFixtureCase<T>[], parts: (string | undefined)[]): T {
+    const text = parts.filter(Boolean).join("\n").toLowerCase();
+    const match = cases.find(
+      (fixture) =>
+        fixture.match.length === 0 ||
+        fixture.match.some((phrase) => new RegExp(`\\b${escapeRegExp(phrase.toLowerCase())}`).test(text)),
+    );
+    if (!match) {
+      throw new Error("No AI fixture matches the request and none is a catch-all");
+    }
+    return structuredClone(match.response);
+  }
+
+  async analyzeSymptoms(input: SymptomInput): Promise<SymptomAnalysis> {
+    return this.pick(this.fixtures.symptomAnalysis, [input.type, input.title, input.description, input.severity]);
+  }
+
+  async analyzeHealthPhoto(_photo: Buffer, _mimeType: string, context?: string): Promise<PhotoAnalysis> {
+    return this.pick(this.fixtures.photoAnalysis, [context]);
+  }
+
+  async performEmergencyAssessment(input: EmergencyAssessmentInput): Promise<EmergencyAssessment> {
+    return this.pick(this.fixtures.emergencyAssessment, [
+      ...input.symptoms,
+      input.currentBehavior,
+      ...Object.values(input.vitalSigns ?? {}),
+    ]);
+  }
+
+  async generateHealthSummary(dog: HealthSummaryDog, records: HealthSummaryRecord[]): Promise<string> {
+    if (records.length === 0) {
+      return `${dog.name} has no recent health records to summarize.`;
+    }
+    const counts = new Map<string, number>();
+    for (const record of records) {
+      counts.set(record.type, (counts.get(record.type) ?? 0) + 1);
+    }
+    const byType = Array.from(counts, ([type, count]) => `${count} ${type}`).join(", ");
+    const severe = records.filter((record) => record.severity === "severe");
+    const latest = records.reduce((newest, record) => (record.recordedAt > newest.recordedAt ? record : newest));
+    return [
+      `${dog.name} (${dog.breed}) has ${records.length} recent health record${records.length === 1 ? "" : "s"}: ${byType}.`,
+      `The most recent is "${latest.title}".`,
+      severe.length > 0
+        ? `${severe.length} ${severe.length === 1 ? "was" : "were"} marked severe: ${severe.map((record) => record.title).join(", ")}. Follow up with your vet.`
+        : "None were marked severe.",
+      "(Offline fixture summary: no AI model was consulted.)",
+    ].join(" ");
+  }
+
+  // Streams the canned reply word by word, like a model would
+  async *streamVetChat(context: VetChatContext, turns: VetChatTurn[], signal?: AbortSignal): AsyncIterable<string> {
+    const reply = this.pick(this.fixtures.vetChat, [turns[turns.length - 1]?.text]).replaceAll("{dog}", context.dog.name);
+    for (const word of reply.split(/(?<= )/)) {
+      if (signal?.aborted) return;
+      yield word;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { GoogleGenAI } from "@google/genai";
+import { ModelAiProvider } from "./aiProvider";
+import type { AiChatPrompt, AiModelTier, AiPrompt } from "./aiPrompts";
+
+// DON'T DELETE THIS COMMENT
+// Follow these instructions when using this blueprint:
+// - Note that the newest Gemini model series is "gemini-2.5-flash" or gemini-2.5-pro"
+//   - do not change this unless explicitly requested by the user
+
+export class GeminiProvider extends ModelAiProvider {
+  readonly name = "gemini";
+  private readonly ai: GoogleGenAI;
+  protected readonly models: Record<AiModelTier, string>;
+
+  constructor() {
+    super();
+    // This API key is from Gemini Developer API Key, not vertex AI API Key
+    this.ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+    this.models = {
+      reasoning: process.env.GEMINI_MODEL || "gemini-2.5-pro",
+      fast: process.env.GEMINI_FAST_MODEL || "gemini-2.5-flash",
+    };
+  }
+
+  private contents(prompt: AiPrompt) {
+    if (!prompt.image) return prompt.prompt;
+    return [
+      {
+        inlineData: {
+          data: prompt.image.data.toString("base64"),
+          mimeType: prompt.image.mimeType,
+        },
+      },
+      prompt.prompt,
+    ];
+  }
+
+  protected async completeJson(prompt: AiPrompt): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.models[prompt.tier],
+      config: {
+        systemInstruction: prompt.system,
+        responseMimeType: "application/json",
+        responseSchema: prompt.responseSchema,
+      },
+      contents: this.contents(prompt),
+    });
+    return response.text ?? "";
+  }
+
+  protected async completeText(prompt: AiPrompt): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.models[prompt.tier],
+      ...(prompt.system && { config: { systemInstruction: prompt.system } }),
+      contents: this.contents(prompt),
+    });
+    return response.text ?? "";
+  }
+
+  protected async *streamChat(prompt: AiChatPrompt, signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.models[prompt.tier],
+      config: { systemInstruction: prompt.system, abortSignal: signal },
+      contents: prompt.turns.map((turn) => ({
+        role: turn.role === "assistant" ? "model" : "user",
+        parts: [
+          ...(turn.images ?? []).map((image) => ({
+            inlineData: { data: image.data.toString("base64"), mimeType: image.mimeType },
+          })),
+          { text: turn.text },
+        ],
+      })),
+    });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+}
@@ -0,0 +1,355 @@
+import { differenceInMonths, format, parseISO } from "date-fns";
+import type { Appointment, Dog, HealthRecord, Medication, WeightRecord } from "@shared/schema";
+import type { VaccinationStatus } from "@shared/vaccineCatalog";
+import { storage } from "./storage";
+import { vaccinationStatus } from "./vaccinationSchedule";
+import { ObjectStorageService } from "./objectStorage";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, wrapText, type PdfColor, type PdfFont } from "./pdf";
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - MARGIN;
+
+const TEXT: PdfColor = [0.1, 0.1, 0.1];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const ACCENT: PdfColor = [0.05, 0.58, 0.53];
+const RULE: PdfColor = [0.85, 0.87, 0.89];
+const severityColors: Record<string, PdfColor> = {
+  mild: [0.13, 0.55, 0.13],
+  moderate: [0.85, 0.5, 0.05],
+  severe: [0.8, 0.15, 0.15],
+};
+const vaccineStatusLabels = { up_to_date: "Up to date", due_soon: "Due soon", overdue: "Overdue" } as const;
+
+// Photos are downloaded from object storage, so keep the report bounded
+const MAX_SYMPTOMS = 20;
+const MAX_PHOTOS_PER_RECORD = 3;
+const MAX_PHOTOS = 12;
+const MAX_APPOINTMENTS = 50;
+
+export interface HealthReportRange {
+  from: Date;
+  to: Date;
+}
+
+interface HealthReportData {
+  dog: Dog;
+  range: HealthReportRange;
+  medications: Medication[];
+  vaccinations: VaccinationStatus;
+  weights: WeightRecord[];
+  symptoms: HealthRecord[];
+  photos: Map<string, Buffer>;
+  appointments: Appointment[];
+}
+
+// Only photos the requesting user could open through /objects are embedded
+async function downloadPhotos(symptoms: HealthRecord[], userId: string): Promise<Map<string, Buffer>> {
+  const objectStorageService = new ObjectStorageService();
+  const urls = symptoms
+    .flatMap((record) => (record.photoUrls ?? []).slice(0, MAX_PHOTOS_PER_RECORD))
+    .slice(0, MAX_PHOTOS);
+  const photos = new Map<string, Buffer>();
+  for (const url of urls) {
+    try {
+      const file = await objectStorageService.getReadableObjectFile(url, userId);
+      if (!file) continue;
+      const [contents] = await file.download();
+      photos.set(url, contents);
+    } catch (error) {
+      // A missing photo shouldn't stop the rest of the report
+      console.error(`Error loading report photo ${url}:`, error);
+    }
+  }
+  return photos;
+}
+
+async function loadReportData(dog: Dog, range: HealthReportRange, userId: string): Promise<HealthReportData> {
+  const inRange = (date: Date | null) => !!date && date >= range.from && date <= range.to;
+  const [medications, vaccinationRecords, weights, healthRecords, { appointments }] = await Promise.all([
+    storage.getDogMedications(dog.id),
+    storage.getDogVaccinations(dog.id),
+    storage.getDogWeightRecords(dog.id, range.from, range.to),
+    storage.getDogHealthRecords(dog.id),
+    storage.getDogAppointments(dog.id, {
+      statuses: ["completed", "cancelled"],
+      from: range.from,
+      to: range.to,
+      limit: MAX_APPOINTMENTS,
+      offset: 0,
+    }),
+  ]);
+
+  const symptoms = healthRecords
+    .filter((record) => record.type === "symptom" && inRange(record.recordedAt))
+    .sort((a, b) => b.recordedAt!.getTime() - a.recordedAt!.getTime())
+    .slice(0, MAX_SYMPTOMS);
+
+  return {
+    dog,
+    range,
+    medications: medications.filter((medication) => medication.isActive),
+    vaccinations: vaccinationStatus(dog, vaccinationRecords),
+    weights: [...weights].sort((a, b) => a.recordedAt!.getTime() - b.recordedAt!.getTime()),
+    symptoms,
+    photos: await downloadPhotos(symptoms, userId),
+    appointments,
+  };
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  if (!date) return "—";
+  return format(typeof date === "string" ? parseISO(date) : date, "MMM d, yyyy");
+}
+
+function formatAge(birthDate: string | null): string {
+  if (!birthDate) return "Unknown";
+  const months = differenceInMonths(new Date(), parseISO(birthDate));
+  if (months < 12) return `${months} month${months !== 1 ? "s" : ""}`;
+  const years = Math.floor(months / 12);
+  return `${years} year${years !== 1 ? "s" : ""}`;
+}
+
+// Top-to-bottom flow layout that starts a new page when the next block won't fit
+class ReportWriter {
+  readonly pdf = new PdfDocument();
+  y = MARGIN;
+
+  ensureSpace(height: number): void {
+    if (this.y + height <= BOTTOM) return;
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  heading(title: string): void {
+    this.ensureSpace(48);
+    this.y += 12;
+    this.pdf.text(title, MARGIN, this.y, { size: 14, font: "bold", color: ACCENT });
+    this.y += 20;
+    this.pdf.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y, { color: RULE });
+    this.y += 8;
+  }
+
+  paragraph(text: string, options: { size?: number; font?: PdfFont; color?: PdfColor; indent?: number } = {}): void {
+    const { size = 10, font = "regular", color = TEXT, indent = 0 } = options;
+    const lineHeight = size * 1.35;
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size, font)) {
+      this.ensureSpace(lineHeight);
+      this.pdf.text(line, MARGIN + indent, this.y, { size, font, color });
+      this.y += lineHeight;
+    }
+  }
+
+  // Fixed-width columns; cells wrap and the row grows to the tallest cell
+  row(cells: string[], widths: number[], options: { font?: PdfFont; color?: PdfColor } = {}): void {
+    const size = 9;
+    const lineHeight = size * 1.35;
+    const wrapped = cells.map((cell, index) => wrapText(cell, widths[index] - 6, size, options.font));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + 4;
+    this.ensureSpace(height);
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        this.pdf.text(line, x, this.y + 2 + lineIndex * lineHeight, { size, font: options.font, color: options.color ?? TEXT });
+      });
+      x += widths[index];
+    });
+    this.y += height;
+    this.pdf.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y, { width: 0.5, color: RULE });
+  }
+
+  empty(message: string): void {
+    this.paragraph(message, { color: MUTED });
+  }
+}
+
+function writeProfile(writer: ReportWriter, { dog, range }: HealthReportData): void {
+  const { pdf } = writer;
+  pdf.text(`${dog.name} — Health Summary`, MARGIN, writer.y, { size: 20, font: "bold", color: TEXT });
+  writer.y += 28;
+  pdf.text(
+    `Report period ${formatDate(range.from)} to ${formatDate(range.to)} • Generated ${formatDate(new Date())} by Pawsitive`,
+    MARGIN,
+    writer.y,
+    { size: 9, color: MUTED },
+  );
+  writer.y += 18;
+
+  writer.heading("Profile");
+  const details: [string, string][] = [
+    ["Breed", dog.breed || "Unknown"],
+    ["Age", formatAge(dog.birthDate)],
+    ["Date of birth", formatDate(dog.birthDate)],
+    ["Sex", dog.gender || "Not specified"],
+    ["Weight", dog.weight ? `${parseFloat(dog.weight)} lbs` : "Not recorded"],
+    ["Microchip", dog.microchipId || "Not recorded"],
+  ];
+  for (const [label, value] of details) {
+    writer.ensureSpace(15);
+    pdf.text(label, MARGIN, writer.y, { size: 10, color: MUTED });
+    pdf.text(value, MARGIN + 110, writer.y, { size: 10, font: "bold", color: TEXT });
+    writer.y += 15;
+  }
+}
+
+function writeMedications(writer: ReportWriter, { medications }: HealthReportData): void {
+  writer.heading("Active Medications");
+  if (medications.length === 0) return writer.empty("No active medications.");
+  const widths = [130, 90, 90, 70, 132];
+  writer.row(["Medication", "Dosage", "Frequency", "Since", "Instructions"], widths, { font: "bold", color: MUTED });
+  for (const medication of medications) {
+    writer.row(
+      [medication.name, medication.dosage, medication.frequency, formatDate(medication.startDate), medication.instructions ?? ""],
+      widths,
+    );
+  }
+}
+
+function writeVaccinations(writer: ReportWriter, { vaccinations }: HealthReportData): void {
+  writer.heading("Vaccination Status");
+  if (vaccinations.vaccines.length === 0) return writer.empty("No vaccinations recorded.");
+  writer.paragraph(`Overall: ${vaccineStatusLabels[vaccinations.status]}`, { font: "bold" });
+  writer.y += 4;
+  const widths = [170, 80, 90, 90, 82];
+  writer.row(["Vaccine", "Status", "Last given", "Next due", "Doses"], widths, { font: "bold", color: MUTED });
+  for (const vaccine of vaccinations.vaccines) {
+    writer.row(
+      [
+        `${vaccine.name}${vaccine.core ? "" : " (non-core)"}`,
+        vaccineStatusLabels[vaccine.status],
+        formatDate(vaccine.lastAdministeredAt),
+        formatDate(vaccine.nextDueDate),
+        String(vaccine.dosesGiven),
+      ],
+      widths,
+    );
+  }
+}
+
+function writeWeightChart(writer: ReportWriter, { weights }: HealthReportData): void {
+  writer.heading("Weight");
+  if (weights.length === 0) return writer.empty("No weigh-ins in this period.");
+
+  const chartHeight = 150;
+  const labelWidth = 40;
+  writer.ensureSpace(chartHeight + 30);
+  const { pdf } = writer;
+  const left = MARGIN + labelWidth;
+  const top = writer.y;
+  const width = CONTENT_WIDTH - labelWidth;
+
+  const values = weights.map((record) => Number(record.weight));
+  const times = weights.map((record) => record.recordedAt!.getTime());
+  // Pad the axis so a flat line doesn't sit on the chart edge
+  const padding = Math.max((Math.max(...values) - Math.min(...values)) * 0.1, 1);
+  const minWeight = Math.min(...values) - padding;
+  const maxWeight = Math.max(...values) + padding;
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime || 1;
+
+  pdf.rect(left, top, width, chartHeight, { stroke: RULE });
+  for (const weight of [minWeight, (minWeight + maxWeight) / 2, maxWeight]) {
+    const y = top + chartHeight - ((weight - minWeight) / (maxWeight - minWeight)) * chartHeight;
+    pdf.line(left, y, left + width, y, { width: 0.25, color: RULE });
+    pdf.text(`${weight.toFixed(1)}`, MARGIN, y - 4, { size: 8, color: MUTED });
+  }
+
+  const points = weights.map((_, index): [number, number] => [
+    weights.length === 1 ? left + width / 2 : left + ((times[index] - minTime) / timeSpan) * width,
+    top + chartHeight - ((values[index] - minWeight) / (maxWeight - minWeight)) * chartHeight,
+  ]);
+  pdf.polyline(points, { width: 1.5, color: ACCENT });
+  for (const [x, y] of points) {
+    pdf.rect(x - 2, y - 2, 4, 4, { fill: ACCENT });
+  }
+
+  pdf.text(formatDate(weights[0].recordedAt), left, top + chartHeight + 4, { size: 8, color: MUTED });
+  const lastLabel = formatDate(weights[weights.length - 1].recordedAt);
+  pdf.text(lastLabel, left + width - 60, top + chartHeight + 4, { size: 8, color: MUTED });
+  writer.y = top + chartHeight + 20;
+
+  const change = values[values.length - 1] - values[0];
+  writer.paragraph(
+    `${weights.length} weigh-in${weights.length !== 1 ? "s" : ""} (lbs) • latest ${values[values.length - 1].toFixed(1)} lbs` +
+      (weights.length > 1 ? ` • change ${change >= 0 ? "+" : ""}${change.toFixed(1)} lbs` : ""),
+    { size: 9, color: MUTED },
+  );
+}
+
+function writeSymptoms(writer: ReportWriter, { symptoms, photos }: HealthReportData): void {
+  writer.heading("Recent Symptoms");
+  if (symptoms.length === 0) return writer.empty("No symptoms logged in this period.");
+
+  for (const record of symptoms) {
+    writer.ensureSpace(40);
+    const { pdf } = writer;
+    pdf.text(formatDate(record.recordedAt), MARGIN, writer.y, { size: 9, color: MUTED });
+    pdf.text(record.title, MARGIN + 80, writer.y, { size: 10, font: "bold" });
+    if (record.severity) {
+      pdf.text(record.severity.toUpperCase(), PAGE_WIDTH - MARGIN - 60, writer.y, {
+        size: 8,
+        font: "bold",
+        color: severityColors[record.severity] ?? MUTED,
+      });
+    }
+    writer.y += 15;
+    if (record.description) writer.paragraph(record.description, { size: 9, indent: 80 });
+    if (record.vetNotes) writer.paragraph(`Notes: ${record.vetNotes}`, { size: 9, color: MUTED, indent: 80 });
+
+    const recordPhotos = (record.photoUrls ?? []).map((url) => photos.get(url)).filter((photo): photo is Buffer => !!photo);
+    if (recordPhotos.length > 0) {
+      const photoSize = 110;
+      writer.ensureSpace(photoSize + 8);
+      let x = MARGIN + 80;
+      for (const photo of recordPhotos) {
+        try {
+          const drawn = pdf.image(photo, x, writer.y + 4, photoSize, photoSize);
+          x += drawn.width + 8;
+        } catch (error) {
+          console.error("Error embedding report photo:", error);
+        }
+      }
+      writer.y += photoSize + 8;
+    }
+    writer.y += 8;
+  }
+}
+
+function writeAppointments(writer: ReportWriter, { appointments }: HealthReportData): void {
+  writer.heading("Past Appointments");
+  if (appointments.length === 0) return writer.empty("No vet visits in this period.");
+  const widths = [70, 90, 140, 70, 142];
+  writer.row(["Date", "Type", "Clinic / Vet", "Status", "Diagnosis"], widths, { font: "bold", color: MUTED });
+  for (const appointment of appointments) {
+    writer.row(
+      [
+        formatDate(appointment.scheduledAt),
+        appointment.appointmentType,
+        `${appointment.clinicName}${appointment.vetName ? ` / ${appointment.vetName}` : ""}`,
+        appointment.status ?? "scheduled",
+        [appointment.diagnosis, appointment.outcomeNotes].filter(Boolean).join(" — "),
+      ],
+      widths,
+    );
+  }
+}
+
+// Builds a printable summary of a dog's health for sharing with a vet.
+// Weights, symptoms and appointments are limited to the given range;
+// medications and vaccinations reflect the dog's current state. Photos are
+// limited to those `userId` is allowed to read.
+export async function buildHealthReport(dog: Dog, range: HealthReportRange, userId: string): Promise<Buffer> {
+  const data = await loadReportData(dog, range, userId);
+  const writer = new ReportWriter();
+  writeProfile(writer, data);
+  writeMedications(writer, data);
+  writeVaccinations(writer, data);
+  writeWeightChart(writer, data);
+  writeSymptoms(writer, data);
+  writeAppointments(writer, data);
+
+  const pageCount = writer.pdf.pageCount;
+  return writer.pdf.toBuffer({
+    footer: (page) => `${dog.name} • Page ${page} of ${pageCount}`,
+  });
+}
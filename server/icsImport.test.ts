@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractCalendarText } from "./icsImport";
+
+const calendar = ["BEGIN:VCALENDAR", "BEGIN:VEVENT", "SUMMARY:Annual check-up", "END:VEVENT", "END:VCALENDAR"].join("\r\n");
+
+test("reads a bare .ics file", () => {
+  assert.equal(extractCalendarText(`${calendar}\r\n`), calendar);
+});
+
+test("reads a base64 text/calendar part from an email", () => {
+  const email = [
+    "From: clinic@example.com",
+    'Content-Type: multipart/mixed; boundary="b1"',
+    "",
+    "--b1",
+    "Content-Type: text/plain",
+    "",
+    "See you soon",
+    "--b1",
+    "Content-Type: text/calendar; method=REQUEST",
+    "Content-Transfer-Encoding: base64",
+    "",
+    Buffer.from(calendar).toString("base64"),
+    "--b1--",
+  ].join("\r\n");
+  assert.equal(extractCalendarText(email), calendar);
+});
+
+test("reads a quoted-printable calendar", () => {
+  const email = [
+    "Content-Type: text/calendar",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    calendar.replace("Annual check-up", "Annual check-up =E2=80=93 Bella=\r\n"),
+  ].join("\r\n");
+  assert.match(extractCalendarText(email) ?? "", /SUMMARY:Annual check-up – Bella\r\n/);
+});
+
+test("stays fast on a 1MB upload of repeated markers", () => {
+  for (const line of ["BEGIN:VCALENDAR\n", "Content-Type: text/calendar\n"]) {
+    const started = Date.now();
+    assert.equal(extractCalendarText(line.repeat(Math.floor((1024 * 1024) / line.length))), null);
+    assert.ok(Date.now() - started < 500, `${line.trim()} took ${Date.now() - started}ms`);
+  }
+});
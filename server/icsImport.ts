@@ -0,0 +1,244 @@
+import type { InsertAppointment } from "@shared/schema";
+import { isValidTimeZone, zonedTimeToDate } from "./medicationScheduler";
+
+// Reads appointment invitations (.ics files, or confirmation emails carrying a
+// text/calendar part) into appointment drafts the user confirms before saving.
+
+export interface ParsedCalendarEvent {
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  organizerName: string | null;
+  organizerEmail: string | null;
+  start: Date;
+  status: string | null;
+}
+
+// A clinic from the user's directory
+export interface KnownClinic {
+  clinicId: string;
+  clinicName: string;
+  clinicAddress: string | null;
+  clinicPhone: string | null;
+  vetNames: string[];
+}
+
+export type AppointmentDraft = Omit<InsertAppointment, "dogId"> & {
+  // Which previously used clinic the draft was matched to, if any
+  matchedClinic: string | null;
+  sourceUid: string | null;
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Continuation lines begin with a space or tab and are joined to the previous line
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/).filter((line) => line.length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+// Parses DTSTART-style values. UTC ("Z") and TZID times are exact; floating
+// times and all-day dates are read in `fallbackTimeZone` (the uploader's zone).
+function parseDateValue(line: ContentLine, fallbackTimeZone: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour = "09", minute = "00", second = "00", utc] = match;
+  if (utc) {
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+  const timeZone = line.params.TZID && isValidTimeZone(line.params.TZID) ? line.params.TZID : fallbackTimeZone;
+  return zonedTimeToDate(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone);
+}
+
+export function parseCalendarEvents(text: string, fallbackTimeZone = "UTC"): ParsedCalendarEvent[] {
+  const events: ParsedCalendarEvent[] = [];
+  let current: Partial<ParsedCalendarEvent> | null = null;
+  // Nested components such as VALARM reuse property names, so only read top-level VEVENT lines
+  let depth = 0;
+
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      if (line.value.toUpperCase() === "VEVENT") {
+        current = {};
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+    if (line.name === "END") {
+      if (line.value.toUpperCase() === "VEVENT" && current) {
+        if (current.start) {
+          events.push({
+            uid: current.uid ?? null,
+            summary: current.summary ?? null,
+            description: current.description ?? null,
+            location: current.location ?? null,
+            organizerName: current.organizerName ?? null,
+            organizerEmail: current.organizerEmail ?? null,
+            start: current.start,
+            status: current.status ?? null,
+          });
+        }
+        current = null;
+      } else if (current) {
+        depth--;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value).trim();
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(line.value).trim();
+        break;
+      case "LOCATION":
+        current.location = unescapeText(line.value).trim();
+        break;
+      case "ORGANIZER":
+        current.organizerName = line.params.CN ?? null;
+        current.organizerEmail = line.value.replace(/^mailto:/i, "") || null;
+        break;
+      case "STATUS":
+        current.status = line.value.toUpperCase();
+        break;
+      case "DTSTART":
+        current.start = parseDateValue(line, fallbackTimeZone) ?? undefined;
+        break;
+    }
+  }
+  return events;
+}
+
+// First BEGIN:VCALENDAR … END:VCALENDAR block. Plain indexOf scans keep this
+// linear; a lazy regex over a 1MB upload can backtrack for seconds.
+function findCalendarBlock(text: string): string | null {
+  // ASCII-only upper-casing keeps indexes aligned with the original text
+  const upper = text.replace(/[a-z]+/g, (letters) => letters.toUpperCase());
+  const start = upper.indexOf("BEGIN:VCALENDAR");
+  if (start === -1) return null;
+  const end = upper.indexOf("END:VCALENDAR", start);
+  return end === -1 ? null : text.slice(start, end + "END:VCALENDAR".length);
+}
+
+// Splits a MIME part into its headers and body at the first blank line
+function splitPart(part: string): { headers: string; body: string } | null {
+  const separator = /\r?\n\r?\n/.exec(part);
+  if (!separator) return null;
+  return { headers: part.slice(0, separator.index), body: part.slice(separator.index + separator[0].length) };
+}
+
+// Finds the calendar data in an upload: either a bare .ics file or a raw email
+// (.eml) whose text/calendar part may be base64 or quoted-printable encoded.
+export function extractCalendarText(raw: string): string | null {
+  const literal = findCalendarBlock(raw);
+  if (literal && !/=\r?\n/.test(literal)) return literal;
+
+  // Every boundary line starts with "--", so splitting there yields each part
+  // (nested multiparts included) with its headers first
+  for (const part of raw.split(/\r?\n--/)) {
+    const split = splitPart(part);
+    if (!split || !/Content-Type:[ \t]*text\/calendar/i.test(split.headers)) continue;
+    let body = split.body;
+    if (/Content-Transfer-Encoding:[ \t]*base64/i.test(split.headers)) {
+      body = Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf8");
+    } else if (/Content-Transfer-Encoding:[ \t]*quoted-printable/i.test(split.headers)) {
+      body = decodeQuotedPrintable(body);
+    }
+    const calendar = findCalendarBlock(body);
+    if (calendar) return calendar;
+  }
+  return literal ? decodeQuotedPrintable(literal) : null;
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Picks the known clinic whose name or street address appears in the invite
+export function matchClinic(event: ParsedCalendarEvent, clinics: KnownClinic[]): KnownClinic | null {
+  const haystack = normalize([event.location, event.summary, event.organizerName, event.description].filter(Boolean).join(" "));
+  if (!haystack) return null;
+
+  let best: { clinic: KnownClinic; score: number } | null = null;
+  for (const clinic of clinics) {
+    let score = 0;
+    const name = normalize(clinic.clinicName);
+    if (name && haystack.includes(name)) score += 2;
+    const street = clinic.clinicAddress ? normalize(clinic.clinicAddress.split(",")[0]) : "";
+    if (street && haystack.includes(street)) score += 3;
+    const organizer = event.organizerName ? normalize(event.organizerName) : "";
+    if (organizer && clinic.vetNames.some((vetName) => normalize(vetName) === organizer)) score += 1;
+    if (score > 0 && (!best || score > best.score)) {
+      best = { clinic, score };
+    }
+  }
+  return best?.clinic ?? null;
+}
+
+export function toAppointmentDraft(event: ParsedCalendarEvent, clinics: KnownClinic[]): AppointmentDraft {
+  const clinic = matchClinic(event, clinics);
+  // Without a match, treat "Clinic Name, 1 Main St, Town" as name then address
+  const [locationName, ...addressParts] = (event.location ?? "").split(",").map((part) => part.trim());
+
+  return {
+    vetName: event.organizerName ?? clinic?.vetNames[0] ?? "",
+    clinicId: clinic?.clinicId ?? null,
+    clinicName: clinic?.clinicName ?? locationName ?? "",
+    clinicAddress: clinic?.clinicAddress ?? (addressParts.length > 0 ? addressParts.join(", ") : null),
+    clinicPhone: clinic?.clinicPhone ?? null,
+    appointmentType: event.summary ?? "Vet Appointment",
+    scheduledAt: event.start,
+    status: event.status === "CANCELLED" ? "cancelled" : "scheduled",
+    notes: event.description,
+    matchedClinic: clinic?.clinicName ?? null,
+    sourceUid: event.uid,
+  };
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobRunner } from "./jobs";
+import { registerReminderJobs } from "./reminders";
+import { registerDataExportJobs } from "./dataExport";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +70,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    registerReminderJobs();
+    registerDataExportJobs();
+    startJobRunner();
   });
 })();
@@ -0,0 +1,58 @@
+import { log } from "./vite";
+
+// In-process background jobs. Each job runs on a fixed interval; a run that is
+// still in progress when the next tick fires is skipped rather than stacked.
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  // Resolves to how many items the run handled; idle runs aren't logged
+  run: () => Promise<number>;
+}
+
+interface JobState {
+  job: Job;
+  running: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+const jobs = new Map<string, JobState>();
+let started = false;
+
+async function runJob(state: JobState): Promise<void> {
+  if (state.running) return;
+  state.running = true;
+  const start = Date.now();
+  try {
+    const handled = await state.job.run();
+    if (handled > 0) {
+      log(`job ${state.job.name} handled ${handled} in ${Date.now() - start}ms`, "jobs");
+    }
+  } catch (error) {
+    console.error(`Error running job ${state.job.name}:`, error);
+  } finally {
+    state.running = false;
+  }
+}
+
+function schedule(state: JobState) {
+  state.timer = setInterval(() => void runJob(state), state.job.intervalMs);
+  // Don't hold the process open just for background work
+  state.timer.unref();
+  void runJob(state);
+}
+
+export function registerJob(job: Job) {
+  if (jobs.has(job.name)) {
+    throw new Error(`Job ${job.name} is already registered`);
+  }
+  const state: JobState = { job, running: false };
+  jobs.set(job.name, state);
+  if (started) schedule(state);
+}
+
+export function startJobRunner() {
+  if (started || process.env.DISABLE_JOBS === "true") return;
+  started = true;
+  jobs.forEach((state) => schedule(state));
+}
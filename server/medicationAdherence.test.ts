@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Medication, MedicationLog } from "@shared/schema";
+import { buildAdherenceReport } from "./medicationAdherence";
+
+// Twice daily at 08:00 and 20:00 UTC; the report covers 10 March only
+const medication = {
+  id: "med-1",
+  dogId: "dog-1",
+  name: "Apoquel",
+  dosage: "1 tablet",
+  frequency: "daily",
+  schedule: {
+    type: "interval",
+    times: ["08:00", "20:00"],
+    every: 1,
+    unit: "days",
+    daysOfWeek: [],
+    taper: [],
+    timezone: "UTC",
+  },
+  startDate: "2026-01-01",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+} as unknown as Medication;
+
+const from = new Date("2026-03-10T00:00:00Z");
+const to = new Date("2026-03-10T23:59:59Z");
+const now = new Date("2026-03-11T12:00:00Z");
+
+let nextId = 0;
+function log(givenAt: string, scheduledFor: string | null, status = "given"): MedicationLog {
+  return {
+    id: `log-${++nextId}`,
+    medicationId: medication.id,
+    givenBy: "user-1",
+    givenAt: new Date(givenAt),
+    status,
+    scheduledFor: scheduledFor ? new Date(scheduledFor) : null,
+    notes: null,
+    createdAt: new Date(givenAt),
+  };
+}
+
+function report(logs: MedicationLog[]) {
+  return buildAdherenceReport([medication], logs, from, to, now).medications[0];
+}
+
+test("yesterday's doses from the padded window don't land on today's first slot", () => {
+  const result = report([
+    log("2026-03-09T08:02:00Z", "2026-03-09T08:00:00Z"),
+    log("2026-03-09T20:03:00Z", "2026-03-09T20:00:00Z"),
+    log("2026-03-10T08:05:00Z", "2026-03-10T08:00:00Z"),
+  ]);
+  assert.deepEqual(
+    result.doses.map((dose) => dose.status),
+    ["on_time", "missed"],
+  );
+  assert.equal(result.doubles, 0);
+  assert.equal(result.unscheduled, 0);
+});
+
+test("a padding log without scheduledFor can't cover a miss on the range's first slot", () => {
+  const result = report([log("2026-03-09T20:05:00Z", null), log("2026-03-10T20:01:00Z", null)]);
+  assert.deepEqual(
+    result.doses.map((dose) => dose.status),
+    ["missed", "on_time"],
+  );
+  assert.equal(result.unscheduled, 0);
+});
+
+test("tomorrow's early dose doesn't count against today's last slot", () => {
+  const result = report([
+    log("2026-03-10T08:00:00Z", "2026-03-10T08:00:00Z"),
+    log("2026-03-10T20:00:00Z", "2026-03-10T20:00:00Z"),
+    log("2026-03-11T07:50:00Z", null),
+    log("2026-03-11T07:58:00Z", "2026-03-11T08:00:00Z"),
+  ]);
+  assert.deepEqual(
+    result.doses.map((dose) => dose.status),
+    ["on_time", "on_time"],
+  );
+  assert.equal(result.unscheduled, 0);
+});
+
+test("a log whose scheduledFor matches no slot is dropped", () => {
+  const result = report([log("2026-03-10T12:00:00Z", "2026-03-10T12:00:00Z")]);
+  assert.deepEqual(
+    result.doses.map((dose) => dose.status),
+    ["missed", "missed"],
+  );
+  assert.equal(result.unscheduled, 0);
+});
+
+test("doses on the range's edges still match their own slots", () => {
+  const result = report([
+    log("2026-03-09T23:59:00Z", "2026-03-10T08:00:00Z"),
+    log("2026-03-10T21:30:00Z", "2026-03-10T20:00:00Z"),
+  ]);
+  assert.deepEqual(
+    result.doses.map((dose) => dose.status),
+    ["on_time", "late"],
+  );
+});
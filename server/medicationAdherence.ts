@@ -0,0 +1,146 @@
+import type { Medication, MedicationLog } from "@shared/schema";
+import type { AdherenceReport, DoseOutcome, MedicationAdherence } from "@shared/adherence";
+import { expectedDoses } from "./medicationScheduler";
+
+// A dose given more than this long after it was due counts as late
+const LATE_AFTER_MS = 60 * 60 * 1000;
+// Logs further than this from every scheduled dose are treated as unscheduled
+const MATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Tolerance when matching a log's scheduledFor to a dose slot
+const SLOT_TOLERANCE_MS = 60 * 1000;
+
+function percentage(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 100);
+}
+
+// Index of the slot a log resolves. A log recorded against a scheduled dose
+// only ever resolves that dose; other logs go to the slot nearest to when they
+// were logged.
+function matchSlot(slots: Date[], log: MedicationLog): number {
+  if (log.scheduledFor) {
+    return slots.findIndex(
+      (slot) => Math.abs(slot.getTime() - log.scheduledFor!.getTime()) <= SLOT_TOLERANCE_MS,
+    );
+  }
+
+  const at = log.givenAt ?? log.createdAt;
+  if (!at) return -1;
+
+  let best = -1;
+  let bestDistance = MATCH_WINDOW_MS;
+  slots.forEach((slot, index) => {
+    const distance = Math.abs(slot.getTime() - at.getTime());
+    if (distance <= bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function medicationAdherence(
+  medication: Medication,
+  logs: MedicationLog[],
+  from: Date,
+  to: Date,
+  now: Date,
+): MedicationAdherence {
+  // Without an explicit start date nothing was expected before the medication was added
+  const start = !medication.startDate && medication.createdAt && medication.createdAt > from
+    ? medication.createdAt
+    : from;
+  // Logs are fetched with padding either side of the range; matching them
+  // against the slots just outside it too keeps them off the range's edge slots
+  const candidates = expectedDoses(
+    medication,
+    new Date(start.getTime() - MATCH_WINDOW_MS),
+    new Date(to.getTime() + MATCH_WINDOW_MS),
+  );
+  const slots = candidates.filter((slot) => slot >= start && slot <= to);
+  const firstSlot = candidates.indexOf(slots[0]);
+  const slotLogs = slots.map(() => ({ given: [] as MedicationLog[], skipped: false }));
+  let unscheduled = 0;
+
+  for (const log of logs) {
+    const candidate = matchSlot(candidates, log);
+    if (candidate === -1) {
+      const at = log.givenAt ?? log.createdAt;
+      if (log.status === "given" && !log.scheduledFor && at && at >= from && at <= to) unscheduled++;
+      continue;
+    }
+    const index = candidate - firstSlot;
+    if (slots.length === 0 || index < 0 || index >= slots.length) continue;
+    if (log.status === "skipped") {
+      slotLogs[index].skipped = true;
+    } else {
+      slotLogs[index].given.push(log);
+    }
+  }
+
+  const doses: DoseOutcome[] = slots.map((slot, index) => {
+    const { given, skipped } = slotLogs[index];
+    const givenAt = given.map((log) => (log.givenAt ?? log.createdAt ?? slot).toISOString());
+    let status: DoseOutcome["status"];
+    if (given.length > 1) {
+      status = "double";
+    } else if (given.length === 1) {
+      const delay = new Date(givenAt[0]).getTime() - slot.getTime();
+      status = delay > LATE_AFTER_MS ? "late" : "on_time";
+    } else if (skipped) {
+      status = "skipped";
+    } else {
+      status = slot > now ? "upcoming" : "missed";
+    }
+    return { medicationId: medication.id, scheduledFor: slot.toISOString(), status, givenAt };
+  });
+
+  const count = (status: DoseOutcome["status"]) => doses.filter((dose) => dose.status === status).length;
+  const expected = doses.filter((dose) => dose.status !== "upcoming").length;
+  const onTime = count("on_time");
+  const late = count("late");
+  const doubles = count("double");
+
+  return {
+    medicationId: medication.id,
+    name: medication.name,
+    expected,
+    onTime,
+    late,
+    missed: count("missed"),
+    skipped: count("skipped"),
+    doubles,
+    unscheduled,
+    adherence: percentage(onTime + late + doubles, expected),
+    doses,
+  };
+}
+
+// Compares the doses each medication's schedule expected between `from` and `to`
+// with the logged doses, classifying every expected dose.
+export function buildAdherenceReport(
+  medications: Medication[],
+  logs: MedicationLog[],
+  from: Date,
+  to: Date,
+  now: Date = new Date(),
+): AdherenceReport {
+  const reports = medications.map((medication) =>
+    medicationAdherence(
+      medication,
+      logs.filter((log) => log.medicationId === medication.id),
+      from,
+      to,
+      now,
+    ),
+  );
+
+  const expected = reports.reduce((sum, report) => sum + report.expected, 0);
+  const taken = reports.reduce((sum, report) => sum + report.onTime + report.late + report.doubles, 0);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    adherence: percentage(taken, expected),
+    medications: reports,
+  };
+}
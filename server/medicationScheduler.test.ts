@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { MedicationSchedule } from "@shared/medicationSchedule";
+import { computeNextDueDate, currentDosage, expectedDoses } from "./medicationScheduler";
+
+function medication(schedule: Partial<MedicationSchedule>, startDate: string, endDate: string | null = null) {
+  return {
+    dosage: "1 tablet",
+    startDate,
+    endDate,
+    schedule: {
+      type: "interval",
+      times: [],
+      every: 1,
+      unit: "days",
+      daysOfWeek: [],
+      taper: [],
+      timezone: "UTC",
+      ...schedule,
+    } as MedicationSchedule,
+  };
+}
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+test("interval doses keep their local time across a DST change", () => {
+  // New York moves to daylight time on 8 March 2026
+  const everyOtherDay = medication({ every: 2, times: ["20:00", "08:00"], timezone: "America/New_York" }, "2026-03-06");
+  assert.deepEqual(iso(expectedDoses(everyOtherDay, new Date("2026-03-06T00:00:00Z"), new Date("2026-03-10T00:00:00Z"))), [
+    "2026-03-06T13:00:00.000Z",
+    "2026-03-07T01:00:00.000Z",
+    "2026-03-08T12:00:00.000Z",
+    "2026-03-09T00:00:00.000Z",
+  ]);
+});
+
+test("weekly doses count weeks from the Sunday before the start date", () => {
+  // Starts on Wednesday 4 March, so Monday 2 March is before the course and the 9th–15th is an off week
+  const fortnightly = medication({ type: "weekly", every: 2, daysOfWeek: [1, 4] }, "2026-03-04");
+  assert.deepEqual(iso(expectedDoses(fortnightly, new Date("2026-03-01T00:00:00Z"), new Date("2026-03-20T23:59:59Z"))), [
+    "2026-03-05T09:00:00.000Z",
+    "2026-03-16T09:00:00.000Z",
+    "2026-03-19T09:00:00.000Z",
+  ]);
+});
+
+test("a taper sets the dosage for each step and ends the course", () => {
+  const taper = medication(
+    {
+      times: ["08:00"],
+      taper: [
+        { days: 3, dosage: "20 mg" },
+        { days: 2, dosage: "10 mg" },
+      ],
+    },
+    "2026-03-01",
+  );
+  assert.equal(expectedDoses(taper, new Date("2026-02-20T00:00:00Z"), new Date("2026-03-31T00:00:00Z")).length, 5);
+  assert.equal(computeNextDueDate(taper, new Date("2026-03-05T09:00:00Z")), null);
+
+  assert.equal(currentDosage(taper, new Date("2026-02-27T12:00:00Z")), "20 mg");
+  assert.equal(currentDosage(taper, new Date("2026-03-03T12:00:00Z")), "20 mg");
+  assert.equal(currentDosage(taper, new Date("2026-03-04T12:00:00Z")), "10 mg");
+  assert.equal(currentDosage(taper, new Date("2026-04-01T12:00:00Z")), "10 mg");
+});
+
+test("an end date stops the doses", () => {
+  const course = medication({ times: ["08:00"] }, "2026-03-01", "2026-03-03");
+  assert.equal(computeNextDueDate(course, new Date("2026-03-02T09:00:00Z"))?.toISOString(), "2026-03-03T08:00:00.000Z");
+  assert.equal(computeNextDueDate(course, new Date("2026-03-03T09:00:00Z")), null);
+});
+
+test("the longest allowed interval still comes due again", () => {
+  const yearly = medication({ every: 52, unit: "weeks" }, "2026-01-05");
+  assert.equal(computeNextDueDate(yearly, new Date("2026-01-05T10:00:00Z"))?.toISOString(), "2027-01-04T09:00:00.000Z");
+});
+
+test("as-needed medications are never due", () => {
+  assert.equal(computeNextDueDate(medication({ type: "as_needed" }, "2026-03-01"), new Date("2026-03-01T00:00:00Z")), null);
+});
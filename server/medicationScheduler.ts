@@ -0,0 +1,207 @@
+import type { MedicationSchedule } from "@shared/medicationSchedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DOSE_TIME = "09:00";
+// Upper bound on how far ahead we look for the next dose. Covers the longest
+// interval the schedule schema allows (maxScheduleEvery), plus a partial week.
+const MAX_LOOKAHEAD_DAYS = 400;
+
+// Accepts both stored medications and validated insert payloads
+interface ScheduledMedication {
+  schedule?: MedicationSchedule | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  createdAt?: Date | null;
+  dosage: string;
+}
+
+// Calendar days are handled as "YYYY-MM-DD" strings and converted to UTC-midnight
+// day numbers for arithmetic, so DST never shifts a day boundary.
+function toDayNumber(day: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, date) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function zonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+function localDay(instant: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return fromDayNumber(Math.floor(Date.UTC(year, month - 1, day) / DAY_MS));
+}
+
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(instant, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock time on a calendar day in `timeZone` to an absolute instant
+export function zonedTimeToDate(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, date, hour, minute);
+  const firstPass = guess - timeZoneOffsetMs(new Date(guess), timeZone);
+  // Re-check the offset at the candidate instant so DST transitions resolve correctly
+  return new Date(guess - timeZoneOffsetMs(new Date(firstPass), timeZone));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function scheduleTimeZone(schedule: MedicationSchedule): string {
+  return isValidTimeZone(schedule.timezone) ? schedule.timezone : "UTC";
+}
+
+function anchorDay(medication: ScheduledMedication, timeZone: string): string {
+  if (medication.startDate) return medication.startDate;
+  return localDay(medication.createdAt ?? new Date(), timeZone);
+}
+
+// Last calendar day of the course: explicit endDate wins, otherwise the end of the taper
+function courseEndDay(medication: ScheduledMedication, timeZone: string): string | null {
+  if (medication.endDate) return medication.endDate;
+  const taper = medication.schedule?.taper ?? [];
+  if (taper.length === 0) return null;
+  const totalDays = taper.reduce((sum, step) => sum + step.days, 0);
+  return fromDayNumber(toDayNumber(anchorDay(medication, timeZone)) + totalDays - 1);
+}
+
+function isScheduledDay(schedule: MedicationSchedule, dayNumber: number, anchor: number): boolean {
+  const daysSinceStart = dayNumber - anchor;
+  if (daysSinceStart < 0) return false;
+
+  if (schedule.type === "weekly") {
+    const weekday = new Date(dayNumber * DAY_MS).getUTCDay();
+    if (!schedule.daysOfWeek.includes(weekday)) return false;
+    // Weeks are counted from the Sunday on or before the start date
+    const anchorWeekStart = anchor - new Date(anchor * DAY_MS).getUTCDay();
+    const weeksSinceStart = Math.floor((dayNumber - anchorWeekStart) / 7);
+    return weeksSinceStart % schedule.every === 0;
+  }
+
+  const periodDays = schedule.every * (schedule.unit === "weeks" ? 7 : 1);
+  return daysSinceStart % periodDays === 0;
+}
+
+// Visits scheduled doses strictly after `after`, in order, until the course ends
+// or `visit` returns false
+function forEachScheduledDose(
+  medication: ScheduledMedication,
+  after: Date,
+  visit: (dueAt: Date) => boolean,
+): void {
+  const schedule = medication.schedule;
+  if (!schedule || schedule.type === "as_needed") return;
+  if (schedule.type === "weekly" && schedule.daysOfWeek.length === 0) return;
+
+  const timeZone = scheduleTimeZone(schedule);
+  const times = schedule.times.length > 0 ? [...schedule.times].sort() : [DEFAULT_DOSE_TIME];
+  const anchor = toDayNumber(anchorDay(medication, timeZone));
+  const endDay = courseEndDay(medication, timeZone);
+  const lastDay = endDay ? toDayNumber(endDay) : Infinity;
+
+  const firstDay = Math.max(anchor, toDayNumber(localDay(after, timeZone)));
+  for (let dayNumber = firstDay; dayNumber <= Math.min(lastDay, firstDay + MAX_LOOKAHEAD_DAYS); dayNumber++) {
+    if (!isScheduledDay(schedule, dayNumber, anchor)) continue;
+    const day = fromDayNumber(dayNumber);
+    for (const time of times) {
+      const dueAt = zonedTimeToDate(day, time, timeZone);
+      if (dueAt > after && !visit(dueAt)) return;
+    }
+  }
+}
+
+// Returns the first scheduled dose strictly after `after`, or null when the
+// medication is taken as needed, has no structured schedule, or its course has ended.
+export function computeNextDueDate(medication: ScheduledMedication, after: Date): Date | null {
+  let next: Date | null = null;
+  forEachScheduledDose(medication, after, (dueAt) => {
+    next = dueAt;
+    return false;
+  });
+  return next;
+}
+
+// The nth (1-based) scheduled dose after `after`, or null if the course ends first
+export function nthDoseAfter(medication: ScheduledMedication, after: Date, n: number): Date | null {
+  let seen = 0;
+  let found: Date | null = null;
+  forEachScheduledDose(medication, after, (dueAt) => {
+    seen++;
+    if (seen < n) return true;
+    found = dueAt;
+    return false;
+  });
+  return found;
+}
+
+// All doses the schedule expected within [from, to]
+export function expectedDoses(medication: ScheduledMedication, from: Date, to: Date): Date[] {
+  const doses: Date[] = [];
+  forEachScheduledDose(medication, new Date(from.getTime() - 1), (dueAt) => {
+    if (dueAt > to) return false;
+    doses.push(dueAt);
+    return true;
+  });
+  return doses;
+}
+
+// Next dose after the one currently due has been given or skipped. Early doses
+// consume the upcoming slot; late doses restart the schedule from now so the
+// medication does not stay overdue.
+export function advanceAfterDose(
+  medication: ScheduledMedication & { nextDueDate: Date | null },
+  now: Date = new Date(),
+): Date | null {
+  if (!medication.schedule) return medication.nextDueDate;
+  const dueAt = medication.nextDueDate;
+  const reference = dueAt && dueAt > now ? dueAt : now;
+  return computeNextDueDate(medication, reference);
+}
+
+// Dosage for the active taper step, falling back to the medication's base dosage
+export function currentDosage(medication: ScheduledMedication, at: Date = new Date()): string {
+  const schedule = medication.schedule;
+  if (!schedule || schedule.taper.length === 0) return medication.dosage;
+
+  const timeZone = scheduleTimeZone(schedule);
+  const dayIndex = toDayNumber(localDay(at, timeZone)) - toDayNumber(anchorDay(medication, timeZone));
+  if (dayIndex < 0) return schedule.taper[0].dosage;
+
+  let stepEnd = 0;
+  for (const step of schedule.taper) {
+    stepEnd += step.days;
+    if (dayIndex < stepEnd) return step.dosage;
+  }
+  return schedule.taper[schedule.taper.length - 1].dosage;
+}
@@ -0,0 +1,31 @@
+import type { Medication } from "@shared/schema";
+import type { MedicationSupply } from "@shared/medicationSupply";
+import { nthDoseAfter } from "./medicationScheduler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REFILL_THRESHOLD_DAYS = 7;
+
+// Projects how long the stock on hand lasts by walking the schedule forward
+// from the dose currently due (which may be overdue and still needs stock).
+export function medicationSupply(medication: Medication, now: Date = new Date()): MedicationSupply {
+  if (medication.quantityOnHand == null) {
+    return { tracked: false, dosesRemaining: null, runOutDate: null, refillNeeded: false };
+  }
+
+  const unitsPerDose = Number(medication.unitsPerDose) > 0 ? Number(medication.unitsPerDose) : 1;
+  const dosesRemaining = Math.floor(Number(medication.quantityOnHand) / unitsPerDose);
+  const from = medication.nextDueDate && medication.nextDueDate < now
+    ? new Date(medication.nextDueDate.getTime() - 1)
+    : now;
+  const runOutDate = nthDoseAfter(medication, from, dosesRemaining + 1);
+
+  const thresholdMs = (medication.refillThresholdDays ?? DEFAULT_REFILL_THRESHOLD_DAYS) * DAY_MS;
+  const refillNeeded = dosesRemaining === 0 || (runOutDate !== null && runOutDate.getTime() - now.getTime() <= thresholdMs);
+
+  return {
+    tracked: true,
+    dosesRemaining,
+    runOutDate: runOutDate?.toISOString() ?? null,
+    refillNeeded,
+  };
+}
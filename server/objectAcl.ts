@@ -1,4 +1,6 @@
 import { File } from "@google-cloud/storage";
+import { getDogAccess } from "./dogAccess";
+import { storage } from "./storage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
@@ -12,7 +14,14 @@ const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 // - GROUP_MEMBER: the users who are members of a specific group;
 // - SUBSCRIBER: the users who are subscribers of a specific service / content
 //   creator.
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // Everyone with access to a dog (primary owner and household members).
+  // The group id is the dog id.
+  DOG_HOUSEHOLD = "dog_household",
+  // Anyone holding an active (unexpired, unrevoked) share link for a dog.
+  // The group id is the dog id.
+  DOG_SHARE_LINK = "dog_share_link",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -35,6 +44,13 @@ export interface ObjectAccessGroup {
   id: string;
 }
 
+// Who is asking for an object: a signed-in user, the holder of a share link
+// token, or both.
+export interface ObjectAccessRequester {
+  userId?: string;
+  shareToken?: string;
+}
+
 export enum ObjectPermission {
   READ = "read",
   WRITE = "write",
@@ -55,6 +71,21 @@ export interface ObjectAclPolicy {
   aclRules?: Array<ObjectAclRule>;
 }
 
+// Read access for a dog's health photos: its household, plus anyone the owner
+// has given an active share link.
+export function dogHealthPhotoAclRules(dogId: string): ObjectAclRule[] {
+  return [
+    {
+      group: { type: ObjectAccessGroupType.DOG_HOUSEHOLD, id: dogId },
+      permission: ObjectPermission.READ,
+    },
+    {
+      group: { type: ObjectAccessGroupType.DOG_SHARE_LINK, id: dogId },
+      permission: ObjectPermission.READ,
+    },
+  ];
+}
+
 // Check if the requested permission is allowed based on the granted permission.
 function isPermissionAllowed(
   requested: ObjectPermission,
@@ -78,8 +109,34 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
     public readonly id: string,
   ) {}
 
-  // Check if the user is a member of the group.
-  public abstract hasMember(userId: string): Promise<boolean>;
+  // Check if the requester is a member of the group.
+  public abstract hasMember(requester: ObjectAccessRequester): Promise<boolean>;
+}
+
+// Grants access to the owner and household members of a dog.
+class DogHouseholdAccessGroup extends BaseObjectAccessGroup {
+  constructor(dogId: string) {
+    super(ObjectAccessGroupType.DOG_HOUSEHOLD, dogId);
+  }
+
+  public async hasMember({ userId }: ObjectAccessRequester): Promise<boolean> {
+    return !!(await getDogAccess(userId, this.id));
+  }
+}
+
+// Grants access to anyone with an active share link for a dog.
+class DogShareLinkAccessGroup extends BaseObjectAccessGroup {
+  constructor(dogId: string) {
+    super(ObjectAccessGroupType.DOG_SHARE_LINK, dogId);
+  }
+
+  public async hasMember({ shareToken }: ObjectAccessRequester): Promise<boolean> {
+    if (!shareToken) {
+      return false;
+    }
+    const link = await storage.getActiveShareLinkByToken(shareToken);
+    return link?.dogId === this.id;
+  }
 }
 
 function createObjectAccessGroup(
@@ -97,6 +154,10 @@ function createObjectAccessGroup(
     //   return new GroupMemberAccessGroup(group.id);
     // case "SUBSCRIBER":
     //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.DOG_HOUSEHOLD:
+      return new DogHouseholdAccessGroup(group.id);
+    case ObjectAccessGroupType.DOG_SHARE_LINK:
+      return new DogShareLinkAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -124,6 +185,14 @@ export async function getObjectAclPolicy(
   objectFile: File,
 ): Promise<ObjectAclPolicy | null> {
   const [metadata] = await objectFile.getMetadata();
+  return aclPolicyFromMetadata(metadata);
+}
+
+// Parses the ACL policy out of metadata that has already been fetched, such as
+// the metadata returned with a bucket listing.
+export function aclPolicyFromMetadata(
+  metadata: File["metadata"] | undefined,
+): ObjectAclPolicy | null {
   const aclPolicy = metadata?.metadata?.[ACL_POLICY_METADATA_KEY];
   if (!aclPolicy) {
     return null;
@@ -134,10 +203,12 @@ export async function getObjectAclPolicy(
 // Checks if the user can access the object.
 export async function canAccessObject({
   userId,
+  shareToken,
   objectFile,
   requestedPermission,
 }: {
   userId?: string;
+  shareToken?: string;
   objectFile: File;
   requestedPermission: ObjectPermission;
 }): Promise<boolean> {
@@ -155,13 +226,13 @@ export async function canAccessObject({
     return true;
   }
 
-  // Access control requires the user id.
-  if (!userId) {
+  // Access control requires the user id or a share link token.
+  if (!userId && !shareToken) {
     return false;
   }
 
   // The owner of the object can always access it.
-  if (aclPolicy.owner === userId) {
+  if (userId && aclPolicy.owner === userId) {
     return true;
   }
 
@@ -169,7 +240,7 @@ export async function canAccessObject({
   for (const rule of aclPolicy.aclRules || []) {
     const accessGroup = createObjectAccessGroup(rule.group);
     if (
-      (await accessGroup.hasMember(userId)) &&
+      (await accessGroup.hasMember({ userId, shareToken })) &&
       isPermissionAllowed(requestedPermission, rule.permission)
     ) {
       return true;
@@ -1,9 +1,11 @@
 import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
+import type { Writable } from "stream";
 import { randomUUID } from "crypto";
 import {
   ObjectAclPolicy,
   ObjectPermission,
+  aclPolicyFromMetadata,
   canAccessObject,
   getObjectAclPolicy,
   setObjectAclPolicy,
@@ -177,6 +179,50 @@ export class ObjectStorageService {
     return `/objects/health-photos/${objectName}`;
   }
 
+  // Opens a write stream for a new private object under `entityDir`, for
+  // files too large to buffer. Returns the object path for database storage.
+  createObjectEntityWriteStream(
+    entityDir: string,
+    fileName: string,
+    contentType: string,
+  ): { objectPath: string; stream: Writable } {
+    const privateObjectDir = this.getPrivateObjectDir();
+    const objectName = `${randomUUID()}-${fileName}`;
+    const { bucketName, objectName: finalObjectName } = parseObjectPath(
+      `${privateObjectDir}/${entityDir}/${objectName}`,
+    );
+    const file = objectStorageClient.bucket(bucketName).file(finalObjectName);
+    return {
+      objectPath: `/objects/${entityDir}/${objectName}`,
+      stream: file.createWriteStream({ resumable: true, metadata: { contentType } }),
+    };
+  }
+
+  // Deletes an object entity; objects that are already gone are ignored.
+  async deleteObjectEntity(objectPath: string): Promise<void> {
+    try {
+      const objectFile = await this.getObjectEntityFile(objectPath);
+      await objectFile.delete({ ignoreNotFound: true });
+    } catch (error) {
+      if (!(error instanceof ObjectNotFoundError)) throw error;
+    }
+  }
+
+  // Lists the object paths of every private object whose ACL policy names
+  // `userId` as its owner. Reads the whole private directory, so it's meant for
+  // rare jobs like account deletion rather than request handling.
+  async findObjectEntitiesOwnedBy(userId: string): Promise<string[]> {
+    let privateObjectDir = this.getPrivateObjectDir();
+    if (!privateObjectDir.endsWith("/")) {
+      privateObjectDir = `${privateObjectDir}/`;
+    }
+    const { bucketName, objectName: prefix } = parseObjectPath(privateObjectDir);
+    const [files] = await objectStorageClient.bucket(bucketName).getFiles({ prefix });
+    return files
+      .filter((file) => aclPolicyFromMetadata(file.metadata)?.owner === userId)
+      .map((file) => `/objects/${file.name.slice(prefix.length)}`);
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -244,18 +290,34 @@ export class ObjectStorageService {
     return normalizedPath;
   }
 
+  // Gets the object entity file when `userId` may read it, or null when they
+  // can't. Records hold plain object paths that a client could have pointed at
+  // anyone's upload, so work done on a user's behalf reads objects through this.
+  async getReadableObjectFile(objectPath: string, userId: string): Promise<File | null> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const canAccess = await this.canAccessObjectEntity({
+      userId,
+      objectFile,
+      requestedPermission: ObjectPermission.READ,
+    });
+    return canAccess ? objectFile : null;
+  }
+
   // Checks if the user can access the object entity.
   async canAccessObjectEntity({
     userId,
+    shareToken,
     objectFile,
     requestedPermission,
   }: {
     userId?: string;
+    shareToken?: string;
     objectFile: File;
     requestedPermission?: ObjectPermission;
   }): Promise<boolean> {
     return canAccessObject({
       userId,
+      shareToken,
       objectFile,
       requestedPermission: requestedPermission ?? ObjectPermission.READ,
     });
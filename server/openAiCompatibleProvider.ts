@@ -0,0 +1,191 @@
+import { AiResponseError, ModelAiProvider, type VetChatTurn } from "./aiProvider";
+import type { AiChatPrompt, AiModelTier, AiPrompt } from "./aiPrompts";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local model server (llama.cpp, vLLM, Ollama, LM Studio) via OPENAI_BASE_URL.
+
+// Local models on modest hardware can take a while to answer. For streamed
+// replies this is the longest wait for the next chunk, not for the whole reply.
+const REQUEST_TIMEOUT_MS = 120 * 1000;
+
+type ChatContent = string | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[];
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// One server-sent event of a streamed completion
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+const imagePart = (image: NonNullable<VetChatTurn["images"]>[number]) => ({
+  type: "image_url" as const,
+  image_url: { url: `data:${image.mimeType};base64,${image.data.toString("base64")}` },
+});
+
+// Aborts once `ms` pass without progress; touch() restarts the clock
+class IdleTimeout {
+  private readonly controller = new AbortController();
+  private timer: NodeJS.Timeout;
+  readonly signal = this.controller.signal;
+
+  constructor(private readonly ms: number) {
+    this.timer = this.start();
+  }
+
+  private start(): NodeJS.Timeout {
+    const timer = setTimeout(
+      () => this.controller.abort(new DOMException("The operation timed out.", "TimeoutError")),
+      this.ms,
+    );
+    timer.unref();
+    return timer;
+  }
+
+  touch(): void {
+    clearTimeout(this.timer);
+    this.timer = this.start();
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+  }
+}
+
+export class OpenAiCompatibleProvider extends ModelAiProvider {
+  readonly name = "openai";
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  protected readonly models: Record<AiModelTier, string>;
+
+  constructor() {
+    super();
+    this.baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+    // Local servers usually don't check the key
+    this.apiKey = process.env.OPENAI_API_KEY || undefined;
+    const model = process.env.OPENAI_MODEL || "gpt-4o";
+    this.models = {
+      reasoning: model,
+      fast: process.env.OPENAI_FAST_MODEL || model,
+    };
+  }
+
+  private async post(body: Record<string, unknown>, timeout: IdleTimeout, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([timeout.signal, signal]) : timeout.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Chat completion request failed with ${response.status}: ${detail.slice(0, 500)}`);
+    }
+    return response;
+  }
+
+  private async complete(prompt: AiPrompt, responseFormat?: object): Promise<string> {
+    const userContent: ChatContent = prompt.image
+      ? [{ type: "text", text: prompt.prompt }, imagePart(prompt.image)]
+      : prompt.prompt;
+
+    const timeout = new IdleTimeout(REQUEST_TIMEOUT_MS);
+    let body: ChatCompletionResponse;
+    try {
+      const response = await this.post(
+        {
+          model: this.models[prompt.tier],
+          messages: [
+            ...(prompt.system ? [{ role: "system", content: prompt.system }] : []),
+            { role: "user", content: userContent },
+          ],
+          ...(responseFormat && { response_format: responseFormat }),
+        },
+        timeout,
+      );
+      body = (await response.json()) as ChatCompletionResponse;
+    } finally {
+      timeout.clear();
+    }
+    const content = body.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new AiResponseError("Chat completion response has no message content");
+    }
+    return content;
+  }
+
+  protected completeJson(prompt: AiPrompt): Promise<string> {
+    return this.complete(prompt, {
+      type: "json_schema",
+      json_schema: { name: prompt.task, schema: prompt.responseSchema },
+    });
+  }
+
+  protected completeText(prompt: AiPrompt): Promise<string> {
+    return this.complete(prompt);
+  }
+
+  protected async *streamChat(prompt: AiChatPrompt, signal?: AbortSignal): AsyncIterable<string> {
+    const timeout = new IdleTimeout(REQUEST_TIMEOUT_MS);
+    try {
+      yield* this.readChatStream(prompt, timeout, signal);
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private async *readChatStream(prompt: AiChatPrompt, timeout: IdleTimeout, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.post(
+      {
+        model: this.models[prompt.tier],
+        stream: true,
+        messages: [
+          { role: "system", content: prompt.system },
+          ...prompt.turns.map((turn) => ({
+            role: turn.role,
+            content: turn.images?.length
+              ? [{ type: "text", text: turn.text }, ...turn.images.map(imagePart)]
+              : turn.text,
+          })),
+        ],
+      },
+      timeout,
+      signal,
+    );
+    if (!response.body) {
+      throw new AiResponseError("Chat completion stream has no body");
+    }
+
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        // A long reply is fine as long as it keeps arriving
+        timeout.touch();
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice("data:".length).trim();
+          if (!data) continue;
+          if (data === "[DONE]") return;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    } finally {
+      // Stops the download if the caller gave up early
+      await reader.cancel().catch(() => {});
+    }
+  }
+}
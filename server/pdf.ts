@@ -0,0 +1,352 @@
+import { deflateSync, inflateSync } from "zlib";
+
+// Minimal PDF 1.4 writer for server-generated reports: the standard Helvetica
+// fonts, lines, rectangles and JPEG/PNG images. Coordinates passed to the
+// drawing methods are measured from the top-left corner of the page.
+
+export const PAGE_WIDTH = 612; // US Letter, in points
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold";
+export type PdfColor = [number, number, number]; // 0-1 RGB
+
+// Advance widths (per 1000 em) for characters 32-126, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96,
+  "—": 0x97, "™": 0x99,
+};
+
+function encodeWinAnsi(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+    return 63; // "?"
+  });
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encodeWinAnsi(text).reduce(
+    (total, code) => total + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+    0,
+  );
+  return (units * size) / 1000;
+}
+
+// Greedy word wrap; words longer than the line are split by character
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  dictionary: string;
+  data: Buffer;
+  softMask?: { dictionary: string; data: Buffer };
+}
+
+export class UnsupportedImageError extends Error {
+  constructor(reason: string) {
+    super(`Unsupported image: ${reason}`);
+    this.name = "UnsupportedImageError";
+    Object.setPrototypeOf(this, UnsupportedImageError.prototype);
+  }
+}
+
+function readJpeg(data: Buffer): PdfImage {
+  let offset = 2;
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) throw new UnsupportedImageError("corrupt JPEG");
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const height = data.readUInt16BE(offset + 5);
+      const width = data.readUInt16BE(offset + 7);
+      const components = data[offset + 9];
+      const colorSpace = components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+      // Adobe CMYK JPEGs are stored inverted
+      const decode = components === 4 ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+      return {
+        width,
+        height,
+        dictionary: `/Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+        data,
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new UnsupportedImageError("JPEG without a frame header");
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+// Decodes 8-bit, non-interlaced grey/RGB PNGs (with or without alpha); alpha becomes a soft mask
+function readPng(data: Buffer): PdfImage {
+  const width = data.readUInt32BE(16);
+  const height = data.readUInt32BE(20);
+  const bitDepth = data[24];
+  const colorType = data[25];
+  const interlace = data[28];
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (!channels || bitDepth !== 8 || interlace !== 0) {
+    throw new UnsupportedImageError("only 8-bit non-interlaced PNGs are supported");
+  }
+
+  const chunks: Buffer[] = [];
+  let offset = 8;
+  while (offset < data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    if (type === "IDAT") chunks.push(data.subarray(offset + 8, offset + 8 + length));
+    if (type === "IEND") break;
+    offset += 12 + length;
+  }
+
+  const raw = inflateSync(Buffer.concat(chunks));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let row = 0; row < height; row++) {
+    const filter = raw[row * (stride + 1)];
+    const line = raw.subarray(row * (stride + 1) + 1, (row + 1) * (stride + 1));
+    const out = row * stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? pixels[out + i - channels] : 0;
+      const up = row > 0 ? pixels[out - stride + i] : 0;
+      const upLeft = row > 0 && i >= channels ? pixels[out - stride + i - channels] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter] ?? 0;
+      pixels[out + i] = (line[i] + predictor) & 0xff;
+    }
+  }
+
+  const colorChannels = colorType === 0 || colorType === 4 ? 1 : 3;
+  const hasAlpha = colorType === 4 || colorType === 6;
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = hasAlpha ? Buffer.alloc(width * height) : null;
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    pixels.copy(color, pixel * colorChannels, pixel * channels, pixel * channels + colorChannels);
+    if (alpha) alpha[pixel] = pixels[pixel * channels + colorChannels];
+  }
+
+  const colorSpace = colorChannels === 1 ? "/DeviceGray" : "/DeviceRGB";
+  return {
+    width,
+    height,
+    dictionary: `/Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /FlateDecode`,
+    data: deflateSync(color),
+    softMask: alpha
+      ? {
+          dictionary: `/Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+          data: deflateSync(alpha),
+        }
+      : undefined,
+  };
+}
+
+export function readImage(data: Buffer): PdfImage {
+  if (data[0] === 0xff && data[1] === 0xd8) return readJpeg(data);
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return readPng(data);
+  throw new UnsupportedImageError("only JPEG and PNG images can be embedded");
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+function textOperator(value: string, x: number, y: number, { size = 10, font = "regular", color = [0, 0, 0] }: TextOptions): string {
+  const hex = Buffer.from(encodeWinAnsi(value)).toString("hex");
+  // y is the top of the line; PDF positions text by its baseline
+  const baseline = PAGE_HEIGHT - y - size * 0.8;
+  return (
+    `BT ${color.map(formatNumber).join(" ")} rg /${font === "bold" ? "F2" : "F1"} ${formatNumber(size)} Tf ` +
+    `${formatNumber(x)} ${formatNumber(baseline)} Td <${hex}> Tj ET`
+  );
+}
+
+export class PdfDocument {
+  private pages: { content: string[]; images: Set<number> }[] = [];
+  private images: PdfImage[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push({ content: [], images: new Set() });
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(value: string, x: number, y: number, options: TextOptions = {}): void {
+    this.current.content.push(textOperator(value, x, y, options));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}): void {
+    this.polyline([[x1, y1], [x2, y2]], options);
+  }
+
+  polyline(points: [number, number][], options: { width?: number; color?: PdfColor } = {}): void {
+    if (points.length < 2) return;
+    const { width = 1, color = [0, 0, 0] } = options;
+    const path = points
+      .map(([x, y], index) => `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} ${index === 0 ? "m" : "l"}`)
+      .join(" ");
+    this.current.content.push(`${color.map(formatNumber).join(" ")} RG ${formatNumber(width)} w ${path} S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfColor } = {}): void {
+    const box = `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    if (options.fill) this.current.content.push(`${options.fill.map(formatNumber).join(" ")} rg ${box} f`);
+    if (options.stroke) this.current.content.push(`${options.stroke.map(formatNumber).join(" ")} RG 0.5 w ${box} S`);
+  }
+
+  // Draws the image scaled to fit inside the box, keeping its aspect ratio; returns the drawn size
+  image(data: Buffer, x: number, y: number, maxWidth: number, maxHeight: number): { width: number; height: number } {
+    const image = readImage(data);
+    this.images.push(image);
+    const index = this.images.length - 1;
+    this.current.images.add(index);
+
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.current.content.push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} cm /Im${index} Do Q`,
+    );
+    return { width, height };
+  }
+
+  // footer is called with the 1-based page number and centred at the bottom of each page
+  toBuffer(options: { footer?: (page: number) => string } = {}): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (body: string | Buffer): number => {
+      objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+      return objects.length;
+    };
+    const stream = (dictionary: string, data: Buffer) =>
+      Buffer.concat([
+        Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, "latin1"),
+        data,
+        Buffer.from("\nendstream", "latin1"),
+      ]);
+
+    // Object numbers 1 and 2 are reserved for the catalog and page tree
+    addObject("");
+    addObject("");
+    const regular = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const bold = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const imageRefs = this.images.map((image) => {
+      const mask = image.softMask ? addObject(stream(`/Type /XObject /Subtype /Image ${image.softMask.dictionary}`, image.softMask.data)) : null;
+      const maskEntry = mask ? ` /SMask ${mask} 0 R` : "";
+      return addObject(stream(`/Type /XObject /Subtype /Image ${image.dictionary}${maskEntry}`, image.data));
+    });
+
+    const pageRefs = this.pages.map((page, index) => {
+      const operators = [...page.content];
+      if (options.footer) {
+        const footer = options.footer(index + 1);
+        const size = 8;
+        operators.push(
+          textOperator(footer, (PAGE_WIDTH - textWidth(footer, size)) / 2, PAGE_HEIGHT - 30, { size, color: [0.5, 0.5, 0.5] }),
+        );
+      }
+      const content = addObject(stream("/Filter /FlateDecode", deflateSync(Buffer.from(operators.join("\n"), "latin1"))));
+      const xObjects = Array.from(page.images).map((index) => `/Im${index} ${imageRefs[index]} 0 R`).join(" ");
+      return addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${content} 0 R ` +
+          `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> /XObject << ${xObjects} >> >> >>`,
+      );
+    });
+
+    objects[0] = Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1");
+    objects[1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`,
+      "latin1",
+    );
+
+    // The binary comment line marks the file as binary for transfer tools
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let length = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(length);
+      const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+      parts.push(object);
+      length += object.length;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      "startxref",
+      String(length),
+      "%%EOF",
+    ].join("\n");
+    parts.push(Buffer.from(xref + "\n", "latin1"));
+    return Buffer.concat(parts);
+  }
+}
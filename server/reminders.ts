@@ -0,0 +1,297 @@
+import { storage, type DogRecipient } from "./storage";
+import { getEmailTransport } from "./email";
+import { registerJob } from "./jobs";
+import { getVapidPublicKey, PushSubscriptionExpiredError, sendWebPush } from "./webPush";
+import { isValidTimeZone, zonedParts } from "./medicationScheduler";
+import { isSupersededVaccination } from "./vaccinationSchedule";
+import type { InsertNotification, NotificationPreferences, NotificationType } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const SCAN_INTERVAL_MS = 5 * MINUTE_MS;
+
+// Widest lead times the preferences allow, so one query covers every user
+const MAX_MEDICATION_LEAD_MS = DAY_MS;
+const MAX_VACCINATION_LEAD_DAYS = 90;
+const MAX_APPOINTMENT_LEAD_MS = 7 * DAY_MS;
+// Doses that fell due just before a scan (or while the server was down) still get a reminder
+const OVERDUE_GRACE_MS = HOUR_MS;
+// Emails and pushes held back by quiet hours are dropped once they're this stale
+const DELIVERY_MAX_AGE_MS = 12 * HOUR_MS;
+// Time-critical reminders that are also pushed to subscribed devices
+const PUSH_TYPES: NotificationType[] = ["medication_due", "appointment_upcoming"];
+
+type Preferences = Pick<
+  NotificationPreferences,
+  | "medicationLeadMinutes"
+  | "vaccinationLeadDays"
+  | "appointmentLeadHours"
+  | "quietHoursStart"
+  | "quietHoursEnd"
+  | "timezone"
+  | "inAppEnabled"
+  | "emailEnabled"
+>;
+
+export const defaultNotificationPreferences: Preferences = {
+  medicationLeadMinutes: 15,
+  vaccinationLeadDays: 14,
+  appointmentLeadHours: 24,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+  inAppEnabled: true,
+  emailEnabled: false,
+};
+
+// A due item before it's fanned out to the dog's household
+interface Reminder {
+  type: NotificationType;
+  dogId: string;
+  sourceId: string;
+  dueAt: Date;
+  title: string;
+  // Times are rendered in each recipient's own time zone
+  body: (timeZone: string) => string;
+  link: string;
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Quiet hours may wrap past midnight (e.g. 22:00–07:00)
+export function isWithinQuietHours(preferences: Preferences, at: Date): boolean {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return false;
+  const timeZone = isValidTimeZone(preferences.timezone) ? preferences.timezone : "UTC";
+  const { hour, minute } = zonedParts(at, timeZone);
+  const now = hour * 60 + minute;
+  const start = minutesOfDay(preferences.quietHoursStart);
+  const end = minutesOfDay(preferences.quietHoursEnd);
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+function leadTimeMs(type: NotificationType, preferences: Preferences): number {
+  switch (type) {
+    case "medication_due":
+      return preferences.medicationLeadMinutes * MINUTE_MS;
+    case "vaccination_due":
+      return preferences.vaccinationLeadDays * DAY_MS;
+    case "appointment_upcoming":
+      return preferences.appointmentLeadHours * HOUR_MS;
+  }
+}
+
+// Viewers can see a dog's records but aren't responsible for its care
+function receivesReminders(recipient: DogRecipient): boolean {
+  return recipient.role !== "viewer";
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+async function collectReminders(now: Date): Promise<Reminder[]> {
+  const reminders: Reminder[] = [];
+
+  const medications = await storage.getMedicationsDueBetween(
+    new Date(now.getTime() - OVERDUE_GRACE_MS),
+    new Date(now.getTime() + MAX_MEDICATION_LEAD_MS),
+  );
+  for (const medication of medications) {
+    const dueAt = medication.nextDueDate;
+    if (!dueAt) continue;
+    reminders.push({
+      type: "medication_due",
+      dogId: medication.dogId,
+      sourceId: medication.id,
+      dueAt,
+      title: `${medication.name} due for ${medication.dogName}`,
+      body: (timeZone) => `${medication.dosage} of ${medication.name} at ${formatTime(dueAt, timeZone)}`,
+      link: "/health",
+    });
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  const horizon = new Date(now.getTime() + MAX_VACCINATION_LEAD_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const vaccinations = await storage.getVaccinationsDueBetween(today, horizon);
+  const historyByDog = new Map<string, Awaited<ReturnType<typeof storage.getDogVaccinations>>>();
+  for (const vaccination of vaccinations) {
+    if (!vaccination.nextDueDate) continue;
+    if (!historyByDog.has(vaccination.dogId)) {
+      historyByDog.set(vaccination.dogId, await storage.getDogVaccinations(vaccination.dogId));
+    }
+    if (isSupersededVaccination(vaccination, historyByDog.get(vaccination.dogId)!)) continue;
+    reminders.push({
+      type: "vaccination_due",
+      dogId: vaccination.dogId,
+      sourceId: vaccination.id,
+      dueAt: new Date(`${vaccination.nextDueDate}T00:00:00Z`),
+      title: `${vaccination.vaccineName} due for ${vaccination.dogName}`,
+      body: () => `Next dose due ${vaccination.nextDueDate}`,
+      link: "/health",
+    });
+  }
+
+  const appointments = await storage.getAppointmentsBetween(now, new Date(now.getTime() + MAX_APPOINTMENT_LEAD_MS));
+  for (const appointment of appointments) {
+    reminders.push({
+      type: "appointment_upcoming",
+      dogId: appointment.dogId,
+      sourceId: appointment.id,
+      dueAt: appointment.scheduledAt,
+      title: `${appointment.appointmentType} for ${appointment.dogName}`,
+      body: (timeZone) =>
+        `With ${appointment.vetName} at ${appointment.clinicName} on ${formatTime(appointment.scheduledAt, timeZone)}`,
+      link: "/appointments",
+    });
+  }
+
+  return reminders;
+}
+
+// Turns due medications, vaccinations and appointments into notifications for
+// every household member whose lead time has been reached. The dedupe key pins
+// each notification to one occurrence, so rescanning is harmless and a
+// rescheduled item produces a fresh reminder.
+export async function generateReminderNotifications(now: Date = new Date()): Promise<number> {
+  const reminders = await collectReminders(now);
+  if (reminders.length === 0) return 0;
+
+  const recipients = await storage.getDogRecipients(Array.from(new Set(reminders.map((reminder) => reminder.dogId))));
+  const userIds = Array.from(new Set(recipients.map((recipient) => recipient.userId)));
+  const savedPreferences = await storage.getNotificationPreferencesForUsers(userIds);
+  const preferencesByUser = new Map<string, Preferences>(
+    savedPreferences.map((preferences) => [preferences.userId, preferences]),
+  );
+  const pushUsers = new Set(
+    getVapidPublicKey()
+      ? (await storage.getPushSubscriptionsForUsers(userIds)).map((subscription) => subscription.userId)
+      : [],
+  );
+
+  const entries: InsertNotification[] = [];
+  for (const reminder of reminders) {
+    for (const recipient of recipients) {
+      if (recipient.dogId !== reminder.dogId || !receivesReminders(recipient)) continue;
+      const preferences = preferencesByUser.get(recipient.userId) ?? defaultNotificationPreferences;
+      const wantsEmail = preferences.emailEnabled && !!recipient.email;
+      const wantsPush = PUSH_TYPES.includes(reminder.type) && pushUsers.has(recipient.userId);
+      if (!preferences.inAppEnabled && !wantsEmail && !wantsPush) continue;
+      if (reminder.dueAt.getTime() - leadTimeMs(reminder.type, preferences) > now.getTime()) continue;
+
+      entries.push({
+        userId: recipient.userId,
+        dogId: reminder.dogId,
+        type: reminder.type,
+        title: reminder.title,
+        body: reminder.body(preferences.timezone),
+        link: reminder.link,
+        dueAt: reminder.dueAt,
+        dedupeKey: `${reminder.type}:${reminder.sourceId}:${reminder.dueAt.toISOString()}`,
+        // Email-only users still get a row to track delivery, just hidden from the bell
+        dismissedAt: preferences.inAppEnabled ? null : now,
+        emailPending: wantsEmail,
+        pushPending: wantsPush,
+      });
+    }
+  }
+
+  const created = await storage.createNotifications(entries);
+  return created.length;
+}
+
+// Sends pending reminder emails, holding back any whose recipient is in quiet hours
+export async function deliverReminderEmails(now: Date = new Date()): Promise<number> {
+  const pending = await storage.getPendingEmailNotifications(new Date(now.getTime() - DELIVERY_MAX_AGE_MS));
+  if (pending.length === 0) return 0;
+
+  const userIds = Array.from(new Set(pending.map((notification) => notification.userId)));
+  const savedPreferences = await storage.getNotificationPreferencesForUsers(userIds);
+  const preferencesByUser = new Map<string, Preferences>(
+    savedPreferences.map((preferences) => [preferences.userId, preferences]),
+  );
+
+  const deliverable = pending.filter((notification) => {
+    const preferences = preferencesByUser.get(notification.userId) ?? defaultNotificationPreferences;
+    return preferences.emailEnabled && !!notification.email && !isWithinQuietHours(preferences, now);
+  });
+  const emails = new Map(deliverable.map((notification) => [notification.id, notification.email!]));
+  const claimed = await storage.claimNotificationsForEmail(Array.from(emails.keys()));
+
+  const transport = getEmailTransport();
+  let sent = 0;
+  for (const notification of claimed) {
+    try {
+      await transport.send({
+        to: emails.get(notification.id)!,
+        subject: notification.title,
+        text: `${notification.body ?? notification.title}\n\nOpen Pawsitive to see all reminders.`,
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Error emailing notification ${notification.id}:`, error);
+    }
+  }
+  return sent;
+}
+
+// Pushes pending reminders to every device the recipient subscribed, honouring quiet hours
+export async function deliverReminderPushes(now: Date = new Date()): Promise<number> {
+  if (!getVapidPublicKey()) return 0;
+  const pending = await storage.getPendingPushNotifications(new Date(now.getTime() - DELIVERY_MAX_AGE_MS));
+  if (pending.length === 0) return 0;
+
+  const userIds = Array.from(new Set(pending.map((notification) => notification.userId)));
+  const savedPreferences = await storage.getNotificationPreferencesForUsers(userIds);
+  const preferencesByUser = new Map<string, Preferences>(
+    savedPreferences.map((preferences) => [preferences.userId, preferences]),
+  );
+  const deliverable = pending.filter(
+    (notification) =>
+      !isWithinQuietHours(preferencesByUser.get(notification.userId) ?? defaultNotificationPreferences, now),
+  );
+  const claimed = await storage.claimNotificationsForPush(deliverable.map((notification) => notification.id));
+  const subscriptions = await storage.getPushSubscriptionsForUsers(
+    Array.from(new Set(claimed.map((notification) => notification.userId))),
+  );
+
+  let sent = 0;
+  for (const notification of claimed) {
+    for (const subscription of subscriptions) {
+      if (subscription.userId !== notification.userId) continue;
+      try {
+        await sendWebPush(subscription, {
+          title: notification.title,
+          body: notification.body ?? undefined,
+          link: notification.link ?? "/",
+          tag: notification.dedupeKey,
+        });
+        sent++;
+      } catch (error) {
+        if (error instanceof PushSubscriptionExpiredError) {
+          await storage.deletePushSubscription(subscription.endpoint);
+        } else {
+          console.error(`Error pushing notification ${notification.id}:`, error);
+        }
+      }
+    }
+  }
+  return sent;
+}
+
+export function registerReminderJobs() {
+  registerJob({
+    name: "reminders",
+    intervalMs: SCAN_INTERVAL_MS,
+    run: async () =>
+      (await generateReminderNotifications()) + (await deliverReminderEmails()) + (await deliverReminderPushes()),
+  });
+}
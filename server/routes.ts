@@ -2,13 +2,44 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import Stripe from "stripe";
 import multer from "multer";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
+import { log } from "./vite";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { ObjectPermission } from "./objectAcl";
-import { insertDogSchema, insertHealthRecordSchema, insertMedicationSchema, insertAppointmentSchema, insertWeightRecordSchema, insertVaccinationSchema } from "@shared/schema";
+import { ObjectPermission, ObjectAccessGroupType, dogHealthPhotoAclRules } from "./objectAcl";
+import {
+  requireDogAccess,
+  requireHealthRecordAccess,
+  requireMedicationAccess,
+  requireAppointmentAccess,
+  requireWeightRecordAccess,
+  requireVaccinationAccess,
+  getAccessibleDog,
+  hasDogRole,
+} from "./dogAccess";
+import { insertDogSchema, insertDogInviteSchema, insertShareLinkSchema, insertChatConversationSchema, insertClinicSchema, insertVeterinarianSchema, insertNotificationPreferencesSchema, pushSubscriptionSchema, dogRoles, type Appointment, type Dog, type Medication, type Vaccination, type HealthRecord, insertHealthRecordSchema, aiAnalysisKinds, insertMedicationSchema, insertAppointmentSchema, appointmentOutcomeSchema, appointmentStatuses, timelineEventTypes, bulkImportTypes, insertWeightRecordSchema, insertVaccinationSchema } from "@shared/schema";
 import { z } from "zod";
-import { analyzeSymptoms, analyzeHealthPhoto, performEmergencyAssessment, generateHealthSummary } from "./geminiService";
+import { advanceAfterDose, computeNextDueDate, currentDosage, isValidTimeZone } from "./medicationScheduler";
+import { buildAdherenceReport } from "./medicationAdherence";
+import { medicationSupply } from "./medicationSupply";
+import { nextDueForNewDose, vaccinationStatus } from "./vaccinationSchedule";
+import { getVaccineDefinition, matchVaccineByName } from "@shared/vaccineCatalog";
+import { defaultNotificationPreferences } from "./reminders";
+import { getVapidPublicKey } from "./webPush";
+import { appointmentEvent, buildCalendar, medicationCourseEvents, vaccinationDueEvents } from "./calendar";
+import { extractCalendarText, parseCalendarEvents, toAppointmentDraft } from "./icsImport";
+import { DirectoryEntryNotFoundError, getKnownClinics, resolveAppointmentDirectory } from "./clinicDirectory";
+import { buildHealthReport } from "./healthReport";
+import { buildSharedDogHealth, generateShareToken, isSharedPhoto } from "./shareLinks";
+import { serializeDataExport } from "./dataExport";
+import { ImportFileError, prepareBulkImport } from "./bulkImport";
+import { eraseAccount } from "./accountDeletion";
+import { performEmergencyAssessment, generateHealthSummary, streamVetChat, aiTaskSource } from "./aiService";
+import { AiAnalysisRequestError, linkFormAnalyses, rerunAiAnalysis, runPhotoAnalysis, runSymptomAnalysis } from "./aiAnalyses";
+import { CHAT_HISTORY_MESSAGES, buildVetChatContext, chatTitle, chatTurns, getOwnChatConversation } from "./vetChat";
+import { emergencyTriageInput, mergeTriageWithAi, runTriage } from "./triage";
+import { ToxinExposureError, assessToxinExposure, dogWeightForDosing } from "./toxinExposure";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
@@ -22,6 +53,211 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2024-06-20",
 });
 
+// Household invites stay redeemable for one week
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Invite codes avoid look-alike characters so they can be read out or typed by hand
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generateInviteCode(length = 8): string {
+  const bytes = randomBytes(length);
+  return Array.from(bytes, (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join("");
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ADHERENCE_DAYS = 30;
+const MAX_ADHERENCE_DAYS = 366;
+const DEFAULT_REPORT_DAYS = 365;
+// Share links last at most this long; owners can revoke them sooner
+const MAX_SHARE_LINK_DAYS = 90;
+const MAX_REPORT_DAYS = 10 * 366;
+
+// AI analyses run from the health entry form, attached once the entry is saved
+const aiAnalysisLinksSchema = z
+  .array(z.object({ id: z.string().min(1), photoUrl: z.string().optional() }))
+  .max(10)
+  .default([]);
+
+const rerunAiAnalysisSchema = z.object({
+  kind: z.enum(aiAnalysisKinds),
+  photoUrl: z.string().optional(),
+});
+
+// Vet chat questions, sent as multipart form data so photos can come along
+const MAX_CHAT_PHOTOS = 4;
+const chatMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message is required").max(4000),
+});
+
+// What the owner reports in the emergency checker
+const emergencyAssessmentSchema = z.object({
+  dogId: z.string().min(1),
+  assessmentData: z.object({
+    symptoms: z.array(z.string().trim().min(1).max(200)).max(40),
+    duration: z.string().trim().max(200).default(""),
+    severity: z.string().trim().max(50).default(""),
+    currentBehavior: z.string().trim().max(1000).default(""),
+    vitalSigns: z
+      .object({
+        breathing: z.string().trim().max(100).optional(),
+        heartRate: z.string().trim().max(50).optional(),
+        temperature: z.string().trim().max(50).optional(),
+        gumColor: z.string().trim().max(50).optional(),
+      })
+      .optional(),
+  }),
+});
+
+// Something the dog ate, measured in one of the toxin's units
+const toxinExposureSchema = z.object({
+  dogId: z.string().min(1),
+  toxinId: z.string().min(1),
+  unitId: z.string().min(1),
+  amount: z.coerce.number().positive().max(100000),
+});
+
+// Calendar invites: .ics files or saved confirmation emails
+const calendarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const isCalendarFile = /\.(ics|eml)$/i.test(file.originalname) ||
+      ["text/calendar", "message/rfc822"].includes(file.mimetype);
+    if (isCalendarFile) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .ics or .eml files are allowed'));
+    }
+  },
+});
+
+// Visit paperwork: invoices, lab results and discharge notes as PDFs or photos
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF or image files are allowed'));
+    }
+  },
+});
+
+// Spreadsheets of past records, or JSON files from a data export
+const recordImportUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const isRecordFile = /\.(csv|json)$/i.test(file.originalname) ||
+      ["text/csv", "application/json"].includes(file.mimetype);
+    if (isRecordFile) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .csv or .json files are allowed'));
+    }
+  },
+});
+
+// Past appointments stay in the calendar feed for this long
+const CALENDAR_HISTORY_DAYS = 180;
+
+// Doses can be logged after the fact, but not ahead of time; the slack covers
+// clocks on phones running slightly fast
+const MEDICATION_LOG_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const medicationLogSchema = z.object({
+  givenAt: z.coerce
+    .date()
+    .refine((givenAt) => givenAt.getTime() <= Date.now() + MEDICATION_LOG_CLOCK_SKEW_MS, "givenAt can't be in the future")
+    .optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+const adherenceRangeSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const createShareLinkSchema = z
+  .object({
+    label: z.string().trim().max(100).optional(),
+    expiresInDays: z.coerce.number().int().min(1).max(MAX_SHARE_LINK_DAYS),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, { message: "Start date must be before end date" });
+
+const appointmentHistoryQuerySchema = z.object({
+  // Comma-separated, e.g. ?status=completed,cancelled
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",") : undefined))
+    .pipe(z.array(z.enum(appointmentStatuses)).optional()),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Timeline cursors are opaque to clients: base64url-encoded JSON of the last event's position
+const timelineCursorSchema = z.object({
+  at: z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/),
+  type: z.enum(timelineEventTypes),
+  id: z.string().min(1),
+});
+
+const timelineQuerySchema = z.object({
+  // Comma-separated subset of event types; all types when omitted
+  types: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",") : [...timelineEventTypes]))
+    .pipe(z.array(z.enum(timelineEventTypes)).min(1)),
+  cursor: z
+    .string()
+    .optional()
+    .transform((value) => (value ? JSON.parse(Buffer.from(value, "base64url").toString("utf8")) : undefined))
+    .pipe(timelineCursorSchema.optional()),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// Typed by the user to confirm an account deletion
+const deleteAccountSchema = z.object({
+  confirmation: z.literal("DELETE"),
+});
+
+// Multipart fields of a bulk import; the mapping arrives as a JSON object of field to column
+const bulkImportRequestSchema = z.object({
+  type: z.enum(bulkImportTypes),
+  mapping: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      // A thrown SyntaxError would escape safeParse, so bad JSON becomes an issue
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "mapping must be valid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string().nullable()).optional()),
+  timezone: z.string().optional(),
+  dryRun: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+function encodeTimelineCursor(cursor: z.infer<typeof timelineCursorSchema>): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -79,6 +315,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'No files uploaded' });
       }
 
+      // Photos attached to a dog are shared with that dog's household and share links
+      const { dogId } = req.body;
+      if (dogId && !(await getAccessibleDog(userId, dogId, "caregiver"))) {
+        return res.status(404).json({ error: 'Dog not found' });
+      }
+
       const objectStorageService = new ObjectStorageService();
       const uploadedPhotos: string[] = [];
 
@@ -96,6 +338,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           {
             owner: userId,
             visibility: "private", // Health photos should be private
+            aclRules: dogId ? dogHealthPhotoAclRules(dogId) : undefined,
           }
         );
 
@@ -121,6 +364,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account deletion: stops billing, then erases every row, upload and session
+  // belonging to the user. Members of their dogs' households lose access too.
+  app.delete('/api/account', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!deleteAccountSchema.safeParse(req.body).success) {
+        return res.status(400).json({ message: "Type DELETE to confirm" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.stripeSubscriptionId) {
+        try {
+          const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
+          if (subscription.status !== "canceled") {
+            await stripe.subscriptions.cancel(subscription.id);
+          }
+        } catch (error: any) {
+          // Already gone on Stripe's side; anything else keeps the account so billing can't outlive it
+          if (error?.code !== "resource_missing") throw error;
+        }
+      }
+
+      const { deletedObjects, failedObjects } = await eraseAccount(userId);
+      log(`erased account: ${deletedObjects} objects deleted, ${failedObjects.length} failed`, "account");
+      req.logout(() => {
+        req.session.destroy(() => {
+          res.clearCookie("connect.sid");
+          res.json({ success: true });
+        });
+      });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Account data export: a ZIP of everything the user owns, built by a background
+  // job. GET starts one if there's nothing to report; poll until it's ready.
+  app.get('/api/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      let dataExport = await storage.getLatestDataExport(userId);
+      if (!dataExport || dataExport.status === "expired") {
+        dataExport = await storage.createDataExport(userId);
+      }
+      res.status(dataExport.status === "ready" ? 200 : 202).json(serializeDataExport(dataExport));
+    } catch (error) {
+      console.error("Error fetching data export:", error);
+      res.status(500).json({ message: "Failed to fetch data export" });
+    }
+  });
+
+  // Starts a fresh export unless one is already in progress
+  app.post('/api/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const latest = await storage.getLatestDataExport(userId);
+      const dataExport =
+        latest && (latest.status === "pending" || latest.status === "running")
+          ? latest
+          : await storage.createDataExport(userId);
+      res.status(202).json(serializeDataExport(dataExport));
+    } catch (error) {
+      console.error("Error starting data export:", error);
+      res.status(500).json({ message: "Failed to start data export" });
+    }
+  });
+
+  app.get('/api/export/:id/download', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const dataExport = await storage.getDataExport(req.params.id);
+      if (!dataExport || dataExport.userId !== userId) {
+        return res.status(404).json({ message: "Export not found" });
+      }
+      if (dataExport.status !== "ready" || !dataExport.objectPath || (dataExport.expiresAt && dataExport.expiresAt <= new Date())) {
+        return res.status(410).json({ message: "This export is no longer available" });
+      }
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(dataExport.objectPath);
+      const date = (dataExport.completedAt ?? new Date()).toISOString().slice(0, 10);
+      res.setHeader("Content-Disposition", `attachment; filename="pawsitive-export-${date}.zip"`);
+      objectStorageService.downloadObject(objectFile, res, 0);
+    } catch (error) {
+      console.error("Error downloading data export:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(410).json({ message: "This export is no longer available" });
+      }
+      res.status(500).json({ message: "Failed to download data export" });
+    }
+  });
+
   // Dog management routes
   app.get('/api/dogs', isAuthenticated, async (req: any, res) => {
     try {
@@ -145,10 +483,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/dogs/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/dogs/:id', isAuthenticated, requireDogAccess("owner", (req) => req.params.id), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const updates = insertDogSchema.partial().parse(req.body);
+      const updates = insertDogSchema.omit({ userId: true }).partial().parse(req.body);
       const dog = await storage.updateDog(id, updates);
       res.json(dog);
     } catch (error) {
@@ -157,7 +495,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/dogs/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/dogs/:id', isAuthenticated, requireDogAccess("owner", (req) => req.params.id), async (req: any, res) => {
     try {
       const { id } = req.params;
       await storage.deleteDog(id);
@@ -168,242 +506,1420 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Health records routes
-  app.get('/api/dogs/:dogId/health-records', isAuthenticated, async (req, res) => {
+  // Household sharing routes
+  app.get('/api/dogs/:dogId/members', isAuthenticated, requireDogAccess(), async (req, res) => {
     try {
       const { dogId } = req.params;
-      const records = await storage.getDogHealthRecords(dogId);
-      res.json(records);
+      const dog = res.locals.dog as Dog;
+      const members = await storage.getDogMembers(dogId);
+      const owner = await storage.getUser(dog.userId);
+      // Pending invites are only visible to owners since they contain redeemable codes
+      const invites = hasDogRole(res.locals.dogRole, "owner") ? await storage.getDogInvites(dogId) : [];
+      res.json({
+        owner: owner && {
+          userId: owner.id,
+          email: owner.email,
+          firstName: owner.firstName,
+          lastName: owner.lastName,
+          role: "owner",
+        },
+        members,
+        invites,
+      });
     } catch (error) {
-      console.error("Error fetching health records:", error);
-      res.status(500).json({ message: "Failed to fetch health records" });
+      console.error("Error fetching dog members:", error);
+      res.status(500).json({ message: "Failed to fetch dog members" });
     }
   });
 
-  app.post('/api/dogs/:dogId/health-records', isAuthenticated, async (req, res) => {
+  app.post('/api/dogs/:dogId/invites', isAuthenticated, requireDogAccess("owner"), async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { dogId } = req.params;
-      const recordData = insertHealthRecordSchema.parse({ ...req.body, dogId });
-      const record = await storage.createHealthRecord(recordData);
-      res.json(record);
+      const inviteData = insertDogInviteSchema.parse({
+        dogId,
+        email: req.body.email || null,
+        role: req.body.role,
+        code: generateInviteCode(),
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+      const invite = await storage.createDogInvite(inviteData);
+      res.json(invite);
     } catch (error) {
-      console.error("Error creating health record:", error);
-      res.status(400).json({ message: "Invalid health record data" });
+      console.error("Error creating invite:", error);
+      res.status(400).json({ message: "Invalid invite data" });
     }
   });
 
-  // Medication routes
-  app.get('/api/dogs/:dogId/medications', isAuthenticated, async (req, res) => {
+  app.delete('/api/dogs/:dogId/invites/:inviteId', isAuthenticated, requireDogAccess("owner"), async (req, res) => {
     try {
-      const { dogId } = req.params;
-      const medications = await storage.getDogMedications(dogId);
-      res.json(medications);
+      const { dogId, inviteId } = req.params;
+      const invites = await storage.getDogInvites(dogId);
+      if (!invites.some((invite) => invite.id === inviteId)) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      await storage.deleteDogInvite(inviteId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching medications:", error);
-      res.status(500).json({ message: "Failed to fetch medications" });
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
     }
   });
 
-  app.post('/api/dogs/:dogId/medications', isAuthenticated, async (req, res) => {
+  // Share links: read-only access to one dog's records for vets and sitters
+  app.get('/api/dogs/:dogId/share-links', isAuthenticated, requireDogAccess("owner"), async (req, res) => {
     try {
-      const { dogId } = req.params;
-      const medicationData = insertMedicationSchema.parse({ ...req.body, dogId });
-      const medication = await storage.createMedication(medicationData);
-      res.json(medication);
+      const links = await storage.getDogShareLinks(req.params.dogId);
+      res.json(links);
     } catch (error) {
-      console.error("Error creating medication:", error);
-      res.status(400).json({ message: "Invalid medication data" });
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
     }
   });
 
-  app.post('/api/medications/:id/log', isAuthenticated, async (req, res) => {
+  app.post('/api/dogs/:dogId/share-links', isAuthenticated, requireDogAccess("owner"), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const log = await storage.logMedicationTaken({
-        medicationId: id,
-        notes: req.body.notes,
+      const userId = req.user.claims.sub;
+      const { dogId } = req.params;
+      const { label, expiresInDays, from, to } = createShareLinkSchema.parse(req.body);
+      const linkData = insertShareLinkSchema.parse({
+        dogId,
+        createdBy: userId,
+        token: generateShareToken(),
+        label: label || null,
+        rangeFrom: from ?? null,
+        rangeTo: to ?? null,
+        expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
       });
-      res.json(log);
+      const link = await storage.createShareLink(linkData);
+      res.json(link);
     } catch (error) {
-      console.error("Error logging medication:", error);
-      res.status(500).json({ message: "Failed to log medication" });
+      console.error("Error creating share link:", error);
+      res.status(400).json({ message: "Invalid share link data" });
     }
   });
 
-  // Appointment routes
-  app.get('/api/appointments/upcoming', isAuthenticated, async (req: any, res) => {
+  app.post('/api/dogs/:dogId/share-links/:linkId/revoke', isAuthenticated, requireDogAccess("owner"), async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const appointments = await storage.getUserUpcomingAppointments(userId);
-      res.json(appointments);
+      const { dogId, linkId } = req.params;
+      const existing = await storage.getShareLink(linkId);
+      if (!existing || existing.dogId !== dogId) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      const link = await storage.revokeShareLink(linkId);
+      res.json(link);
     } catch (error) {
-      console.error("Error fetching appointments:", error);
-      res.status(500).json({ message: "Failed to fetch appointments" });
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
     }
   });
 
-  app.post('/api/dogs/:dogId/appointments', isAuthenticated, async (req, res) => {
+  app.get('/api/dogs/:dogId/share-links/:linkId/views', isAuthenticated, requireDogAccess("owner"), async (req, res) => {
     try {
-      const { dogId } = req.params;
-      const appointmentData = insertAppointmentSchema.parse({ ...req.body, dogId });
-      const appointment = await storage.createAppointment(appointmentData);
-      res.json(appointment);
+      const { dogId, linkId } = req.params;
+      const link = await storage.getShareLink(linkId);
+      if (!link || link.dogId !== dogId) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      const views = await storage.getShareLinkViews(linkId);
+      res.json(views);
     } catch (error) {
-      console.error("Error creating appointment:", error);
-      res.status(400).json({ message: "Invalid appointment data" });
+      console.error("Error fetching share link views:", error);
+      res.status(500).json({ message: "Failed to fetch share link views" });
     }
   });
 
-  // Weight tracking routes
-  app.get('/api/dogs/:dogId/weight-records', isAuthenticated, async (req, res) => {
+  // Public share page data. No sign-in needed: the token is the credential,
+  // and every view is logged for the owner.
+  app.get('/api/share/:token', async (req: any, res) => {
     try {
-      const { dogId } = req.params;
-      const { startDate, endDate } = req.query;
-      
-      const start = startDate ? new Date(startDate as string) : undefined;
-      const end = endDate ? new Date(endDate as string) : undefined;
-      
-      const records = await storage.getDogWeightRecords(dogId, start, end);
-      res.json(records);
+      const link = await storage.getActiveShareLinkByToken(req.params.token);
+      const dog = link && (await storage.getDog(link.dogId));
+      if (!link || !dog) {
+        return res.status(404).json({ message: "This link has expired or been revoked" });
+      }
+      await storage.logShareLinkView({
+        shareLinkId: link.id,
+        viewerUserId: req.user?.claims?.sub ?? null,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get("user-agent")?.slice(0, 255) ?? null,
+      });
+      res.setHeader("Cache-Control", "private, no-store");
+      res.json(await buildSharedDogHealth(link, dog));
     } catch (error) {
-      console.error("Error fetching weight records:", error);
-      res.status(500).json({ message: "Failed to fetch weight records" });
+      console.error("Error fetching shared health records:", error);
+      res.status(500).json({ message: "Failed to fetch shared health records" });
     }
   });
 
-  app.post('/api/dogs/:dogId/weight-records', isAuthenticated, async (req, res) => {
+  // Health photos on a share page, checked against the object's ACL with the link token
+  app.get('/api/share/:token/objects/:objectPath(*)', async (req, res) => {
+    const { token } = req.params;
+    const objectPath = `/objects/${req.params.objectPath}`;
+    const objectStorageService = new ObjectStorageService();
     try {
-      const { dogId } = req.params;
-      const recordData = insertWeightRecordSchema.parse({ ...req.body, dogId });
-      const record = await storage.createWeightRecord(recordData);
-      res.json(record);
+      const link = await storage.getActiveShareLinkByToken(token);
+      if (!link || !(await isSharedPhoto(link, objectPath))) {
+        return res.sendStatus(404);
+      }
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      const canAccess = await objectStorageService.canAccessObjectEntity({
+        objectFile,
+        shareToken: token,
+        requestedPermission: ObjectPermission.READ,
+      });
+      if (!canAccess) {
+        return res.sendStatus(404);
+      }
+      // Not cached, so revoking the link takes effect immediately
+      objectStorageService.downloadObject(objectFile, res, 0);
     } catch (error) {
-      console.error("Error creating weight record:", error);
-      res.status(400).json({ message: "Invalid weight record data" });
+      console.error("Error serving shared object:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      return res.sendStatus(500);
     }
   });
 
-  // Vaccination routes
-  app.get('/api/dogs/:dogId/vaccinations', isAuthenticated, async (req, res) => {
+  app.put('/api/dogs/:dogId/members/:memberUserId', isAuthenticated, requireDogAccess("owner"), async (req, res) => {
     try {
-      const { dogId } = req.params;
-      const vaccinations = await storage.getDogVaccinations(dogId);
-      res.json(vaccinations);
+      const { dogId, memberUserId } = req.params;
+      const { role } = z.object({ role: z.enum(dogRoles) }).parse(req.body);
+      const existing = await storage.getDogMember(dogId, memberUserId);
+      if (!existing) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const member = await storage.updateDogMemberRole(dogId, memberUserId, role);
+      res.json(member);
     } catch (error) {
-      console.error("Error fetching vaccinations:", error);
-      res.status(500).json({ message: "Failed to fetch vaccinations" });
+      console.error("Error updating member role:", error);
+      res.status(400).json({ message: "Invalid member data" });
     }
   });
 
-  app.post('/api/dogs/:dogId/vaccinations', isAuthenticated, async (req, res) => {
+  // Owners can remove anyone; other members can only remove themselves
+  app.delete('/api/dogs/:dogId/members/:memberUserId', isAuthenticated, requireDogAccess(), async (req: any, res) => {
     try {
-      const { dogId } = req.params;
-      const vaccinationData = insertVaccinationSchema.parse({ ...req.body, dogId });
-      const vaccination = await storage.createVaccination(vaccinationData);
-      res.json(vaccination);
+      const userId = req.user.claims.sub;
+      const { dogId, memberUserId } = req.params;
+      if (memberUserId !== userId && !hasDogRole(res.locals.dogRole, "owner")) {
+        return res.status(403).json({ message: "Only owners can remove other members" });
+      }
+      await storage.removeDogMember(dogId, memberUserId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error creating vaccination:", error);
-      res.status(400).json({ message: "Invalid vaccination data" });
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
     }
   });
 
-  // AI-powered analysis endpoints
-  app.post('/api/ai/analyze-symptoms', isAuthenticated, async (req, res) => {
+  app.get('/api/invites', isAuthenticated, async (req: any, res) => {
     try {
-      const { dogId, symptomData } = req.body;
-      
-      // Validate required fields
-      if (!dogId || !symptomData) {
-        return res.status(400).json({ error: 'Missing required fields: dogId and symptomData' });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const invites = user?.email ? await storage.getPendingInvitesForEmail(user.email) : [];
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  });
+
+  app.post('/api/invites/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const code = typeof req.body.code === "string" ? req.body.code.trim().toUpperCase() : "";
+      if (!code) {
+        return res.status(400).json({ message: "Missing invite code" });
       }
 
-      // Get dog information to provide context
-      const dog = await storage.getDog(dogId);
-      if (!dog) {
-        return res.status(404).json({ error: 'Dog not found' });
+      const invite = await storage.getDogInviteByCode(code);
+      if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+        return res.status(404).json({ message: "Invite not found or expired" });
       }
 
-      // Calculate age from birthDate if available
-      const age = dog.birthDate ? 
-        Math.floor((Date.now() - new Date(dog.birthDate).getTime()) / (1000 * 60 * 60 * 24 * 365)) : 
-        undefined;
+      // Email invites can only be redeemed by the invited address
+      if (invite.email) {
+        const user = await storage.getUser(userId);
+        if (user?.email?.toLowerCase() !== invite.email.toLowerCase()) {
+          return res.status(404).json({ message: "Invite not found or expired" });
+        }
+      }
 
-      const analysisData = {
-        ...symptomData,
-        breed: dog.breed,
-        age: age,
-        weight: dog.weight ? parseFloat(dog.weight) : undefined,
-      };
+      const dog = await storage.getDog(invite.dogId);
+      if (!dog || !dog.isActive) {
+        return res.status(404).json({ message: "Invite not found or expired" });
+      }
+      if (dog.userId === userId) {
+        return res.status(400).json({ message: "You already own this dog" });
+      }
 
-      const analysis = await analyzeSymptoms(analysisData);
-      res.json(analysis);
+      const member = await storage.acceptDogInvite(invite, userId);
+      res.json(member);
     } catch (error) {
-      console.error("Error analyzing symptoms:", error);
-      res.status(500).json({ error: 'Failed to analyze symptoms' });
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Failed to accept invite" });
     }
   });
 
-  app.post('/api/ai/analyze-photo', isAuthenticated, upload.single('photo'), async (req: any, res) => {
+  // Health records routes
+  app.get('/api/dogs/:dogId/health-records', isAuthenticated, requireDogAccess(), async (req, res) => {
     try {
-      const file = req.file as Express.Multer.File;
-      const { context } = req.body;
-      
-      if (!file) {
-        return res.status(400).json({ error: 'No photo uploaded' });
-      }
-
-      const analysis = await analyzeHealthPhoto(file.buffer, file.mimetype, context);
-      res.json(analysis);
+      const { dogId } = req.params;
+      const records = await storage.getDogHealthRecords(dogId);
+      res.json(records);
     } catch (error) {
-      console.error("Error analyzing photo:", error);
-      res.status(500).json({ error: 'Failed to analyze photo' });
+      console.error("Error fetching health records:", error);
+      res.status(500).json({ message: "Failed to fetch health records" });
     }
   });
 
-  app.post('/api/ai/emergency-assessment', isAuthenticated, async (req, res) => {
+  app.post('/api/dogs/:dogId/health-records', isAuthenticated, requireDogAccess("caregiver"), async (req: any, res) => {
     try {
-      const { dogId, assessmentData } = req.body;
-      
-      if (!dogId || !assessmentData) {
-        return res.status(400).json({ error: 'Missing required fields: dogId and assessmentData' });
-      }
-
-      // Get dog information for context
-      const dog = await storage.getDog(dogId);
-      if (!dog) {
-        return res.status(404).json({ error: 'Dog not found' });
-      }
+      const userId = req.user.claims.sub;
+      const { dogId } = req.params;
+      const recordData = insertHealthRecordSchema.parse({ ...req.body, dogId });
+      const analysisLinks = aiAnalysisLinksSchema.parse(req.body.aiAnalyses);
+      const record = await storage.createHealthRecord(recordData);
+      await linkFormAnalyses(record, userId, analysisLinks);
+      res.json(record);
+    } catch (error) {
+      console.error("Error creating health record:", error);
+      res.status(400).json({ message: "Invalid health record data" });
+    }
+  });
+
+  app.put('/api/health-records/:id', isAuthenticated, requireHealthRecordAccess("caregiver"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const updates = insertHealthRecordSchema.omit({ dogId: true }).partial().parse(req.body);
+      const analysisLinks = aiAnalysisLinksSchema.parse(req.body.aiAnalyses);
+      const record = await storage.updateHealthRecord(id, updates);
+      await linkFormAnalyses(record, userId, analysisLinks);
+      res.json(record);
+    } catch (error) {
+      console.error("Error updating health record:", error);
+      res.status(400).json({ message: "Invalid health record data" });
+    }
+  });
+
+  app.delete('/api/health-records/:id', isAuthenticated, requireHealthRecordAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteHealthRecord(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting health record:", error);
+      res.status(500).json({ message: "Failed to delete health record" });
+    }
+  });
+
+  // AI analysis history of a health record, newest first
+  app.get('/api/health-records/:id/ai-analyses', isAuthenticated, requireHealthRecordAccess(), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const analyses = await storage.getHealthRecordAiAnalyses(id);
+      res.json(analyses);
+    } catch (error) {
+      console.error("Error fetching AI analyses:", error);
+      res.status(500).json({ message: "Failed to fetch AI analyses" });
+    }
+  });
+
+  // Re-runs an analysis against the record as it reads now and adds it to the history
+  app.post('/api/health-records/:id/ai-analyses', isAuthenticated, requireHealthRecordAccess("caregiver"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = rerunAiAnalysisSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid analysis request", errors: parsed.error.errors });
+      }
+      const record = res.locals.healthRecord as HealthRecord;
+      const dog = res.locals.dog as Dog;
+      const analysis = await rerunAiAnalysis(record, dog, parsed.data.kind, userId, parsed.data.photoUrl);
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof AiAnalysisRequestError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      console.error("Error re-running AI analysis:", error);
+      res.status(500).json({ message: "Failed to run AI analysis" });
+    }
+  });
+
+  // Medication routes
+  app.get('/api/dogs/:dogId/medications', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const medications = await storage.getDogMedications(dogId);
+      res.json(
+        medications.map((medication) => ({
+          ...medication,
+          currentDosage: currentDosage(medication),
+          supply: medicationSupply(medication),
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching medications:", error);
+      res.status(500).json({ message: "Failed to fetch medications" });
+    }
+  });
+
+  app.post('/api/dogs/:dogId/medications', isAuthenticated, requireDogAccess("caregiver"), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const medicationData = insertMedicationSchema.parse({ ...req.body, dogId });
+      if (medicationData.schedule && !medicationData.nextDueDate) {
+        medicationData.nextDueDate = computeNextDueDate(medicationData, new Date());
+      }
+      const medication = await storage.createMedication(medicationData);
+      res.json(medication);
+    } catch (error) {
+      console.error("Error creating medication:", error);
+      res.status(400).json({ message: "Invalid medication data" });
+    }
+  });
+
+  app.get('/api/medications/refill-needed', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const medications = await storage.getUserMedications(userId);
+      const needingRefill = medications
+        .map((medication) => ({
+          ...medication,
+          currentDosage: currentDosage(medication),
+          supply: medicationSupply(medication),
+        }))
+        .filter((medication) => medication.supply.refillNeeded);
+      res.json(needingRefill);
+    } catch (error) {
+      console.error("Error fetching medications needing refill:", error);
+      res.status(500).json({ message: "Failed to fetch medications needing refill" });
+    }
+  });
+
+  app.post('/api/medications/:id/refill', isAuthenticated, requireMedicationAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { quantity, usedRefill } = z
+        .object({
+          quantity: z.coerce.number().positive(),
+          usedRefill: z.boolean().default(true),
+        })
+        .parse(req.body);
+      const medication = await storage.refillMedication(id, quantity, usedRefill);
+      res.json(medication);
+    } catch (error) {
+      console.error("Error refilling medication:", error);
+      res.status(400).json({ message: "Invalid refill quantity" });
+    }
+  });
+
+  app.get('/api/dogs/:dogId/adherence', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const { from, to } = adherenceRangeSchema.parse(req.query);
+      const rangeEnd = to ?? new Date();
+      const rangeStart = from ?? new Date(rangeEnd.getTime() - DEFAULT_ADHERENCE_DAYS * DAY_MS);
+      if (rangeStart > rangeEnd || rangeEnd.getTime() - rangeStart.getTime() > MAX_ADHERENCE_DAYS * DAY_MS) {
+        return res.status(400).json({ message: `Date range must span at most ${MAX_ADHERENCE_DAYS} days` });
+      }
+
+      const medications = await storage.getDogMedications(dogId);
+      // Pad the log window so doses given just outside the range still match their slot
+      const logs = await storage.getDogMedicationLogs(
+        dogId,
+        new Date(rangeStart.getTime() - DAY_MS),
+        new Date(rangeEnd.getTime() + DAY_MS),
+      );
+      res.json(buildAdherenceReport(medications, logs, rangeStart, rangeEnd));
+    } catch (error) {
+      console.error("Error building adherence report:", error);
+      res.status(400).json({ message: "Invalid adherence report request" });
+    }
+  });
+
+  // Health timeline: every record type for a dog in one feed, newest first
+  app.get('/api/dogs/:dogId/timeline', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const { types, cursor, limit } = timelineQuerySchema.parse(req.query);
+      const { events, nextCursor } = await storage.getDogTimeline(dogId, { types, cursor, limit });
+      res.json({ events, nextCursor: nextCursor ? encodeTimelineCursor(nextCursor) : null });
+    } catch (error) {
+      console.error("Error fetching timeline:", error);
+      res.status(400).json({ message: "Invalid timeline request" });
+    }
+  });
+
+  // Vet-ready PDF summary; ?from&to bound the weights, symptoms and visits it covers
+  app.get('/api/dogs/:dogId/report.pdf', isAuthenticated, requireDogAccess(), async (req: any, res) => {
+    const dog = res.locals.dog as Dog;
+    const parsed = adherenceRangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid report date range" });
+    }
+    const rangeEnd = parsed.data.to ?? new Date();
+    const rangeStart = parsed.data.from ?? new Date(rangeEnd.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+    if (rangeStart > rangeEnd || rangeEnd.getTime() - rangeStart.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+      return res.status(400).json({ message: "Report start must be before its end and span at most 10 years" });
+    }
+
+    try {
+      const report = await buildHealthReport(dog, { from: rangeStart, to: rangeEnd }, req.user.claims.sub);
+      const fileName = `${dog.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "dog"}-health-report.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(report);
+    } catch (error) {
+      console.error("Error generating health report:", error);
+      res.status(500).json({ message: "Failed to generate health report" });
+    }
+  });
+
+  app.get('/api/medications/:id/logs', isAuthenticated, requireMedicationAccess(), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const logs = await storage.getMedicationLogs(id);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching medication logs:", error);
+      res.status(500).json({ message: "Failed to fetch medication logs" });
+    }
+  });
+
+  app.post('/api/medications/:id/log', isAuthenticated, requireMedicationAccess("caregiver"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const medication = res.locals.medication as Medication;
+      const parsed = medicationLogSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid dose log", errors: parsed.error.errors });
+      }
+      const { givenAt, notes } = parsed.data;
+      const log = await storage.logMedicationTaken(
+        {
+          medicationId: medication.id,
+          givenBy: userId,
+          givenAt: givenAt ?? new Date(),
+          scheduledFor: medication.nextDueDate,
+          notes,
+        },
+        advanceAfterDose(medication),
+      );
+      res.json(log);
+    } catch (error) {
+      console.error("Error logging medication:", error);
+      res.status(500).json({ message: "Failed to log medication" });
+    }
+  });
+
+  app.post('/api/medications/:id/skip', isAuthenticated, requireMedicationAccess("caregiver"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const medication = res.locals.medication as Medication;
+      if (!medication.nextDueDate) {
+        return res.status(400).json({ message: "No dose is currently due" });
+      }
+      const parsed = medicationLogSchema.pick({ notes: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid dose log", errors: parsed.error.errors });
+      }
+      const log = await storage.logMedicationTaken(
+        {
+          medicationId: medication.id,
+          givenBy: userId,
+          status: "skipped",
+          scheduledFor: medication.nextDueDate,
+          notes: parsed.data.notes,
+        },
+        advanceAfterDose(medication),
+      );
+      res.json(log);
+    } catch (error) {
+      console.error("Error skipping medication dose:", error);
+      res.status(500).json({ message: "Failed to skip medication dose" });
+    }
+  });
+
+  app.post('/api/medications/:id/snooze', isAuthenticated, requireMedicationAccess("caregiver"), async (req, res) => {
+    try {
+      const medication = res.locals.medication as Medication;
+      if (!medication.nextDueDate) {
+        return res.status(400).json({ message: "No dose is currently due" });
+      }
+      const { minutes } = z
+        .object({ minutes: z.coerce.number().int().min(5).max(24 * 60).default(60) })
+        .parse(req.body);
+      const updated = await storage.updateMedication(medication.id, {
+        nextDueDate: new Date(Date.now() + minutes * 60 * 1000),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error snoozing medication:", error);
+      res.status(400).json({ message: "Invalid snooze duration" });
+    }
+  });
+
+  app.put('/api/medications/:id', isAuthenticated, requireMedicationAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = insertMedicationSchema.omit({ dogId: true }).partial().parse(req.body);
+      const scheduleChanged = ["schedule", "startDate", "endDate"].some((key) => key in updates);
+      if (scheduleChanged && updates.nextDueDate === undefined) {
+        // Re-plan the upcoming dose from the edited schedule
+        const existing = res.locals.medication as Medication;
+        updates.nextDueDate = computeNextDueDate({ ...existing, ...updates }, new Date());
+      }
+      const medication = await storage.updateMedication(id, updates);
+      res.json(medication);
+    } catch (error) {
+      console.error("Error updating medication:", error);
+      res.status(400).json({ message: "Invalid medication data" });
+    }
+  });
+
+  app.delete('/api/medications/:id', isAuthenticated, requireMedicationAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteMedication(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting medication:", error);
+      res.status(500).json({ message: "Failed to delete medication" });
+    }
+  });
+
+  // Appointment routes
+  app.get('/api/appointments/upcoming', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const appointments = await storage.getUserUpcomingAppointments(userId);
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  app.get('/api/dogs/:dogId/appointments', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const { status, from, to, page, pageSize } = appointmentHistoryQuerySchema.parse(req.query);
+      const { appointments, total } = await storage.getDogAppointments(dogId, {
+        statuses: status,
+        from,
+        to,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      res.json({ appointments, total, page, pageSize });
+    } catch (error) {
+      console.error("Error fetching dog appointments:", error);
+      res.status(400).json({ message: "Invalid appointment history request" });
+    }
+  });
+
+  app.get('/api/appointments/awaiting-outcome', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const appointments = await storage.getUserAppointmentsAwaitingOutcome(userId);
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments awaiting outcome:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  app.post('/api/dogs/:dogId/appointments', isAuthenticated, requireDogAccess("caregiver"), async (req: any, res) => {
+    try {
+      const { dogId } = req.params;
+      const dog: Dog = res.locals.dog;
+      const appointmentData = insertAppointmentSchema.parse({ ...req.body, dogId });
+      const directory = await resolveAppointmentDirectory(dog.userId, req.user.claims.sub, appointmentData);
+      const appointment = await storage.createAppointment({ ...appointmentData, ...directory });
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error creating appointment:", error);
+      const message = error instanceof DirectoryEntryNotFoundError ? error.message : "Invalid appointment data";
+      res.status(400).json({ message });
+    }
+  });
+
+  app.put('/api/appointments/:id', isAuthenticated, requireAppointmentAccess("caregiver"), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const existing: Appointment = res.locals.appointment;
+      const dog: Dog = res.locals.dog;
+      // Status only changes through complete, cancel and reschedule, which enforce the lifecycle
+      const updates = insertAppointmentSchema.omit({ dogId: true, status: true }).partial().parse(req.body);
+      const directoryChanged = ["clinicId", "veterinarianId", "clinicName", "clinicAddress", "clinicPhone", "vetName"]
+        .some((field) => field in updates);
+      const directory = directoryChanged
+        ? await resolveAppointmentDirectory(dog.userId, req.user.claims.sub, {
+            // A newly typed clinic name replaces the old link unless a clinic was picked
+            clinicId: "clinicId" in updates ? updates.clinicId : updates.clinicName ? null : existing.clinicId,
+            veterinarianId: "veterinarianId" in updates ? updates.veterinarianId : updates.vetName ? null : existing.veterinarianId,
+            clinicName: updates.clinicName ?? existing.clinicName,
+            clinicAddress: "clinicAddress" in updates ? updates.clinicAddress : existing.clinicAddress,
+            clinicPhone: "clinicPhone" in updates ? updates.clinicPhone : existing.clinicPhone,
+            vetName: updates.vetName ?? existing.vetName,
+          })
+        : {};
+      const appointment = await storage.updateAppointment(id, { ...updates, ...directory });
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error updating appointment:", error);
+      const message = error instanceof DirectoryEntryNotFoundError ? error.message : "Invalid appointment data";
+      res.status(400).json({ message });
+    }
+  });
+
+  app.delete('/api/appointments/:id', isAuthenticated, requireAppointmentAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteAppointment(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting appointment:", error);
+      res.status(500).json({ message: "Failed to delete appointment" });
+    }
+  });
+
+  // Appointment lifecycle routes
+  app.post('/api/appointments/:id/complete', isAuthenticated, requireAppointmentAccess("caregiver"), async (req: any, res) => {
+    try {
+      const appointment: Appointment = res.locals.appointment;
+      if (appointment.status === "cancelled") {
+        return res.status(400).json({ message: "Cancelled appointments can't be completed" });
+      }
+      // Completing again edits the recorded outcome
+      const outcome = appointmentOutcomeSchema.parse(req.body);
+      // Only documents the user can read may be attached, so another user's
+      // object can't be exposed to this dog's household through the outcome
+      const objectStorageService = new ObjectStorageService();
+      for (const documentUrl of outcome.documentUrls) {
+        if (!(await objectStorageService.getReadableObjectFile(documentUrl, req.user.claims.sub))) {
+          return res.status(400).json({ message: "Invalid visit outcome" });
+        }
+      }
+      const completed = await storage.completeAppointment(appointment.id, outcome);
+      res.json(completed);
+    } catch (error) {
+      console.error("Error completing appointment:", error);
+      res.status(400).json({ message: "Invalid visit outcome" });
+    }
+  });
+
+  app.post('/api/appointments/:id/cancel', isAuthenticated, requireAppointmentAccess("caregiver"), async (req, res) => {
+    try {
+      const appointment: Appointment = res.locals.appointment;
+      if (appointment.status === "completed") {
+        return res.status(400).json({ message: "Completed appointments can't be cancelled" });
+      }
+      const cancelled = await storage.updateAppointment(appointment.id, { status: "cancelled" });
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ message: "Failed to cancel appointment" });
+    }
+  });
+
+  app.post('/api/appointments/:id/reschedule', isAuthenticated, requireAppointmentAccess("caregiver"), async (req, res) => {
+    try {
+      const appointment: Appointment = res.locals.appointment;
+      if (appointment.status === "completed") {
+        return res.status(400).json({ message: "Completed appointments can't be rescheduled" });
+      }
+      const { scheduledAt } = z.object({ scheduledAt: z.coerce.date() }).parse(req.body);
+      // Rescheduling a cancelled appointment reinstates it
+      const rescheduled = await storage.updateAppointment(appointment.id, { scheduledAt, status: "scheduled" });
+      res.json(rescheduled);
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      res.status(400).json({ message: "Invalid appointment date" });
+    }
+  });
+
+  app.post('/api/appointments/:id/follow-up', isAuthenticated, requireAppointmentAccess("caregiver"), async (req, res) => {
+    try {
+      const appointment: Appointment = res.locals.appointment;
+      const details = z
+        .object({
+          scheduledAt: z.coerce.date(),
+          appointmentType: z.string().min(1).default(appointment.appointmentType),
+          notes: z.string().nullish(),
+        })
+        .parse(req.body);
+      const followUp = await storage.createFollowUpAppointment(appointment, details);
+      res.json(followUp);
+    } catch (error) {
+      console.error("Error scheduling follow-up:", error);
+      res.status(400).json({ message: "Invalid follow-up data" });
+    }
+  });
+
+  app.post('/api/appointments/:id/documents', isAuthenticated, requireAppointmentAccess("caregiver"), documentUpload.array('documents', 5), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const appointment: Appointment = res.locals.appointment;
+      const files = req.files as Express.Multer.File[];
+      if (!files || files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const documentUrls: string[] = [];
+      for (const file of files) {
+        const objectPath = await objectStorageService.uploadFile(file.buffer, file.originalname, file.mimetype);
+        const finalPath = await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+          owner: userId,
+          visibility: "private",
+          aclRules: [{
+            group: { type: ObjectAccessGroupType.DOG_HOUSEHOLD, id: appointment.dogId },
+            permission: ObjectPermission.READ,
+          }],
+        });
+        documentUrls.push(finalPath);
+      }
+
+      // Attached to the appointment when the outcome form is saved
+      res.json({ documentUrls });
+    } catch (error) {
+      console.error("Error uploading appointment documents:", error);
+      res.status(500).json({ message: "Failed to upload documents" });
+    }
+  });
+
+  // Parses an invite into drafts; the client picks a dog and creates the appointment
+  app.post('/api/appointments/import', isAuthenticated, calendarUpload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const calendarText = extractCalendarText(file.buffer.toString("utf8"));
+      if (!calendarText) {
+        return res.status(400).json({ message: "No calendar invite found in the file" });
+      }
+      const timezone = typeof req.body.timezone === "string" && isValidTimeZone(req.body.timezone)
+        ? req.body.timezone
+        : "UTC";
+      const events = parseCalendarEvents(calendarText, timezone);
+      if (events.length === 0) {
+        return res.status(400).json({ message: "The invite doesn't contain any events" });
+      }
+      const clinics = await getKnownClinics(userId);
+      res.json(events.map((event) => toAppointmentDraft(event, clinics)));
+    } catch (error) {
+      console.error("Error importing appointment:", error);
+      res.status(500).json({ message: "Failed to import appointment" });
+    }
+  });
+
+  app.get('/api/appointments/:id/calendar.ics', isAuthenticated, requireAppointmentAccess(), async (_req, res) => {
+    try {
+      const appointment: Appointment = res.locals.appointment;
+      const dog: Dog = res.locals.dog;
+      const calendar = buildCalendar(`${dog.name} – ${appointment.appointmentType}`, [
+        appointmentEvent({ ...appointment, dogName: dog.name }),
+      ]);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="appointment-${appointment.id}.ics"`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error exporting appointment:", error);
+      res.status(500).json({ message: "Failed to export appointment" });
+    }
+  });
+
+  // Calendar feed routes
+  app.get('/api/calendar/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const token = user?.calendarToken ?? (await storage.setUserCalendarToken(userId, randomBytes(24).toString("hex"))).calendarToken;
+      res.json({ token });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post('/api/calendar/feed/rotate', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.setUserCalendarToken(userId, randomBytes(24).toString("hex"));
+      res.json({ token: user.calendarToken });
+    } catch (error) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({ message: "Failed to rotate calendar feed" });
+    }
+  });
+
+  // Public: calendar apps can't log in, so the secret token is the credential
+  app.get('/api/calendar/:token.ics', async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      const since = new Date(Date.now() - CALENDAR_HISTORY_DAYS * DAY_MS);
+      const [appointments, vaccinations, medications] = await Promise.all([
+        storage.getUserAppointmentsSince(user.id, since),
+        storage.getUserVaccinations(user.id),
+        storage.getUserMedications(user.id),
+      ]);
+      const calendar = buildCalendar("Pawsitive", [
+        ...appointments.map(appointmentEvent),
+        ...vaccinationDueEvents(vaccinations),
+        ...medicationCourseEvents(medications),
+      ]);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=900");
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  // Clinic directory routes
+  app.get('/api/clinics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinics = await storage.getAccessibleClinics(userId);
+      const veterinarians = await storage.getClinicVeterinarians(clinics.map((clinic) => clinic.id));
+      res.json(clinics.map((clinic) => ({
+        ...clinic,
+        veterinarians: veterinarians.filter((vet) => vet.clinicId === clinic.id),
+      })));
+    } catch (error) {
+      console.error("Error fetching clinics:", error);
+      res.status(500).json({ message: "Failed to fetch clinics" });
+    }
+  });
+
+  app.post('/api/clinics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinicData = insertClinicSchema.parse({ ...req.body, userId });
+      const clinic = await storage.createClinic(clinicData);
+      res.json(clinic);
+    } catch (error) {
+      console.error("Error creating clinic:", error);
+      res.status(400).json({ message: "Invalid clinic data" });
+    }
+  });
+
+  app.get('/api/clinics/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinic = await storage.getAccessibleClinic(req.params.id, userId);
+      if (!clinic) {
+        return res.status(404).json({ message: "Clinic not found" });
+      }
+      const [veterinarians, visits] = await Promise.all([
+        storage.getClinicVeterinarians([clinic.id]),
+        storage.getClinicVisits(clinic.id, userId),
+      ]);
+      res.json({ ...clinic, veterinarians, visits, isOwner: clinic.userId === userId });
+    } catch (error) {
+      console.error("Error fetching clinic:", error);
+      res.status(500).json({ message: "Failed to fetch clinic" });
+    }
+  });
+
+  app.put('/api/clinics/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinic = await storage.getAccessibleClinic(req.params.id, userId);
+      if (!clinic) {
+        return res.status(404).json({ message: "Clinic not found" });
+      }
+      if (clinic.userId !== userId) {
+        return res.status(403).json({ message: "Only the clinic's owner can edit it" });
+      }
+      const updates = insertClinicSchema.omit({ userId: true }).partial().parse(req.body);
+      const updated = await storage.updateClinic(clinic.id, updates);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating clinic:", error);
+      res.status(400).json({ message: "Invalid clinic data" });
+    }
+  });
+
+  app.delete('/api/clinics/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinic = await storage.getAccessibleClinic(req.params.id, userId);
+      if (!clinic) {
+        return res.status(404).json({ message: "Clinic not found" });
+      }
+      if (clinic.userId !== userId) {
+        return res.status(403).json({ message: "Only the clinic's owner can delete it" });
+      }
+      // Appointments keep their clinic details as text; only the link is cleared
+      await storage.deleteClinic(clinic.id);
+      res.json({ message: "Clinic deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting clinic:", error);
+      res.status(500).json({ message: "Failed to delete clinic" });
+    }
+  });
+
+  app.post('/api/clinics/:id/veterinarians', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clinic = await storage.getAccessibleClinic(req.params.id, userId);
+      if (!clinic) {
+        return res.status(404).json({ message: "Clinic not found" });
+      }
+      if (clinic.userId !== userId) {
+        return res.status(403).json({ message: "Only the clinic's owner can add veterinarians" });
+      }
+      const veterinarianData = insertVeterinarianSchema.parse({ ...req.body, userId, clinicId: clinic.id });
+      const existing = await storage.findVeterinarian(userId, clinic.id, veterinarianData.name);
+      const veterinarian = existing ?? (await storage.createVeterinarian(veterinarianData));
+      res.json(veterinarian);
+    } catch (error) {
+      console.error("Error creating veterinarian:", error);
+      res.status(400).json({ message: "Invalid veterinarian data" });
+    }
+  });
+
+  // Weight tracking routes
+  app.get('/api/dogs/:dogId/weight-records', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const { startDate, endDate } = req.query;
+      
+      const start = startDate ? new Date(startDate as string) : undefined;
+      const end = endDate ? new Date(endDate as string) : undefined;
+      
+      const records = await storage.getDogWeightRecords(dogId, start, end);
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching weight records:", error);
+      res.status(500).json({ message: "Failed to fetch weight records" });
+    }
+  });
+
+  app.post('/api/dogs/:dogId/weight-records', isAuthenticated, requireDogAccess("caregiver"), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const recordData = insertWeightRecordSchema.parse({ ...req.body, dogId });
+      const record = await storage.createWeightRecord(recordData);
+      res.json(record);
+    } catch (error) {
+      console.error("Error creating weight record:", error);
+      res.status(400).json({ message: "Invalid weight record data" });
+    }
+  });
+
+  app.put('/api/weight-records/:id', isAuthenticated, requireWeightRecordAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = insertWeightRecordSchema.omit({ dogId: true }).partial().parse(req.body);
+      const record = await storage.updateWeightRecord(id, updates);
+      res.json(record);
+    } catch (error) {
+      console.error("Error updating weight record:", error);
+      res.status(400).json({ message: "Invalid weight record data" });
+    }
+  });
+
+  app.delete('/api/weight-records/:id', isAuthenticated, requireWeightRecordAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteWeightRecord(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting weight record:", error);
+      res.status(500).json({ message: "Failed to delete weight record" });
+    }
+  });
 
-      // Get recent health records for medical history
-      const recentRecords = await storage.getDogHealthRecords(dogId);
-      const medicalHistory = recentRecords
-        .slice(0, 5) // Last 5 records
-        .map(record => `${record.type}: ${record.title}`);
+  // Vaccination routes
+  app.get('/api/dogs/:dogId/vaccinations', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const vaccinations = await storage.getDogVaccinations(dogId);
+      res.json(vaccinations);
+    } catch (error) {
+      console.error("Error fetching vaccinations:", error);
+      res.status(500).json({ message: "Failed to fetch vaccinations" });
+    }
+  });
 
-      const age = dog.birthDate ? 
-        Math.floor((Date.now() - new Date(dog.birthDate).getTime()) / (1000 * 60 * 60 * 24 * 365)) : 
-        undefined;
+  app.get('/api/dogs/:dogId/vaccination-status', isAuthenticated, requireDogAccess(), async (req, res) => {
+    try {
+      const dog = res.locals.dog as Dog;
+      const vaccinations = await storage.getDogVaccinations(dog.id);
+      res.json(vaccinationStatus(dog, vaccinations));
+    } catch (error) {
+      console.error("Error computing vaccination status:", error);
+      res.status(500).json({ message: "Failed to compute vaccination status" });
+    }
+  });
 
-      const fullAssessmentData = {
-        ...assessmentData,
-        dogInfo: {
-          breed: dog.breed,
-          age: age,
-          weight: dog.weight ? parseFloat(dog.weight) : undefined,
-          medicalHistory: medicalHistory,
-        },
-      };
+  app.post('/api/dogs/:dogId/vaccinations', isAuthenticated, requireDogAccess("caregiver"), async (req, res) => {
+    try {
+      const { dogId } = req.params;
+      const dog = res.locals.dog as Dog;
+      const vaccinationData = insertVaccinationSchema.parse({ ...req.body, dogId });
+      const vaccine = getVaccineDefinition(vaccinationData.vaccineCode) ?? matchVaccineByName(vaccinationData.vaccineName);
+      if (vaccine) {
+        vaccinationData.vaccineCode = vaccine.code;
+        if (!vaccinationData.nextDueDate) {
+          const existing = await storage.getDogVaccinations(dogId);
+          vaccinationData.nextDueDate = nextDueForNewDose(vaccine, dog, existing, vaccinationData.administeredAt);
+        }
+      }
+      const vaccination = await storage.createVaccination(vaccinationData);
+      res.json(vaccination);
+    } catch (error) {
+      console.error("Error creating vaccination:", error);
+      res.status(400).json({ message: "Invalid vaccination data" });
+    }
+  });
+
+  app.put('/api/vaccinations/:id', isAuthenticated, requireVaccinationAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = insertVaccinationSchema.omit({ dogId: true }).partial().parse(req.body);
+      const existing = res.locals.vaccination as Vaccination;
+      const merged = { ...existing, ...updates };
+      const vaccine = getVaccineDefinition(merged.vaccineCode) ?? matchVaccineByName(merged.vaccineName);
+      const doseChanged = ["administeredAt", "vaccineCode", "vaccineName"].some((key) => key in updates);
+      if (vaccine && doseChanged && updates.nextDueDate === undefined) {
+        const dog = res.locals.dog as Dog;
+        const others = (await storage.getDogVaccinations(dog.id)).filter((record) => record.id !== id);
+        updates.vaccineCode = vaccine.code;
+        updates.nextDueDate = nextDueForNewDose(vaccine, dog, others, merged.administeredAt);
+      }
+      const vaccination = await storage.updateVaccination(id, updates);
+      res.json(vaccination);
+    } catch (error) {
+      console.error("Error updating vaccination:", error);
+      res.status(400).json({ message: "Invalid vaccination data" });
+    }
+  });
+
+  app.delete('/api/vaccinations/:id', isAuthenticated, requireVaccinationAccess("caregiver"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteVaccination(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting vaccination:", error);
+      res.status(500).json({ message: "Failed to delete vaccination" });
+    }
+  });
+
+  // Bulk import: every call re-reads the file, so the wizard can change the mapping between dry runs
+  app.post('/api/dogs/:dogId/import', isAuthenticated, requireDogAccess("caregiver"), recordImportUpload.single('file'), async (req: any, res) => {
+    try {
+      const dog = res.locals.dog as Dog;
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const parsed = bulkImportRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid import request" });
+      }
+      const { type, mapping, timezone, dryRun } = parsed.data;
+      const { preview, records } = await prepareBulkImport(dog, {
+        type,
+        fileName: file.originalname,
+        contents: file.buffer.toString("utf8"),
+        mapping,
+        timeZone: timezone && isValidTimeZone(timezone) ? timezone : "UTC",
+      });
+      if (dryRun) {
+        return res.json(preview);
+      }
+      // All or nothing: a file with any invalid row is fixed and re-uploaded, duplicates are skipped
+      if (preview.invalidCount > 0) {
+        return res.status(400).json({ message: "Fix the rows with errors before importing", preview });
+      }
+      const imported = await storage.importDogRecords(records);
+      res.json({ ...preview, imported });
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing records:", error);
+      res.status(500).json({ message: "Failed to import records" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getUserNotifications(userId, { unreadOnly: req.query.unread === "true" }),
+        storage.countUnreadNotifications(userId),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await storage.markAllNotificationsRead(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/dismiss', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const notification = await storage.dismissNotification(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error dismissing notification:", error);
+      res.status(500).json({ message: "Failed to dismiss notification" });
+    }
+  });
+
+  app.get('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const preferences = await storage.getNotificationPreferences(userId);
+      res.json(preferences ?? { userId, ...defaultNotificationPreferences });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const current = await storage.getNotificationPreferences(userId);
+      const preferencesData = insertNotificationPreferencesSchema.parse({
+        ...defaultNotificationPreferences,
+        ...current,
+        ...req.body,
+        userId,
+      });
+      if (!isValidTimeZone(preferencesData.timezone ?? "UTC")) {
+        return res.status(400).json({ message: "Unknown time zone" });
+      }
+      const preferences = await storage.upsertNotificationPreferences(preferencesData);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(400).json({ message: "Invalid notification preferences" });
+    }
+  });
+
+  // Web Push routes
+  app.get('/api/push/public-key', isAuthenticated, async (_req, res) => {
+    const publicKey = getVapidPublicKey();
+    if (!publicKey) {
+      return res.status(404).json({ message: "Push notifications are not configured" });
+    }
+    res.json({ publicKey });
+  });
+
+  app.post('/api/push/subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const subscriptionData = pushSubscriptionSchema.parse(req.body);
+      const subscription = await storage.savePushSubscription(userId, subscriptionData, req.get("user-agent"));
+      res.status(201).json({ id: subscription.id });
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      res.status(400).json({ message: "Invalid push subscription" });
+    }
+  });
+
+  app.delete('/api/push/subscriptions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { endpoint } = z.object({ endpoint: z.string().url() }).parse(req.body);
+      await storage.deletePushSubscription(endpoint, userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting push subscription:", error);
+      res.status(400).json({ message: "Invalid push subscription" });
+    }
+  });
+
+  // AI-powered analysis endpoints
+  app.post('/api/ai/analyze-symptoms', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { dogId, symptomData } = req.body;
+      
+      // Validate required fields
+      if (!dogId || !symptomData) {
+        return res.status(400).json({ error: 'Missing required fields: dogId and symptomData' });
+      }
+
+      // Get dog information to provide context
+      const dog = await getAccessibleDog(userId, dogId, "caregiver");
+      if (!dog) {
+        return res.status(404).json({ error: 'Dog not found' });
+      }
+
+      // Saved unlinked; the health entry claims it by id when it's saved
+      const saved = await runSymptomAnalysis(dog, symptomData, userId);
+      res.json({ ...saved.result, analysisId: saved.id });
+    } catch (error) {
+      console.error("Error analyzing symptoms:", error);
+      res.status(500).json({ error: 'Failed to analyze symptoms' });
+    }
+  });
+
+  app.post('/api/ai/analyze-photo', isAuthenticated, upload.single('photo'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const file = req.file as Express.Multer.File;
+      const { dogId, context } = req.body;
+      
+      if (!file) {
+        return res.status(400).json({ error: 'No photo uploaded' });
+      }
+      if (!dogId) {
+        return res.status(400).json({ error: 'Missing required field: dogId' });
+      }
+
+      const dog = await getAccessibleDog(userId, dogId, "caregiver");
+      if (!dog) {
+        return res.status(404).json({ error: 'Dog not found' });
+      }
+
+      const saved = await runPhotoAnalysis(
+        dog,
+        { buffer: file.buffer, mimeType: file.mimetype, fileName: file.originalname },
+        context,
+        userId,
+      );
+      res.json({ ...saved.result, analysisId: saved.id });
+    } catch (error) {
+      console.error("Error analyzing photo:", error);
+      res.status(500).json({ error: 'Failed to analyze photo' });
+    }
+  });
+
+  // Rule-based triage only: answers instantly and works when the AI is down
+  app.post('/api/emergency/triage', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = emergencyAssessmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid assessment", errors: parsed.error.errors });
+      }
+      const { dogId, assessmentData } = parsed.data;
+
+      const dog = await getAccessibleDog(userId, dogId);
+      if (!dog) {
+        return res.status(404).json({ message: "Dog not found" });
+      }
+
+      res.json(runTriage(await emergencyTriageInput(dog, assessmentData)));
+    } catch (error) {
+      console.error("Error running emergency triage:", error);
+      res.status(500).json({ message: "Failed to run emergency triage" });
+    }
+  });
+
+  app.post('/api/emergency/toxin-exposure', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = toxinExposureSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid exposure", errors: parsed.error.errors });
+      }
+      const { dogId, toxinId, unitId, amount } = parsed.data;
+
+      const dog = await getAccessibleDog(userId, dogId);
+      if (!dog) {
+        return res.status(404).json({ message: "Dog not found" });
+      }
+
+      const weight = await dogWeightForDosing(dog);
+      if (!weight) {
+        return res.status(400).json({ message: `Log a weight for ${dog.name} to calculate the dose` });
+      }
+
+      res.json(assessToxinExposure(toxinId, unitId, amount, weight));
+    } catch (error) {
+      if (error instanceof ToxinExposureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error assessing toxin exposure:", error);
+      res.status(500).json({ message: "Failed to assess toxin exposure" });
+    }
+  });
+
+  app.post('/api/ai/emergency-assessment', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = emergencyAssessmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Missing required fields: dogId and assessmentData' });
+      }
+      const { dogId, assessmentData } = parsed.data;
+
+      // Get dog information for context
+      const dog = await getAccessibleDog(userId, dogId);
+      if (!dog) {
+        return res.status(404).json({ error: 'Dog not found' });
+      }
 
-      const assessment = await performEmergencyAssessment(fullAssessmentData);
-      res.json(assessment);
+      const input = await emergencyTriageInput(dog, assessmentData);
+      const triage = runTriage(input);
+
+      // The rules' answer stands on its own if the AI can't be reached
+      const aiAssessment = await performEmergencyAssessment(input).catch(() => null);
+      res.json(mergeTriageWithAi(triage, aiAssessment));
     } catch (error) {
       console.error("Error performing emergency assessment:", error);
       res.status(500).json({ error: 'Failed to perform emergency assessment' });
     }
   });
 
-  app.post('/api/ai/generate-health-summary', isAuthenticated, async (req, res) => {
+  app.post('/api/ai/generate-health-summary', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { dogId } = req.body;
       
       if (!dogId) {
@@ -411,7 +1927,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get dog information
-      const dog = await storage.getDog(dogId);
+      const dog = await getAccessibleDog(userId, dogId);
       if (!dog) {
         return res.status(404).json({ error: 'Dog not found' });
       }
@@ -447,6 +1963,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Vet assistant chat. Conversations are private to the user who started them.
+  app.get('/api/dogs/:dogId/chat-conversations', isAuthenticated, requireDogAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const conversations = await storage.getChatConversations(userId, req.params.dogId);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching chat conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.post('/api/dogs/:dogId/chat-conversations', isAuthenticated, requireDogAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = insertChatConversationSchema.pick({ title: true }).safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid conversation data", errors: parsed.error.errors });
+      }
+      const conversation = await storage.createChatConversation({
+        dogId: req.params.dogId,
+        userId,
+        title: parsed.data.title ?? null,
+      });
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error creating chat conversation:", error);
+      res.status(500).json({ message: "Failed to start conversation" });
+    }
+  });
+
+  app.get('/api/chat-conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getOwnChatConversation(userId, req.params.id);
+      if (!access) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const messages = await storage.getChatMessages(access.conversation.id);
+      res.json({ ...access.conversation, messages });
+    } catch (error) {
+      console.error("Error fetching chat conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.delete('/api/chat-conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getOwnChatConversation(userId, req.params.id);
+      if (!access) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      await storage.deleteChatConversation(access.conversation.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting chat conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  // Answers a question as Server-Sent Events: `message` with the saved question,
+  // `token` for each piece of the reply as it's written, then `done` with the
+  // saved reply, or `error` if the reply couldn't be finished
+  app.post('/api/ai/chat/:conversationId', isAuthenticated, upload.array('photos', MAX_CHAT_PHOTOS), async (req: any, res) => {
+    const send = (event: string, data: unknown) => {
+      if (res.destroyed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const userId = req.user.claims.sub;
+      const access = await getOwnChatConversation(userId, req.params.conversationId);
+      if (!access) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      const parsed = chatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? 'Invalid message' });
+      }
+      const { conversation, dog } = access;
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+      // Chat photos stay private to the user, like the conversation itself
+      const objectStorageService = new ObjectStorageService();
+      const photoUrls: string[] = [];
+      for (const file of files) {
+        const objectPath = await objectStorageService.uploadFile(file.buffer, file.originalname, file.mimetype);
+        photoUrls.push(
+          await objectStorageService.trySetObjectEntityAclPolicy(objectPath, { owner: userId, visibility: "private" }),
+        );
+      }
+
+      const question = await storage.addChatMessage(
+        {
+          conversationId: conversation.id,
+          role: "user",
+          content: parsed.data.content,
+          photoUrls: photoUrls.length > 0 ? photoUrls : null,
+        },
+        chatTitle(parsed.data.content),
+      );
+      const [history, context] = await Promise.all([
+        storage.getChatMessages(conversation.id, CHAT_HISTORY_MESSAGES),
+        buildVetChatContext(dog),
+      ]);
+      const turns = chatTurns(
+        history,
+        files.map((file) => ({ data: file.buffer, mimeType: file.mimetype })),
+      );
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      send("message", question);
+
+      // Stop generating if the reader goes away; whatever was written is still kept
+      const abort = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) abort.abort();
+      });
+
+      const source = aiTaskSource("vet_chat");
+      let reply = "";
+      let failed = false;
+      try {
+        for await (const text of streamVetChat(context, turns, abort.signal)) {
+          reply += text;
+          send("token", { text });
+        }
+      } catch {
+        // Already logged; keep whatever part of the reply arrived
+        failed = true;
+      }
+
+      if (reply.trim()) {
+        const answer = await storage.addChatMessage({
+          conversationId: conversation.id,
+          role: "assistant",
+          content: reply,
+          ...source,
+        });
+        if (!failed) send("done", answer);
+      }
+      if (failed || !reply.trim()) {
+        send("error", { error: 'Failed to answer message' });
+      }
+      res.end();
+    } catch (error) {
+      console.error("Error answering chat message:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to answer message' });
+      }
+      send("error", { error: 'Failed to answer message' });
+      res.end();
+    }
+  });
+
   // Stripe subscription route
   app.post('/api/get-or-create-subscription', isAuthenticated, async (req: any, res) => {
     try {
@@ -0,0 +1,14 @@
+import { pool } from "../db";
+import { backfillClinicDirectory } from "../clinicDirectory";
+
+// Run once after `npm run db:push` adds the clinic directory tables:
+//   npm run db:backfill-clinics
+backfillClinicDirectory()
+  .then(({ linked, skipped }) => {
+    console.log(`Linked ${linked} appointments to the clinic directory (${skipped} without a clinic name skipped)`);
+  })
+  .catch((error) => {
+    console.error("Clinic backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
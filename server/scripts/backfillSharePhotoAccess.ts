@@ -0,0 +1,18 @@
+import { pool } from "../db";
+import { backfillShareLinkPhotoAccess } from "../shareLinks";
+
+// Run once so health photos uploaded before share links existed can be seen
+// through them:
+//   npm run db:backfill-share-photos
+backfillShareLinkPhotoAccess()
+  .then(({ updated, missing, foreign }) => {
+    console.log(
+      `Granted share link access to ${updated} photos ` +
+        `(${missing} missing from storage and ${foreign} uploaded outside the dog's household skipped)`,
+    );
+  })
+  .catch((error) => {
+    console.error("Share photo backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
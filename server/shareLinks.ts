@@ -0,0 +1,123 @@
+import { randomBytes } from "crypto";
+import type { Dog, HealthRecord, ShareLink, SharedDogHealth } from "@shared/schema";
+import { storage } from "./storage";
+import { ObjectNotFoundError, ObjectStorageService } from "./objectStorage";
+import { getDogAccess } from "./dogAccess";
+import { ObjectAccessGroupType, ObjectPermission, getObjectAclPolicy, setObjectAclPolicy } from "./objectAcl";
+
+// Past visits shown on a shared page, newest first
+const MAX_SHARED_APPOINTMENTS = 100;
+
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Share pages can't use the session-protected /objects route, so photos are
+// served through the link itself
+export function sharedObjectUrl(token: string, objectPath: string): string {
+  return `/api/share/${token}${objectPath}`;
+}
+
+function inShareRange(link: ShareLink, date: Date | null): boolean {
+  if (!date) return !link.rangeFrom && !link.rangeTo;
+  return (!link.rangeFrom || date >= link.rangeFrom) && (!link.rangeTo || date <= link.rangeTo);
+}
+
+function sharedHealthRecords(link: ShareLink, records: HealthRecord[]): HealthRecord[] {
+  return records.filter((record) => inShareRange(link, record.recordedAt));
+}
+
+// Everything a share link exposes. Undated records only appear on links
+// without a date range.
+export async function buildSharedDogHealth(link: ShareLink, dog: Dog): Promise<SharedDogHealth> {
+  // Only visits that have happened; upcoming bookings aren't part of the record
+  const now = new Date();
+  const visitsUntil = link.rangeTo && link.rangeTo < now ? link.rangeTo : now;
+  const [healthRecords, medications, vaccinations, weightRecords, { appointments }] = await Promise.all([
+    storage.getDogHealthRecords(dog.id),
+    storage.getDogMedications(dog.id),
+    storage.getDogVaccinations(dog.id),
+    storage.getDogWeightRecords(dog.id, link.rangeFrom ?? undefined, link.rangeTo ?? undefined),
+    storage.getDogAppointments(dog.id, {
+      from: link.rangeFrom ?? undefined,
+      to: visitsUntil,
+      limit: MAX_SHARED_APPOINTMENTS,
+      offset: 0,
+    }),
+  ]);
+
+  return {
+    dog: {
+      name: dog.name,
+      breed: dog.breed,
+      birthDate: dog.birthDate,
+      gender: dog.gender,
+      weight: dog.weight,
+      microchipId: dog.microchipId,
+    },
+    label: link.label,
+    rangeFrom: link.rangeFrom,
+    rangeTo: link.rangeTo,
+    expiresAt: link.expiresAt,
+    healthRecords: sharedHealthRecords(link, healthRecords).map((record) => ({
+      ...record,
+      photoUrls: record.photoUrls?.map((url) => sharedObjectUrl(link.token, url)) ?? null,
+    })),
+    medications: medications.filter(
+      (medication) =>
+        (!link.rangeTo || !medication.startDate || new Date(medication.startDate) <= link.rangeTo) &&
+        (!link.rangeFrom || !medication.endDate || new Date(medication.endDate) >= link.rangeFrom),
+    ),
+    vaccinations: vaccinations.filter((vaccination) => inShareRange(link, vaccination.administeredAt)),
+    weightRecords,
+    appointments,
+  };
+}
+
+// True when the photo belongs to a health record the link exposes
+export async function isSharedPhoto(link: ShareLink, objectPath: string): Promise<boolean> {
+  const records = await storage.getDogHealthRecords(link.dogId);
+  return sharedHealthRecords(link, records).some((record) => record.photoUrls?.includes(objectPath));
+}
+
+// Adds the share link ACL rule to health photos uploaded before share links
+// existed. Only photos uploaded by the dog's owner or a household member are
+// opened up, so sharing a dog can't publish another user's objects.
+export async function backfillShareLinkPhotoAccess(): Promise<{ updated: number; missing: number; foreign: number }> {
+  const objectStorageService = new ObjectStorageService();
+  const records = await storage.getHealthRecordsWithPhotos();
+  let updated = 0;
+  let missing = 0;
+  let foreign = 0;
+  for (const record of records) {
+    for (const photoUrl of record.photoUrls ?? []) {
+      try {
+        const objectFile = await objectStorageService.getObjectEntityFile(photoUrl);
+        const aclPolicy = await getObjectAclPolicy(objectFile);
+        const aclRules = aclPolicy?.aclRules ?? [];
+        if (
+          !aclPolicy ||
+          aclRules.some((rule) => rule.group.type === ObjectAccessGroupType.DOG_SHARE_LINK && rule.group.id === record.dogId)
+        ) {
+          continue;
+        }
+        if (!(await getDogAccess(aclPolicy.owner, record.dogId))) {
+          foreign++;
+          continue;
+        }
+        await setObjectAclPolicy(objectFile, {
+          ...aclPolicy,
+          aclRules: [
+            ...aclRules,
+            { group: { type: ObjectAccessGroupType.DOG_SHARE_LINK, id: record.dogId }, permission: ObjectPermission.READ },
+          ],
+        });
+        updated++;
+      } catch (error) {
+        if (!(error instanceof ObjectNotFoundError)) throw error;
+        missing++;
+      }
+    }
+  }
+  return { updated, missing, foreign };
+}
@@ -1,69 +1,287 @@
 import {
+  sessions,
   users,
   dogs,
+  dogMembers,
+  dogInvites,
+  shareLinks,
+  shareLinkViews,
   healthRecords,
+  aiAnalyses,
+  chatConversations,
+  chatMessages,
   medications,
   medicationLogs,
   appointments,
   weightRecords,
   vaccinations,
+  notifications,
+  notificationPreferences,
+  pushSubscriptions,
+  clinics,
+  veterinarians,
+  dataExports,
   type User,
   type UpsertUser,
   type Dog,
   type InsertDog,
+  type DogRole,
+  type DogMember,
+  type InsertDogMember,
+  type DogInvite,
+  type InsertDogInvite,
+  type ShareLink,
+  type InsertShareLink,
+  type ShareLinkView,
+  type InsertShareLinkView,
   type HealthRecord,
   type InsertHealthRecord,
+  type AiAnalysis,
+  type InsertAiAnalysis,
+  type ChatConversation,
+  type InsertChatConversation,
+  type ChatMessage,
+  type InsertChatMessage,
   type Medication,
   type InsertMedication,
   type MedicationLog,
   type InsertMedicationLog,
   type Appointment,
   type InsertAppointment,
+  type AppointmentOutcome,
+  type AppointmentStatus,
+  type TimelineEvent,
+  type TimelineEventType,
   type WeightRecord,
   type InsertWeightRecord,
   type Vaccination,
   type InsertVaccination,
+  type Notification,
+  type InsertNotification,
+  type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type PushSubscription,
+  type PushSubscriptionPayload,
+  type Clinic,
+  type InsertClinic,
+  type Veterinarian,
+  type InsertVeterinarian,
+  type DataExport,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte } from "drizzle-orm";
+import { eq, desc, and, or, gte, lte, gt, isNull, inArray, sql, type SQL } from "drizzle-orm";
+
+// A household member who should hear about a dog's reminders
+export interface DogRecipient {
+  dogId: string;
+  userId: string;
+  role: DogRole;
+  email: string | null;
+}
+
+// Filters and paging for a dog's appointment history
+export interface AppointmentHistoryQuery {
+  statuses?: AppointmentStatus[];
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// Position after the last event of a timeline page. `at` is the Postgres text
+// form of the event timestamp so comparisons are exact to the microsecond.
+export interface TimelineCursor {
+  at: string;
+  type: TimelineEventType;
+  id: string;
+}
+
+// Everything owned by a user, for account data exports
+export interface UserExportData {
+  user: User;
+  dogs: Dog[];
+  healthRecords: HealthRecord[];
+  medications: Medication[];
+  medicationLogs: MedicationLog[];
+  appointments: Appointment[];
+  weightRecords: WeightRecord[];
+  vaccinations: Vaccination[];
+  clinics: Clinic[];
+  veterinarians: Veterinarian[];
+}
+
+// Rows validated by the bulk import wizard, saved together or not at all
+export interface DogRecordImport {
+  weightRecords: InsertWeightRecord[];
+  vaccinations: InsertVaccination[];
+  healthRecords: InsertHealthRecord[];
+}
+
+// Attaches an analysis run from the health entry form to the saved entry;
+// photo analyses also learn which of the entry's photos they looked at
+export interface AiAnalysisLink {
+  id: string;
+  photoUrl?: string;
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserStripeInfo(userId: string, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  setUserCalendarToken(userId: string, token: string): Promise<User>;
+  deleteUser(userId: string): Promise<void>;
+  isObjectPathReferenced(objectPath: string): Promise<boolean>;
   
   // Dog operations
-  getUserDogs(userId: string): Promise<Dog[]>;
+  getUserDogs(userId: string): Promise<(Dog & { role: DogRole })[]>;
   getDog(id: string): Promise<Dog | undefined>;
   createDog(dog: InsertDog): Promise<Dog>;
   updateDog(id: string, updates: Partial<InsertDog>): Promise<Dog>;
   deleteDog(id: string): Promise<void>;
+
+  // Household membership operations
+  getDogMember(dogId: string, userId: string): Promise<DogMember | undefined>;
+  getDogMembers(dogId: string): Promise<(DogMember & { email: string | null; firstName: string | null; lastName: string | null })[]>;
+  addDogMember(member: InsertDogMember): Promise<DogMember>;
+  updateDogMemberRole(dogId: string, userId: string, role: DogRole): Promise<DogMember>;
+  removeDogMember(dogId: string, userId: string): Promise<void>;
+  createDogInvite(invite: InsertDogInvite): Promise<DogInvite>;
+  getDogInvites(dogId: string): Promise<DogInvite[]>;
+  getDogInviteByCode(code: string): Promise<DogInvite | undefined>;
+  getPendingInvitesForEmail(email: string): Promise<(DogInvite & { dogName: string })[]>;
+  acceptDogInvite(invite: DogInvite, userId: string): Promise<DogMember>;
+  deleteDogInvite(id: string): Promise<void>;
+
+  // Share link operations
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getDogShareLinks(dogId: string): Promise<(ShareLink & { viewCount: number; lastViewedAt: Date | null })[]>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getActiveShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  revokeShareLink(id: string): Promise<ShareLink>;
+  logShareLinkView(view: InsertShareLinkView): Promise<ShareLinkView>;
+  getShareLinkViews(shareLinkId: string, limit?: number): Promise<(ShareLinkView & { viewerEmail: string | null })[]>;
   
   // Health record operations
   getDogHealthRecords(dogId: string): Promise<HealthRecord[]>;
   createHealthRecord(record: InsertHealthRecord): Promise<HealthRecord>;
   getHealthRecord(id: string): Promise<HealthRecord | undefined>;
+  getHealthRecordsWithPhotos(): Promise<HealthRecord[]>;
+  updateHealthRecord(id: string, updates: Partial<InsertHealthRecord>): Promise<HealthRecord>;
+  deleteHealthRecord(id: string): Promise<void>;
+
+  // AI analysis operations
+  createAiAnalysis(analysis: InsertAiAnalysis): Promise<AiAnalysis>;
+  getHealthRecordAiAnalyses(healthRecordId: string): Promise<AiAnalysis[]>;
+  linkAiAnalyses(record: HealthRecord, requestedBy: string, links: AiAnalysisLink[]): Promise<number>;
+
+  // Vet chat operations
+  getChatConversations(userId: string, dogId: string): Promise<ChatConversation[]>;
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  deleteChatConversation(id: string): Promise<void>;
+  getChatMessages(conversationId: string, limit?: number): Promise<ChatMessage[]>;
+  addChatMessage(message: InsertChatMessage, title?: string): Promise<ChatMessage>;
   
   // Medication operations
   getDogMedications(dogId: string): Promise<Medication[]>;
+  getMedication(id: string): Promise<Medication | undefined>;
   createMedication(medication: InsertMedication): Promise<Medication>;
   updateMedication(id: string, updates: Partial<InsertMedication>): Promise<Medication>;
-  logMedicationTaken(log: InsertMedicationLog): Promise<MedicationLog>;
+  deleteMedication(id: string): Promise<void>;
+  logMedicationTaken(log: InsertMedicationLog, nextDueDate: Date | null): Promise<MedicationLog>;
+  getMedicationLogs(medicationId: string, limit?: number): Promise<MedicationLog[]>;
+  refillMedication(id: string, quantity: number, usedRefill: boolean): Promise<Medication>;
+  getUserMedications(userId: string): Promise<(Medication & { dogName: string })[]>;
+  getDogMedicationLogs(dogId: string, from: Date, to: Date): Promise<MedicationLog[]>;
   
   // Appointment operations
-  getDogAppointments(dogId: string): Promise<Appointment[]>;
+  getDogAppointments(dogId: string, query: AppointmentHistoryQuery): Promise<{ appointments: Appointment[]; total: number }>;
   getUserUpcomingAppointments(userId: string): Promise<(Appointment & { dogName: string })[]>;
+  getUserAppointmentsSince(userId: string, since: Date): Promise<(Appointment & { dogName: string })[]>;
+  getAppointment(id: string): Promise<Appointment | undefined>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment>;
-  
+  deleteAppointment(id: string): Promise<void>;
+  getDogTimeline(
+    dogId: string,
+    options: { types: TimelineEventType[]; cursor?: TimelineCursor; limit: number }
+  ): Promise<{ events: TimelineEvent[]; nextCursor: TimelineCursor | null }>;
+  getUserAppointmentsAwaitingOutcome(userId: string): Promise<(Appointment & { dogName: string })[]>;
+  completeAppointment(id: string, outcome: AppointmentOutcome): Promise<Appointment>;
+  createFollowUpAppointment(
+    original: Appointment,
+    details: Pick<InsertAppointment, "scheduledAt" | "appointmentType" | "notes">
+  ): Promise<Appointment>;
+  getUnlinkedAppointments(): Promise<(Appointment & { ownerId: string })[]>;
+
+  // Clinic directory operations
+  getAccessibleClinics(userId: string): Promise<Clinic[]>;
+  getAccessibleClinic(id: string, userId: string): Promise<Clinic | undefined>;
+  findClinic(ownerId: string, name: string, address?: string | null): Promise<Clinic | undefined>;
+  createClinic(clinic: InsertClinic): Promise<Clinic>;
+  updateClinic(id: string, updates: Partial<InsertClinic>): Promise<Clinic>;
+  deleteClinic(id: string): Promise<void>;
+  getClinicVisits(clinicId: string, userId: string): Promise<(Appointment & { dogName: string })[]>;
+  getClinicVeterinarians(clinicIds: string[]): Promise<Veterinarian[]>;
+  getVeterinarian(id: string): Promise<Veterinarian | undefined>;
+  findVeterinarian(ownerId: string, clinicId: string | null, name: string): Promise<Veterinarian | undefined>;
+  createVeterinarian(veterinarian: InsertVeterinarian): Promise<Veterinarian>;
+
   // Weight tracking operations
   getDogWeightRecords(dogId: string, startDate?: Date, endDate?: Date): Promise<WeightRecord[]>;
+  getWeightRecord(id: string): Promise<WeightRecord | undefined>;
   createWeightRecord(record: InsertWeightRecord): Promise<WeightRecord>;
+  updateWeightRecord(id: string, updates: Partial<InsertWeightRecord>): Promise<WeightRecord>;
+  deleteWeightRecord(id: string): Promise<void>;
   
   // Vaccination operations
   getDogVaccinations(dogId: string): Promise<Vaccination[]>;
+  getUserVaccinations(userId: string): Promise<(Vaccination & { dogName: string })[]>;
+  getVaccination(id: string): Promise<Vaccination | undefined>;
   createVaccination(vaccination: InsertVaccination): Promise<Vaccination>;
+  updateVaccination(id: string, updates: Partial<InsertVaccination>): Promise<Vaccination>;
+  deleteVaccination(id: string): Promise<void>;
+
+  // Bulk import
+  importDogRecords(records: DogRecordImport): Promise<number>;
+
+  // Reminder sources
+  getMedicationsDueBetween(from: Date, until: Date): Promise<(Medication & { dogName: string })[]>;
+  getVaccinationsDueBetween(from: string, until: string): Promise<(Vaccination & { dogName: string })[]>;
+  getAppointmentsBetween(from: Date, until: Date): Promise<(Appointment & { dogName: string })[]>;
+  getDogRecipients(dogIds: string[]): Promise<DogRecipient[]>;
+
+  // Notification operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  getNotificationPreferencesForUsers(userIds: string[]): Promise<NotificationPreferences[]>;
+  upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+  createNotifications(entries: InsertNotification[]): Promise<Notification[]>;
+  getUserNotifications(userId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  dismissNotification(id: string, userId: string): Promise<Notification | undefined>;
+  getPendingEmailNotifications(since: Date): Promise<(Notification & { email: string | null })[]>;
+  claimNotificationsForEmail(ids: string[]): Promise<Notification[]>;
+  getPendingPushNotifications(since: Date): Promise<Notification[]>;
+  claimNotificationsForPush(ids: string[]): Promise<Notification[]>;
+
+  // Push subscription operations
+  savePushSubscription(userId: string, subscription: PushSubscriptionPayload, userAgent?: string): Promise<PushSubscription>;
+  getPushSubscriptionsForUsers(userIds: string[]): Promise<PushSubscription[]>;
+  deletePushSubscription(endpoint: string, userId?: string): Promise<void>;
+
+  // Data export operations
+  createDataExport(userId: string): Promise<DataExport>;
+  getDataExport(id: string): Promise<DataExport | undefined>;
+  getLatestDataExport(userId: string): Promise<DataExport | undefined>;
+  claimPendingDataExport(): Promise<DataExport | undefined>;
+  updateDataExport(id: string, updates: Partial<Omit<DataExport, "id" | "userId" | "createdAt">>): Promise<DataExport>;
+  failStaleDataExports(startedBefore: Date): Promise<DataExport[]>;
+  getExpiredDataExports(now: Date): Promise<DataExport[]>;
+  getUserExportData(userId: string): Promise<UserExportData | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -105,9 +323,56 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
+  async setUserCalendarToken(userId: string, token: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ calendarToken: token, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Hard delete: dogs and every record under them cascade from users, and all
+  // of the user's sessions go with it so no browser stays signed in
+  async deleteUser(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(sessions).where(sql`${sessions.sess} #>> '{passport,user,claims,sub}' = ${userId}`);
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  // Whether any remaining record still points at an uploaded object
+  async isObjectPathReferenced(objectPath: string): Promise<boolean> {
+    const { rows } = await db.execute<{ referenced: boolean }>(sql`
+      select exists (select 1 from ${healthRecords} where ${objectPath} = any(${healthRecords.photoUrls}))
+        or exists (select 1 from ${appointments} where ${objectPath} = any(${appointments.documentUrls}))
+        or exists (select 1 from ${dogs} where ${dogs.profileImageUrl} = ${objectPath}) as referenced
+    `);
+    return rows[0].referenced;
+  }
+
   // Dog operations
-  async getUserDogs(userId: string): Promise<Dog[]> {
-    return await db.select().from(dogs).where(and(eq(dogs.userId, userId), eq(dogs.isActive, true)));
+  async getUserDogs(userId: string): Promise<(Dog & { role: DogRole })[]> {
+    const rows = await db
+      .select({ dog: dogs, memberRole: dogMembers.role })
+      .from(dogs)
+      .leftJoin(dogMembers, and(eq(dogMembers.dogId, dogs.id), eq(dogMembers.userId, userId)))
+      .where(
+        and(
+          eq(dogs.isActive, true),
+          or(eq(dogs.userId, userId), eq(dogMembers.userId, userId))
+        )
+      );
+
+    return rows.map(({ dog, memberRole }) => ({
+      ...dog,
+      role: dog.userId === userId ? "owner" : (memberRole as DogRole),
+    }));
   }
 
   async getDog(id: string): Promise<Dog | undefined> {
@@ -133,6 +398,199 @@ export class DatabaseStorage implements IStorage {
     await db.update(dogs).set({ isActive: false }).where(eq(dogs.id, id));
   }
 
+  // Household membership operations
+  async getDogMember(dogId: string, userId: string): Promise<DogMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(dogMembers)
+      .where(and(eq(dogMembers.dogId, dogId), eq(dogMembers.userId, userId)));
+    return member;
+  }
+
+  async getDogMembers(dogId: string): Promise<(DogMember & { email: string | null; firstName: string | null; lastName: string | null })[]> {
+    return await db
+      .select({
+        id: dogMembers.id,
+        dogId: dogMembers.dogId,
+        userId: dogMembers.userId,
+        role: dogMembers.role,
+        invitedBy: dogMembers.invitedBy,
+        createdAt: dogMembers.createdAt,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+      })
+      .from(dogMembers)
+      .innerJoin(users, eq(dogMembers.userId, users.id))
+      .where(eq(dogMembers.dogId, dogId))
+      .orderBy(dogMembers.createdAt);
+  }
+
+  async addDogMember(member: InsertDogMember): Promise<DogMember> {
+    const [newMember] = await db
+      .insert(dogMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [dogMembers.dogId, dogMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return newMember;
+  }
+
+  async updateDogMemberRole(dogId: string, userId: string, role: DogRole): Promise<DogMember> {
+    const [updatedMember] = await db
+      .update(dogMembers)
+      .set({ role })
+      .where(and(eq(dogMembers.dogId, dogId), eq(dogMembers.userId, userId)))
+      .returning();
+    return updatedMember;
+  }
+
+  async removeDogMember(dogId: string, userId: string): Promise<void> {
+    await db.delete(dogMembers).where(and(eq(dogMembers.dogId, dogId), eq(dogMembers.userId, userId)));
+  }
+
+  async createDogInvite(invite: InsertDogInvite): Promise<DogInvite> {
+    const [newInvite] = await db.insert(dogInvites).values(invite).returning();
+    return newInvite;
+  }
+
+  async getDogInvites(dogId: string): Promise<DogInvite[]> {
+    return await db
+      .select()
+      .from(dogInvites)
+      .where(
+        and(
+          eq(dogInvites.dogId, dogId),
+          isNull(dogInvites.acceptedAt),
+          gt(dogInvites.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(dogInvites.createdAt));
+  }
+
+  async getDogInviteByCode(code: string): Promise<DogInvite | undefined> {
+    const [invite] = await db.select().from(dogInvites).where(eq(dogInvites.code, code));
+    return invite;
+  }
+
+  async getPendingInvitesForEmail(email: string): Promise<(DogInvite & { dogName: string })[]> {
+    const rows = await db
+      .select({ invite: dogInvites, dogName: dogs.name })
+      .from(dogInvites)
+      .innerJoin(dogs, eq(dogInvites.dogId, dogs.id))
+      .where(
+        and(
+          sql`lower(${dogInvites.email}) = lower(${email})`,
+          isNull(dogInvites.acceptedAt),
+          gt(dogInvites.expiresAt, new Date()),
+          eq(dogs.isActive, true)
+        )
+      )
+      .orderBy(desc(dogInvites.createdAt));
+
+    return rows.map(({ invite, dogName }) => ({ ...invite, dogName }));
+  }
+
+  async acceptDogInvite(invite: DogInvite, userId: string): Promise<DogMember> {
+    return await db.transaction(async (tx) => {
+      const [member] = await tx
+        .insert(dogMembers)
+        .values({
+          dogId: invite.dogId,
+          userId,
+          role: invite.role,
+          invitedBy: invite.invitedBy,
+        })
+        .onConflictDoUpdate({
+          target: [dogMembers.dogId, dogMembers.userId],
+          set: { role: invite.role },
+        })
+        .returning();
+
+      await tx
+        .update(dogInvites)
+        .set({ acceptedBy: userId, acceptedAt: new Date() })
+        .where(eq(dogInvites.id, invite.id));
+
+      return member;
+    });
+  }
+
+  async deleteDogInvite(id: string): Promise<void> {
+    await db.delete(dogInvites).where(eq(dogInvites.id, id));
+  }
+
+  // Share link operations
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    const [newLink] = await db.insert(shareLinks).values(link).returning();
+    return newLink;
+  }
+
+  async getDogShareLinks(dogId: string): Promise<(ShareLink & { viewCount: number; lastViewedAt: Date | null })[]> {
+    const rows = await db
+      .select({
+        link: shareLinks,
+        viewCount: sql<number>`count(${shareLinkViews.id})::int`,
+        lastViewedAt: sql<Date | null>`max(${shareLinkViews.viewedAt})`.mapWith(shareLinkViews.viewedAt),
+      })
+      .from(shareLinks)
+      .leftJoin(shareLinkViews, eq(shareLinkViews.shareLinkId, shareLinks.id))
+      .where(eq(shareLinks.dogId, dogId))
+      .groupBy(shareLinks.id)
+      .orderBy(desc(shareLinks.createdAt));
+
+    return rows.map(({ link, viewCount, lastViewedAt }) => ({ ...link, viewCount, lastViewedAt }));
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getActiveShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db
+      .select()
+      .from(shareLinks)
+      .innerJoin(dogs, eq(shareLinks.dogId, dogs.id))
+      .where(
+        and(
+          eq(shareLinks.token, token),
+          isNull(shareLinks.revokedAt),
+          gt(shareLinks.expiresAt, new Date()),
+          eq(dogs.isActive, true)
+        )
+      );
+    return link?.share_links;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink> {
+    const [link] = await db
+      .update(shareLinks)
+      .set({ revokedAt: sql`coalesce(${shareLinks.revokedAt}, now())` })
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  async logShareLinkView(view: InsertShareLinkView): Promise<ShareLinkView> {
+    const [entry] = await db.insert(shareLinkViews).values(view).returning();
+    return entry;
+  }
+
+  async getShareLinkViews(shareLinkId: string, limit = 100): Promise<(ShareLinkView & { viewerEmail: string | null })[]> {
+    const rows = await db
+      .select({ view: shareLinkViews, viewerEmail: users.email })
+      .from(shareLinkViews)
+      .leftJoin(users, eq(shareLinkViews.viewerUserId, users.id))
+      .where(eq(shareLinkViews.shareLinkId, shareLinkId))
+      .orderBy(desc(shareLinkViews.viewedAt))
+      .limit(limit);
+
+    return rows.map(({ view, viewerEmail }) => ({ ...view, viewerEmail }));
+  }
+
   // Health record operations
   async getDogHealthRecords(dogId: string): Promise<HealthRecord[]> {
     return await db
@@ -147,11 +605,124 @@ export class DatabaseStorage implements IStorage {
     return newRecord;
   }
 
+  async getHealthRecordsWithPhotos(): Promise<HealthRecord[]> {
+    return await db
+      .select()
+      .from(healthRecords)
+      .where(sql`cardinality(${healthRecords.photoUrls}) > 0`);
+  }
+
   async getHealthRecord(id: string): Promise<HealthRecord | undefined> {
     const [record] = await db.select().from(healthRecords).where(eq(healthRecords.id, id));
     return record;
   }
 
+  async updateHealthRecord(id: string, updates: Partial<InsertHealthRecord>): Promise<HealthRecord> {
+    const [updatedRecord] = await db
+      .update(healthRecords)
+      .set(updates)
+      .where(eq(healthRecords.id, id))
+      .returning();
+    return updatedRecord;
+  }
+
+  async deleteHealthRecord(id: string): Promise<void> {
+    await db.delete(healthRecords).where(eq(healthRecords.id, id));
+  }
+
+  // AI analysis operations
+  async createAiAnalysis(analysis: InsertAiAnalysis): Promise<AiAnalysis> {
+    const [newAnalysis] = await db.insert(aiAnalyses).values(analysis).returning();
+    return newAnalysis;
+  }
+
+  async getHealthRecordAiAnalyses(healthRecordId: string): Promise<AiAnalysis[]> {
+    return await db
+      .select()
+      .from(aiAnalyses)
+      .where(eq(aiAnalyses.healthRecordId, healthRecordId))
+      .orderBy(desc(aiAnalyses.createdAt));
+  }
+
+  // Only the requester's own unlinked analyses of the same dog can be claimed,
+  // so an id from elsewhere can't pull someone else's result into the record
+  async linkAiAnalyses(record: HealthRecord, requestedBy: string, links: AiAnalysisLink[]): Promise<number> {
+    if (links.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      let linked = 0;
+      for (const link of links) {
+        const updated = await tx
+          .update(aiAnalyses)
+          .set({
+            healthRecordId: record.id,
+            ...(link.photoUrl && {
+              request: sql`${aiAnalyses.request} || jsonb_build_object('photoUrl', ${link.photoUrl}::text)`,
+            }),
+          })
+          .where(
+            and(
+              eq(aiAnalyses.id, link.id),
+              eq(aiAnalyses.dogId, record.dogId),
+              eq(aiAnalyses.requestedBy, requestedBy),
+              isNull(aiAnalyses.healthRecordId),
+            ),
+          )
+          .returning({ id: aiAnalyses.id });
+        linked += updated.length;
+      }
+      return linked;
+    });
+  }
+
+  // Vet chat operations
+  async getChatConversations(userId: string, dogId: string): Promise<ChatConversation[]> {
+    return await db
+      .select()
+      .from(chatConversations)
+      .where(and(eq(chatConversations.userId, userId), eq(chatConversations.dogId, dogId)))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
+
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation;
+  }
+
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const [newConversation] = await db.insert(chatConversations).values(conversation).returning();
+    return newConversation;
+  }
+
+  async deleteChatConversation(id: string): Promise<void> {
+    await db.delete(chatConversations).where(eq(chatConversations.id, id));
+  }
+
+  // Oldest first; with a limit, only the latest messages
+  async getChatMessages(conversationId: string, limit?: number): Promise<ChatMessage[]> {
+    const query = db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(desc(chatMessages.createdAt));
+    const messages = limit === undefined ? await query : await query.limit(limit);
+    return messages.reverse();
+  }
+
+  // Moves the conversation to the top of the list and gives it a title if it has none yet
+  async addChatMessage(message: InsertChatMessage, title?: string): Promise<ChatMessage> {
+    return await db.transaction(async (tx) => {
+      const [newMessage] = await tx.insert(chatMessages).values(message).returning();
+      await tx
+        .update(chatConversations)
+        .set({
+          updatedAt: new Date(),
+          ...(title && { title: sql`coalesce(${chatConversations.title}, ${title})` }),
+        })
+        .where(eq(chatConversations.id, message.conversationId));
+      return newMessage;
+    });
+  }
+
   // Medication operations
   async getDogMedications(dogId: string): Promise<Medication[]> {
     return await db
@@ -161,6 +732,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(medications.nextDueDate));
   }
 
+  async getMedication(id: string): Promise<Medication | undefined> {
+    const [medication] = await db.select().from(medications).where(eq(medications.id, id));
+    return medication;
+  }
+
   async createMedication(medication: InsertMedication): Promise<Medication> {
     const [newMedication] = await db.insert(medications).values(medication).returning();
     return newMedication;
@@ -175,48 +751,153 @@ export class DatabaseStorage implements IStorage {
     return updatedMedication;
   }
 
-  async logMedicationTaken(log: InsertMedicationLog): Promise<MedicationLog> {
-    const [newLog] = await db.insert(medicationLogs).values(log).returning();
-    return newLog;
+  async deleteMedication(id: string): Promise<void> {
+    await db.update(medications).set({ isActive: false }).where(eq(medications.id, id));
   }
 
-  // Appointment operations
-  async getDogAppointments(dogId: string): Promise<Appointment[]> {
+  async logMedicationTaken(log: InsertMedicationLog, nextDueDate: Date | null): Promise<MedicationLog> {
+    return await db.transaction(async (tx) => {
+      const [newLog] = await tx.insert(medicationLogs).values(log).returning();
+      const given = (log.status ?? "given") === "given";
+      await tx
+        .update(medications)
+        .set({
+          nextDueDate,
+          // Given doses draw down tracked stock; untracked (null) stock stays null
+          ...(given && {
+            quantityOnHand: sql`case when ${medications.quantityOnHand} is null then null
+              else greatest(${medications.quantityOnHand} - coalesce(${medications.unitsPerDose}, 1), 0) end`,
+          }),
+        })
+        .where(eq(medications.id, log.medicationId));
+      return newLog;
+    });
+  }
+
+  async refillMedication(id: string, quantity: number, usedRefill: boolean): Promise<Medication> {
+    const [refilledMedication] = await db
+      .update(medications)
+      .set({
+        quantityOnHand: sql`coalesce(${medications.quantityOnHand}, 0) + ${quantity}`,
+        ...(usedRefill && {
+          refillCount: sql`greatest(coalesce(${medications.refillCount}, 0) - 1, 0)`,
+        }),
+      })
+      .where(eq(medications.id, id))
+      .returning();
+    return refilledMedication;
+  }
+
+  async getUserMedications(userId: string): Promise<(Medication & { dogName: string })[]> {
+    const rows = await db
+      .select({ medication: medications, dogName: dogs.name })
+      .from(medications)
+      .innerJoin(dogs, eq(medications.dogId, dogs.id))
+      .where(
+        and(
+          inArray(medications.dogId, this.accessibleDogIds(userId)),
+          eq(medications.isActive, true)
+        )
+      )
+      .orderBy(medications.nextDueDate);
+    return rows.map((row) => ({ ...row.medication, dogName: row.dogName }));
+  }
+
+  async getMedicationLogs(medicationId: string, limit = 100): Promise<MedicationLog[]> {
     return await db
       .select()
-      .from(appointments)
-      .where(eq(appointments.dogId, dogId))
-      .orderBy(desc(appointments.scheduledAt));
+      .from(medicationLogs)
+      .where(eq(medicationLogs.medicationId, medicationId))
+      .orderBy(desc(medicationLogs.givenAt))
+      .limit(limit);
+  }
+
+  async getDogMedicationLogs(dogId: string, from: Date, to: Date): Promise<MedicationLog[]> {
+    const rows = await db
+      .select({ log: medicationLogs })
+      .from(medicationLogs)
+      .innerJoin(medications, eq(medicationLogs.medicationId, medications.id))
+      .where(
+        and(
+          eq(medications.dogId, dogId),
+          gte(medicationLogs.givenAt, from),
+          lte(medicationLogs.givenAt, to),
+        ),
+      )
+      .orderBy(medicationLogs.givenAt);
+    return rows.map((row) => row.log);
+  }
+
+  // Appointment operations
+  async getDogAppointments(dogId: string, query: AppointmentHistoryQuery): Promise<{ appointments: Appointment[]; total: number }> {
+    const condition = and(
+      eq(appointments.dogId, dogId),
+      query.statuses?.length ? inArray(appointments.status, query.statuses) : undefined,
+      query.from ? gte(appointments.scheduledAt, query.from) : undefined,
+      query.to ? lte(appointments.scheduledAt, query.to) : undefined
+    );
+    const [page, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(appointments)
+        .where(condition)
+        .orderBy(desc(appointments.scheduledAt), desc(appointments.id))
+        .limit(query.limit)
+        .offset(query.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(appointments).where(condition),
+    ]);
+    return { appointments: page, total: count };
   }
 
   async getUserUpcomingAppointments(userId: string): Promise<(Appointment & { dogName: string })[]> {
-    const result = await db
-      .select({
-        id: appointments.id,
-        dogId: appointments.dogId,
-        vetName: appointments.vetName,
-        clinicName: appointments.clinicName,
-        clinicAddress: appointments.clinicAddress,
-        clinicPhone: appointments.clinicPhone,
-        appointmentType: appointments.appointmentType,
-        scheduledAt: appointments.scheduledAt,
-        status: appointments.status,
-        notes: appointments.notes,
-        createdAt: appointments.createdAt,
-        dogName: dogs.name,
-      })
+    const rows = await db
+      .select({ appointment: appointments, dogName: dogs.name })
       .from(appointments)
       .innerJoin(dogs, eq(appointments.dogId, dogs.id))
       .where(
         and(
-          eq(dogs.userId, userId),
+          inArray(appointments.dogId, this.accessibleDogIds(userId)),
           eq(appointments.status, "scheduled"),
           gte(appointments.scheduledAt, new Date())
         )
       )
       .orderBy(appointments.scheduledAt);
 
-    return result;
+    return rows.map((row) => ({ ...row.appointment, dogName: row.dogName }));
+  }
+
+  async getUserAppointmentsSince(userId: string, since: Date): Promise<(Appointment & { dogName: string })[]> {
+    const rows = await db
+      .select({ appointment: appointments, dogName: dogs.name })
+      .from(appointments)
+      .innerJoin(dogs, eq(appointments.dogId, dogs.id))
+      .where(
+        and(
+          inArray(appointments.dogId, this.accessibleDogIds(userId)),
+          gte(appointments.scheduledAt, since)
+        )
+      )
+      .orderBy(appointments.scheduledAt);
+    return rows.map((row) => ({ ...row.appointment, dogName: row.dogName }));
+  }
+
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  // Subquery of active dog ids the user owns or is a household member of
+  private accessibleDogIds(userId: string) {
+    return db
+      .select({ id: dogs.id })
+      .from(dogs)
+      .leftJoin(dogMembers, and(eq(dogMembers.dogId, dogs.id), eq(dogMembers.userId, userId)))
+      .where(
+        and(
+          eq(dogs.isActive, true),
+          or(eq(dogs.userId, userId), eq(dogMembers.userId, userId))
+        )
+      );
   }
 
   async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
@@ -233,6 +914,330 @@ export class DatabaseStorage implements IStorage {
     return updatedAppointment;
   }
 
+  async deleteAppointment(id: string): Promise<void> {
+    await db.delete(appointments).where(eq(appointments.id, id));
+  }
+
+  // Timeline operations
+  async getDogTimeline(
+    dogId: string,
+    options: { types: TimelineEventType[]; cursor?: TimelineCursor; limit: number }
+  ): Promise<{ events: TimelineEvent[]; nextCursor: TimelineCursor | null }> {
+    // One (type, id, occurred_at) row per event from each source table
+    const sources: Record<TimelineEventType, SQL> = {
+      health_record: sql`select 'health_record' as type, ${healthRecords.id} as id, coalesce(${healthRecords.recordedAt}, ${healthRecords.createdAt}) as occurred_at
+        from ${healthRecords} where ${healthRecords.dogId} = ${dogId}`,
+      // Weights saved without a date can't be placed on the timeline
+      weight: sql`select 'weight' as type, ${weightRecords.id} as id, ${weightRecords.recordedAt} as occurred_at
+        from ${weightRecords} where ${weightRecords.dogId} = ${dogId} and ${weightRecords.recordedAt} is not null`,
+      vaccination: sql`select 'vaccination' as type, ${vaccinations.id} as id, ${vaccinations.administeredAt} as occurred_at
+        from ${vaccinations} where ${vaccinations.dogId} = ${dogId}`,
+      // Deleting a medication only deactivates it, so deleted medications are
+      // filtered out here, and their dose logs are hidden along with them
+      medication: sql`select 'medication' as type, ${medications.id} as id, coalesce(${medications.startDate}::timestamp, ${medications.createdAt}) as occurred_at
+        from ${medications} where ${medications.dogId} = ${dogId} and ${medications.isActive} = true`,
+      medication_log: sql`select 'medication_log' as type, ${medicationLogs.id} as id, coalesce(${medicationLogs.givenAt}, ${medicationLogs.createdAt}) as occurred_at
+        from ${medicationLogs} inner join ${medications} on ${medicationLogs.medicationId} = ${medications.id}
+        where ${medications.dogId} = ${dogId} and ${medications.isActive} = true`,
+      appointment: sql`select 'appointment' as type, ${appointments.id} as id, ${appointments.scheduledAt} as occurred_at
+        from ${appointments} where ${appointments.dogId} = ${dogId}`,
+    };
+
+    const { types, cursor, limit } = options;
+    const union = sql.join(types.map((type) => sources[type]), sql` union all `);
+    const after = cursor
+      ? sql`where (occurred_at, type, id) < (${cursor.at}::timestamp, ${cursor.type}, ${cursor.id})`
+      : sql``;
+    // Fetch one extra row to know whether another page follows
+    const { rows } = await db.execute<{ type: TimelineEventType; id: string; at: string }>(sql`
+      select type, id, occurred_at::text as at from (${union}) as events
+      ${after}
+      order by occurred_at desc, type desc, id desc
+      limit ${limit + 1}
+    `);
+    const page = rows.slice(0, limit);
+
+    const idsOf = (type: TimelineEventType) => page.filter((row) => row.type === type).map((row) => row.id);
+    const load = async <T extends { id: string }>(type: TimelineEventType, query: (ids: string[]) => Promise<T[]>) => {
+      const ids = idsOf(type);
+      return new Map((ids.length > 0 ? await query(ids) : []).map((row) => [row.id, row]));
+    };
+    const [records, weights, vaccinationRows, medicationRows, logs, appointmentRows] = await Promise.all([
+      load("health_record", (ids) => db.select().from(healthRecords).where(inArray(healthRecords.id, ids))),
+      load("weight", (ids) => db.select().from(weightRecords).where(inArray(weightRecords.id, ids))),
+      load("vaccination", (ids) => db.select().from(vaccinations).where(inArray(vaccinations.id, ids))),
+      load("medication", (ids) => db.select().from(medications).where(inArray(medications.id, ids))),
+      load("medication_log", async (ids) => {
+        const rows = await db
+          .select({ log: medicationLogs, medicationName: medications.name })
+          .from(medicationLogs)
+          .innerJoin(medications, eq(medicationLogs.medicationId, medications.id))
+          .where(inArray(medicationLogs.id, ids));
+        return rows.map((row) => ({ ...row.log, medicationName: row.medicationName }));
+      }),
+      load("appointment", (ids) => db.select().from(appointments).where(inArray(appointments.id, ids))),
+    ]);
+
+    const events: TimelineEvent[] = [];
+    for (const row of page) {
+      switch (row.type) {
+        case "health_record": {
+          const data = records.get(row.id);
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: data.recordedAt ?? data.createdAt!, data });
+          break;
+        }
+        case "weight": {
+          const data = weights.get(row.id);
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: data.recordedAt!, data });
+          break;
+        }
+        case "vaccination": {
+          const data = vaccinationRows.get(row.id);
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: data.administeredAt, data });
+          break;
+        }
+        case "medication": {
+          const data = medicationRows.get(row.id);
+          const startedAt = data?.startDate ? new Date(`${data.startDate}T00:00:00Z`) : data?.createdAt;
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: startedAt!, data });
+          break;
+        }
+        case "medication_log": {
+          const data = logs.get(row.id);
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: data.givenAt ?? data.createdAt!, data });
+          break;
+        }
+        case "appointment": {
+          const data = appointmentRows.get(row.id);
+          if (data) events.push({ type: row.type, id: row.id, occurredAt: data.scheduledAt, data });
+          break;
+        }
+      }
+    }
+
+    const last = page[page.length - 1];
+    return {
+      events,
+      nextCursor: rows.length > limit ? { at: last.at, type: last.type, id: last.id } : null,
+    };
+  }
+
+  // Scheduled appointments whose time has passed without being completed or cancelled
+  async getUserAppointmentsAwaitingOutcome(userId: string): Promise<(Appointment & { dogName: string })[]> {
+    const rows = await db
+      .select({ appointment: appointments, dogName: dogs.name })
+      .from(appointments)
+      .innerJoin(dogs, eq(appointments.dogId, dogs.id))
+      .where(
+        and(
+          inArray(appointments.dogId, this.accessibleDogIds(userId)),
+          eq(appointments.status, "scheduled"),
+          lte(appointments.scheduledAt, new Date())
+        )
+      )
+      .orderBy(desc(appointments.scheduledAt));
+    return rows.map((row) => ({ ...row.appointment, dogName: row.dogName }));
+  }
+
+  // Records the visit outcome and keeps the linked health record in step with it
+  async completeAppointment(id: string, outcome: AppointmentOutcome): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx.select().from(appointments).where(eq(appointments.id, id));
+      const recordFields = {
+        title: `Vet visit: ${appointment.appointmentType} at ${appointment.clinicName}`,
+        description: outcome.diagnosis ?? null,
+        vetNotes: outcome.outcomeNotes ?? null,
+        recordedAt: appointment.scheduledAt,
+      };
+
+      let healthRecordId = appointment.healthRecordId;
+      if (healthRecordId) {
+        await tx.update(healthRecords).set(recordFields).where(eq(healthRecords.id, healthRecordId));
+      } else {
+        const [record] = await tx
+          .insert(healthRecords)
+          .values({ ...recordFields, dogId: appointment.dogId, type: "checkup" })
+          .returning();
+        healthRecordId = record.id;
+      }
+
+      const [completed] = await tx
+        .update(appointments)
+        .set({
+          status: "completed",
+          diagnosis: outcome.diagnosis ?? null,
+          outcomeNotes: outcome.outcomeNotes ?? null,
+          cost: outcome.cost != null ? outcome.cost.toFixed(2) : null,
+          documentUrls: outcome.documentUrls,
+          healthRecordId,
+          completedAt: appointment.completedAt ?? new Date(),
+        })
+        .where(eq(appointments.id, id))
+        .returning();
+      return completed;
+    });
+  }
+
+  async createFollowUpAppointment(
+    original: Appointment,
+    details: Pick<InsertAppointment, "scheduledAt" | "appointmentType" | "notes">
+  ): Promise<Appointment> {
+    const [followUp] = await db
+      .insert(appointments)
+      .values({
+        dogId: original.dogId,
+        clinicId: original.clinicId,
+        veterinarianId: original.veterinarianId,
+        vetName: original.vetName,
+        clinicName: original.clinicName,
+        clinicAddress: original.clinicAddress,
+        clinicPhone: original.clinicPhone,
+        appointmentType: details.appointmentType,
+        scheduledAt: details.scheduledAt,
+        notes: details.notes ?? null,
+        status: "scheduled",
+        followUpOfId: original.id,
+      })
+      .returning();
+    return followUp;
+  }
+
+  // Appointments still carrying only free-text clinic details, with their dog's owner
+  async getUnlinkedAppointments(): Promise<(Appointment & { ownerId: string })[]> {
+    const rows = await db
+      .select({ appointment: appointments, ownerId: dogs.userId })
+      .from(appointments)
+      .innerJoin(dogs, eq(appointments.dogId, dogs.id))
+      .where(isNull(appointments.clinicId))
+      .orderBy(appointments.createdAt);
+    return rows.map((row) => ({ ...row.appointment, ownerId: row.ownerId }));
+  }
+
+  // Clinic directory operations
+  // Clinics the user owns, plus any their household's dogs have visited
+  private accessibleClinicCondition(userId: string) {
+    return or(
+      eq(clinics.userId, userId),
+      inArray(
+        clinics.id,
+        db
+          .select({ id: appointments.clinicId })
+          .from(appointments)
+          .where(inArray(appointments.dogId, this.accessibleDogIds(userId)))
+      )
+    );
+  }
+
+  async getAccessibleClinics(userId: string): Promise<Clinic[]> {
+    return await db
+      .select()
+      .from(clinics)
+      .where(this.accessibleClinicCondition(userId))
+      .orderBy(clinics.name);
+  }
+
+  async getAccessibleClinic(id: string, userId: string): Promise<Clinic | undefined> {
+    const [clinic] = await db
+      .select()
+      .from(clinics)
+      .where(and(eq(clinics.id, id), this.accessibleClinicCondition(userId)));
+    return clinic;
+  }
+
+  // Case- and whitespace-insensitive match used to deduplicate free-text entries
+  async findClinic(ownerId: string, name: string, address?: string | null): Promise<Clinic | undefined> {
+    const [clinic] = await db
+      .select()
+      .from(clinics)
+      .where(
+        and(
+          eq(clinics.userId, ownerId),
+          sql`lower(trim(${clinics.name})) = lower(trim(${name}))`,
+          sql`coalesce(lower(trim(${clinics.address})), '') = lower(trim(${address ?? ""}))`
+        )
+      )
+      .limit(1);
+    return clinic;
+  }
+
+  async createClinic(clinic: InsertClinic): Promise<Clinic> {
+    const [newClinic] = await db.insert(clinics).values(clinic).returning();
+    return newClinic;
+  }
+
+  // Keeps the snapshot on linked appointments in step with the directory entry
+  async updateClinic(id: string, updates: Partial<InsertClinic>): Promise<Clinic> {
+    return await db.transaction(async (tx) => {
+      const [updatedClinic] = await tx
+        .update(clinics)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(clinics.id, id))
+        .returning();
+      await tx
+        .update(appointments)
+        .set({
+          clinicName: updatedClinic.name,
+          clinicAddress: updatedClinic.address,
+          clinicPhone: updatedClinic.phone,
+        })
+        .where(eq(appointments.clinicId, id));
+      return updatedClinic;
+    });
+  }
+
+  async deleteClinic(id: string): Promise<void> {
+    await db.delete(clinics).where(eq(clinics.id, id));
+  }
+
+  async getClinicVisits(clinicId: string, userId: string): Promise<(Appointment & { dogName: string })[]> {
+    const rows = await db
+      .select({ appointment: appointments, dogName: dogs.name })
+      .from(appointments)
+      .innerJoin(dogs, eq(appointments.dogId, dogs.id))
+      .where(
+        and(
+          eq(appointments.clinicId, clinicId),
+          inArray(appointments.dogId, this.accessibleDogIds(userId))
+        )
+      )
+      .orderBy(desc(appointments.scheduledAt));
+    return rows.map((row) => ({ ...row.appointment, dogName: row.dogName }));
+  }
+
+  async getClinicVeterinarians(clinicIds: string[]): Promise<Veterinarian[]> {
+    if (clinicIds.length === 0) return [];
+    return await db
+      .select()
+      .from(veterinarians)
+      .where(inArray(veterinarians.clinicId, clinicIds))
+      .orderBy(veterinarians.name);
+  }
+
+  async getVeterinarian(id: string): Promise<Veterinarian | undefined> {
+    const [veterinarian] = await db.select().from(veterinarians).where(eq(veterinarians.id, id));
+    return veterinarian;
+  }
+
+  async findVeterinarian(ownerId: string, clinicId: string | null, name: string): Promise<Veterinarian | undefined> {
+    const [veterinarian] = await db
+      .select()
+      .from(veterinarians)
+      .where(
+        and(
+          eq(veterinarians.userId, ownerId),
+          clinicId ? eq(veterinarians.clinicId, clinicId) : isNull(veterinarians.clinicId),
+          sql`lower(trim(${veterinarians.name})) = lower(trim(${name}))`
+        )
+      )
+      .limit(1);
+    return veterinarian;
+  }
+
+  async createVeterinarian(veterinarian: InsertVeterinarian): Promise<Veterinarian> {
+    const [newVeterinarian] = await db.insert(veterinarians).values(veterinarian).returning();
+    return newVeterinarian;
+  }
+
   // Weight tracking operations
   async getDogWeightRecords(dogId: string, startDate?: Date, endDate?: Date): Promise<WeightRecord[]> {
     let whereConditions = [eq(weightRecords.dogId, dogId)];
@@ -251,11 +1256,29 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(weightRecords.recordedAt));
   }
 
+  async getWeightRecord(id: string): Promise<WeightRecord | undefined> {
+    const [record] = await db.select().from(weightRecords).where(eq(weightRecords.id, id));
+    return record;
+  }
+
   async createWeightRecord(record: InsertWeightRecord): Promise<WeightRecord> {
     const [newRecord] = await db.insert(weightRecords).values(record).returning();
     return newRecord;
   }
 
+  async updateWeightRecord(id: string, updates: Partial<InsertWeightRecord>): Promise<WeightRecord> {
+    const [updatedRecord] = await db
+      .update(weightRecords)
+      .set(updates)
+      .where(eq(weightRecords.id, id))
+      .returning();
+    return updatedRecord;
+  }
+
+  async deleteWeightRecord(id: string): Promise<void> {
+    await db.delete(weightRecords).where(eq(weightRecords.id, id));
+  }
+
   // Vaccination operations
   async getDogVaccinations(dogId: string): Promise<Vaccination[]> {
     return await db
@@ -265,10 +1288,411 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(vaccinations.administeredAt));
   }
 
+  async getUserVaccinations(userId: string): Promise<(Vaccination & { dogName: string })[]> {
+    const rows = await db
+      .select({ vaccination: vaccinations, dogName: dogs.name })
+      .from(vaccinations)
+      .innerJoin(dogs, eq(vaccinations.dogId, dogs.id))
+      .where(inArray(vaccinations.dogId, this.accessibleDogIds(userId)))
+      .orderBy(desc(vaccinations.administeredAt));
+    return rows.map((row) => ({ ...row.vaccination, dogName: row.dogName }));
+  }
+
+  async getVaccination(id: string): Promise<Vaccination | undefined> {
+    const [vaccination] = await db.select().from(vaccinations).where(eq(vaccinations.id, id));
+    return vaccination;
+  }
+
   async createVaccination(vaccination: InsertVaccination): Promise<Vaccination> {
     const [newVaccination] = await db.insert(vaccinations).values(vaccination).returning();
     return newVaccination;
   }
+
+  async updateVaccination(id: string, updates: Partial<InsertVaccination>): Promise<Vaccination> {
+    const [updatedVaccination] = await db
+      .update(vaccinations)
+      .set(updates)
+      .where(eq(vaccinations.id, id))
+      .returning();
+    return updatedVaccination;
+  }
+
+  async deleteVaccination(id: string): Promise<void> {
+    await db.delete(vaccinations).where(eq(vaccinations.id, id));
+  }
+
+  // Bulk import
+  async importDogRecords(records: DogRecordImport): Promise<number> {
+    return await db.transaction(async (tx) => {
+      let imported = 0;
+      if (records.weightRecords.length > 0) {
+        const rows = await tx.insert(weightRecords).values(records.weightRecords).returning({ id: weightRecords.id });
+        imported += rows.length;
+      }
+      if (records.vaccinations.length > 0) {
+        const rows = await tx.insert(vaccinations).values(records.vaccinations).returning({ id: vaccinations.id });
+        imported += rows.length;
+      }
+      if (records.healthRecords.length > 0) {
+        const rows = await tx.insert(healthRecords).values(records.healthRecords).returning({ id: healthRecords.id });
+        imported += rows.length;
+      }
+      return imported;
+    });
+  }
+
+  // Reminder sources
+  async getMedicationsDueBetween(from: Date, until: Date): Promise<(Medication & { dogName: string })[]> {
+    const rows = await db
+      .select({ medication: medications, dogName: dogs.name })
+      .from(medications)
+      .innerJoin(dogs, eq(medications.dogId, dogs.id))
+      .where(
+        and(
+          eq(medications.isActive, true),
+          eq(dogs.isActive, true),
+          gte(medications.nextDueDate, from),
+          lte(medications.nextDueDate, until)
+        )
+      );
+    return rows.map((row) => ({ ...row.medication, dogName: row.dogName }));
+  }
+
+  async getVaccinationsDueBetween(from: string, until: string): Promise<(Vaccination & { dogName: string })[]> {
+    const rows = await db
+      .select({ vaccination: vaccinations, dogName: dogs.name })
+      .from(vaccinations)
+      .innerJoin(dogs, eq(vaccinations.dogId, dogs.id))
+      .where(
+        and(
+          eq(dogs.isActive, true),
+          gte(vaccinations.nextDueDate, from),
+          lte(vaccinations.nextDueDate, until)
+        )
+      );
+    return rows.map((row) => ({ ...row.vaccination, dogName: row.dogName }));
+  }
+
+  async getAppointmentsBetween(from: Date, until: Date): Promise<(Appointment & { dogName: string })[]> {
+    const rows = await db
+      .select({ appointment: appointments, dogName: dogs.name })
+      .from(appointments)
+      .innerJoin(dogs, eq(appointments.dogId, dogs.id))
+      .where(
+        and(
+          eq(dogs.isActive, true),
+          eq(appointments.status, "scheduled"),
+          gte(appointments.scheduledAt, from),
+          lte(appointments.scheduledAt, until)
+        )
+      );
+    return rows.map((row) => ({ ...row.appointment, dogName: row.dogName }));
+  }
+
+  async getDogRecipients(dogIds: string[]): Promise<DogRecipient[]> {
+    if (dogIds.length === 0) return [];
+    const owners = await db
+      .select({ dogId: dogs.id, userId: users.id, email: users.email })
+      .from(dogs)
+      .innerJoin(users, eq(dogs.userId, users.id))
+      .where(inArray(dogs.id, dogIds));
+    const members = await db
+      .select({ dogId: dogMembers.dogId, userId: users.id, role: dogMembers.role, email: users.email })
+      .from(dogMembers)
+      .innerJoin(users, eq(dogMembers.userId, users.id))
+      .where(inArray(dogMembers.dogId, dogIds));
+    return [
+      ...owners.map((owner) => ({ ...owner, role: "owner" as DogRole })),
+      ...members.map((member) => ({ ...member, role: member.role as DogRole })),
+    ];
+  }
+
+  // Notification operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async getNotificationPreferencesForUsers(userIds: string[]): Promise<NotificationPreferences[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async upsertNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async createNotifications(entries: InsertNotification[]): Promise<Notification[]> {
+    if (entries.length === 0) return [];
+    return await db
+      .insert(notifications)
+      .values(entries)
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+  }
+
+  async getUserNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {},
+  ): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.dismissedAt)];
+    if (options.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit ?? 50);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          isNull(notifications.readAt),
+          isNull(notifications.dismissedAt)
+        )
+      );
+    return result?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async dismissNotification(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({
+        dismissedAt: new Date(),
+        readAt: sql`coalesce(${notifications.readAt}, now())`,
+        emailPending: false,
+        pushPending: false,
+      })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async getPendingEmailNotifications(since: Date): Promise<(Notification & { email: string | null })[]> {
+    const rows = await db
+      .select({ notification: notifications, email: users.email })
+      .from(notifications)
+      .innerJoin(users, eq(notifications.userId, users.id))
+      .where(and(eq(notifications.emailPending, true), gte(notifications.createdAt, since)))
+      .orderBy(notifications.createdAt);
+    return rows.map((row) => ({ ...row.notification, email: row.email }));
+  }
+
+  // Marks notifications as emailed and returns only the ones this caller claimed,
+  // so concurrent runners never send the same email twice
+  async claimNotificationsForEmail(ids: string[]): Promise<Notification[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .update(notifications)
+      .set({ emailPending: false, emailedAt: new Date() })
+      .where(and(inArray(notifications.id, ids), eq(notifications.emailPending, true)))
+      .returning();
+  }
+
+  async getPendingPushNotifications(since: Date): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.pushPending, true), gte(notifications.createdAt, since)))
+      .orderBy(notifications.createdAt);
+  }
+
+  async claimNotificationsForPush(ids: string[]): Promise<Notification[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .update(notifications)
+      .set({ pushPending: false, pushedAt: new Date() })
+      .where(and(inArray(notifications.id, ids), eq(notifications.pushPending, true)))
+      .returning();
+  }
+
+  // Push subscription operations
+  async savePushSubscription(
+    userId: string,
+    subscription: PushSubscriptionPayload,
+    userAgent?: string,
+  ): Promise<PushSubscription> {
+    // A browser keeps its endpoint across logins, so the latest user to subscribe owns it
+    const values = {
+      userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      userAgent,
+    };
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: values })
+      .returning();
+    return saved;
+  }
+
+  async getPushSubscriptionsForUsers(userIds: string[]): Promise<PushSubscription[]> {
+    if (userIds.length === 0) return [];
+    return await db.select().from(pushSubscriptions).where(inArray(pushSubscriptions.userId, userIds));
+  }
+
+  async deletePushSubscription(endpoint: string, userId?: string): Promise<void> {
+    const conditions = [eq(pushSubscriptions.endpoint, endpoint)];
+    if (userId) {
+      conditions.push(eq(pushSubscriptions.userId, userId));
+    }
+    await db.delete(pushSubscriptions).where(and(...conditions));
+  }
+
+  // Data export operations
+  async createDataExport(userId: string): Promise<DataExport> {
+    const [created] = await db.insert(dataExports).values({ userId }).returning();
+    return created;
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    const [dataExport] = await db.select().from(dataExports).where(eq(dataExports.id, id));
+    return dataExport;
+  }
+
+  async getLatestDataExport(userId: string): Promise<DataExport | undefined> {
+    const [dataExport] = await db
+      .select()
+      .from(dataExports)
+      .where(eq(dataExports.userId, userId))
+      .orderBy(desc(dataExports.createdAt))
+      .limit(1);
+    return dataExport;
+  }
+
+  // Marks the oldest pending export as running; SKIP LOCKED keeps two workers from claiming the same one
+  async claimPendingDataExport(): Promise<DataExport | undefined> {
+    const [claimed] = await db
+      .update(dataExports)
+      .set({ status: "running", startedAt: new Date() })
+      .where(
+        eq(
+          dataExports.id,
+          sql`(select ${dataExports.id} from ${dataExports} where ${dataExports.status} = 'pending'
+            order by ${dataExports.createdAt} limit 1 for update skip locked)`
+        )
+      )
+      .returning();
+    return claimed;
+  }
+
+  async updateDataExport(
+    id: string,
+    updates: Partial<Omit<DataExport, "id" | "userId" | "createdAt">>,
+  ): Promise<DataExport> {
+    const [updated] = await db.update(dataExports).set(updates).where(eq(dataExports.id, id)).returning();
+    return updated;
+  }
+
+  async failStaleDataExports(startedBefore: Date): Promise<DataExport[]> {
+    return await db
+      .update(dataExports)
+      .set({ status: "failed", error: "Export timed out", completedAt: new Date() })
+      .where(and(eq(dataExports.status, "running"), lte(dataExports.startedAt, startedBefore)))
+      .returning();
+  }
+
+  async getExpiredDataExports(now: Date): Promise<DataExport[]> {
+    return await db
+      .select()
+      .from(dataExports)
+      .where(and(eq(dataExports.status, "ready"), lte(dataExports.expiresAt, now)));
+  }
+
+  async getUserExportData(userId: string): Promise<UserExportData | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const ownedDogs = await db.select().from(dogs).where(eq(dogs.userId, userId)).orderBy(dogs.createdAt);
+    const dogIds = ownedDogs.map((dog) => dog.id);
+    const [ownedClinics, ownedVeterinarians] = await Promise.all([
+      db.select().from(clinics).where(eq(clinics.userId, userId)),
+      db.select().from(veterinarians).where(eq(veterinarians.userId, userId)),
+    ]);
+    if (dogIds.length === 0) {
+      return {
+        user,
+        dogs: [],
+        healthRecords: [],
+        medications: [],
+        medicationLogs: [],
+        appointments: [],
+        weightRecords: [],
+        vaccinations: [],
+        clinics: ownedClinics,
+        veterinarians: ownedVeterinarians,
+      };
+    }
+
+    const [dogHealthRecords, dogMedications, dogAppointments, dogWeightRecords, dogVaccinations] = await Promise.all([
+      db.select().from(healthRecords).where(inArray(healthRecords.dogId, dogIds)).orderBy(healthRecords.recordedAt),
+      db.select().from(medications).where(inArray(medications.dogId, dogIds)).orderBy(medications.createdAt),
+      db.select().from(appointments).where(inArray(appointments.dogId, dogIds)).orderBy(appointments.scheduledAt),
+      db.select().from(weightRecords).where(inArray(weightRecords.dogId, dogIds)).orderBy(weightRecords.recordedAt),
+      db.select().from(vaccinations).where(inArray(vaccinations.dogId, dogIds)).orderBy(vaccinations.administeredAt),
+    ]);
+    const medicationIds = dogMedications.map((medication) => medication.id);
+    const dogMedicationLogs =
+      medicationIds.length > 0
+        ? await db
+            .select()
+            .from(medicationLogs)
+            .where(inArray(medicationLogs.medicationId, medicationIds))
+            .orderBy(medicationLogs.givenAt)
+        : [];
+
+    return {
+      user,
+      dogs: ownedDogs,
+      healthRecords: dogHealthRecords,
+      medications: dogMedications,
+      medicationLogs: dogMedicationLogs,
+      appointments: dogAppointments,
+      weightRecords: dogWeightRecords,
+      vaccinations: dogVaccinations,
+      clinics: ownedClinics,
+      veterinarians: ownedVeterinarians,
+    };
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// toxinExposure.ts loads storage for dogWeightForDosing; the database pool is
+// never queried by assessToxinExposure, but the module needs a connection string to load
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { ToxinExposureError, assessToxinExposure } = await import("./toxinExposure");
+
+function weighing(weightLbs: number) {
+  return { weightLbs, recordedAt: new Date("2026-03-01T00:00:00Z") };
+}
+
+test("works out the dose per kilogram from the unit and the dog's weight", () => {
+  // 2 oz of milk chocolate holds 116 mg of theobromine; 10 lb is 4.536 kg
+  const result = assessToxinExposure("chocolate_milk", "oz", 2, weighing(10));
+  assert.equal(result.doseMg, 116);
+  assert.equal(result.exposureMgPerKg, 25.57);
+  assert.equal(result.weightRecordedAt, "2026-03-01T00:00:00.000Z");
+
+  const inGrams = assessToxinExposure("chocolate_milk", "g", 56.7, weighing(10));
+  assert.equal(inGrams.doseMg, 116);
+});
+
+test("takes the highest threshold the dose reaches", () => {
+  const mild = assessToxinExposure("chocolate_milk", "oz", 2, weighing(10));
+  assert.equal(mild.severity, "mild");
+  assert.equal(mild.urgencyLevel, "urgent");
+
+  // 600 mg over 9.07 kg is 66 mg/kg, past the 60 mg/kg severe threshold
+  const severe = assessToxinExposure("chocolate_dark", "oz", 4, weighing(20));
+  assert.equal(severe.severity, "severe");
+  assert.equal(severe.expectedEffect, "Tremors and seizures; can be fatal");
+
+  // 220 mg/kg of xylitol is past the 100 mg/kg step but short of the liver failure one
+  const xylitol = assessToxinExposure("xylitol", "gum", 1, weighing(10));
+  assert.equal(xylitol.severity, "severe");
+  assert.equal(xylitol.expectedEffect, "Dangerous drop in blood sugar within 10–60 minutes");
+});
+
+test("a dose below every threshold is low risk", () => {
+  const result = assessToxinExposure("chocolate_white", "oz", 1, weighing(50));
+  assert.equal(result.severity, "none");
+  assert.equal(result.urgencyLevel, "non-urgent");
+  assert.equal(result.expectedEffect, "Below the amounts known to cause harm");
+  assert.equal(result.immediateActions[0], "White chocolate is rarely toxic, but its fat can still upset the stomach or pancreas");
+});
+
+test("substances with no safe amount are never below their minimum severity", () => {
+  const result = assessToxinExposure("grapes", "grapes", 1, weighing(80));
+  assert.equal(result.severity, "moderate");
+  assert.equal(result.urgencyLevel, "emergency");
+  assert.equal(result.expectedEffect, "No amount is known to be safe");
+  assert.equal(result.immediateActions[0], "Do not make your dog vomit unless a vet tells you to");
+});
+
+test("rejects unknown substances, mismatched units and weights of zero", () => {
+  assert.throws(() => assessToxinExposure("bleach", "g", 1, weighing(10)), ToxinExposureError);
+  assert.throws(() => assessToxinExposure("grapes", "oz", 1, weighing(10)), ToxinExposureError);
+  assert.throws(() => assessToxinExposure("grapes", "grapes", 1, weighing(0)), ToxinExposureError);
+});
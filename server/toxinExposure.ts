@@ -0,0 +1,96 @@
+import type { Dog } from "@shared/schema";
+import type { TriageUrgencyLevel } from "@shared/triage";
+import {
+  TOXIN_DATABASE_VERSION,
+  getToxinDefinition,
+  toxinSeverities,
+  type ToxinExposureAssessment,
+  type ToxinSeverity,
+} from "@shared/toxins";
+import { storage } from "./storage";
+
+// Works out how much of a toxin a dog has taken in per kilogram of body weight
+// and how that compares with the doses known to cause harm.
+
+const KG_PER_LB = 0.45359237;
+
+export class ToxinExposureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToxinExposureError";
+    Object.setPrototypeOf(this, ToxinExposureError.prototype);
+  }
+}
+
+const urgencyBySeverity: Record<ToxinSeverity, TriageUrgencyLevel> = {
+  none: "non-urgent",
+  mild: "urgent",
+  moderate: "emergency",
+  severe: "emergency",
+};
+
+const actionBySeverity: Record<ToxinSeverity, string> = {
+  none: "This is below the amount known to cause harm. Watch your dog for the next 24 hours and call your vet if any signs appear.",
+  mild: "Call your vet or a pet poison helpline now. Mild signs are likely and they can advise whether treatment is needed.",
+  moderate: "Take your dog to a vet now. Treatment such as making your dog vomit works best within 1–2 hours of eating it.",
+  severe: "Go to an emergency vet immediately. This is a potentially life-threatening amount.",
+};
+
+// Dosing uses the most recent weigh-in, falling back to the weight on the dog's profile
+export async function dogWeightForDosing(dog: Dog): Promise<{ weightLbs: number; recordedAt: Date | null } | undefined> {
+  const [latest] = await storage.getDogWeightRecords(dog.id);
+  if (latest) {
+    return { weightLbs: parseFloat(latest.weight), recordedAt: latest.recordedAt };
+  }
+  return dog.weight ? { weightLbs: parseFloat(dog.weight), recordedAt: null } : undefined;
+}
+
+function higherSeverity(a: ToxinSeverity, b: ToxinSeverity): ToxinSeverity {
+  return toxinSeverities.indexOf(a) >= toxinSeverities.indexOf(b) ? a : b;
+}
+
+export function assessToxinExposure(
+  toxinId: string,
+  unitId: string,
+  amount: number,
+  weight: { weightLbs: number; recordedAt: Date | null },
+): ToxinExposureAssessment {
+  const toxin = getToxinDefinition(toxinId);
+  if (!toxin) {
+    throw new ToxinExposureError("Unknown substance");
+  }
+  const unit = toxin.units.find((candidate) => candidate.id === unitId);
+  if (!unit) {
+    throw new ToxinExposureError(`${toxin.name} can't be measured in that unit`);
+  }
+  if (!(weight.weightLbs > 0)) {
+    throw new ToxinExposureError("The dog's weight must be above zero");
+  }
+
+  const doseMg = amount * unit.mgPerUnit;
+  const exposureMgPerKg = doseMg / (weight.weightLbs * KG_PER_LB);
+  const reached = toxin.thresholds.filter((threshold) => exposureMgPerKg >= threshold.mgPerKg).pop();
+  const severity = higherSeverity(reached?.severity ?? "none", toxin.minimumSeverity ?? "none");
+
+  return {
+    toxinId: toxin.id,
+    toxinName: toxin.name,
+    compound: toxin.compound,
+    amount,
+    unitLabel: unit.label,
+    weightLbs: weight.weightLbs,
+    weightRecordedAt: weight.recordedAt ? weight.recordedAt.toISOString() : null,
+    doseMg: Math.round(doseMg * 100) / 100,
+    exposureMgPerKg: Math.round(exposureMgPerKg * 100) / 100,
+    severity,
+    urgencyLevel: urgencyBySeverity[severity],
+    expectedEffect:
+      reached?.effect ??
+      (toxin.minimumSeverity ? "No amount is known to be safe" : "Below the amounts known to cause harm"),
+    recommendedAction: actionBySeverity[severity],
+    immediateActions: severity === "none" ? toxin.advice : ["Do not make your dog vomit unless a vet tells you to", ...toxin.advice],
+    signs: toxin.signs,
+    thresholds: toxin.thresholds,
+    databaseVersion: TOXIN_DATABASE_VERSION,
+  };
+}
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { EmergencyAssessmentInput } from "./aiProvider";
+import { bodyTemperatureF } from "./triageRules";
+
+// triage.ts reaches the database module through storage, which refuses to load
+// without a connection string; the pool only connects once queried, and runTriage never queries
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { runTriage } = await import("./triage");
+
+function input(overrides: Partial<EmergencyAssessmentInput>): EmergencyAssessmentInput {
+  return {
+    symptoms: [],
+    duration: "1 hour",
+    severity: "mild",
+    dogInfo: { breed: "Beagle" },
+    currentBehavior: "",
+    ...overrides,
+  };
+}
+
+function matchedRules(behavior: string): string[] {
+  return runTriage(input({ currentBehavior: behavior })).matchedRules.map((rule) => rule.id);
+}
+
+test("keywords fire on their inflections", () => {
+  assert.deepEqual(matchedRules("He ate some grapes"), ["toxin_ingestion"]);
+  assert.deepEqual(matchedRules("I think she was poisoned"), ["toxin_ingestion"]);
+  assert.deepEqual(matchedRules("Convulsing on the floor"), ["seizure"]);
+  assert.deepEqual(matchedRules("Keeps collapsing"), ["collapse"]);
+});
+
+test("negated or embedded keywords don't raise an emergency", () => {
+  for (const behavior of [
+    "Chewed a non-toxic toy",
+    "The vet said the plant is not toxic",
+    "Ate a piece of grapefruit peel",
+    "Acting in a way befitting a puppy",
+    "No seizures since yesterday",
+  ]) {
+    const result = runTriage(input({ currentBehavior: behavior }));
+    assert.equal(result.urgencyLevel, "non-urgent", behavior);
+    assert.deepEqual(result.matchedRules, [], behavior);
+  }
+});
+
+test("a negation only covers the keyword right after it", () => {
+  assert.deepEqual(matchedRules("Not eating, and ate chocolate this morning"), ["toxin_ingestion"]);
+});
+
+test("the most urgent matched rule sets the level", () => {
+  const result = runTriage(
+    input({ currentBehavior: "Swollen belly", vitalSigns: { temperature: "103.5" }, dogInfo: { breed: "Great Dane" } }),
+  );
+  assert.equal(result.urgencyLevel, "emergency");
+  assert.deepEqual(
+    result.matchedRules.map((rule) => rule.id),
+    ["bloat_deep_chested", "fever"],
+  );
+});
+
+test("temperatures are read as °F unless marked or only plausible as °C", () => {
+  const cases: [string | undefined, number | undefined][] = [
+    ["101.5", 101.5],
+    ["101.5°F", 101.5],
+    ["39", 102.2],
+    ["39,5", 103.1],
+    ["40.5 C", 104.9],
+    ["38.6°c", 101.48],
+    ["normal", undefined],
+    [undefined, undefined],
+  ];
+  for (const [value, expected] of cases) {
+    const actual = bodyTemperatureF(value);
+    if (expected === undefined) {
+      assert.equal(actual, undefined, value);
+    } else {
+      assert.ok(Math.abs(actual! - expected) < 1e-9, `${value}: ${actual}`);
+    }
+  }
+});
@@ -0,0 +1,135 @@
+import type { EmergencyAssessment } from "@shared/aiTypes";
+import type { Dog } from "@shared/schema";
+import { findTriageSymptom, type TriageAssessment, type TriageUrgencyLevel } from "@shared/triage";
+import type { EmergencyAssessmentInput } from "./aiProvider";
+import { triageRules, type TriageRule } from "./triageRules";
+import { storage } from "./storage";
+
+// Deterministic emergency triage, and how its answer is combined with the AI's.
+// The rules can only make an assessment more urgent, never less.
+
+const urgencyRank: Record<TriageUrgencyLevel, number> = {
+  "non-urgent": 0,
+  urgent: 1,
+  emergency: 2,
+};
+
+const WATCH_FOR = [
+  "Difficulty breathing or pale, blue or grey gums",
+  "Collapse, seizures or unresponsiveness",
+  "Swollen belly or retching without bringing anything up",
+];
+
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+
+// The owner's report plus what we know about the dog, for the rules and the AI alike
+export async function emergencyTriageInput(
+  dog: Dog,
+  report: Omit<EmergencyAssessmentInput, "dogInfo">,
+): Promise<EmergencyAssessmentInput> {
+  const recentRecords = await storage.getDogHealthRecords(dog.id);
+  return {
+    ...report,
+    dogInfo: {
+      breed: dog.breed,
+      age: dog.birthDate ? Math.floor((Date.now() - new Date(dog.birthDate).getTime()) / YEAR_MS) : undefined,
+      weight: dog.weight ? parseFloat(dog.weight) : undefined,
+      medicalHistory: recentRecords.slice(0, 5).map((record) => `${record.type}: ${record.title}`),
+    },
+  };
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Keywords match from the start of a word through a plain inflection, so "grape"
+// catches "grapes" but not "grapefruit", and "fitting" doesn't fire on "befitting".
+// A keyword right after a negation ("non-toxic", "not toxic", "no seizures") doesn't count.
+const KEYWORD_INFLECTION = "(?:s|es|d|ed|ing|ion|ions|ous|ity)?";
+const KEYWORD_NEGATION = "(?<!\\b(?:non|not|no|never)[\\s-]+)";
+const keywordPatterns = new Map<string, RegExp>();
+
+function mentionsKeyword(text: string, keyword: string): boolean {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    pattern = new RegExp(`${KEYWORD_NEGATION}\\b${escapeRegExp(keyword)}${KEYWORD_INFLECTION}\\b`);
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern.test(text);
+}
+
+function ruleMatches(rule: TriageRule, input: EmergencyAssessmentInput, symptomIds: Set<string>, text: string): boolean {
+  if (rule.appliesTo && !rule.appliesTo(input)) return false;
+  return (
+    (rule.symptoms?.some((id) => symptomIds.has(id)) ?? false) ||
+    (rule.keywords?.some((keyword) => mentionsKeyword(text, keyword)) ?? false) ||
+    (rule.test?.(input) ?? false)
+  );
+}
+
+export function runTriage(input: EmergencyAssessmentInput): TriageAssessment {
+  const symptomIds = new Set<string>();
+  for (const symptom of input.symptoms) {
+    const known = findTriageSymptom(symptom);
+    if (known) symptomIds.add(known.id);
+  }
+  const text = [...input.symptoms, input.currentBehavior, ...Object.values(input.vitalSigns ?? {})]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+
+  const matched = triageRules.rules
+    .filter((rule) => ruleMatches(rule, input, symptomIds, text))
+    .sort((a, b) => urgencyRank[b.urgencyLevel] - urgencyRank[a.urgencyLevel]);
+
+  if (matched.length === 0) {
+    return {
+      urgencyLevel: "non-urgent",
+      timeFrame: "At your next routine vet visit, or sooner if things change",
+      reasoning: "None of the emergency warning signs were reported.",
+      immediateActions: ["Keep an eye on your dog and note any changes", "Call your vet if you are worried"],
+      redFlags: WATCH_FOR,
+      vetRequired: false,
+      rulesVersion: triageRules.version,
+      matchedRules: [],
+    };
+  }
+
+  const [top] = matched;
+  return {
+    urgencyLevel: top.urgencyLevel,
+    timeFrame: top.timeFrame,
+    reasoning: matched.map((rule) => rule.reason).join(" "),
+    immediateActions: unique(matched.flatMap((rule) => rule.immediateActions)),
+    redFlags: unique(matched.map((rule) => rule.redFlag)),
+    vetRequired: true,
+    rulesVersion: triageRules.version,
+    matchedRules: matched.map(({ id, urgencyLevel, reason }) => ({ id, urgencyLevel, reason })),
+  };
+}
+
+// The more urgent side sets the level, time frame and reasoning; on a tie the
+// AI's fuller reasoning is kept. A null AI result means it couldn't be reached.
+export function mergeTriageWithAi(triage: TriageAssessment, ai: EmergencyAssessment | null): TriageAssessment {
+  if (!ai) return { ...triage, aiUrgencyLevel: null, escalatedByRules: false };
+
+  const escalatedByRules = urgencyRank[triage.urgencyLevel] > urgencyRank[ai.urgencyLevel];
+  const lead = escalatedByRules ? triage : ai;
+  return {
+    urgencyLevel: lead.urgencyLevel,
+    timeFrame: lead.timeFrame,
+    reasoning: escalatedByRules
+      ? `${triage.reasoning} The AI rated this ${ai.urgencyLevel}, but these warning signs take priority. ${ai.reasoning}`
+      : ai.reasoning,
+    immediateActions: unique([...lead.immediateActions, ...(escalatedByRules ? ai : triage).immediateActions]),
+    redFlags: unique([...triage.redFlags, ...ai.redFlags]),
+    vetRequired: triage.vetRequired || ai.vetRequired,
+    rulesVersion: triage.rulesVersion,
+    matchedRules: triage.matchedRules,
+    aiUrgencyLevel: ai.urgencyLevel,
+    escalatedByRules,
+  };
+}
@@ -0,0 +1,316 @@
+import type { TriageSymptomId, TriageUrgencyLevel } from "@shared/triage";
+import { toxinCatalog } from "@shared/toxins";
+import type { EmergencyAssessmentInput } from "./aiProvider";
+
+// Red-flag rules for emergency triage. They run before the AI and without it,
+// so an owner gets an answer even when the provider is down. Bump the version
+// whenever a rule is added, removed or changes what it matches, so a reported
+// assessment can be traced back to the rules that produced it.
+
+export interface TriageRule {
+  id: string;
+  urgencyLevel: Exclude<TriageUrgencyLevel, "non-urgent">;
+  timeFrame: string;
+  // One sentence for the assessment's reasoning
+  reason: string;
+  // The warning sign as the owner would describe it
+  redFlag: string;
+  immediateActions: string[];
+  // Catalog symptoms that set the rule off
+  symptoms?: TriageSymptomId[];
+  // Phrases that set it off when found in the symptoms, behavior or vital signs,
+  // matched from the start of a word and allowing a plain inflection ("grapes")
+  keywords?: string[];
+  // Any other way it can be set off, such as a vital sign out of range
+  test?: (input: EmergencyAssessmentInput) => boolean;
+  // Must also hold for the rule to apply at all
+  appliesTo?: (input: EmergencyAssessmentInput) => boolean;
+}
+
+// Breeds prone to gastric dilatation-volvulus (bloat)
+const DEEP_CHESTED_BREEDS = [
+  "akita",
+  "basset hound",
+  "bernese mountain dog",
+  "bloodhound",
+  "borzoi",
+  "boxer",
+  "bullmastiff",
+  "doberman",
+  "german shepherd",
+  "gordon setter",
+  "great dane",
+  "great pyrenees",
+  "greyhound",
+  "irish setter",
+  "irish wolfhound",
+  "mastiff",
+  "newfoundland",
+  "rottweiler",
+  "saint bernard",
+  "st. bernard",
+  "standard poodle",
+  "weimaraner",
+];
+
+const BLOAT_KEYWORDS = [
+  "bloat",
+  "swollen belly",
+  "swollen abdomen",
+  "distended",
+  "hard belly",
+  "tight belly",
+  "dry heaving",
+  "retching",
+  "trying to vomit",
+];
+
+// Named toxins come from the calculator's database so the two stay in step
+const TOXIN_KEYWORDS = Array.from(
+  new Set([
+    "poison",
+    "toxic",
+    "toxin",
+    "antifreeze",
+    "slug bait",
+    "marijuana",
+    "cannabis",
+    "ate medication",
+    "swallowed pills",
+    ...toxinCatalog.flatMap((toxin) => toxin.aliases),
+  ]),
+);
+
+export function isDeepChestedBreed(breed: string): boolean {
+  const name = breed.toLowerCase();
+  return DEEP_CHESTED_BREEDS.some((deepChested) => name.includes(deepChested));
+}
+
+// Reads a temperature as °F. Values below 50 can only be °C for a live dog.
+export function bodyTemperatureF(value?: string): number | undefined {
+  const match = value?.replace(",", ".").match(/-?\d+(\.\d+)?/);
+  if (!match) return undefined;
+  const reading = parseFloat(match[0]);
+  const celsius = /\d\s*°?\s*c\b/i.test(value!) || reading < 50;
+  return celsius ? reading * 1.8 + 32 : reading;
+}
+
+export function heartRateBpm(value?: string): number | undefined {
+  const match = value?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+const VET_NOW = "Immediately - go to the nearest emergency vet now";
+const VET_TODAY = "Within the next few hours - call your vet today";
+const CALL_AHEAD = "Call the emergency vet on the way so they can prepare for your arrival";
+
+const temperatureF = (input: EmergencyAssessmentInput) => bodyTemperatureF(input.vitalSigns?.temperature);
+const heartRate = (input: EmergencyAssessmentInput) => heartRateBpm(input.vitalSigns?.heartRate);
+
+const rules: TriageRule[] = [
+  {
+    id: "gum_color",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Pale, white, grey or blue gums point to shock, blood loss or a lack of oxygen.",
+    redFlag: "Pale, white, grey or blue gums",
+    immediateActions: [CALL_AHEAD, "Keep your dog warm and as still as possible"],
+    symptoms: ["pale_gums"],
+    test: (input) => /pale|white|gr[ae]y|blu|purpl|cyan/i.test(input.vitalSigns?.gumColor ?? ""),
+  },
+  {
+    id: "collapse",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Collapse or unresponsiveness can mean shock, heart failure or internal bleeding.",
+    redFlag: "Collapse, fainting or unresponsiveness",
+    immediateActions: [
+      CALL_AHEAD,
+      "Check that your dog is breathing and keep the airway clear",
+      "Move your dog on a flat board or blanket to support the body",
+    ],
+    symptoms: ["collapse", "unresponsive"],
+    keywords: ["collapse", "collapsing", "unconscious", "unresponsive", "fainted", "passed out", "can't stand", "cannot stand"],
+  },
+  {
+    id: "breathing_difficulty",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Struggling to breathe needs oxygen support that only a vet can give.",
+    redFlag: "Labored breathing, gasping or choking",
+    immediateActions: [CALL_AHEAD, "Keep your dog calm and cool, and do not restrict the neck or chest"],
+    symptoms: ["difficulty_breathing"],
+    keywords: ["gasping", "choking", "not breathing", "struggling to breathe", "labored breathing", "laboured breathing"],
+    test: (input) => /labou?red|gasp|struggl|open.mouth|blu/i.test(input.vitalSigns?.breathing ?? ""),
+  },
+  {
+    id: "seizure",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Seizures can damage the brain if they last or repeat, and may be caused by poisoning.",
+    redFlag: "Seizures, convulsions or uncontrolled shaking",
+    immediateActions: [
+      "Move furniture and objects away, and keep your hands away from the mouth",
+      "Time the seizure and keep the room dark and quiet",
+      CALL_AHEAD,
+    ],
+    symptoms: ["seizures"],
+    keywords: ["seizure", "convuls", "fitting"],
+  },
+  {
+    id: "bloat_deep_chested",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "A swollen belly or unproductive retching in a deep-chested breed is a classic sign of bloat, which can kill within hours.",
+    redFlag: "Swollen belly or retching without bringing anything up",
+    immediateActions: [CALL_AHEAD, "Do not give food, water or anything to induce vomiting"],
+    symptoms: ["swollen_belly", "unproductive_retching"],
+    keywords: BLOAT_KEYWORDS,
+    appliesTo: (input) => isDeepChestedBreed(input.dogInfo.breed),
+  },
+  {
+    id: "bloat_signs",
+    urgencyLevel: "urgent",
+    timeFrame: VET_TODAY,
+    reason: "A swollen belly or unproductive retching should be checked for bloat or a blockage.",
+    redFlag: "Swollen belly or retching without bringing anything up",
+    immediateActions: ["Withhold food until your vet has seen your dog", "Go straight to an emergency vet if the belly keeps swelling"],
+    symptoms: ["swollen_belly", "unproductive_retching"],
+    keywords: BLOAT_KEYWORDS,
+    appliesTo: (input) => !isDeepChestedBreed(input.dogInfo.breed),
+  },
+  {
+    id: "toxin_ingestion",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Many poisons do their damage before symptoms show, so treatment works best straight away.",
+    redFlag: "Eating something poisonous, even without symptoms yet",
+    immediateActions: [
+      "Call your vet or a pet poison helpline now",
+      "Do not make your dog vomit unless a vet tells you to",
+      "Bring the packaging or a sample of what was eaten",
+    ],
+    symptoms: ["poisoning"],
+    keywords: TOXIN_KEYWORDS,
+  },
+  {
+    id: "severe_bleeding",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Heavy bleeding can lead to shock quickly.",
+    redFlag: "Bleeding that soaks through a bandage or will not stop",
+    immediateActions: ["Press a clean cloth firmly on the wound and keep the pressure on", CALL_AHEAD],
+    symptoms: ["severe_bleeding"],
+    keywords: ["severe bleeding", "heavy bleeding", "bleeding heavily", "won't stop bleeding", "vomiting blood", "coughing blood"],
+  },
+  {
+    id: "urinary_blockage",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Being unable to pass urine can poison the blood within a day.",
+    redFlag: "Straining without passing urine",
+    immediateActions: [CALL_AHEAD],
+    symptoms: ["cannot_urinate"],
+    keywords: ["can't urinate", "cannot urinate", "unable to urinate", "can't pee", "straining to urinate", "no urine"],
+  },
+  {
+    id: "severe_pain",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Severe pain needs treatment and is often a sign of a serious underlying problem.",
+    redFlag: "Crying out, hunching or refusing to be touched",
+    immediateActions: ["Handle your dog gently, as dogs in pain may bite", CALL_AHEAD],
+    symptoms: ["severe_pain"],
+  },
+  {
+    id: "severe_vomiting_diarrhea",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "Severe or bloody vomiting and diarrhea cause dehydration fast.",
+    redFlag: "Repeated vomiting or diarrhea, or any blood in it",
+    immediateActions: ["Withhold food, but offer small amounts of water", CALL_AHEAD],
+    symptoms: ["severe_vomiting_diarrhea"],
+    keywords: ["bloody diarrhea", "blood in vomit", "blood in stool"],
+  },
+  {
+    id: "temperature_high",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "A temperature of 105°F or more risks heatstroke and organ damage.",
+    redFlag: "Temperature of 105°F (40.5°C) or higher",
+    immediateActions: [
+      "Move your dog somewhere cool and wet the fur with cool, not ice-cold, water",
+      "Stop cooling once the temperature reaches 103°F",
+      CALL_AHEAD,
+    ],
+    test: (input) => (temperatureF(input) ?? 0) >= 105,
+  },
+  {
+    id: "temperature_low",
+    urgencyLevel: "emergency",
+    timeFrame: VET_NOW,
+    reason: "A temperature of 96°F or less is dangerously low.",
+    redFlag: "Temperature of 96°F (35.5°C) or lower",
+    immediateActions: ["Wrap your dog in warm blankets on the way to the vet", CALL_AHEAD],
+    test: (input) => (temperatureF(input) ?? 100) <= 96,
+  },
+  {
+    id: "fever",
+    urgencyLevel: "urgent",
+    timeFrame: VET_TODAY,
+    reason: "A temperature of 103°F or more is a fever that needs a vet to find the cause.",
+    redFlag: "Temperature of 103°F (39.5°C) or higher",
+    immediateActions: ["Keep your dog cool with water available", "Recheck the temperature in an hour"],
+    test: (input) => {
+      const temperature = temperatureF(input);
+      return temperature !== undefined && temperature >= 103 && temperature < 105;
+    },
+  },
+  {
+    id: "temperature_below_normal",
+    urgencyLevel: "urgent",
+    timeFrame: VET_TODAY,
+    reason: "A temperature below 99°F is lower than normal for a dog.",
+    redFlag: "Temperature below 99°F (37.2°C)",
+    immediateActions: ["Keep your dog warm and recheck the temperature in an hour"],
+    test: (input) => {
+      const temperature = temperatureF(input);
+      return temperature !== undefined && temperature > 96 && temperature < 99;
+    },
+  },
+  {
+    id: "heart_rate",
+    urgencyLevel: "urgent",
+    timeFrame: VET_TODAY,
+    reason: "A resting heart rate above 160 or below 60 beats a minute is outside the normal range.",
+    redFlag: "Resting heart rate above 160 or below 60 beats per minute",
+    immediateActions: ["Let your dog rest for ten minutes and count the heart rate again"],
+    test: (input) => {
+      const bpm = heartRate(input);
+      return bpm !== undefined && (bpm > 160 || bpm < 60);
+    },
+  },
+  {
+    id: "urgent_signs",
+    urgencyLevel: "urgent",
+    timeFrame: "Within 24 hours - book a vet visit",
+    reason: "The signs reported should be checked by a vet within a day.",
+    redFlag: "Signs getting worse or new symptoms appearing",
+    immediateActions: ["Keep your dog rested with water available", "Note any changes to tell your vet"],
+    symptoms: [
+      "persistent_vomiting",
+      "not_eating",
+      "lethargy",
+      "limping",
+      "thirst_urination",
+      "coughing",
+      "skin_irritation",
+      "behavior_change",
+      "eye_problem",
+      "minor_wound",
+    ],
+    test: (input) => input.severity.toLowerCase() === "severe",
+  },
+];
+
+export const triageRules = { version: 3, rules } as const;
@@ -0,0 +1,140 @@
+import { addMonths, addWeeks, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Dog, Vaccination } from "@shared/schema";
+import {
+  matchVaccineByName,
+  vaccineCatalog,
+  type VaccineCompliance,
+  type VaccineComplianceStatus,
+  type VaccineDefinition,
+  type VaccinationStatus,
+} from "@shared/vaccineCatalog";
+
+// Vaccines due within this many days are reported as "due soon"
+const DUE_SOON_DAYS = 30;
+
+const statusRank: Record<VaccineComplianceStatus, number> = {
+  up_to_date: 0,
+  due_soon: 1,
+  overdue: 2,
+};
+
+function toDateOnly(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function ageInWeeks(birthDate: string, at: Date): number {
+  return differenceInCalendarDays(at, parseISO(birthDate)) / 7;
+}
+
+// Catalog code for a record, falling back to its free-text name for older entries
+export function resolveVaccineCode(record: Pick<Vaccination, "vaccineCode" | "vaccineName">): string | undefined {
+  return record.vaccineCode ?? matchVaccineByName(record.vaccineName)?.code;
+}
+
+// Same vaccine, falling back to the free-text name for uncatalogued entries
+function sameVaccine(a: Vaccination, b: Vaccination): boolean {
+  const code = resolveVaccineCode(a);
+  return code ? code === resolveVaccineCode(b) : a.vaccineName.toLowerCase() === b.vaccineName.toLowerCase();
+}
+
+// A later dose of the same vaccine replaces this record's due date
+export function isSupersededVaccination(record: Vaccination, history: Vaccination[]): boolean {
+  return history.some(
+    (other) => other.id !== record.id && other.dogId === record.dogId && sameVaccine(record, other) &&
+      other.administeredAt > record.administeredAt,
+  );
+}
+
+// Works out when the next dose of `vaccine` is due given every dose administered
+// so far. Puppies stay in the primary series until a dose lands at or after
+// `puppySeriesUntilWeeks`; after the series comes one first booster and then
+// recurring boosters.
+export function computeVaccineNextDue(
+  vaccine: VaccineDefinition,
+  administered: Date[],
+  birthDate: string | null,
+): Date | null {
+  const earliestFirstDose = birthDate ? addWeeks(parseISO(birthDate), vaccine.minAgeWeeks) : null;
+  if (administered.length === 0) return earliestFirstDose;
+
+  const doses = [...administered].sort((a, b) => a.getTime() - b.getTime());
+  let seriesCompletedAt = -1;
+  for (let index = 0; index < doses.length && seriesCompletedAt === -1; index++) {
+    const oldEnough = !vaccine.puppySeriesUntilWeeks || !birthDate ||
+      ageInWeeks(birthDate, doses[index]) >= vaccine.puppySeriesUntilWeeks;
+    if (index + 1 >= vaccine.seriesDoses && oldEnough) {
+      seriesCompletedAt = index;
+    }
+  }
+
+  const lastDose = doses[doses.length - 1];
+  if (seriesCompletedAt === -1) {
+    const next = addWeeks(lastDose, vaccine.seriesIntervalWeeks);
+    return earliestFirstDose && next < earliestFirstDose ? earliestFirstDose : next;
+  }
+
+  const boostersGiven = doses.length - 1 - seriesCompletedAt;
+  return addMonths(lastDose, boostersGiven === 0 ? vaccine.firstBoosterMonths : vaccine.boosterMonths);
+}
+
+// Next due date for a catalog vaccine after recording a dose on `administeredAt`
+export function nextDueForNewDose(
+  vaccine: VaccineDefinition,
+  dog: Pick<Dog, "birthDate">,
+  existing: Vaccination[],
+  administeredAt: Date,
+): string | null {
+  // Only doses up to this one count, so back-filled history gets its own due date
+  const previousDoses = existing
+    .filter((record) => resolveVaccineCode(record) === vaccine.code && record.administeredAt <= administeredAt)
+    .map((record) => record.administeredAt);
+  const nextDue = computeVaccineNextDue(vaccine, [...previousDoses, administeredAt], dog.birthDate);
+  return nextDue ? toDateOnly(nextDue) : null;
+}
+
+// Compliance for every core vaccine plus any non-core vaccine the dog has
+// received. A due date stored on the latest record (computed or entered by
+// hand) takes precedence over the catalog schedule.
+export function vaccinationStatus(
+  dog: Pick<Dog, "birthDate">,
+  records: Vaccination[],
+  today: Date = new Date(),
+): VaccinationStatus {
+  const vaccines: VaccineCompliance[] = [];
+
+  for (const vaccine of vaccineCatalog) {
+    const doses = records
+      .filter((record) => resolveVaccineCode(record) === vaccine.code)
+      .sort((a, b) => a.administeredAt.getTime() - b.administeredAt.getTime());
+    if (!vaccine.core && doses.length === 0) continue;
+
+    const latest = doses[doses.length - 1];
+    const nextDue = latest?.nextDueDate
+      ? parseISO(latest.nextDueDate)
+      : computeVaccineNextDue(vaccine, doses.map((dose) => dose.administeredAt), dog.birthDate);
+
+    let status: VaccineComplianceStatus;
+    if (!nextDue) {
+      status = doses.length > 0 ? "up_to_date" : "overdue";
+    } else {
+      const daysUntilDue = differenceInCalendarDays(nextDue, today);
+      status = daysUntilDue < 0 ? "overdue" : daysUntilDue <= DUE_SOON_DAYS ? "due_soon" : "up_to_date";
+    }
+
+    vaccines.push({
+      code: vaccine.code,
+      name: vaccine.name,
+      core: vaccine.core,
+      status,
+      lastAdministeredAt: latest ? latest.administeredAt.toISOString() : null,
+      nextDueDate: nextDue ? toDateOnly(nextDue) : null,
+      dosesGiven: doses.length,
+    });
+  }
+
+  const status = vaccines.reduce<VaccineComplianceStatus>(
+    (worst, vaccine) => (statusRank[vaccine.status] > statusRank[worst] ? vaccine.status : worst),
+    "up_to_date",
+  );
+  return { status, vaccines };
+}
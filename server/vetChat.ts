@@ -0,0 +1,97 @@
+import type { ChatConversation, ChatMessage, Dog } from "@shared/schema";
+import type { VetChatContext, VetChatTurn } from "./aiProvider";
+import { storage } from "./storage";
+import { getAccessibleDog } from "./dogAccess";
+
+// The vet assistant chat: each question is answered with the conversation so
+// far plus a fresh snapshot of the dog's records, so answers reflect any
+// medication or weight logged since the chat began.
+
+// Messages sent back to the model with each question
+export const CHAT_HISTORY_MESSAGES = 20;
+const CONTEXT_HEALTH_RECORDS = 10;
+const CONTEXT_WEIGHTS = 10;
+const TITLE_LENGTH = 60;
+
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+
+export interface ChatPhoto {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Conversations are private: only the user who started one can read or
+// continue it, and only while they still have access to the dog
+export async function getOwnChatConversation(
+  userId: string,
+  conversationId: string,
+): Promise<{ conversation: ChatConversation; dog: Dog } | undefined> {
+  const conversation = await storage.getChatConversation(conversationId);
+  if (!conversation || conversation.userId !== userId) return undefined;
+  const dog = await getAccessibleDog(userId, conversation.dogId);
+  return dog ? { conversation, dog } : undefined;
+}
+
+export async function buildVetChatContext(dog: Dog): Promise<VetChatContext> {
+  const [medications, vaccinations, healthRecords, weights] = await Promise.all([
+    storage.getDogMedications(dog.id),
+    storage.getDogVaccinations(dog.id),
+    storage.getDogHealthRecords(dog.id),
+    storage.getDogWeightRecords(dog.id),
+  ]);
+
+  return {
+    dog: {
+      name: dog.name,
+      breed: dog.breed,
+      age: dog.birthDate ? Math.floor((Date.now() - new Date(dog.birthDate).getTime()) / YEAR_MS) : undefined,
+      weight: dog.weight ? parseFloat(dog.weight) : undefined,
+      gender: dog.gender ?? undefined,
+    },
+    medications: medications.map((medication) => ({
+      name: medication.name,
+      dosage: medication.dosage,
+      frequency: medication.frequency,
+      instructions: medication.instructions ?? undefined,
+    })),
+    vaccinations: vaccinations.map((vaccination) => ({
+      vaccineName: vaccination.vaccineName,
+      administeredAt: vaccination.administeredAt,
+      nextDueDate: vaccination.nextDueDate ?? undefined,
+    })),
+    healthRecords: healthRecords.slice(0, CONTEXT_HEALTH_RECORDS).map((record) => ({
+      type: record.type,
+      title: record.title,
+      description: record.description ?? undefined,
+      severity: record.severity ?? undefined,
+      recordedAt: record.recordedAt ?? record.createdAt ?? new Date(),
+    })),
+    // Newest first
+    weights: weights
+      .filter((entry) => entry.recordedAt)
+      .slice(0, CONTEXT_WEIGHTS)
+      .map((entry) => ({ weight: parseFloat(entry.weight), recordedAt: entry.recordedAt! })),
+  };
+}
+
+export function chatTitle(content: string): string {
+  const firstLine = content.trim().split("\n")[0];
+  return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : firstLine;
+}
+
+// Only the newest message carries its photos; earlier ones are mentioned, not resent
+export function chatTurns(history: ChatMessage[], latestPhotos: ChatPhoto[]): VetChatTurn[] {
+  return history.map((message, index) => {
+    const isLatest = index === history.length - 1;
+    const photoCount = message.photoUrls?.length ?? 0;
+    const text =
+      !isLatest && photoCount > 0
+        ? `${message.content}\n[${photoCount} photo${photoCount === 1 ? "" : "s"} attached]`
+        : message.content;
+    return {
+      role: message.role === "assistant" ? "assistant" : "user",
+      text,
+      ...(isLatest && latestPhotos.length > 0 && { images: latestPhotos }),
+    };
+  });
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type { PushSubscription } from "@shared/schema";
+
+// Web Push per RFC 8030, with VAPID authentication (RFC 8292) and aes128gcm
+// payload encryption (RFC 8188 / RFC 8291), implemented on Node's crypto so no
+// extra dependency is needed. Keys are base64url, as printed by
+// `npx web-push generate-vapid-keys`.
+
+export interface PushPayload {
+  title: string;
+  body?: string;
+  link?: string;
+  // Notifications with the same tag replace each other on the device
+  tag?: string;
+}
+
+export class PushSubscriptionExpiredError extends Error {
+  constructor(public endpoint: string) {
+    super("Push subscription has expired or been unsubscribed");
+    this.name = "PushSubscriptionExpiredError";
+    Object.setPrototypeOf(this, PushSubscriptionExpiredError.prototype);
+  }
+}
+
+const RECORD_SIZE = 4096;
+// Reminders are pointless once stale, so push services may drop them after a day
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+// A push service that doesn't answer mustn't hold up the rest of a reminder run
+const PUSH_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+interface VapidKeys {
+  publicKey: string;
+  privateKey: crypto.KeyObject;
+  subject: string;
+}
+
+let vapidKeys: VapidKeys | null | undefined;
+
+function loadVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  const publicBytes = Buffer.from(publicKey, "base64url");
+  if (publicBytes.length !== 65 || publicBytes[0] !== 0x04) {
+    throw new Error("VAPID_PUBLIC_KEY must be an uncompressed P-256 public key");
+  }
+  return {
+    publicKey,
+    privateKey: crypto.createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: privateKey,
+        x: publicBytes.subarray(1, 33).toString("base64url"),
+        y: publicBytes.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    }),
+    subject: process.env.VAPID_SUBJECT || "mailto:admin@localhost",
+  };
+}
+
+function getVapidKeys(): VapidKeys | null {
+  if (vapidKeys === undefined) {
+    vapidKeys = loadVapidKeys();
+  }
+  return vapidKeys;
+}
+
+// Public key the browser needs for PushManager.subscribe, or null when push isn't configured
+export function getVapidPublicKey(): string | null {
+  return getVapidKeys()?.publicKey ?? null;
+}
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+function vapidAuthorization(endpoint: string, keys: VapidKeys): string {
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS,
+      sub: keys.subject,
+    }),
+  ).toString("base64url");
+  const signature = crypto
+    .sign("sha256", Buffer.from(`${header}.${claims}`), { key: keys.privateKey, dsaEncoding: "ieee-p1363" })
+    .toString("base64url");
+  return `vapid t=${header}.${claims}.${signature}, k=${keys.publicKey}`;
+}
+
+// Encrypts the payload for one subscription as a single aes128gcm record
+function encryptPayload(subscription: Pick<PushSubscription, "p256dh" | "auth">, plaintext: Buffer): Buffer {
+  const userAgentPublicKey = Buffer.from(subscription.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.auth, "base64url");
+
+  const ecdh = crypto.createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]);
+  const inputKey = hmac(hmac(authSecret, sharedSecret), Buffer.concat([keyInfo, Buffer.from([1])]));
+
+  const salt = crypto.randomBytes(16);
+  const pseudoRandomKey = hmac(salt, inputKey);
+  const contentKey = hmac(pseudoRandomKey, Buffer.from("Content-Encoding: aes128gcm\0\x01")).subarray(0, 16);
+  const nonce = hmac(pseudoRandomKey, Buffer.from("Content-Encoding: nonce\0\x01")).subarray(0, 12);
+
+  const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the final (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+}
+
+// Delivers one payload to one subscription. Throws PushSubscriptionExpiredError
+// when the push service reports the subscription gone, so callers can delete it.
+export async function sendWebPush(
+  subscription: Pick<PushSubscription, "endpoint" | "p256dh" | "auth">,
+  payload: PushPayload,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS,
+): Promise<void> {
+  const keys = getVapidKeys();
+  if (!keys) {
+    throw new Error("Web Push is not configured: set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY");
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: vapidAuthorization(subscription.endpoint, keys),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(ttlSeconds),
+      Urgency: "high",
+    },
+    body: encryptPayload(subscription, Buffer.from(JSON.stringify(payload))),
+    signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    throw new PushSubscriptionExpiredError(subscription.endpoint);
+  }
+  if (!response.ok) {
+    throw new Error(`Push service responded ${response.status}: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,137 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import { finished } from "stream/promises";
+import { crc32, deflateRawSync } from "zlib";
+
+// Streaming ZIP writer. Entries are added one buffer at a time and written
+// straight to the output, so an archive never has to fit in memory. Classic
+// (non-ZIP64) format: archives are limited to 4 GiB and 65535 entries.
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const VERSION = 20; // 2.0: deflate
+const UTF8_NAMES = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_UINT32 = 0xffffffff;
+
+interface ZipEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+export class ZipLimitError extends Error {
+  constructor() {
+    super("Archive exceeds the ZIP size or entry limit");
+    this.name = "ZipLimitError";
+    Object.setPrototypeOf(this, ZipLimitError.prototype);
+  }
+}
+
+// MS-DOS timestamps have 2-second precision and can't go before 1980
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  constructor(private readonly output: Writable) {}
+
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.offset + chunk.length > MAX_UINT32) {
+      throw new ZipLimitError();
+    }
+    this.offset += chunk.length;
+    if (!this.output.write(chunk)) {
+      await once(this.output, "drain");
+    }
+  }
+
+  // Already-compressed data (photos, PDFs) is stored as-is when deflate doesn't help
+  async addFile(name: string, contents: Buffer | string, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.entries.length >= 0xffff) {
+      throw new ZipLimitError();
+    }
+    const data = typeof contents === "string" ? Buffer.from(contents, "utf8") : contents;
+    const deflated = deflateRawSync(data);
+    const compress = deflated.length < data.length;
+    const body = compress ? deflated : data;
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      method: compress ? METHOD_DEFLATE : METHOD_STORE,
+      crc: crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      offset: this.offset,
+      ...toDosDateTime(modifiedAt),
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_NAMES, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.dosTime, 10);
+    header.writeUInt16LE(entry.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28); // extra field length
+
+    await this.write(Buffer.concat([header, entry.name]));
+    await this.write(body);
+    this.entries.push(entry);
+  }
+
+  // Writes the central directory and ends the output; resolves with the archive size once flushed
+  async finish(): Promise<number> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(VERSION, 4); // version made by
+      header.writeUInt16LE(VERSION, 6); // version needed to extract
+      header.writeUInt16LE(UTF8_NAMES, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.dosTime, 12);
+      header.writeUInt16LE(entry.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra field, comment, disk number, internal and external attributes stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    this.output.end();
+    await finished(this.output);
+    return this.offset;
+  }
+}
@@ -0,0 +1,33 @@
+// Medication adherence report shared by the server and the Health page
+
+export type DoseStatus = "on_time" | "late" | "missed" | "skipped" | "double" | "upcoming";
+
+export interface DoseOutcome {
+  medicationId: string;
+  scheduledFor: string;
+  status: DoseStatus;
+  givenAt: string[];
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  expected: number;
+  onTime: number;
+  late: number;
+  missed: number;
+  skipped: number;
+  doubles: number;
+  // Doses logged for as-needed medications or that matched no scheduled dose
+  unscheduled: number;
+  // Share of past expected doses that were given, 0-100; null when nothing was expected
+  adherence: number | null;
+  doses: DoseOutcome[];
+}
+
+export interface AdherenceReport {
+  from: string;
+  to: string;
+  adherence: number | null;
+  medications: MedicationAdherence[];
+}
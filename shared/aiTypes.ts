@@ -1,4 +1,4 @@
-// Shared AI Response Types for Gemini Integration
+// Shared AI response types, whichever provider produced them
 
 export interface SymptomAnalysis {
   severity: "mild" | "moderate" | "severe";
@@ -26,6 +26,30 @@ export interface EmergencyAssessment {
   vetRequired: boolean;
 }
 
+// What an analysis was run on, stored with its result
+export interface SymptomAnalysisInput {
+  type: string;
+  title: string;
+  description?: string;
+  severity?: string;
+  breed: string;
+  age?: number;
+  weight?: number;
+}
+
+export interface PhotoAnalysisInput {
+  // Set once the photo is stored with its health entry
+  photoUrl?: string;
+  fileName?: string;
+  mimeType: string;
+  context?: string;
+}
+
+// The analyze endpoints answer with the result and the id it was saved under,
+// which links it to the health entry when that is saved
+export type SavedSymptomAnalysis = SymptomAnalysis & { analysisId: string };
+export type SavedPhotoAnalysis = PhotoAnalysis & { analysisId: string };
+
 // API Response wrappers
 export interface AnalyzeSymptomResponse {
   analysis: SymptomAnalysis;
@@ -46,15 +70,7 @@ export interface HealthSummaryResponse {
 // Request types
 export interface SymptomAnalysisRequest {
   dogId: string;
-  symptomData: {
-    type: string;
-    title: string;
-    description?: string;
-    severity?: string;
-    breed: string;
-    age?: number;
-    weight?: number;
-  };
+  symptomData: SymptomAnalysisInput;
 }
 
 export interface PhotoAnalysisRequest {
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { medicationScheduleSchema } from "./medicationSchedule";
+
+test("accepts intervals up to a year", () => {
+  for (const schedule of [
+    { type: "interval", every: 365, unit: "days" },
+    { type: "interval", every: 52, unit: "weeks" },
+    { type: "weekly", every: 52, daysOfWeek: [1] },
+  ]) {
+    assert.equal(medicationScheduleSchema.safeParse(schedule).success, true, JSON.stringify(schedule));
+  }
+});
+
+test("rejects intervals longer than the scheduler looks ahead", () => {
+  for (const schedule of [
+    { type: "interval", every: 366, unit: "days" },
+    { type: "interval", every: 60, unit: "weeks" },
+    // Weekly schedules count in weeks even when the unit is left at days
+    { type: "weekly", every: 60, unit: "days", daysOfWeek: [1] },
+  ]) {
+    const result = medicationScheduleSchema.safeParse(schedule);
+    assert.equal(result.success, false, JSON.stringify(schedule));
+    assert.deepEqual(result.error?.issues[0].path, ["every"]);
+  }
+});
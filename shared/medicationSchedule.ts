@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+// Structured medication schedules shared by the scheduler and the medication forms
+
+export const scheduleTypes = ["interval", "weekly", "as_needed"] as const;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const taperStepSchema = z.object({
+  days: z.number().int().min(1),
+  dosage: z.string().min(1),
+});
+
+// Longest gap between doses; the scheduler only looks about a year ahead for the next one
+export const maxScheduleEvery = { days: 365, weeks: 52 } as const;
+
+// "weekly" schedules count `every` in weeks whatever their unit says
+export function scheduleEveryUnit(schedule: Pick<MedicationSchedule, "type" | "unit">): "days" | "weeks" {
+  return schedule.type === "weekly" ? "weeks" : schedule.unit;
+}
+
+export const medicationScheduleSchema = z.object({
+  type: z.enum(scheduleTypes),
+  // Local times of day ("08:00") at which a dose is due on every scheduled day
+  times: z.array(timeOfDaySchema).default([]),
+  // "interval": every N days/weeks counted from the start date; "weekly": every N weeks on daysOfWeek
+  every: z.number().int().min(1).default(1),
+  unit: z.enum(["days", "weeks"]).default("days"),
+  // 0 = Sunday … 6 = Saturday
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]),
+  // Tapering course: consecutive steps starting at the medication's start date
+  taper: z.array(taperStepSchema).default([]),
+  // IANA timezone the times of day are expressed in
+  timezone: z.string().default("UTC"),
+}).superRefine((schedule, ctx) => {
+  const unit = scheduleEveryUnit(schedule);
+  if (schedule.type !== "as_needed" && schedule.every > maxScheduleEvery[unit]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.too_big,
+      type: "number",
+      maximum: maxScheduleEvery[unit],
+      inclusive: true,
+      path: ["every"],
+      message: `Can't be more than every ${maxScheduleEvery[unit]} ${unit}`,
+    });
+  }
+});
+
+export type MedicationSchedule = z.infer<typeof medicationScheduleSchema>;
+export type TaperStep = z.infer<typeof taperStepSchema>;
+
+const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function describeMedicationSchedule(schedule: MedicationSchedule): string {
+  if (schedule.type === "as_needed") return "As needed";
+
+  let cadence: string;
+  if (schedule.type === "weekly") {
+    const days = [...schedule.daysOfWeek].sort().map((day) => weekdayNames[day]).join(", ");
+    cadence = schedule.every === 1 ? `Weekly on ${days}` : `Every ${schedule.every} weeks on ${days}`;
+  } else if (schedule.every === 1) {
+    cadence = schedule.unit === "weeks" ? "Weekly" : "Daily";
+  } else {
+    cadence = `Every ${schedule.every} ${schedule.unit}`;
+  }
+
+  const times = schedule.times.length > 0 ? ` at ${[...schedule.times].sort().join(", ")}` : "";
+  const taper = schedule.taper.length > 0 ? " (tapering)" : "";
+  return `${cadence}${times}${taper}`;
+}
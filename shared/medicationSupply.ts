@@ -0,0 +1,10 @@
+// Inventory projection attached to medications by the medications endpoints
+
+export interface MedicationSupply {
+  // False when the medication has no quantity on hand recorded
+  tracked: boolean;
+  dosesRemaining: number | null;
+  // First scheduled dose the current stock cannot cover; null when stock outlasts the course
+  runOutDate: string | null;
+  refillNeeded: boolean;
+}
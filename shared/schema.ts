@@ -1,19 +1,25 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
   varchar,
   text,
   integer,
+  bigint,
   boolean,
   decimal,
   date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { medicationScheduleSchema, type MedicationSchedule } from "./medicationSchedule";
+import { vaccineCodes } from "./vaccineCatalog";
+import type { PhotoAnalysis, PhotoAnalysisInput, SymptomAnalysis, SymptomAnalysisInput } from "./aiTypes";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -36,6 +42,8 @@ export const users = pgTable("users", {
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
   isPremium: boolean("is_premium").default(false),
+  // Secret for the subscribable iCal feed; rotating it revokes old feed URLs
+  calendarToken: varchar("calendar_token").unique(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -56,6 +64,36 @@ export const dogs = pgTable("dogs", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Household members with access to a dog. The user in `dogs.userId` is always
+// an implicit owner; this table grants access to everyone else.
+export const dogMembers = pgTable(
+  "dog_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role").notNull().default("caregiver"), // owner, caregiver, viewer
+    invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_dog_member_unique").on(table.dogId, table.userId)],
+);
+
+// Pending invitations to join a dog's household, redeemable by code or by
+// signing in with the invited email address
+export const dogInvites = pgTable("dog_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+  code: varchar("code").notNull().unique(),
+  email: varchar("email"),
+  role: varchar("role").notNull().default("caregiver"), // owner, caregiver, viewer
+  invitedBy: varchar("invited_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Health records
 export const healthRecords = pgTable("health_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -70,6 +108,61 @@ export const healthRecords = pgTable("health_records", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// AI analyses run for a health entry, kept so they can be reviewed and re-run.
+// Analyses made while the entry is still being written are linked once it's saved.
+export const aiAnalyses = pgTable(
+  "ai_analyses",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+    healthRecordId: varchar("health_record_id").references(() => healthRecords.id, { onDelete: "cascade" }),
+    requestedBy: varchar("requested_by").references(() => users.id, { onDelete: "set null" }),
+    kind: varchar("kind").notNull(), // symptom, photo
+    request: jsonb("request").$type<SymptomAnalysisInput | PhotoAnalysisInput>().notNull(),
+    result: jsonb("result").$type<SymptomAnalysis | PhotoAnalysis>().notNull(),
+    provider: varchar("provider").notNull(),
+    model: varchar("model").notNull(),
+    promptVersion: integer("prompt_version").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_ai_analysis_record").on(table.healthRecordId, table.createdAt),
+    index("IDX_ai_analysis_dog").on(table.dogId, table.createdAt),
+  ],
+);
+
+// Vet assistant chats. Each conversation is private to the user who started it
+// and is about one of their dogs.
+export const chatConversations = pgTable(
+  "chat_conversations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    title: varchar("title"), // taken from the first question until the user renames it
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_chat_conversation_user_dog").on(table.userId, table.dogId, table.updatedAt)],
+);
+
+export const chatMessages = pgTable(
+  "chat_messages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    conversationId: varchar("conversation_id").notNull().references(() => chatConversations.id, { onDelete: "cascade" }),
+    role: varchar("role").notNull(), // user, assistant
+    content: text("content").notNull(),
+    photoUrls: text("photo_urls").array(),
+    // Set on assistant replies
+    provider: varchar("provider"),
+    model: varchar("model"),
+    promptVersion: integer("prompt_version"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_chat_message_conversation").on(table.conversationId, table.createdAt)],
+);
+
 // Medications
 export const medications = pgTable("medications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -77,8 +170,12 @@ export const medications = pgTable("medications", {
   name: varchar("name").notNull(),
   dosage: varchar("dosage").notNull(),
   frequency: varchar("frequency").notNull(), // daily, weekly, monthly, as-needed
+  schedule: jsonb("schedule").$type<MedicationSchedule>(), // structured schedule used to advance nextDueDate
   instructions: text("instructions"),
-  refillCount: integer("refill_count").default(0),
+  refillCount: integer("refill_count").default(0), // refills remaining on the prescription
+  quantityOnHand: decimal("quantity_on_hand", { precision: 8, scale: 2 }), // units in stock; null = not tracked
+  unitsPerDose: decimal("units_per_dose", { precision: 6, scale: 2 }).default("1"),
+  refillThresholdDays: integer("refill_threshold_days").default(7), // warn this many days before running out
   isActive: boolean("is_active").default(true),
   startDate: date("start_date"),
   endDate: date("end_date"),
@@ -90,15 +187,54 @@ export const medications = pgTable("medications", {
 export const medicationLogs = pgTable("medication_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   medicationId: varchar("medication_id").notNull().references(() => medications.id, { onDelete: "cascade" }),
+  givenBy: varchar("given_by").references(() => users.id, { onDelete: "set null" }),
   givenAt: timestamp("given_at").defaultNow(),
+  status: varchar("status").notNull().default("given"), // given, skipped
+  scheduledFor: timestamp("scheduled_for"), // the due dose this entry resolves
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Veterinary appointments
+// Clinic directory, owned by the user whose dogs visit it
+export const clinics = pgTable(
+  "clinics",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    address: text("address"),
+    phone: varchar("phone"),
+    email: varchar("email"),
+    website: varchar("website"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_clinic_user").on(table.userId)],
+);
+
+export const veterinarians = pgTable(
+  "veterinarians",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    clinicId: varchar("clinic_id").references(() => clinics.id, { onDelete: "set null" }),
+    name: varchar("name").notNull(),
+    specialty: varchar("specialty"),
+    phone: varchar("phone"),
+    email: varchar("email"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_veterinarian_clinic").on(table.clinicId)],
+);
+
+// Veterinary appointments. The vet/clinic text columns keep a snapshot of the
+// directory entry so history reads correctly even if a clinic is later edited away.
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+  clinicId: varchar("clinic_id").references(() => clinics.id, { onDelete: "set null" }),
+  veterinarianId: varchar("veterinarian_id").references(() => veterinarians.id, { onDelete: "set null" }),
   vetName: varchar("vet_name").notNull(),
   clinicName: varchar("clinic_name").notNull(),
   clinicAddress: text("clinic_address"),
@@ -107,6 +243,14 @@ export const appointments = pgTable("appointments", {
   scheduledAt: timestamp("scheduled_at").notNull(),
   status: varchar("status").default("scheduled"), // scheduled, completed, cancelled
   notes: text("notes"),
+  // Visit outcome, filled in when the appointment is completed
+  diagnosis: text("diagnosis"),
+  outcomeNotes: text("outcome_notes"),
+  cost: decimal("cost", { precision: 10, scale: 2 }),
+  documentUrls: text("document_urls").array(),
+  healthRecordId: varchar("health_record_id").references(() => healthRecords.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  followUpOfId: varchar("follow_up_of_id").references((): AnyPgColumn => appointments.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -124,6 +268,7 @@ export const vaccinations = pgTable("vaccinations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
   vaccineName: varchar("vaccine_name").notNull(),
+  vaccineCode: varchar("vaccine_code"), // catalog code from shared/vaccineCatalog, null for other vaccines
   administeredAt: timestamp("administered_at").notNull(),
   nextDueDate: date("next_due_date"),
   vetName: varchar("vet_name"),
@@ -131,9 +276,129 @@ export const vaccinations = pgTable("vaccinations", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// In-app notifications produced by the reminder job. `dedupeKey` identifies the
+// reminder (e.g. one medication dose) so repeated scans never duplicate it.
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    dogId: varchar("dog_id").references(() => dogs.id, { onDelete: "cascade" }),
+    type: varchar("type").notNull(), // medication_due, vaccination_due, appointment_upcoming
+    title: varchar("title").notNull(),
+    body: text("body"),
+    link: varchar("link"),
+    dueAt: timestamp("due_at"),
+    dedupeKey: varchar("dedupe_key").notNull(),
+    readAt: timestamp("read_at"),
+    dismissedAt: timestamp("dismissed_at"),
+    // Set when the recipient wants this reminder by email; cleared once it's sent or dismissed
+    emailPending: boolean("email_pending").notNull().default(false),
+    emailedAt: timestamp("emailed_at"),
+    // Same as emailPending, for Web Push to the recipient's subscribed devices
+    pushPending: boolean("push_pending").notNull().default(false),
+    pushedAt: timestamp("pushed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_notification_dedupe").on(table.userId, table.dedupeKey),
+    index("IDX_notification_user").on(table.userId, table.createdAt),
+  ],
+);
+
+// Per-user reminder settings; users without a row get the column defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  medicationLeadMinutes: integer("medication_lead_minutes").notNull().default(15),
+  vaccinationLeadDays: integer("vaccination_lead_days").notNull().default(14),
+  appointmentLeadHours: integer("appointment_lead_hours").notNull().default(24),
+  quietHoursStart: varchar("quiet_hours_start"), // "22:00", local to `timezone`
+  quietHoursEnd: varchar("quiet_hours_end"), // "07:00"
+  timezone: varchar("timezone").notNull().default("UTC"),
+  inAppEnabled: boolean("in_app_enabled").notNull().default(true),
+  emailEnabled: boolean("email_enabled").notNull().default(false),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Web Push subscriptions, one per browser/device a user has enabled push on
+export const pushSubscriptions = pgTable(
+  "push_subscriptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    endpoint: text("endpoint").notNull().unique(),
+    p256dh: varchar("p256dh").notNull(),
+    auth: varchar("auth").notNull(),
+    userAgent: varchar("user_agent"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_push_subscription_user").on(table.userId)],
+);
+
+// Read-only links to one dog's health records for vets and sitters. Anyone
+// holding the token can view until the link expires or the owner revokes it.
+export const shareLinks = pgTable(
+  "share_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    dogId: varchar("dog_id").notNull().references(() => dogs.id, { onDelete: "cascade" }),
+    createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+    token: varchar("token").notNull().unique(),
+    label: varchar("label"), // who the link was made for, e.g. "Dr. Patel"
+    // Optional window limiting which dated records the link exposes
+    rangeFrom: timestamp("range_from"),
+    rangeTo: timestamp("range_to"),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_share_link_dog").on(table.dogId)],
+);
+
+// Access log: one row per view of a share link's page
+export const shareLinkViews = pgTable(
+  "share_link_views",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    shareLinkId: varchar("share_link_id").notNull().references(() => shareLinks.id, { onDelete: "cascade" }),
+    // Set when the viewer happened to be signed in
+    viewerUserId: varchar("viewer_user_id").references(() => users.id, { onDelete: "set null" }),
+    ipAddress: varchar("ip_address"),
+    userAgent: varchar("user_agent"),
+    viewedAt: timestamp("viewed_at").defaultNow(),
+  },
+  (table) => [index("IDX_share_link_view_link").on(table.shareLinkId, table.viewedAt)],
+);
+
+// Account data exports. A background job builds the ZIP into object storage;
+// the archive is deleted again once it expires.
+export const dataExports = pgTable(
+  "data_exports",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    status: varchar("status").notNull().default("pending"), // pending, running, ready, failed, expired
+    objectPath: varchar("object_path"),
+    sizeBytes: bigint("size_bytes", { mode: "number" }),
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    expiresAt: timestamp("expires_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_data_export_user").on(table.userId, table.createdAt)],
+);
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   dogs: many(dogs),
+  dogMemberships: many(dogMembers),
+  notifications: many(notifications),
+  notificationPreferences: one(notificationPreferences),
+  pushSubscriptions: many(pushSubscriptions),
+  clinics: many(clinics),
+  dataExports: many(dataExports),
+  chatConversations: many(chatConversations),
 }));
 
 export const dogsRelations = relations(dogs, ({ one, many }) => ({
@@ -141,18 +406,101 @@ export const dogsRelations = relations(dogs, ({ one, many }) => ({
     fields: [dogs.userId],
     references: [users.id],
   }),
+  members: many(dogMembers),
+  invites: many(dogInvites),
+  shareLinks: many(shareLinks),
   healthRecords: many(healthRecords),
+  aiAnalyses: many(aiAnalyses),
   medications: many(medications),
   appointments: many(appointments),
   weightRecords: many(weightRecords),
   vaccinations: many(vaccinations),
 }));
 
-export const healthRecordsRelations = relations(healthRecords, ({ one }) => ({
+export const dogMembersRelations = relations(dogMembers, ({ one }) => ({
+  dog: one(dogs, {
+    fields: [dogMembers.dogId],
+    references: [dogs.id],
+  }),
+  user: one(users, {
+    fields: [dogMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const dogInvitesRelations = relations(dogInvites, ({ one }) => ({
+  dog: one(dogs, {
+    fields: [dogInvites.dogId],
+    references: [dogs.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  dog: one(dogs, {
+    fields: [notifications.dogId],
+    references: [dogs.id],
+  }),
+}));
+
+export const pushSubscriptionsRelations = relations(pushSubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [pushSubscriptions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+export const healthRecordsRelations = relations(healthRecords, ({ one, many }) => ({
   dog: one(dogs, {
     fields: [healthRecords.dogId],
     references: [dogs.id],
   }),
+  aiAnalyses: many(aiAnalyses),
+  chatConversations: many(chatConversations),
+}));
+
+export const aiAnalysesRelations = relations(aiAnalyses, ({ one }) => ({
+  dog: one(dogs, {
+    fields: [aiAnalyses.dogId],
+    references: [dogs.id],
+  }),
+  healthRecord: one(healthRecords, {
+    fields: [aiAnalyses.healthRecordId],
+    references: [healthRecords.id],
+  }),
+  requester: one(users, {
+    fields: [aiAnalyses.requestedBy],
+    references: [users.id],
+  }),
+}));
+
+export const chatConversationsRelations = relations(chatConversations, ({ one, many }) => ({
+  dog: one(dogs, {
+    fields: [chatConversations.dogId],
+    references: [dogs.id],
+  }),
+  user: one(users, {
+    fields: [chatConversations.userId],
+    references: [users.id],
+  }),
+  messages: many(chatMessages),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  conversation: one(chatConversations, {
+    fields: [chatMessages.conversationId],
+    references: [chatConversations.id],
+  }),
 }));
 
 export const medicationsRelations = relations(medications, ({ one, many }) => ({
@@ -168,6 +516,10 @@ export const medicationLogsRelations = relations(medicationLogs, ({ one }) => ({
     fields: [medicationLogs.medicationId],
     references: [medications.id],
   }),
+  givenByUser: one(users, {
+    fields: [medicationLogs.givenBy],
+    references: [users.id],
+  }),
 }));
 
 export const appointmentsRelations = relations(appointments, ({ one }) => ({
@@ -175,6 +527,35 @@ export const appointmentsRelations = relations(appointments, ({ one }) => ({
     fields: [appointments.dogId],
     references: [dogs.id],
   }),
+  clinic: one(clinics, {
+    fields: [appointments.clinicId],
+    references: [clinics.id],
+  }),
+  veterinarian: one(veterinarians, {
+    fields: [appointments.veterinarianId],
+    references: [veterinarians.id],
+  }),
+  healthRecord: one(healthRecords, {
+    fields: [appointments.healthRecordId],
+    references: [healthRecords.id],
+  }),
+}));
+
+export const clinicsRelations = relations(clinics, ({ one, many }) => ({
+  user: one(users, {
+    fields: [clinics.userId],
+    references: [users.id],
+  }),
+  veterinarians: many(veterinarians),
+  appointments: many(appointments),
+}));
+
+export const veterinariansRelations = relations(veterinarians, ({ one, many }) => ({
+  clinic: one(clinics, {
+    fields: [veterinarians.clinicId],
+    references: [clinics.id],
+  }),
+  appointments: many(appointments),
 }));
 
 export const weightRecordsRelations = relations(weightRecords, ({ one }) => ({
@@ -191,6 +572,32 @@ export const vaccinationsRelations = relations(vaccinations, ({ one }) => ({
   }),
 }));
 
+export const shareLinksRelations = relations(shareLinks, ({ one, many }) => ({
+  dog: one(dogs, {
+    fields: [shareLinks.dogId],
+    references: [dogs.id],
+  }),
+  creator: one(users, {
+    fields: [shareLinks.createdBy],
+    references: [users.id],
+  }),
+  views: many(shareLinkViews),
+}));
+
+export const shareLinkViewsRelations = relations(shareLinkViews, ({ one }) => ({
+  shareLink: one(shareLinks, {
+    fields: [shareLinkViews.shareLinkId],
+    references: [shareLinks.id],
+  }),
+}));
+
+export const dataExportsRelations = relations(dataExports, ({ one }) => ({
+  user: one(users, {
+    fields: [dataExports.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -203,33 +610,200 @@ export const insertDogSchema = createInsertSchema(dogs).omit({
   updatedAt: true,
 });
 
-export const insertHealthRecordSchema = createInsertSchema(healthRecords).omit({
+// Timestamp columns are coerced so ISO strings from JSON request bodies are accepted.
+export const dogRoles = ["owner", "caregiver", "viewer"] as const;
+
+export const insertDogMemberSchema = createInsertSchema(dogMembers, {
+  role: z.enum(dogRoles),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertMedicationSchema = createInsertSchema(medications).omit({
+export const insertDogInviteSchema = createInsertSchema(dogInvites, {
+  role: z.enum(dogRoles),
+  email: z.string().email().nullish(),
+}).omit({
   id: true,
+  acceptedBy: true,
+  acceptedAt: true,
   createdAt: true,
 });
 
-export const insertMedicationLogSchema = createInsertSchema(medicationLogs).omit({
+export const insertShareLinkSchema = createInsertSchema(shareLinks, {
+  label: z.string().trim().max(100).nullish(),
+  rangeFrom: z.coerce.date().nullish(),
+  rangeTo: z.coerce.date().nullish(),
+  expiresAt: z.coerce.date(),
+}).omit({
   id: true,
+  revokedAt: true,
   createdAt: true,
 });
 
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+export const insertShareLinkViewSchema = createInsertSchema(shareLinkViews).omit({
+  id: true,
+  viewedAt: true,
+});
+
+export const insertHealthRecordSchema = createInsertSchema(healthRecords, {
+  recordedAt: z.coerce.date().nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertWeightRecordSchema = createInsertSchema(weightRecords).omit({
+export const medicationLogStatuses = ["given", "skipped"] as const;
+
+export const aiAnalysisKinds = ["symptom", "photo"] as const;
+
+// Built server-side from a provider's validated answer, never from request bodies
+export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses, {
+  kind: z.enum(aiAnalysisKinds),
+  request: z.custom<SymptomAnalysisInput | PhotoAnalysisInput>(),
+  result: z.custom<SymptomAnalysis | PhotoAnalysis>(),
+}).omit({
   id: true,
+  createdAt: true,
 });
 
-export const insertVaccinationSchema = createInsertSchema(vaccinations).omit({
+export const chatMessageRoles = ["user", "assistant"] as const;
+
+export const insertChatConversationSchema = createInsertSchema(chatConversations, {
+  title: z.string().trim().min(1).max(100).nullish(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  role: z.enum(chatMessageRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMedicationSchema = createInsertSchema(medications, {
+  nextDueDate: z.coerce.date().nullish(),
+  schedule: medicationScheduleSchema.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMedicationLogSchema = createInsertSchema(medicationLogs, {
+  givenAt: z.coerce.date().nullish(),
+  scheduledFor: z.coerce.date().nullish(),
+  status: z.enum(medicationLogStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertClinicSchema = createInsertSchema(clinics, {
+  name: z.string().trim().min(1),
+  email: z.string().email().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertVeterinarianSchema = createInsertSchema(veterinarians, {
+  name: z.string().trim().min(1),
+  email: z.string().email().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const appointmentStatuses = ["scheduled", "completed", "cancelled"] as const;
+
+// Outcome fields and links are set by the complete/follow-up actions, not edited directly
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  scheduledAt: z.coerce.date(),
+  status: z.enum(appointmentStatuses).optional(),
+}).omit({
+  id: true,
+  diagnosis: true,
+  outcomeNotes: true,
+  cost: true,
+  documentUrls: true,
+  healthRecordId: true,
+  completedAt: true,
+  followUpOfId: true,
+  createdAt: true,
+});
+
+export const appointmentOutcomeSchema = z.object({
+  diagnosis: z.string().trim().nullish(),
+  outcomeNotes: z.string().trim().nullish(),
+  cost: z.coerce.number().nonnegative().nullish(),
+  documentUrls: z.array(z.string().startsWith("/objects/")).max(10).default([]),
+});
+
+export const insertWeightRecordSchema = createInsertSchema(weightRecords, {
+  recordedAt: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+});
+
+export const insertVaccinationSchema = createInsertSchema(vaccinations, {
+  administeredAt: z.coerce.date(),
+  vaccineCode: z.enum(vaccineCodes).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Per-dog health timeline: every source table merged into one feed
+export const timelineEventTypes = [
+  "health_record",
+  "weight",
+  "vaccination",
+  "medication",
+  "medication_log",
+  "appointment",
+] as const;
+
+export const dataExportStatuses = ["pending", "running", "ready", "failed", "expired"] as const;
+
+// Record types the bulk import wizard accepts
+export const bulkImportTypes = ["weight", "vaccination", "health_record"] as const;
+export const bulkImportRowStatuses = ["valid", "invalid", "duplicate"] as const;
+
+export const notificationTypes = ["medication_due", "vaccination_due", "appointment_upcoming"] as const;
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).omit({
+  id: true,
+  readAt: true,
+  emailedAt: true,
+  pushedAt: true,
+  createdAt: true,
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences, {
+  medicationLeadMinutes: z.number().int().min(0).max(24 * 60),
+  vaccinationLeadDays: z.number().int().min(0).max(90),
+  appointmentLeadHours: z.number().int().min(0).max(7 * 24),
+  quietHoursStart: timeOfDay.nullish(),
+  quietHoursEnd: timeOfDay.nullish(),
+}).omit({
+  updatedAt: true,
+});
+
+// Mirrors the browser's PushSubscription.toJSON()
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
 });
 
 // Types
@@ -237,15 +811,88 @@ export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertDog = z.infer<typeof insertDogSchema>;
 export type Dog = typeof dogs.$inferSelect;
+export type DogRole = (typeof dogRoles)[number];
+export type InsertDogMember = z.infer<typeof insertDogMemberSchema>;
+export type DogMember = typeof dogMembers.$inferSelect;
+export type InsertDogInvite = z.infer<typeof insertDogInviteSchema>;
+export type DogInvite = typeof dogInvites.$inferSelect;
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLinkView = z.infer<typeof insertShareLinkViewSchema>;
+export type ShareLinkView = typeof shareLinkViews.$inferSelect;
 export type InsertHealthRecord = z.infer<typeof insertHealthRecordSchema>;
 export type HealthRecord = typeof healthRecords.$inferSelect;
+export type AiAnalysisKind = (typeof aiAnalysisKinds)[number];
+export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
+export type AiAnalysis = typeof aiAnalyses.$inferSelect;
+export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatMessageRole = (typeof chatMessageRoles)[number];
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
 export type Medication = typeof medications.$inferSelect;
 export type InsertMedicationLog = z.infer<typeof insertMedicationLogSchema>;
 export type MedicationLog = typeof medicationLogs.$inferSelect;
+export type InsertClinic = z.infer<typeof insertClinicSchema>;
+export type Clinic = typeof clinics.$inferSelect;
+export type InsertVeterinarian = z.infer<typeof insertVeterinarianSchema>;
+export type Veterinarian = typeof veterinarians.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type AppointmentStatus = (typeof appointmentStatuses)[number];
+export type AppointmentOutcome = z.infer<typeof appointmentOutcomeSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertWeightRecord = z.infer<typeof insertWeightRecordSchema>;
 export type WeightRecord = typeof weightRecords.$inferSelect;
 export type InsertVaccination = z.infer<typeof insertVaccinationSchema>;
 export type Vaccination = typeof vaccinations.$inferSelect;
+export type NotificationType = (typeof notificationTypes)[number];
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type PushSubscriptionPayload = z.infer<typeof pushSubscriptionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type DataExportStatus = (typeof dataExportStatuses)[number];
+export type DataExport = typeof dataExports.$inferSelect;
+export type TimelineEventType = (typeof timelineEventTypes)[number];
+export type TimelineEvent =
+  | { type: "health_record"; id: string; occurredAt: Date; data: HealthRecord }
+  | { type: "weight"; id: string; occurredAt: Date; data: WeightRecord }
+  | { type: "vaccination"; id: string; occurredAt: Date; data: Vaccination }
+  | { type: "medication"; id: string; occurredAt: Date; data: Medication }
+  | { type: "medication_log"; id: string; occurredAt: Date; data: MedicationLog & { medicationName: string } }
+  | { type: "appointment"; id: string; occurredAt: Date; data: Appointment };
+// What a share link's public page shows; photo URLs point at the link's own object route
+export type SharedDogHealth = {
+  dog: Pick<Dog, "name" | "breed" | "birthDate" | "gender" | "weight" | "microchipId">;
+  label: string | null;
+  rangeFrom: Date | null;
+  rangeTo: Date | null;
+  expiresAt: Date;
+  healthRecords: HealthRecord[];
+  medications: Medication[];
+  vaccinations: Vaccination[];
+  weightRecords: WeightRecord[];
+  appointments: Appointment[];
+};
+export type BulkImportType = (typeof bulkImportTypes)[number];
+export type BulkImportRowStatus = (typeof bulkImportRowStatuses)[number];
+// Dry-run result of a bulk import: how each source row maps onto a record and why it can't be saved
+export type BulkImportPreview = {
+  type: BulkImportType;
+  format: "csv" | "json";
+  // Source columns (CSV headers or JSON keys) and the field each one feeds; null leaves a field empty
+  columns: string[];
+  fields: { field: string; label: string; required: boolean }[];
+  mapping: Record<string, string | null>;
+  rows: {
+    row: number;
+    status: BulkImportRowStatus;
+    values: Record<string, string | null>;
+    errors: string[];
+  }[];
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+};
@@ -0,0 +1,402 @@
+import type { TriageUrgencyLevel } from "./triage";
+
+// Common household toxins with how much of the toxic compound each unit holds
+// and the doses, in mg per kg of body weight, at which effects are reported.
+// Figures follow veterinary toxicology references and lean to the cautious end;
+// dogs vary, so results are guidance for calling a vet, never a reason not to.
+// Bump the version whenever an amount or threshold changes.
+
+export const TOXIN_DATABASE_VERSION = 1;
+
+export const toxinSeverities = ["none", "mild", "moderate", "severe"] as const;
+
+export type ToxinSeverity = (typeof toxinSeverities)[number];
+
+export type ToxinCategory = "Chocolate" | "Foods" | "Medicines" | "Rodenticides";
+
+export interface ToxinUnit {
+  id: string;
+  label: string;
+  // Milligrams of the toxic compound in one unit
+  mgPerUnit: number;
+}
+
+export interface ToxinThreshold {
+  mgPerKg: number;
+  severity: Exclude<ToxinSeverity, "none">;
+  effect: string;
+}
+
+export interface ToxinDefinition {
+  id: string;
+  name: string;
+  category: ToxinCategory;
+  // What the thresholds measure, e.g. theobromine in chocolate
+  compound: string;
+  // Lower-case fragments that recognise the substance in free text
+  aliases: string[];
+  units: ToxinUnit[];
+  // Ascending by dose
+  thresholds: ToxinThreshold[];
+  // For substances with no known safe amount
+  minimumSeverity?: ToxinSeverity;
+  signs: string[];
+  advice: string[];
+}
+
+const GRAMS_PER_OUNCE = 28.35;
+
+// Grams and ounces of something holding mgPerOunce of the compound
+function byWeight(mgPerOunce: number): ToxinUnit[] {
+  return [
+    { id: "oz", label: "ounces", mgPerUnit: mgPerOunce },
+    { id: "g", label: "grams", mgPerUnit: mgPerOunce / GRAMS_PER_OUNCE },
+  ];
+}
+
+const chocolateThresholds: ToxinThreshold[] = [
+  { mgPerKg: 20, severity: "mild", effect: "Vomiting, diarrhea, thirst and restlessness" },
+  { mgPerKg: 40, severity: "moderate", effect: "Racing heart and abnormal heart rhythm" },
+  { mgPerKg: 60, severity: "severe", effect: "Tremors and seizures; can be fatal" },
+];
+
+const chocolateSigns = ["Vomiting or diarrhea", "Restlessness or hyperactivity", "Racing heart", "Tremors or seizures"];
+
+const chocolateAdvice = [
+  "Signs can take 6–12 hours to appear and last for days",
+  "Keep the wrapper so the vet can check the type and amount",
+];
+
+const rodenticideSigns = [
+  "Weakness or pale gums",
+  "Bleeding from the nose or gums, or blood in urine or stool",
+  "Wobbling, tremors or seizures",
+  "Vomiting, excessive thirst or urination",
+];
+
+const rodenticideAdvice = [
+  "Bring the bait packaging: treatment depends on the active ingredient",
+  "Signs may not appear for days, so see a vet even if your dog seems well",
+];
+
+export const toxinCatalog: ToxinDefinition[] = [
+  {
+    id: "chocolate_white",
+    name: "White chocolate",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["white chocolate"],
+    units: byWeight(0.25),
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: ["White chocolate is rarely toxic, but its fat can still upset the stomach or pancreas"],
+  },
+  {
+    id: "chocolate_milk",
+    name: "Milk chocolate",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["chocolate", "brownie", "cocoa", "cacao"],
+    units: byWeight(58),
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: chocolateAdvice,
+  },
+  {
+    id: "chocolate_dark",
+    name: "Dark or semisweet chocolate",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["dark chocolate", "semisweet", "chocolate chips"],
+    units: byWeight(150),
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: chocolateAdvice,
+  },
+  {
+    id: "chocolate_baking",
+    name: "Baking (unsweetened) chocolate",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["baking chocolate", "unsweetened chocolate"],
+    units: byWeight(450),
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: chocolateAdvice,
+  },
+  {
+    id: "cocoa_powder",
+    name: "Dry cocoa powder",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["cocoa powder"],
+    units: [...byWeight(800), { id: "tbsp", label: "tablespoons", mgPerUnit: 800 * (5 / GRAMS_PER_OUNCE) }],
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: chocolateAdvice,
+  },
+  {
+    id: "cocoa_mulch",
+    name: "Cocoa bean mulch",
+    category: "Chocolate",
+    compound: "theobromine",
+    aliases: ["cocoa mulch", "cocoa bean", "cocoa shell"],
+    units: byWeight(255),
+    thresholds: chocolateThresholds,
+    signs: chocolateSigns,
+    advice: ["Mulch can also block the gut if a lot was eaten"],
+  },
+  {
+    id: "xylitol",
+    name: "Xylitol (sugar-free gum, sweets, some peanut butters)",
+    category: "Foods",
+    compound: "xylitol",
+    aliases: ["xylitol", "sugar-free gum", "sugar free gum", "birch sugar"],
+    units: [
+      { id: "g", label: "grams of xylitol", mgPerUnit: 1000 },
+      // Gum ranges from about 0.2 g to 1 g per piece; the top of the range is assumed
+      { id: "gum", label: "pieces of sugar-free gum", mgPerUnit: 1000 },
+    ],
+    thresholds: [
+      { mgPerKg: 50, severity: "mild", effect: "Possible drop in blood sugar" },
+      { mgPerKg: 100, severity: "severe", effect: "Dangerous drop in blood sugar within 10–60 minutes" },
+      { mgPerKg: 500, severity: "severe", effect: "Liver failure" },
+    ],
+    signs: ["Weakness or wobbling", "Vomiting", "Collapse or seizures", "Yellow gums or eyes (days later)"],
+    advice: [
+      "Check the ingredients label for xylitol or birch sugar and bring it with you",
+      "Low blood sugar can set in within half an hour, so do not wait for signs",
+    ],
+  },
+  {
+    id: "grapes",
+    name: "Grapes",
+    category: "Foods",
+    compound: "grapes",
+    aliases: ["grape"],
+    units: [
+      { id: "grapes", label: "grapes", mgPerUnit: 5000 },
+      { id: "g", label: "grams", mgPerUnit: 1000 },
+    ],
+    thresholds: [{ mgPerKg: 19600, severity: "severe", effect: "Kidney failure reported at this amount" }],
+    minimumSeverity: "moderate",
+    signs: ["Vomiting within a few hours", "Lethargy and loss of appetite", "Producing little or no urine"],
+    advice: ["Some dogs suffer kidney failure from a few grapes, so any amount needs a vet"],
+  },
+  {
+    id: "raisins",
+    name: "Raisins, sultanas or currants",
+    category: "Foods",
+    compound: "raisins",
+    aliases: ["raisin", "sultana", "currant", "fruit cake", "hot cross bun"],
+    units: [
+      { id: "raisins", label: "raisins", mgPerUnit: 500 },
+      { id: "box", label: "small boxes (1.5 oz)", mgPerUnit: 1.5 * GRAMS_PER_OUNCE * 1000 },
+      { id: "g", label: "grams", mgPerUnit: 1000 },
+    ],
+    thresholds: [{ mgPerKg: 2800, severity: "severe", effect: "Kidney failure reported at this amount" }],
+    minimumSeverity: "moderate",
+    signs: ["Vomiting within a few hours", "Lethargy and loss of appetite", "Producing little or no urine"],
+    advice: ["Some dogs suffer kidney failure from a few raisins, so any amount needs a vet"],
+  },
+  {
+    id: "onion",
+    name: "Onions, leeks or chives",
+    category: "Foods",
+    compound: "onion",
+    aliases: ["onion", "leek", "chive", "shallot"],
+    units: [
+      { id: "onion", label: "medium onions", mgPerUnit: 150000 },
+      { id: "g", label: "grams", mgPerUnit: 1000 },
+      { id: "oz", label: "ounces", mgPerUnit: GRAMS_PER_OUNCE * 1000 },
+    ],
+    thresholds: [
+      { mgPerKg: 5000, severity: "moderate", effect: "Damage to red blood cells (anemia) over the next few days" },
+      { mgPerKg: 15000, severity: "severe", effect: "Serious anemia" },
+    ],
+    signs: ["Pale gums", "Weakness or tiring quickly", "Fast breathing", "Red or brown urine"],
+    advice: ["Anemia can take 1–5 days to show, so watch your dog closely for a week"],
+  },
+  {
+    id: "garlic",
+    name: "Garlic",
+    category: "Foods",
+    compound: "garlic",
+    aliases: ["garlic"],
+    units: [
+      { id: "clove", label: "cloves", mgPerUnit: 5000 },
+      { id: "g", label: "grams", mgPerUnit: 1000 },
+    ],
+    thresholds: [
+      { mgPerKg: 1000, severity: "moderate", effect: "Damage to red blood cells (anemia) over the next few days" },
+      { mgPerKg: 3000, severity: "severe", effect: "Serious anemia" },
+    ],
+    signs: ["Pale gums", "Weakness or tiring quickly", "Fast breathing", "Red or brown urine"],
+    advice: ["Anemia can take 1–5 days to show, so watch your dog closely for a week"],
+  },
+  {
+    id: "macadamia",
+    name: "Macadamia nuts",
+    category: "Foods",
+    compound: "macadamia nuts",
+    aliases: ["macadamia"],
+    units: [
+      { id: "nuts", label: "nuts", mgPerUnit: 2500 },
+      { id: "g", label: "grams", mgPerUnit: 1000 },
+    ],
+    thresholds: [{ mgPerKg: 2400, severity: "mild", effect: "Weakness in the back legs, wobbling and fever for 12–48 hours" }],
+    signs: ["Weakness, especially in the back legs", "Wobbling or trembling", "Vomiting", "Fever"],
+    advice: ["If the nuts were chocolate-covered, check the chocolate as well"],
+  },
+  {
+    id: "ibuprofen",
+    name: "Ibuprofen (Advil, Motrin, Nurofen)",
+    category: "Medicines",
+    compound: "ibuprofen",
+    aliases: ["ibuprofen", "advil", "motrin", "nurofen"],
+    units: [
+      { id: "tablet", label: "200 mg tablets", mgPerUnit: 200 },
+      { id: "mg", label: "mg", mgPerUnit: 1 },
+    ],
+    thresholds: [
+      { mgPerKg: 25, severity: "mild", effect: "Vomiting and stomach upset" },
+      { mgPerKg: 100, severity: "moderate", effect: "Stomach ulcers" },
+      { mgPerKg: 175, severity: "severe", effect: "Kidney injury" },
+      { mgPerKg: 400, severity: "severe", effect: "Seizures and coma" },
+    ],
+    signs: ["Vomiting, possibly with blood", "Black, tarry stool", "Not eating", "Drinking and urinating more or less than usual"],
+    advice: ["Bring the packaging so the vet can confirm the strength"],
+  },
+  {
+    id: "naproxen",
+    name: "Naproxen (Aleve)",
+    category: "Medicines",
+    compound: "naproxen",
+    aliases: ["naproxen", "aleve"],
+    units: [
+      { id: "tablet", label: "220 mg tablets", mgPerUnit: 220 },
+      { id: "mg", label: "mg", mgPerUnit: 1 },
+    ],
+    thresholds: [
+      { mgPerKg: 5, severity: "moderate", effect: "Stomach ulcers" },
+      { mgPerKg: 25, severity: "severe", effect: "Kidney injury" },
+    ],
+    signs: ["Vomiting, possibly with blood", "Black, tarry stool", "Not eating", "Drinking and urinating more or less than usual"],
+    advice: ["Naproxen stays in a dog's body for days, so even one tablet needs a vet"],
+  },
+  {
+    id: "acetaminophen",
+    name: "Acetaminophen / paracetamol (Tylenol)",
+    category: "Medicines",
+    compound: "acetaminophen",
+    aliases: ["acetaminophen", "paracetamol", "tylenol"],
+    units: [
+      { id: "tablet325", label: "325 mg tablets", mgPerUnit: 325 },
+      { id: "tablet500", label: "500 mg tablets", mgPerUnit: 500 },
+      { id: "mg", label: "mg", mgPerUnit: 1 },
+    ],
+    thresholds: [
+      { mgPerKg: 50, severity: "mild", effect: "Possible liver damage in sensitive dogs" },
+      { mgPerKg: 100, severity: "severe", effect: "Liver damage" },
+      { mgPerKg: 200, severity: "severe", effect: "Damage to red blood cells, so they can't carry oxygen" },
+    ],
+    signs: ["Brown or grey gums", "Fast or labored breathing", "Swelling of the face or paws", "Yellow gums or eyes"],
+    advice: ["Bring the packaging so the vet can confirm the strength"],
+  },
+  {
+    id: "rodenticide_unknown",
+    name: "Rat or mouse bait (type unknown)",
+    category: "Rodenticides",
+    compound: "bait",
+    aliases: ["rat bait", "rat poison", "mouse bait", "mouse poison", "rodenticide", "d-con"],
+    units: [
+      { id: "g", label: "grams of bait", mgPerUnit: 1000 },
+      { id: "oz", label: "ounces of bait", mgPerUnit: GRAMS_PER_OUNCE * 1000 },
+    ],
+    thresholds: [],
+    minimumSeverity: "severe",
+    signs: rodenticideSigns,
+    advice: rodenticideAdvice,
+  },
+  {
+    id: "rodenticide_anticoagulant",
+    name: "Anticoagulant bait (brodifacoum, bromadiolone, 0.005%)",
+    category: "Rodenticides",
+    compound: "anticoagulant",
+    aliases: ["brodifacoum", "bromadiolone", "difethialone", "warfarin"],
+    units: [
+      { id: "g", label: "grams of bait", mgPerUnit: 0.05 },
+      { id: "oz", label: "ounces of bait", mgPerUnit: 0.05 * GRAMS_PER_OUNCE },
+    ],
+    thresholds: [
+      { mgPerKg: 0.02, severity: "moderate", effect: "Bleeding problems 3–5 days later without treatment" },
+      { mgPerKg: 0.1, severity: "severe", effect: "Life-threatening internal bleeding" },
+    ],
+    minimumSeverity: "mild",
+    signs: rodenticideSigns,
+    advice: rodenticideAdvice,
+  },
+  {
+    id: "rodenticide_bromethalin",
+    name: "Bromethalin bait (0.01%)",
+    category: "Rodenticides",
+    compound: "bromethalin",
+    aliases: ["bromethalin"],
+    units: [
+      { id: "g", label: "grams of bait", mgPerUnit: 0.1 },
+      { id: "oz", label: "ounces of bait", mgPerUnit: 0.1 * GRAMS_PER_OUNCE },
+    ],
+    thresholds: [
+      { mgPerKg: 0.1, severity: "moderate", effect: "Brain swelling is possible" },
+      { mgPerKg: 1.67, severity: "severe", effect: "Tremors, seizures and paralysis" },
+    ],
+    minimumSeverity: "mild",
+    signs: rodenticideSigns,
+    advice: rodenticideAdvice,
+  },
+  {
+    id: "rodenticide_cholecalciferol",
+    name: "Cholecalciferol (vitamin D3) bait (0.075%)",
+    category: "Rodenticides",
+    compound: "cholecalciferol",
+    aliases: ["cholecalciferol", "vitamin d3 bait"],
+    units: [
+      { id: "g", label: "grams of bait", mgPerUnit: 0.75 },
+      { id: "oz", label: "ounces of bait", mgPerUnit: 0.75 * GRAMS_PER_OUNCE },
+    ],
+    thresholds: [
+      { mgPerKg: 0.1, severity: "moderate", effect: "Raised calcium levels" },
+      { mgPerKg: 0.5, severity: "severe", effect: "Kidney failure" },
+    ],
+    minimumSeverity: "mild",
+    signs: rodenticideSigns,
+    advice: rodenticideAdvice,
+  },
+];
+
+export function getToxinDefinition(id: string): ToxinDefinition | undefined {
+  return toxinCatalog.find((toxin) => toxin.id === id);
+}
+
+// The calculator's answer for one exposure
+export interface ToxinExposureAssessment {
+  toxinId: string;
+  toxinName: string;
+  compound: string;
+  amount: number;
+  unitLabel: string;
+  weightLbs: number;
+  // When the weight used was recorded; null when it came from the dog's profile
+  weightRecordedAt: string | null;
+  doseMg: number;
+  exposureMgPerKg: number;
+  severity: ToxinSeverity;
+  urgencyLevel: TriageUrgencyLevel;
+  // What the highest threshold reached is known to cause
+  expectedEffect: string;
+  recommendedAction: string;
+  immediateActions: string[];
+  signs: string[];
+  thresholds: ToxinThreshold[];
+  databaseVersion: number;
+}
@@ -0,0 +1,67 @@
+import type { EmergencyAssessment } from "./aiTypes";
+
+// Symptoms offered by the emergency checker. The server's triage rules refer to
+// them by id; the labels are what owners see and what the AI is sent.
+
+export type TriageSymptomGroup = "emergency" | "urgent" | "routine";
+
+export interface TriageSymptom {
+  id: string;
+  label: string;
+  group: TriageSymptomGroup;
+}
+
+export const triageSymptoms = [
+  { id: "difficulty_breathing", label: "Difficulty breathing or gasping", group: "emergency" },
+  { id: "seizures", label: "Seizures or convulsions", group: "emergency" },
+  { id: "collapse", label: "Loss of consciousness or collapse", group: "emergency" },
+  { id: "severe_bleeding", label: "Severe bleeding", group: "emergency" },
+  { id: "poisoning", label: "Suspected poisoning", group: "emergency" },
+  { id: "swollen_belly", label: "Swollen or hard belly", group: "emergency" },
+  { id: "unproductive_retching", label: "Retching without bringing anything up", group: "emergency" },
+  { id: "severe_vomiting_diarrhea", label: "Severe vomiting or diarrhea", group: "emergency" },
+  { id: "cannot_urinate", label: "Unable to urinate or defecate", group: "emergency" },
+  { id: "severe_pain", label: "Signs of severe pain", group: "emergency" },
+  { id: "pale_gums", label: "Pale or blue gums", group: "emergency" },
+  { id: "unresponsive", label: "Severe lethargy or unresponsiveness", group: "emergency" },
+  { id: "persistent_vomiting", label: "Persistent vomiting", group: "urgent" },
+  { id: "not_eating", label: "Loss of appetite for 24+ hours", group: "urgent" },
+  { id: "lethargy", label: "Unusual lethargy", group: "urgent" },
+  { id: "limping", label: "Limping or difficulty moving", group: "urgent" },
+  { id: "thirst_urination", label: "Excessive thirst or urination", group: "urgent" },
+  { id: "coughing", label: "Coughing or breathing changes", group: "urgent" },
+  { id: "skin_irritation", label: "Skin irritation or rash", group: "urgent" },
+  { id: "behavior_change", label: "Behavioral changes", group: "urgent" },
+  { id: "eye_problem", label: "Eye discharge or redness", group: "urgent" },
+  { id: "minor_wound", label: "Minor wounds or cuts", group: "urgent" },
+  { id: "minor_scratching", label: "Minor scratching", group: "routine" },
+  { id: "appetite_change", label: "Slight change in appetite", group: "routine" },
+  { id: "tired_after_exercise", label: "Mild lethargy after exercise", group: "routine" },
+  { id: "behavior_quirks", label: "Minor behavioral quirks", group: "routine" },
+  { id: "grooming", label: "Regular grooming needs", group: "routine" },
+  { id: "checkup", label: "Routine check-up items", group: "routine" },
+  { id: "preventive_care", label: "Preventive care questions", group: "routine" },
+  { id: "diet_exercise", label: "Diet or exercise concerns", group: "routine" },
+  { id: "training", label: "Training or behavior tips", group: "routine" },
+  { id: "wellness", label: "General wellness questions", group: "routine" },
+] as const satisfies readonly TriageSymptom[];
+
+export type TriageSymptomId = (typeof triageSymptoms)[number]["id"];
+
+// Accepts an id or a label, as the checker sends labels so the AI can read them
+export function findTriageSymptom(idOrLabel: string): (typeof triageSymptoms)[number] | undefined {
+  const key = idOrLabel.trim().toLowerCase();
+  return triageSymptoms.find((symptom) => symptom.id === key || symptom.label.toLowerCase() === key);
+}
+
+export type TriageUrgencyLevel = EmergencyAssessment["urgencyLevel"];
+
+// An emergency assessment with the rule-based triage behind it
+export interface TriageAssessment extends EmergencyAssessment {
+  rulesVersion: number;
+  matchedRules: { id: string; urgencyLevel: TriageUrgencyLevel; reason: string }[];
+  // The AI's own rating: undefined when it wasn't asked, null when it couldn't answer
+  aiUrgencyLevel?: TriageUrgencyLevel | null;
+  // The rules rated the situation more urgent than the AI did
+  escalatedByRules?: boolean;
+}
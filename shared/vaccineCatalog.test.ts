@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchVaccineByName } from "./vaccineCatalog";
+
+test("recognises common free-text vaccine names", () => {
+  const cases: [string, string | undefined][] = [
+    ["Rabies 3yr", "rabies"],
+    ["DA2PP", "dhpp"],
+    ["DHLPP", "dhpp"],
+    ["Parainfluenza", "dhpp"],
+    ["Distemper/Parvovirus", "dhpp"],
+    ["Bordetella + CPiV", "bordetella"],
+    ["Leptospirosis 4-way", "leptospirosis"],
+    ["Canine Influenza H3N2", "influenza"],
+    ["Flu booster", "influenza"],
+    ["CPiV", undefined],
+    ["Heartworm test", undefined],
+  ];
+  for (const [name, code] of cases) {
+    assert.equal(matchVaccineByName(name)?.code, code, name);
+  }
+});
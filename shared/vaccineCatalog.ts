@@ -0,0 +1,143 @@
+// Core and non-core canine vaccines with their primary series and booster intervals.
+// Intervals follow common AAHA guidance; clinics and local law may differ, so the
+// computed due dates can always be overridden on the vaccination record.
+
+export const vaccineCodes = ["rabies", "dhpp", "bordetella", "leptospirosis", "lyme", "influenza"] as const;
+
+export type VaccineCode = (typeof vaccineCodes)[number];
+
+export interface VaccineDefinition {
+  code: VaccineCode;
+  name: string;
+  core: boolean;
+  description: string;
+  // Lower-case words or phrases used to recognise free-text vaccine names
+  aliases: string[];
+  // Earliest age for the first dose
+  minAgeWeeks: number;
+  // Gap between doses of the primary series
+  seriesIntervalWeeks: number;
+  // Doses in the primary series when started on an adult dog
+  seriesDoses: number;
+  // Puppies keep receiving series doses until one is given at or after this age
+  puppySeriesUntilWeeks?: number;
+  // First booster after the primary series, then the recurring booster interval
+  firstBoosterMonths: number;
+  boosterMonths: number;
+}
+
+export const vaccineCatalog: VaccineDefinition[] = [
+  {
+    code: "rabies",
+    name: "Rabies",
+    core: true,
+    description: "Required by law in most areas. One dose, boosted after a year, then every three years.",
+    aliases: ["rabies"],
+    minAgeWeeks: 12,
+    seriesIntervalWeeks: 0,
+    seriesDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 36,
+  },
+  {
+    code: "dhpp",
+    name: "DHPP (Distemper, Hepatitis, Parvovirus, Parainfluenza)",
+    core: true,
+    description: "Puppy series every 3–4 weeks until 16 weeks old, boosted after a year, then every three years.",
+    aliases: ["dhpp", "dhlpp", "da2pp", "da2ppv", "dapp", "dhppi", "distemper", "parvo", "parvovirus", "parainfluenza"],
+    minAgeWeeks: 6,
+    seriesIntervalWeeks: 4,
+    seriesDoses: 2,
+    puppySeriesUntilWeeks: 16,
+    firstBoosterMonths: 12,
+    boosterMonths: 36,
+  },
+  {
+    code: "bordetella",
+    name: "Bordetella (Kennel Cough)",
+    core: false,
+    description: "Recommended for dogs that board, attend daycare or visit groomers. Boosted yearly.",
+    aliases: ["bordetella", "kennel cough"],
+    minAgeWeeks: 8,
+    seriesIntervalWeeks: 0,
+    seriesDoses: 1,
+    firstBoosterMonths: 12,
+    boosterMonths: 12,
+  },
+  {
+    code: "leptospirosis",
+    name: "Leptospirosis",
+    core: false,
+    description: "Two doses 2–4 weeks apart, then yearly. Recommended where dogs contact standing water or wildlife.",
+    aliases: ["lepto", "leptospirosis"],
+    minAgeWeeks: 12,
+    seriesIntervalWeeks: 3,
+    seriesDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12,
+  },
+  {
+    code: "lyme",
+    name: "Lyme Disease",
+    core: false,
+    description: "Two doses 2–4 weeks apart, then yearly. Recommended in tick-endemic areas.",
+    aliases: ["lyme", "borrelia"],
+    minAgeWeeks: 12,
+    seriesIntervalWeeks: 3,
+    seriesDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12,
+  },
+  {
+    code: "influenza",
+    name: "Canine Influenza (H3N2/H3N8)",
+    core: false,
+    description: "Two doses 2–4 weeks apart, then yearly. Often required for boarding and dog shows.",
+    aliases: ["influenza", "flu", "h3n2", "h3n8", "civ"],
+    minAgeWeeks: 8,
+    seriesIntervalWeeks: 3,
+    seriesDoses: 2,
+    firstBoosterMonths: 12,
+    boosterMonths: 12,
+  },
+];
+
+export function getVaccineDefinition(code: string | null | undefined): VaccineDefinition | undefined {
+  return vaccineCatalog.find((vaccine) => vaccine.code === code);
+}
+
+const aliasPatterns = vaccineCatalog
+  .flatMap((vaccine) =>
+    vaccine.aliases.map((alias) => ({
+      vaccine,
+      alias,
+      pattern: new RegExp(`\\b${alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`),
+    })),
+  )
+  // Specific names win over generic ones, so "parainfluenza" is DHPP rather than "flu"
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+// Recognises a catalog vaccine from a free-text name such as "Rabies 3yr" or "DA2PP".
+// Aliases match whole words only: "CPiV" and "Parainfluenza" are not influenza.
+export function matchVaccineByName(name: string): VaccineDefinition | undefined {
+  const normalized = name.toLowerCase();
+  return aliasPatterns.find(({ pattern }) => pattern.test(normalized))?.vaccine;
+}
+
+export type VaccineComplianceStatus = "up_to_date" | "due_soon" | "overdue";
+
+export interface VaccineCompliance {
+  code: VaccineCode;
+  name: string;
+  core: boolean;
+  status: VaccineComplianceStatus;
+  lastAdministeredAt: string | null;
+  // null when the due date can't be worked out (unvaccinated dog with no birth date)
+  nextDueDate: string | null;
+  dosesGiven: number;
+}
+
+export interface VaccinationStatus {
+  status: VaccineComplianceStatus;
+  vaccines: VaccineCompliance[];
+}